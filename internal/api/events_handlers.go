@@ -0,0 +1,353 @@
+package api
+
+import (
+	"encoding/json"
+	"fmt"
+	"net/http"
+	"sort"
+	"sync"
+	"time"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+	"scriberr/pkg/logger"
+
+	"github.com/gin-gonic/gin"
+)
+
+const (
+	// How often the hub looks for job changes while clients are connected
+	jobEventInterval = time.Second
+	// Comment lines keep idle connections open through proxies
+	jobEventHeartbeat = 15 * time.Second
+	// Events a slow client may fall behind before it is disconnected; it
+	// reconnects and starts again from a fresh snapshot
+	jobEventBuffer = 256
+)
+
+// JobState is the live state of a job carried by the job event stream
+type JobState struct {
+	ID            string           `json:"id"`
+	Status        models.JobStatus `json:"status"`
+	ErrorMessage  *string          `json:"error_message,omitempty"`
+	IsMultiTrack  bool             `json:"is_multi_track"`
+	MergeStatus   string           `json:"merge_status,omitempty"`
+	MergeError    *string          `json:"merge_error,omitempty"`
+	QueuePosition int              `json:"queue_position,omitempty"`
+	TrackProgress gin.H            `json:"track_progress,omitempty"`
+}
+
+type jobEvent struct {
+	name string
+	data []byte
+}
+
+// jobEventHub watches job state and fans changes out to every connected
+// client. It only queries the database while at least one client listens, so
+// N open tabs cost one query per interval instead of N polling loops, and
+// each query only reads the jobs whose state can have changed.
+type jobEventHub struct {
+	mu          sync.Mutex
+	subscribers map[chan jobEvent]struct{}
+	states      map[string][]byte
+	stop        chan struct{}
+}
+
+func newJobEventHub() *jobEventHub {
+	return &jobEventHub{subscribers: make(map[chan jobEvent]struct{})}
+}
+
+// loadJobStates reads the current state of every job, or with a non-zero
+// since only of the jobs still queued, running or merging and those updated
+// since then. Queue positions follow the order jobs were queued in, and
+// track progress is only computed for multi-track jobs that are still
+// running.
+func loadJobStates(since time.Time) ([]JobState, error) {
+	query := database.DB.
+		Select("id", "status", "error_message", "is_multi_track", "merge_status", "merge_error", "updated_at").
+		Where("id NOT LIKE 'track_%'")
+	if !since.IsZero() {
+		// Every queued job is included, so queue positions stay right
+		query = query.Where("status IN ? OR merge_status IN ? OR updated_at >= ?",
+			[]models.JobStatus{models.StatusPending, models.StatusProcessing},
+			[]string{"pending", "processing"},
+			since)
+	}
+	var jobs []models.TranscriptionJob
+	if err := query.Order("updated_at ASC").Find(&jobs).Error; err != nil {
+		return nil, err
+	}
+
+	states := make([]JobState, 0, len(jobs))
+	position := 0
+	for _, job := range jobs {
+		state := JobState{
+			ID:           job.ID,
+			Status:       job.Status,
+			ErrorMessage: job.ErrorMessage,
+			IsMultiTrack: job.IsMultiTrack,
+			MergeStatus:  job.MergeStatus,
+			MergeError:   job.MergeError,
+		}
+		if job.Status == models.StatusPending {
+			position++
+			state.QueuePosition = position
+		}
+		if job.IsMultiTrack && (job.Status == models.StatusPending || job.Status == models.StatusProcessing) {
+			if progress, err := loadTrackProgress(job.ID); err == nil {
+				state.TrackProgress = progress
+			}
+		}
+		states = append(states, state)
+	}
+
+	sort.Slice(states, func(i, j int) bool { return states[i].ID < states[j].ID })
+	return states, nil
+}
+
+// loadJobIDs reads the IDs of every job, to notice deleted ones
+func loadJobIDs() (map[string]bool, error) {
+	var ids []string
+	if err := database.DB.Model(&models.TranscriptionJob{}).Where("id NOT LIKE 'track_%'").Pluck("id", &ids).Error; err != nil {
+		return nil, err
+	}
+	exists := make(map[string]bool, len(ids))
+	for _, id := range ids {
+		exists[id] = true
+	}
+	return exists, nil
+}
+
+// diffJobStates lists the events that take a client from prev to next: a
+// "job" event for each changed or new job and a "job_removed" event for each
+// job in prev but not in next
+func diffJobStates(prev, next map[string][]byte) []jobEvent {
+	var events []jobEvent
+	for id, data := range next {
+		if old, ok := prev[id]; !ok || string(old) != string(data) {
+			events = append(events, jobEvent{name: "job", data: data})
+		}
+	}
+	for id := range prev {
+		if _, ok := next[id]; !ok {
+			data, _ := json.Marshal(gin.H{"id": id})
+			events = append(events, jobEvent{name: "job_removed", data: data})
+		}
+	}
+	return events
+}
+
+// subscribe registers a client and returns the snapshot it starts from: the
+// states the hub's next events build on
+func (hub *jobEventHub) subscribe() (chan jobEvent, []JobState, error) {
+	hub.mu.Lock()
+	if hub.stop == nil {
+		// Read without the lock, so a slow query never holds up the hub
+		hub.mu.Unlock()
+		loadedAt := time.Now()
+		states, err := loadJobStates(time.Time{})
+		if err != nil {
+			return nil, nil, err
+		}
+		hub.mu.Lock()
+		// Another client may have started the hub in the meantime
+		if hub.stop == nil {
+			hub.states = encodeJobStates(states)
+			hub.stop = make(chan struct{})
+			go hub.run(hub.stop, loadedAt.Add(-jobEventInterval))
+		}
+	}
+	defer hub.mu.Unlock()
+
+	ch := make(chan jobEvent, jobEventBuffer)
+	hub.subscribers[ch] = struct{}{}
+	return ch, decodeJobStates(hub.states), nil
+}
+
+func (hub *jobEventHub) unsubscribe(ch chan jobEvent) {
+	hub.mu.Lock()
+	defer hub.mu.Unlock()
+
+	if _, ok := hub.subscribers[ch]; !ok {
+		return
+	}
+	delete(hub.subscribers, ch)
+	close(ch)
+	if len(hub.subscribers) == 0 && hub.stop != nil {
+		close(hub.stop)
+		hub.stop = nil
+		hub.states = nil
+	}
+}
+
+func (hub *jobEventHub) run(stop chan struct{}, since time.Time) {
+	ticker := time.NewTicker(jobEventInterval)
+	defer ticker.Stop()
+
+	for {
+		select {
+		case <-ticker.C:
+			loadedAt := time.Now()
+			states, err := loadJobStates(since)
+			if err != nil {
+				logger.Error("Failed to load job states", "error", err)
+				continue
+			}
+			ids, err := loadJobIDs()
+			if err != nil {
+				logger.Error("Failed to load job IDs", "error", err)
+				continue
+			}
+			hub.publish(states, ids, stop)
+			// Overlap the next read a little, so an update written while
+			// this one ran is not missed; unchanged states send nothing
+			since = loadedAt.Add(-jobEventInterval)
+		case <-stop:
+			return
+		}
+	}
+}
+
+// publish merges the states that were read into the last ones and
+// broadcasts what changed. Jobs missing from ids were deleted.
+func (hub *jobEventHub) publish(states []JobState, ids map[string]bool, stop chan struct{}) {
+	hub.mu.Lock()
+	defer hub.mu.Unlock()
+
+	// The last client may have left while the states were loading
+	if hub.stop != stop {
+		return
+	}
+
+	next := make(map[string][]byte, len(hub.states))
+	for id, data := range hub.states {
+		if ids[id] {
+			next[id] = data
+		}
+	}
+	for id, data := range encodeJobStates(states) {
+		next[id] = data
+	}
+	events := diffJobStates(hub.states, next)
+	hub.states = next
+
+	for ch := range hub.subscribers {
+		for _, event := range events {
+			select {
+			case ch <- event:
+			default:
+				// Too far behind; drop the client so it resyncs
+				delete(hub.subscribers, ch)
+				close(ch)
+			}
+			if _, ok := hub.subscribers[ch]; !ok {
+				break
+			}
+		}
+	}
+	if len(hub.subscribers) == 0 {
+		close(hub.stop)
+		hub.stop = nil
+		hub.states = nil
+	}
+}
+
+func encodeJobStates(states []JobState) map[string][]byte {
+	encoded := make(map[string][]byte, len(states))
+	for _, state := range states {
+		data, _ := json.Marshal(state)
+		encoded[state.ID] = data
+	}
+	return encoded
+}
+
+func decodeJobStates(encoded map[string][]byte) []JobState {
+	states := make([]JobState, 0, len(encoded))
+	for _, data := range encoded {
+		var state JobState
+		if err := json.Unmarshal(data, &state); err == nil {
+			states = append(states, state)
+		}
+	}
+	sort.Slice(states, func(i, j int) bool { return states[i].ID < states[j].ID })
+	return states
+}
+
+func writeJobEvent(w gin.ResponseWriter, name string, data []byte) error {
+	if _, err := fmt.Fprintf(w, "event: %s\ndata: %s\n\n", name, data); err != nil {
+		return err
+	}
+	w.Flush()
+	return nil
+}
+
+// StreamJobEvents streams job status changes to the client
+// @Summary Stream job events
+// @Description Server-sent event stream of job state. Starts with a "snapshot" event holding every job, then sends a "job" event whenever a job's status, queue position, track progress or merge status changes and a "job_removed" event when a job is deleted.
+// @Tags events
+// @Produce text/event-stream
+// @Success 200 {string} string "Event stream"
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/events/jobs [get]
+func (h *Handler) StreamJobEvents(c *gin.Context) {
+	ch, states, err := h.jobEvents.subscribe()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to load job states"})
+		return
+	}
+	defer h.jobEvents.unsubscribe(ch)
+
+	c.Header("Content-Type", "text/event-stream")
+	c.Header("Cache-Control", "no-cache")
+	c.Header("Connection", "keep-alive")
+	c.Header("X-Accel-Buffering", "no")
+	c.Status(http.StatusOK)
+
+	snapshot, _ := json.Marshal(states)
+	if err := writeJobEvent(c.Writer, "snapshot", snapshot); err != nil {
+		return
+	}
+
+	heartbeat := time.NewTicker(jobEventHeartbeat)
+	defer heartbeat.Stop()
+
+	for {
+		select {
+		case event, ok := <-ch:
+			if !ok {
+				return
+			}
+			if err := writeJobEvent(c.Writer, event.name, event.data); err != nil {
+				return
+			}
+		case <-heartbeat.C:
+			if _, err := fmt.Fprint(c.Writer, ": ping\n\n"); err != nil {
+				return
+			}
+			c.Writer.Flush()
+		case <-c.Request.Context().Done():
+			return
+		}
+	}
+}
+
+// GetJobStates returns the current state of every job
+// @Summary Get job states
+// @Description Same data as the job event stream's snapshot. Clients poll this while the stream is unavailable.
+// @Tags events
+// @Produce json
+// @Success 200 {array} JobState
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/events/jobs/snapshot [get]
+func (h *Handler) GetJobStates(c *gin.Context) {
+	states, err := loadJobStates(time.Time{})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to load job states"})
+		return
+	}
+	c.JSON(http.StatusOK, states)
+}
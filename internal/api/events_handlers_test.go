@@ -0,0 +1,38 @@
+package api
+
+import (
+	"reflect"
+	"sort"
+	"testing"
+)
+
+func TestDiffJobStates(t *testing.T) {
+	prev := map[string][]byte{
+		"same":    []byte(`{"id":"same","status":"completed"}`),
+		"changed": []byte(`{"id":"changed","status":"processing"}`),
+		"removed": []byte(`{"id":"removed","status":"completed"}`),
+	}
+	next := map[string][]byte{
+		"same":    []byte(`{"id":"same","status":"completed"}`),
+		"changed": []byte(`{"id":"changed","status":"completed"}`),
+		"added":   []byte(`{"id":"added","status":"pending"}`),
+	}
+
+	var got []string
+	for _, event := range diffJobStates(prev, next) {
+		got = append(got, event.name+" "+string(event.data))
+	}
+	sort.Strings(got)
+	want := []string{
+		`job {"id":"added","status":"pending"}`,
+		`job {"id":"changed","status":"completed"}`,
+		`job_removed {"id":"removed"}`,
+	}
+	if !reflect.DeepEqual(got, want) {
+		t.Errorf("diffJobStates() = %q, want %q", got, want)
+	}
+
+	if events := diffJobStates(next, next); len(events) != 0 {
+		t.Errorf("diffJobStates() of equal states returned %d events, want none", len(events))
+	}
+}
@@ -0,0 +1,348 @@
+package api
+
+import (
+	"net/http"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// Deepest folder chain followed when looking up ancestors; guards against
+// cycles in data edited outside the API
+const maxFolderDepth = 64
+
+type FolderRequest struct {
+	Name                     string  `json:"name" binding:"required,min=1"`
+	ParentID                 *string `json:"parent_id"`
+	DefaultProfileID         *string `json:"default_profile_id"`
+	DefaultSummaryTemplateID *string `json:"default_summary_template_id"`
+}
+
+type MoveJobToFolderRequest struct {
+	// Target folder; null or empty moves the job out of every folder
+	FolderID *string `json:"folder_id"`
+}
+
+// FolderListItem is a folder with the number of jobs directly inside it
+type FolderListItem struct {
+	models.Folder
+	JobCount int64 `json:"job_count"`
+}
+
+// emptyToNil treats an empty id like no id, so clients can clear a reference with ""
+func emptyToNil(id *string) *string {
+	if id == nil || strings.TrimSpace(*id) == "" {
+		return nil
+	}
+	return id
+}
+
+// folderExists reports whether an optional folder reference is valid,
+// responding with an error when it isn't
+func folderExists(c *gin.Context, folderID *string) bool {
+	if emptyToNil(folderID) == nil {
+		return true
+	}
+	var count int64
+	if err := database.DB.Model(&models.Folder{}).Where("id = ?", *folderID).Count(&count).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get folder"})
+		return false
+	}
+	if count == 0 {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Folder not found"})
+		return false
+	}
+	return true
+}
+
+// referenceExists reports whether an optional reference to another record is
+// valid, responding with an error when it isn't
+func referenceExists(c *gin.Context, model interface{}, id *string, what string) bool {
+	if emptyToNil(id) == nil {
+		return true
+	}
+	var count int64
+	if err := database.DB.Model(model).Where("id = ?", *id).Count(&count).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get " + strings.ToLower(what)})
+		return false
+	}
+	if count == 0 {
+		c.JSON(http.StatusBadRequest, gin.H{"error": what + " not found"})
+		return false
+	}
+	return true
+}
+
+// validateFolderRequest trims the name and checks what the folder refers to,
+// responding with an error when something is wrong
+func validateFolderRequest(c *gin.Context, req *FolderRequest) bool {
+	req.Name = strings.TrimSpace(req.Name)
+	if req.Name == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Folder name is required"})
+		return false
+	}
+	return folderExists(c, req.ParentID) &&
+		referenceExists(c, &models.TranscriptionProfile{}, req.DefaultProfileID, "Profile") &&
+		referenceExists(c, &models.SummaryTemplate{}, req.DefaultSummaryTemplateID, "Summary template")
+}
+
+// folderChain returns a folder followed by its ancestors, closest first
+func folderChain(folderID *string) []models.Folder {
+	var chain []models.Folder
+	for id := emptyToNil(folderID); id != nil && len(chain) < maxFolderDepth; {
+		var folder models.Folder
+		if err := database.DB.Where("id = ?", *id).First(&folder).Error; err != nil {
+			break
+		}
+		chain = append(chain, folder)
+		id = folder.ParentID
+	}
+	return chain
+}
+
+// findFolderProfile returns the default profile of a folder, inherited from
+// the closest ancestor that has one
+func findFolderProfile(folderID *string) (models.TranscriptionProfile, bool) {
+	var profile models.TranscriptionProfile
+	for _, folder := range folderChain(folderID) {
+		if folder.DefaultProfileID == nil {
+			continue
+		}
+		if err := database.DB.Where("id = ?", *folder.DefaultProfileID).First(&profile).Error; err == nil {
+			return profile, true
+		}
+	}
+	return profile, false
+}
+
+func findFolder(c *gin.Context) (*models.Folder, bool) {
+	var folder models.Folder
+	if err := database.DB.Where("id = ?", c.Param("id")).First(&folder).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Folder not found"})
+		} else {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch folder"})
+		}
+		return nil, false
+	}
+	return &folder, true
+}
+
+// ListFolders returns every folder
+// @Summary List folders
+// @Description Get all folders as a flat list with their parent ids and the number of jobs directly in each
+// @Tags folders
+// @Produce json
+// @Success 200 {array} FolderListItem
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/folders [get]
+func (h *Handler) ListFolders(c *gin.Context) {
+	var folders []models.Folder
+	if err := database.DB.Order("name ASC").Find(&folders).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch folders"})
+		return
+	}
+
+	var counts []struct {
+		FolderID string
+		Count    int64
+	}
+	if err := database.DB.Model(&models.TranscriptionJob{}).
+		Select("folder_id, COUNT(*) AS count").
+		Where("folder_id IS NOT NULL AND id NOT LIKE 'track_%'").
+		Group("folder_id").
+		Scan(&counts).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch folders"})
+		return
+	}
+	countByFolder := make(map[string]int64, len(counts))
+	for _, count := range counts {
+		countByFolder[count.FolderID] = count.Count
+	}
+
+	items := make([]FolderListItem, 0, len(folders))
+	for _, folder := range folders {
+		items = append(items, FolderListItem{Folder: folder, JobCount: countByFolder[folder.ID]})
+	}
+	c.JSON(http.StatusOK, items)
+}
+
+// CreateFolder creates a folder
+// @Summary Create folder
+// @Description Create a folder, optionally inside another one, with its own default profile and summary template
+// @Tags folders
+// @Accept json
+// @Produce json
+// @Param request body FolderRequest true "Folder payload"
+// @Success 201 {object} models.Folder
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/folders [post]
+func (h *Handler) CreateFolder(c *gin.Context) {
+	var req FolderRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if !validateFolderRequest(c, &req) {
+		return
+	}
+
+	folder := models.Folder{
+		Name:                     req.Name,
+		ParentID:                 emptyToNil(req.ParentID),
+		DefaultProfileID:         emptyToNil(req.DefaultProfileID),
+		DefaultSummaryTemplateID: emptyToNil(req.DefaultSummaryTemplateID),
+	}
+	if err := database.DB.Create(&folder).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create folder"})
+		return
+	}
+	c.JSON(http.StatusCreated, folder)
+}
+
+// GetFolder fetches one by id
+// @Summary Get folder
+// @Description Get a folder by ID
+// @Tags folders
+// @Produce json
+// @Param id path string true "Folder ID"
+// @Success 200 {object} models.Folder
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/folders/{id} [get]
+func (h *Handler) GetFolder(c *gin.Context) {
+	folder, ok := findFolder(c)
+	if !ok {
+		return
+	}
+	c.JSON(http.StatusOK, folder)
+}
+
+// UpdateFolder renames, moves or changes the defaults of a folder
+// @Summary Update folder
+// @Description Update a folder's name, parent and defaults. A folder can't be moved into itself or one of its subfolders.
+// @Tags folders
+// @Accept json
+// @Produce json
+// @Param id path string true "Folder ID"
+// @Param request body FolderRequest true "Folder payload"
+// @Success 200 {object} models.Folder
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/folders/{id} [put]
+func (h *Handler) UpdateFolder(c *gin.Context) {
+	var req FolderRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	folder, ok := findFolder(c)
+	if !ok {
+		return
+	}
+	if !validateFolderRequest(c, &req) {
+		return
+	}
+	for _, ancestor := range folderChain(req.ParentID) {
+		if ancestor.ID == folder.ID {
+			c.JSON(http.StatusBadRequest, gin.H{"error": "A folder can't be moved into itself or one of its subfolders"})
+			return
+		}
+	}
+
+	folder.Name = req.Name
+	folder.ParentID = emptyToNil(req.ParentID)
+	folder.DefaultProfileID = emptyToNil(req.DefaultProfileID)
+	folder.DefaultSummaryTemplateID = emptyToNil(req.DefaultSummaryTemplateID)
+	if err := database.DB.Save(folder).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update folder"})
+		return
+	}
+	c.JSON(http.StatusOK, folder)
+}
+
+// DeleteFolder removes a folder without deleting anything in it
+// @Summary Delete folder
+// @Description Delete a folder. Its jobs and subfolders move up to its parent folder.
+// @Tags folders
+// @Produce json
+// @Param id path string true "Folder ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/folders/{id} [delete]
+func (h *Handler) DeleteFolder(c *gin.Context) {
+	folder, ok := findFolder(c)
+	if !ok {
+		return
+	}
+
+	err := database.DB.Transaction(func(tx *gorm.DB) error {
+		if err := tx.Model(&models.TranscriptionJob{}).Where("folder_id = ?", folder.ID).Update("folder_id", folder.ParentID).Error; err != nil {
+			return err
+		}
+		if err := tx.Model(&models.Folder{}).Where("parent_id = ?", folder.ID).Update("parent_id", folder.ParentID).Error; err != nil {
+			return err
+		}
+		return tx.Delete(folder).Error
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete folder"})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"message": "Folder deleted"})
+}
+
+// MoveJobToFolder files a transcription in a folder
+// @Summary Move a transcription to a folder
+// @Description Put a transcription in a folder, or take it out of its folder with a null folder_id
+// @Tags folders
+// @Accept json
+// @Produce json
+// @Param id path string true "Job ID"
+// @Param request body MoveJobToFolderRequest true "Target folder"
+// @Success 200 {object} map[string]string
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/folder [put]
+func (h *Handler) MoveJobToFolder(c *gin.Context) {
+	var req MoveJobToFolderRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if !folderExists(c, req.FolderID) {
+		return
+	}
+
+	folderID := emptyToNil(req.FolderID)
+	result := database.DB.Model(&models.TranscriptionJob{}).Where("id = ?", c.Param("id")).Update("folder_id", folderID)
+	if result.Error != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to move transcription"})
+		return
+	}
+	if result.RowsAffected == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"message": "Transcription moved", "folder_id": folderID})
+}
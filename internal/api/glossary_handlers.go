@@ -0,0 +1,185 @@
+package api
+
+import (
+	"net/http"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+type GlossaryRequest struct {
+	Name        string   `json:"name" binding:"required,min=1"`
+	Description *string  `json:"description"`
+	Terms       []string `json:"terms"`
+}
+
+// normalizeGlossaryTerms trims terms and drops blanks and case-insensitive duplicates
+func normalizeGlossaryTerms(terms []string) []string {
+	seen := make(map[string]bool, len(terms))
+	result := make([]string, 0, len(terms))
+	for _, term := range terms {
+		term = strings.TrimSpace(term)
+		key := strings.ToLower(term)
+		if term == "" || seen[key] {
+			continue
+		}
+		seen[key] = true
+		result = append(result, term)
+	}
+	return result
+}
+
+// ListGlossaries returns all glossaries
+// @Summary List glossaries
+// @Description Get all glossaries (named term lists)
+// @Tags glossaries
+// @Produce json
+// @Success 200 {array} models.Glossary
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/glossaries [get]
+func (h *Handler) ListGlossaries(c *gin.Context) {
+	var items []models.Glossary
+	if err := database.DB.Order("name ASC").Find(&items).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch glossaries"})
+		return
+	}
+	c.JSON(http.StatusOK, items)
+}
+
+// CreateGlossary creates a new glossary
+// @Summary Create glossary
+// @Description Create a new named term list
+// @Tags glossaries
+// @Accept json
+// @Produce json
+// @Param request body GlossaryRequest true "Glossary payload"
+// @Success 201 {object} models.Glossary
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/glossaries [post]
+func (h *Handler) CreateGlossary(c *gin.Context) {
+	var req GlossaryRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	req.Name = strings.TrimSpace(req.Name)
+	if req.Name == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Glossary name is required"})
+		return
+	}
+	item := models.Glossary{
+		Name:        req.Name,
+		Description: req.Description,
+		Terms:       normalizeGlossaryTerms(req.Terms),
+		CreatedAt:   time.Now(),
+		UpdatedAt:   time.Now(),
+	}
+	if err := database.DB.Create(&item).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create glossary"})
+		return
+	}
+	c.JSON(http.StatusCreated, item)
+}
+
+// GetGlossary fetches one by id
+// @Summary Get glossary
+// @Description Get a glossary by ID
+// @Tags glossaries
+// @Produce json
+// @Param id path string true "Glossary ID"
+// @Success 200 {object} models.Glossary
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/glossaries/{id} [get]
+func (h *Handler) GetGlossary(c *gin.Context) {
+	id := c.Param("id")
+	var item models.Glossary
+	if err := database.DB.Where("id = ?", id).First(&item).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Glossary not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch glossary"})
+		return
+	}
+	c.JSON(http.StatusOK, item)
+}
+
+// UpdateGlossary updates an existing glossary
+// @Summary Update glossary
+// @Description Update a glossary's name, description and terms
+// @Tags glossaries
+// @Accept json
+// @Produce json
+// @Param id path string true "Glossary ID"
+// @Param request body GlossaryRequest true "Glossary payload"
+// @Success 200 {object} models.Glossary
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/glossaries/{id} [put]
+func (h *Handler) UpdateGlossary(c *gin.Context) {
+	id := c.Param("id")
+	var req GlossaryRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	req.Name = strings.TrimSpace(req.Name)
+	if req.Name == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Glossary name is required"})
+		return
+	}
+	var item models.Glossary
+	if err := database.DB.Where("id = ?", id).First(&item).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Glossary not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch glossary"})
+		return
+	}
+	item.Name = req.Name
+	item.Description = req.Description
+	item.Terms = normalizeGlossaryTerms(req.Terms)
+	item.UpdatedAt = time.Now()
+	if err := database.DB.Save(&item).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update glossary"})
+		return
+	}
+	c.JSON(http.StatusOK, item)
+}
+
+// DeleteGlossary deletes a glossary. Profiles that still reference it simply
+// skip it when the initial prompt is compiled.
+// @Summary Delete glossary
+// @Description Delete a glossary by ID
+// @Tags glossaries
+// @Produce json
+// @Param id path string true "Glossary ID"
+// @Success 204 {string} string "No Content"
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/glossaries/{id} [delete]
+func (h *Handler) DeleteGlossary(c *gin.Context) {
+	id := c.Param("id")
+	if err := database.DB.Delete(&models.Glossary{}, "id = ?", id).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete glossary"})
+		return
+	}
+	c.Status(http.StatusNoContent)
+}
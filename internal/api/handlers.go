@@ -6,6 +6,7 @@ import (
 	"crypto/sha256"
 	"encoding/hex"
 	"encoding/json"
+	"errors"
 	"fmt"
 	"io"
 	"net/http"
@@ -38,18 +39,27 @@ type Handler struct {
 	unifiedProcessor    *transcription.UnifiedJobProcessor
 	quickTranscription  *transcription.QuickTranscriptionService
 	multiTrackProcessor *processing.MultiTrackProcessor
+	jobEvents           *jobEventHub
+	liveTranscription   *transcription.LiveTranscriptionService
+	sharePasswords      *passwordThrottle
 }
 
 // NewHandler creates a new handler
 func NewHandler(cfg *config.Config, authService *auth.AuthService, taskQueue *queue.TaskQueue, unifiedProcessor *transcription.UnifiedJobProcessor, quickTranscription *transcription.QuickTranscriptionService) *Handler {
-	return &Handler{
+	h := &Handler{
 		config:              cfg,
 		authService:         authService,
 		taskQueue:           taskQueue,
 		unifiedProcessor:    unifiedProcessor,
 		quickTranscription:  quickTranscription,
 		multiTrackProcessor: processing.NewMultiTrackProcessor(),
+		jobEvents:           newJobEventHub(),
+		liveTranscription:   transcription.NewLiveTranscriptionService(cfg, unifiedProcessor),
+		sharePasswords:      newPasswordThrottle(),
 	}
+	go h.cleanupUploadSessionsRoutine()
+	go h.sweepSharePasswordsRoutine()
+	return h
 }
 
 // SubmitJobRequest represents the submit job request
@@ -203,6 +213,7 @@ func transformAPIKeyForList(apiKey models.APIKey) APIKeyListResponse {
 // @Produce json
 // @Param audio formData file true "Audio file"
 // @Param title formData string false "Job title"
+// @Param folder_id formData string false "Folder to file the job in"
 // @Success 200 {object} models.TranscriptionJob
 // @Failure 400 {object} map[string]string
 // @Failure 500 {object} map[string]string
@@ -218,6 +229,14 @@ func (h *Handler) UploadAudio(c *gin.Context) {
 	}
 	defer file.Close()
 
+	var folderID *string
+	if value := c.PostForm("folder_id"); value != "" {
+		folderID = &value
+	}
+	if !folderExists(c, folderID) {
+		return
+	}
+
 	// Create upload directory
 	uploadDir := h.config.UploadDir
 	if err := os.MkdirAll(uploadDir, 0755); err != nil {
@@ -254,6 +273,7 @@ func (h *Handler) UploadAudio(c *gin.Context) {
 	if title := c.PostForm("title"); title != "" {
 		job.Title = &title
 	}
+	job.FolderID = folderID
 
 	// Save to database
 	if err := database.DB.Create(&job).Error; err != nil {
@@ -262,51 +282,71 @@ func (h *Handler) UploadAudio(c *gin.Context) {
 		return
 	}
 
-	// Check for auto-transcription if user is authenticated via JWT
+	h.autoQueueUpload(c, &job)
+
+	c.JSON(http.StatusOK, job)
+}
+
+// autoQueueUpload queues a freshly uploaded job with the user's default
+// profile when the JWT-authenticated user has auto-transcription enabled
+func (h *Handler) autoQueueUpload(c *gin.Context, job *models.TranscriptionJob) {
 	if userID, exists := c.Get("user_id"); exists {
 		var user models.User
 		if err := database.DB.First(&user, userID).Error; err == nil && user.AutoTranscriptionEnabled {
-			// Get user's default profile or use system default
-			var profile models.TranscriptionProfile
-			var profileFound bool
-
-			if user.DefaultProfileID != nil {
-				err = database.DB.Where("id = ?", *user.DefaultProfileID).First(&profile).Error
-				profileFound = (err == nil)
+			// The job's folder picks the profile first, then the user's default
+			profile, found := findFolderProfile(job.FolderID)
+			if !found {
+				profile, found = findDefaultProfile(&user)
 			}
-
-			// If no user default or user default not found, try to find a system default
-			if !profileFound {
-				err = database.DB.Where("is_default = ?", true).First(&profile).Error
-				profileFound = (err == nil)
+			// If we found a profile, update the job and queue it
+			if found {
+				h.queueWithParameters(job, profile.Parameters)
 			}
+		}
+	}
+}
 
-			// If still no profile found, use the first available profile
-			if !profileFound {
-				err = database.DB.Order("created_at ASC").First(&profile).Error
-				profileFound = (err == nil)
-			}
+// findDefaultProfile returns the user's default profile, falling back to the
+// system default and then to the first profile created
+func findDefaultProfile(user *models.User) (models.TranscriptionProfile, bool) {
+	var profile models.TranscriptionProfile
 
-			// If we found a profile, update the job and queue it
-			if profileFound {
-				job.Parameters = profile.Parameters
-				job.Diarization = profile.Parameters.Diarize
-				job.Status = models.StatusPending
-
-				// Update the job in database
-				if err := database.DB.Save(&job).Error; err == nil {
-					// Enqueue the job for transcription
-					if err := h.taskQueue.EnqueueJob(jobID); err != nil {
-						// If enqueueing fails, revert status but don't fail the upload
-						job.Status = models.StatusUploaded
-						database.DB.Save(&job)
-					}
-				}
-			}
+	if user != nil && user.DefaultProfileID != nil {
+		if err := database.DB.Where("id = ?", *user.DefaultProfileID).First(&profile).Error; err == nil {
+			return profile, true
 		}
 	}
 
-	c.JSON(http.StatusOK, job)
+	// If no user default or user default not found, try to find a system default
+	if err := database.DB.Where("is_default = ?", true).First(&profile).Error; err == nil {
+		return profile, true
+	}
+
+	// If still no profile found, use the first available profile
+	if err := database.DB.Order("created_at ASC").First(&profile).Error; err == nil {
+		return profile, true
+	}
+	return profile, false
+}
+
+// queueWithParameters sets a job's parameters and enqueues it for transcription
+func (h *Handler) queueWithParameters(job *models.TranscriptionJob, params models.WhisperXParams) error {
+	job.Parameters = params
+	job.Diarization = params.Diarize
+	job.Status = models.StatusPending
+
+	// Update the job in database
+	if err := database.DB.Save(job).Error; err != nil {
+		return err
+	}
+	// Enqueue the job for transcription
+	if err := h.taskQueue.EnqueueJob(job.ID); err != nil {
+		// If enqueueing fails, revert status but don't fail the upload
+		job.Status = models.StatusUploaded
+		database.DB.Save(job)
+		return err
+	}
+	return nil
 }
 
 // @Summary Upload video file for transcription
@@ -316,6 +356,7 @@ func (h *Handler) UploadAudio(c *gin.Context) {
 // @Produce json
 // @Param video formData file true "Video file"
 // @Param title formData string false "Job title"
+// @Param folder_id formData string false "Folder to file the job in"
 // @Success 200 {object} models.TranscriptionJob
 // @Failure 400 {object} map[string]string
 // @Failure 500 {object} map[string]string
@@ -331,6 +372,14 @@ func (h *Handler) UploadVideo(c *gin.Context) {
 	}
 	defer file.Close()
 
+	var folderID *string
+	if value := c.PostForm("folder_id"); value != "" {
+		folderID = &value
+	}
+	if !folderExists(c, folderID) {
+		return
+	}
+
 	// Create upload directory
 	uploadDir := h.config.UploadDir
 	if err := os.MkdirAll(uploadDir, 0755); err != nil {
@@ -367,21 +416,8 @@ func (h *Handler) UploadVideo(c *gin.Context) {
 	audioPath := filepath.Join(uploadDir, audioFilename)
 
 	// Extract audio using ffmpeg
-	cmd := exec.Command("ffmpeg",
-		"-i", tempVideoPath,
-		"-vn",            // no video
-		"-acodec", "mp3", // audio codec
-		"-ab", "192k", // audio bitrate
-		"-y", // overwrite output
-		audioPath)
-
-	// Execute ffmpeg command
-	if output, err := cmd.CombinedOutput(); err != nil {
-		// Clean up audio file if created
-		os.Remove(audioPath)
-		c.JSON(http.StatusInternalServerError, gin.H{
-			"error": fmt.Sprintf("Failed to extract audio from video: %v - %s", err, string(output)),
-		})
+	if err := extractVideoAudio(tempVideoPath, audioPath); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
 		return
 	}
 
@@ -395,6 +431,7 @@ func (h *Handler) UploadVideo(c *gin.Context) {
 	if title := c.PostForm("title"); title != "" {
 		job.Title = &title
 	}
+	job.FolderID = folderID
 
 	// Save to database
 	if err := database.DB.Create(&job).Error; err != nil {
@@ -403,51 +440,28 @@ func (h *Handler) UploadVideo(c *gin.Context) {
 		return
 	}
 
-	// Check for auto-transcription if user is authenticated via JWT (same logic as audio upload)
-	if userID, exists := c.Get("user_id"); exists {
-		var user models.User
-		if err := database.DB.First(&user, userID).Error; err == nil && user.AutoTranscriptionEnabled {
-			// Get user's default profile or use system default
-			var profile models.TranscriptionProfile
-			var profileFound bool
+	h.autoQueueUpload(c, &job)
 
-			if user.DefaultProfileID != nil {
-				err = database.DB.Where("id = ?", *user.DefaultProfileID).First(&profile).Error
-				profileFound = (err == nil)
-			}
-
-			// If no user default or user default not found, try to find a system default
-			if !profileFound {
-				err = database.DB.Where("is_default = ?", true).First(&profile).Error
-				profileFound = (err == nil)
-			}
+	c.JSON(http.StatusOK, job)
+}
 
-			// If still no profile found, use the first available profile
-			if !profileFound {
-				err = database.DB.Order("created_at ASC").First(&profile).Error
-				profileFound = (err == nil)
-			}
+// extractVideoAudio writes the audio track of a video to an mp3 file
+func extractVideoAudio(videoPath, audioPath string) error {
+	cmd := exec.Command("ffmpeg",
+		"-i", videoPath,
+		"-vn",            // no video
+		"-acodec", "mp3", // audio codec
+		"-ab", "192k", // audio bitrate
+		"-y", // overwrite output
+		audioPath)
 
-			// If we found a profile, update the job and queue it
-			if profileFound {
-				job.Parameters = profile.Parameters
-				job.Diarization = profile.Parameters.Diarize
-				job.Status = models.StatusPending
-
-				// Update the job in database
-				if err := database.DB.Save(&job).Error; err == nil {
-					// Enqueue the job for transcription
-					if err := h.taskQueue.EnqueueJob(jobID); err != nil {
-						// If enqueueing fails, revert status but don't fail the upload
-						job.Status = models.StatusUploaded
-						database.DB.Save(&job)
-					}
-				}
-			}
-		}
+	// Execute ffmpeg command
+	if output, err := cmd.CombinedOutput(); err != nil {
+		// Clean up audio file if created
+		os.Remove(audioPath)
+		return fmt.Errorf("Failed to extract audio from video: %v - %s", err, string(output))
 	}
-
-	c.JSON(http.StatusOK, job)
+	return nil
 }
 
 // @Summary Upload multi-track audio files
@@ -458,6 +472,7 @@ func (h *Handler) UploadVideo(c *gin.Context) {
 // @Param title formData string true "Job title (required)"
 // @Param aup formData file true ".aup Audacity project file"
 // @Param tracks formData file true "Audio track files" multiple
+// @Param folder_id formData string false "Folder to file the job in"
 // @Success 200 {object} models.TranscriptionJob
 // @Failure 400 {object} map[string]string
 // @Failure 500 {object} map[string]string
@@ -471,6 +486,13 @@ func (h *Handler) UploadMultiTrack(c *gin.Context) {
 		c.JSON(http.StatusBadRequest, gin.H{"error": "Title is required for multi-track uploads"})
 		return
 	}
+	var folderID *string
+	if value := c.PostForm("folder_id"); value != "" {
+		folderID = &value
+	}
+	if !folderExists(c, folderID) {
+		return
+	}
 
 	// Parse multipart form for .aup file
 	aupFile, aupHeader, err := c.Request.FormFile("aup")
@@ -530,10 +552,9 @@ func (h *Handler) UploadMultiTrack(c *gin.Context) {
 	aupDst.Close()
 
 	// Process and save track files
-	var multiTrackFiles []models.MultiTrackFile
-	var firstTrackPath string
+	var trackPaths []string
 
-	for i, trackFileHeader := range tracks {
+	for _, trackFileHeader := range tracks {
 		// Open track file
 		trackFile, err := trackFileHeader.Open()
 		if err != nil {
@@ -572,14 +593,21 @@ func (h *Handler) UploadMultiTrack(c *gin.Context) {
 		trackDst.Close()
 		trackFile.Close()
 
-		// Store first track path for main audio_path field (for backward compatibility)
-		if i == 0 {
-			firstTrackPath = trackPath
-		}
+		trackPaths = append(trackPaths, trackPath)
+	}
+
+	h.createMultiTrackJob(c, jobID, title, folderID, multiTrackFolder, aupFilePath, trackPaths)
+}
 
+// createMultiTrackJob records a multi-track job whose project file and tracks
+// are already stored in its folder, starts merging the tracks and responds
+// with the job
+func (h *Handler) createMultiTrackJob(c *gin.Context, jobID, title string, folderID *string, multiTrackFolder, aupFilePath string, trackPaths []string) {
+	var multiTrackFiles []models.MultiTrackFile
+	for i, trackPath := range trackPaths {
 		// Create MultiTrackFile record (will be saved after job creation)
 		// Remove file extension for speaker name
-		fileName := trackFileHeader.Filename
+		fileName := filepath.Base(trackPath)
 		speakerName := strings.TrimSuffix(fileName, filepath.Ext(fileName))
 
 		multiTrackFiles = append(multiTrackFiles, models.MultiTrackFile{
@@ -594,12 +622,13 @@ func (h *Handler) UploadMultiTrack(c *gin.Context) {
 	job := models.TranscriptionJob{
 		ID:               jobID,
 		Title:            &title,
-		AudioPath:        firstTrackPath, // Point to first track initially
+		AudioPath:        trackPaths[0], // Point to first track initially
 		Status:           models.StatusUploaded,
 		IsMultiTrack:     true,
 		AupFilePath:      &aupFilePath,
 		MultiTrackFolder: &multiTrackFolder,
 		MergeStatus:      "none", // No merge processing yet
+		FolderID:         folderID,
 	}
 
 	// Save job to database
@@ -682,17 +711,33 @@ func (h *Handler) GetMergeStatus(c *gin.Context) {
 func (h *Handler) GetTrackProgress(c *gin.Context) {
 	jobID := c.Param("id")
 
+	response, err := loadTrackProgress(jobID)
+	if err == errNotMultiTrack {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Not a multi-track job"})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+		return
+	}
+
+	c.JSON(http.StatusOK, response)
+}
+
+var errNotMultiTrack = errors.New("not a multi-track job")
+
+// loadTrackProgress builds the per-track progress of a multi-track job. It is
+// shared by the track progress endpoint and the job event stream.
+func loadTrackProgress(jobID string) (gin.H, error) {
 	// Get the main job details
 	var job models.TranscriptionJob
 	if err := database.DB.Preload("MultiTrackFiles").Where("id = ?", jobID).First(&job).Error; err != nil {
-		c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
-		return
+		return nil, err
 	}
 
 	// Only provide track progress for multi-track jobs
 	if !job.IsMultiTrack {
-		c.JSON(http.StatusBadRequest, gin.H{"error": "Not a multi-track job"})
-		return
+		return nil, errNotMultiTrack
 	}
 
 	// Get individual transcripts to see which tracks are completed
@@ -750,7 +795,7 @@ func (h *Handler) GetTrackProgress(c *gin.Context) {
 		progressPercentage = float64(completedTracks) / float64(totalTracks) * 100
 	}
 
-	response := gin.H{
+	return gin.H{
 		"job_id": jobID,
 		"is_multi_track": true,
 		"overall_status": job.Status,
@@ -761,9 +806,7 @@ func (h *Handler) GetTrackProgress(c *gin.Context) {
 			"total_tracks": totalTracks,
 			"percentage": progressPercentage,
 		},
-	}
-
-	c.JSON(http.StatusOK, response)
+	}, nil
 }
 
 // @Summary Submit a transcription job
@@ -982,17 +1025,29 @@ func (h *Handler) GetTranscript(c *gin.Context) {
 // @Produce json
 // @Param page query int false "Page number" default(1)
 // @Param limit query int false "Items per page" default(10)
-// @Param status query string false "Filter by status"
+// @Param status query string false "Filter by status, several separated by commas"
 // @Param q query string false "Search in title and audio filename"
+// @Param tags query string false "Filter by tag IDs, separated by commas"
+// @Param from query string false "Created on or after this date (YYYY-MM-DD)"
+// @Param to query string false "Created on or before this date (YYYY-MM-DD)"
+// @Param min_duration query number false "Minimum audio length in seconds (transcribed jobs only)"
+// @Param max_duration query number false "Maximum audio length in seconds (transcribed jobs only)"
+// @Param diarization query bool false "Filter by speaker diarization"
+// @Param multi_track query bool false "Filter multi-track jobs"
+// @Param match query string false "all (default) to require every filter, any to require at least one" Enums(all, any)
+// @Param compact query bool false "Only return the fields needed to act on the jobs (no transcripts)"
+// @Param folder_id query string false "Only jobs directly in this folder"
 // @Success 200 {object} map[string]interface{}
+// @Failure 400 {object} map[string]string
 // @Router /api/v1/transcription/list [get]
 // @Security ApiKeyAuth
 // @Security BearerAuth
 func (h *Handler) ListJobs(c *gin.Context) {
 	page, _ := strconv.Atoi(c.DefaultQuery("page", "1"))
 	limit, _ := strconv.Atoi(c.DefaultQuery("limit", "10"))
-	status := c.Query("status")
 	search := c.Query("q") // Add search parameter
+	compact := c.Query("compact") == "true"
+	folderID := c.Query("folder_id")
 
 	if page < 1 {
 		page = 1
@@ -1008,9 +1063,15 @@ func (h *Handler) ListJobs(c *gin.Context) {
 	// Filter out temporary track jobs (they have IDs starting with "track_")
 	query = query.Where("id NOT LIKE 'track_%'")
 
-	// Apply status filter
-	if status != "" {
-		query = query.Where("status = ?", status)
+	// Apply status, tag, date, duration and feature filters
+	query, err := applyLibraryFilters(query, c)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	if folderID != "" {
+		query = query.Where("folder_id = ?", folderID)
 	}
 
 	// Apply search filter - search in title and audio_path
@@ -1025,8 +1086,16 @@ func (h *Handler) ListJobs(c *gin.Context) {
 	// Count total matching records
 	query.Count(&total)
 
+	// Compact listings are used to select every matching job at once, so skip
+	// the transcripts and relations
+	if compact {
+		query = query.Select("id", "title", "status", "audio_path", "is_multi_track", "folder_id", "created_at")
+	} else {
+		query = query.Preload("MultiTrackFiles").Preload("Tags")
+	}
+
 	// Apply pagination and ordering
-	if err := query.Preload("MultiTrackFiles").Offset(offset).Limit(limit).Order("created_at DESC").Find(&jobs).Error; err != nil {
+	if err := query.Offset(offset).Limit(limit).Order("created_at DESC").Find(&jobs).Error; err != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to list jobs"})
 		return
 	}
@@ -1170,6 +1239,14 @@ func (h *Handler) StartTranscription(c *gin.Context) {
 	job.Diarization = requestParams.Diarize
 	job.Status = models.StatusPending
 
+	// Keep the previous transcript in the revision history before clearing it, so the
+	// new transcription is added as a revision instead of overwriting it
+	if err := ensureBaselineRevision(database.DB, &job); err != nil {
+		logger.Error("Failed to save previous transcript as revision", "job_id", jobID, "error", err)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save previous transcript"})
+		return
+	}
+
 	// Clear previous results for re-transcription
 	job.Transcript = nil
 	job.Summary = nil
@@ -1359,6 +1436,14 @@ func (h *Handler) DeleteJob(c *gin.Context) {
 		}
 	}
 
+	// Delete audio cut for share links
+	var shares []models.ShareLink
+	if err := database.DB.Select("id").Where("transcription_id = ?", jobID).Find(&shares).Error; err == nil {
+		for _, share := range shares {
+			h.removeShareClip(share.ID)
+		}
+	}
+
 	// Delete all related records first to avoid foreign key constraint failures
 	// Start a transaction to ensure atomicity
 	tx := database.DB.Begin()
@@ -1381,6 +1466,24 @@ func (h *Handler) DeleteJob(c *gin.Context) {
 		return
 	}
 
+	if err := tx.Where("transcription_job_id = ?", jobID).Delete(&models.JobSpeakerEmbedding{}).Error; err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete speaker embeddings"})
+		return
+	}
+
+	if err := tx.Where("transcription_id = ?", jobID).Delete(&models.TranscriptReview{}).Error; err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete review progress"})
+		return
+	}
+
+	if err := tx.Where("transcription_id = ?", jobID).Delete(&models.ShareLink{}).Error; err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete share links"})
+		return
+	}
+
 	if err := tx.Where("transcription_job_id = ?", jobID).Delete(&models.MultiTrackFile{}).Error; err != nil {
 		tx.Rollback()
 		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete multi-track files"})
@@ -1393,6 +1496,18 @@ func (h *Handler) DeleteJob(c *gin.Context) {
 		return
 	}
 
+	if err := tx.Where("transcription_id = ?", jobID).Delete(&models.TranscriptRevision{}).Error; err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete transcript revisions"})
+		return
+	}
+
+	if err := tx.Model(&job).Association("Tags").Clear(); err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to remove job tags"})
+		return
+	}
+
 	// Delete chat sessions and their messages
 	var chatSessions []models.ChatSession
 	if err := tx.Where("transcription_id = ?", jobID).Find(&chatSessions).Error; err != nil {
@@ -1446,7 +1561,9 @@ func (h *Handler) GetJobByID(c *gin.Context) {
 	jobID := c.Param("id")
 
 	var job models.TranscriptionJob
-	if err := database.DB.Preload("MultiTrackFiles").Where("id = ?", jobID).First(&job).Error; err != nil {
+	if err := database.DB.Preload("MultiTrackFiles").Preload("Tags", func(db *gorm.DB) *gorm.DB {
+		return db.Order("name ASC")
+	}).Where("id = ?", jobID).First(&job).Error; err != nil {
 		if err == gorm.ErrRecordNotFound {
 			c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
 			return
@@ -2854,17 +2971,31 @@ func (h *Handler) SetUserDefaultProfile(c *gin.Context) {
 
 // UserSettingsResponse represents the user's settings
 type UserSettingsResponse struct {
-	AutoTranscriptionEnabled bool    `json:"auto_transcription_enabled"`
-	DefaultProfileID         *string `json:"default_profile_id,omitempty"`
+	AutoTranscriptionEnabled bool            `json:"auto_transcription_enabled"`
+	DefaultProfileID         *string         `json:"default_profile_id,omitempty"`
+	KeyboardShortcuts        json.RawMessage `json:"keyboard_shortcuts,omitempty" swaggertype:"object"`
 }
 
 // UpdateUserSettingsRequest represents the request to update user settings
 type UpdateUserSettingsRequest struct {
 	AutoTranscriptionEnabled *bool `json:"auto_transcription_enabled,omitempty"`
+	// Key bindings as a JSON object; an empty object goes back to the defaults
+	KeyboardShortcuts *json.RawMessage `json:"keyboard_shortcuts,omitempty" swaggertype:"object"`
+}
+
+func newUserSettingsResponse(user models.User) UserSettingsResponse {
+	response := UserSettingsResponse{
+		AutoTranscriptionEnabled: user.AutoTranscriptionEnabled,
+		DefaultProfileID:         user.DefaultProfileID,
+	}
+	if user.KeyboardShortcuts != nil {
+		response.KeyboardShortcuts = json.RawMessage(*user.KeyboardShortcuts)
+	}
+	return response
 }
 
 // @Summary Get user settings
-// @Description Get the current user's settings including auto-transcription preference
+// @Description Get the current user's settings including auto-transcription preference and keyboard shortcuts
 // @Tags user
 // @Produce json
 // @Success 200 {object} UserSettingsResponse
@@ -2885,12 +3016,7 @@ func (h *Handler) GetUserSettings(c *gin.Context) {
 		return
 	}
 
-	response := UserSettingsResponse{
-		AutoTranscriptionEnabled: user.AutoTranscriptionEnabled,
-		DefaultProfileID:         user.DefaultProfileID,
-	}
-
-	c.JSON(http.StatusOK, response)
+	c.JSON(http.StatusOK, newUserSettingsResponse(user))
 }
 
 // @Summary Update user settings
@@ -2928,6 +3054,19 @@ func (h *Handler) UpdateUserSettings(c *gin.Context) {
 	if req.AutoTranscriptionEnabled != nil {
 		user.AutoTranscriptionEnabled = *req.AutoTranscriptionEnabled
 	}
+	if req.KeyboardShortcuts != nil {
+		var shortcuts map[string]interface{}
+		if err := json.Unmarshal(*req.KeyboardShortcuts, &shortcuts); err != nil {
+			c.JSON(http.StatusBadRequest, gin.H{"error": "Keyboard shortcuts must be a JSON object"})
+			return
+		}
+		if len(shortcuts) == 0 {
+			user.KeyboardShortcuts = nil
+		} else {
+			data := string(*req.KeyboardShortcuts)
+			user.KeyboardShortcuts = &data
+		}
+	}
 
 	// Save updated user
 	if err := database.DB.Save(&user).Error; err != nil {
@@ -2935,18 +3074,14 @@ func (h *Handler) UpdateUserSettings(c *gin.Context) {
 		return
 	}
 
-	response := UserSettingsResponse{
-		AutoTranscriptionEnabled: user.AutoTranscriptionEnabled,
-		DefaultProfileID:         user.DefaultProfileID,
-	}
-
-	c.JSON(http.StatusOK, response)
+	c.JSON(http.StatusOK, newUserSettingsResponse(user))
 }
 
 // SpeakerMappingRequest represents a speaker mapping update request
 type SpeakerMappingRequest struct {
-	OriginalSpeaker string `json:"original_speaker" binding:"required"`
-	CustomName      string `json:"custom_name" binding:"required"`
+	OriginalSpeaker string  `json:"original_speaker" binding:"required"`
+	CustomName      string  `json:"custom_name" binding:"required"`
+	SpeakerID       *string `json:"speaker_id,omitempty"` // Directory speaker; their voice print learns this voice
 }
 
 // SpeakerMappingsUpdateRequest represents a bulk speaker mappings update
@@ -2956,9 +3091,10 @@ type SpeakerMappingsUpdateRequest struct {
 
 // SpeakerMappingResponse represents a speaker mapping response
 type SpeakerMappingResponse struct {
-	ID              uint   `json:"id"`
-	OriginalSpeaker string `json:"original_speaker"`
-	CustomName      string `json:"custom_name"`
+	ID              uint    `json:"id"`
+	OriginalSpeaker string  `json:"original_speaker"`
+	CustomName      string  `json:"custom_name"`
+	SpeakerID       *string `json:"speaker_id,omitempty"`
 }
 
 // GetSpeakerMappings retrieves all speaker mappings for a transcription
@@ -3009,6 +3145,7 @@ func (h *Handler) GetSpeakerMappings(c *gin.Context) {
 			ID:              mapping.ID,
 			OriginalSpeaker: mapping.OriginalSpeaker,
 			CustomName:      mapping.CustomName,
+			SpeakerID:       mapping.SpeakerID,
 		}
 	}
 
@@ -3069,16 +3206,53 @@ func (h *Handler) UpdateSpeakerMappings(c *gin.Context) {
 	for _, mapping := range req.Mappings {
 		var speakerMapping models.SpeakerMapping
 
+		if mapping.SpeakerID != nil && *mapping.SpeakerID == "" {
+			mapping.SpeakerID = nil
+		}
+		if mapping.SpeakerID != nil {
+			var count int64
+			tx.Model(&models.Speaker{}).Where("id = ?", *mapping.SpeakerID).Count(&count)
+			if count == 0 {
+				tx.Rollback()
+				c.JSON(http.StatusBadRequest, gin.H{"error": "Speaker not found in the directory"})
+				return
+			}
+		}
+
 		// Try to find existing mapping
 		err := tx.Where("transcription_job_id = ? AND original_speaker = ?", jobID, mapping.OriginalSpeaker).
 			First(&speakerMapping).Error
 
+		// Linking a label to a directory speaker enrolls its voice; relinking
+		// takes it back out of the previous speaker's voice print
+		var previousSpeakerID *string
+		if err == nil {
+			previousSpeakerID = speakerMapping.SpeakerID
+		}
+		if !sameSpeakerID(previousSpeakerID, mapping.SpeakerID) {
+			vector, embErr := findJobSpeakerEmbedding(tx, jobID, mapping.OriginalSpeaker)
+			if embErr == nil && vector != nil {
+				if previousSpeakerID != nil {
+					embErr = models.UpdateVoicePrint(tx, *previousSpeakerID, vector, false)
+				}
+				if embErr == nil && mapping.SpeakerID != nil {
+					embErr = models.UpdateVoicePrint(tx, *mapping.SpeakerID, vector, true)
+				}
+			}
+			if embErr != nil && embErr != gorm.ErrRecordNotFound {
+				tx.Rollback()
+				c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to enroll speaker voice"})
+				return
+			}
+		}
+
 		if err == gorm.ErrRecordNotFound {
 			// Create new mapping
 			speakerMapping = models.SpeakerMapping{
 				TranscriptionJobID: jobID,
 				OriginalSpeaker:    mapping.OriginalSpeaker,
 				CustomName:         mapping.CustomName,
+				SpeakerID:          mapping.SpeakerID,
 			}
 			if err := tx.Create(&speakerMapping).Error; err != nil {
 				tx.Rollback()
@@ -3092,6 +3266,7 @@ func (h *Handler) UpdateSpeakerMappings(c *gin.Context) {
 		} else {
 			// Update existing mapping
 			speakerMapping.CustomName = mapping.CustomName
+			speakerMapping.SpeakerID = mapping.SpeakerID
 			if err := tx.Save(&speakerMapping).Error; err != nil {
 				tx.Rollback()
 				c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update speaker mapping"})
@@ -3111,6 +3286,7 @@ func (h *Handler) UpdateSpeakerMappings(c *gin.Context) {
 			ID:              mapping.ID,
 			OriginalSpeaker: mapping.OriginalSpeaker,
 			CustomName:      mapping.CustomName,
+			SpeakerID:       mapping.SpeakerID,
 		}
 	}
 
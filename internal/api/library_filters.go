@@ -0,0 +1,125 @@
+package api
+
+import (
+	"fmt"
+	"net/url"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+)
+
+// Audio length of a transcribed job in seconds: the end of its last segment.
+// Jobs without a transcript have no duration and never match a duration filter.
+const jobDurationExpr = "(CASE WHEN json_valid(transcript) THEN json_extract(transcript, '$.segments[#-1].end') END)"
+
+// splitList reads a comma separated query parameter
+func splitList(value string) []string {
+	var items []string
+	for _, item := range strings.Split(value, ",") {
+		if item = strings.TrimSpace(item); item != "" {
+			items = append(items, item)
+		}
+	}
+	return items
+}
+
+// applyLibraryFilters narrows a job listing with the library filters in the
+// query string
+func applyLibraryFilters(query *gorm.DB, c *gin.Context) (*gorm.DB, error) {
+	condition, args, err := buildLibraryFilters(c.Request.URL.Query())
+	if err != nil {
+		return nil, err
+	}
+	if condition == "" {
+		return query, nil
+	}
+	return query.Where(condition, args...), nil
+}
+
+// buildLibraryFilters turns the library filters into a WHERE condition and
+// its arguments: status and tags (comma separated), from and to (dates),
+// min_duration and max_duration (seconds), diarization and multi_track
+// (true or false). With match=any a job matches if any filter does, and
+// any one of the listed tags is enough; otherwise every filter and every
+// tag must match. The condition is empty when no filter is set.
+func buildLibraryFilters(params url.Values) (string, []interface{}, error) {
+	var conditions []string
+	var args []interface{}
+	add := func(condition string, values ...interface{}) {
+		conditions = append(conditions, condition)
+		args = append(args, values...)
+	}
+	matchAny := params.Get("match") == "any"
+
+	if statuses := splitList(params.Get("status")); len(statuses) > 0 {
+		add("status IN ?", statuses)
+	}
+
+	if tags := splitList(params.Get("tags")); len(tags) > 0 {
+		const tagged = "id IN (SELECT transcription_job_id FROM transcription_job_tags WHERE tag_id IN ?)"
+		if matchAny {
+			add(tagged, tags)
+		} else {
+			for _, tag := range tags {
+				add(tagged, []string{tag})
+			}
+		}
+	}
+
+	if from := params.Get("from"); from != "" {
+		day, err := time.ParseInLocation("2006-01-02", from, time.Local)
+		if err != nil {
+			return "", nil, fmt.Errorf("invalid from date %q, expected YYYY-MM-DD", from)
+		}
+		add("created_at >= ?", day)
+	}
+	if to := params.Get("to"); to != "" {
+		day, err := time.ParseInLocation("2006-01-02", to, time.Local)
+		if err != nil {
+			return "", nil, fmt.Errorf("invalid to date %q, expected YYYY-MM-DD", to)
+		}
+		// The whole last day is included
+		add("created_at < ?", day.AddDate(0, 0, 1))
+	}
+
+	if value := params.Get("min_duration"); value != "" {
+		seconds, err := strconv.ParseFloat(value, 64)
+		if err != nil {
+			return "", nil, fmt.Errorf("invalid min_duration %q", value)
+		}
+		add(jobDurationExpr+" >= ?", seconds)
+	}
+	if value := params.Get("max_duration"); value != "" {
+		seconds, err := strconv.ParseFloat(value, 64)
+		if err != nil {
+			return "", nil, fmt.Errorf("invalid max_duration %q", value)
+		}
+		add(jobDurationExpr+" <= ?", seconds)
+	}
+
+	for _, flag := range []struct{ param, column string }{
+		{"diarization", "diarization"},
+		{"multi_track", "is_multi_track"},
+	} {
+		param, column := flag.param, flag.column
+		if value := params.Get(param); value != "" {
+			enabled, err := strconv.ParseBool(value)
+			if err != nil {
+				return "", nil, fmt.Errorf("invalid %s %q, expected true or false", param, value)
+			}
+			add(column+" = ?", enabled)
+		}
+	}
+
+	if len(conditions) == 0 {
+		return "", nil, nil
+	}
+	joiner := " AND "
+	if matchAny {
+		joiner = " OR "
+	}
+	return "(" + strings.Join(conditions, joiner) + ")", args, nil
+}
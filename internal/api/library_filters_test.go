@@ -0,0 +1,85 @@
+package api
+
+import (
+	"net/url"
+	"reflect"
+	"testing"
+	"time"
+)
+
+func TestBuildLibraryFilters(t *testing.T) {
+	const tagged = "id IN (SELECT transcription_job_id FROM transcription_job_tags WHERE tag_id IN ?)"
+	day := func(month time.Month, d int) time.Time { return time.Date(2025, month, d, 0, 0, 0, 0, time.Local) }
+
+	tests := []struct {
+		name          string
+		query         string
+		wantCondition string
+		wantArgs      []interface{}
+	}{
+		{"no filters", "", "", nil},
+		{"statuses", "status=completed,%20failed,", "(status IN ?)", []interface{}{[]string{"completed", "failed"}}},
+		{
+			"every tag must match",
+			"tags=a,b",
+			"(" + tagged + " AND " + tagged + ")",
+			[]interface{}{[]string{"a"}, []string{"b"}},
+		},
+		{"any tag matches", "tags=a,b&match=any", "(" + tagged + ")", []interface{}{[]string{"a", "b"}}},
+		{
+			"date range includes the last day",
+			"from=2025-03-01&to=2025-03-31",
+			"(created_at >= ? AND created_at < ?)",
+			[]interface{}{day(time.March, 1), day(time.April, 1)},
+		},
+		{
+			"duration range",
+			"min_duration=60&max_duration=90.5",
+			"(" + jobDurationExpr + " >= ? AND " + jobDurationExpr + " <= ?)",
+			[]interface{}{60.0, 90.5},
+		},
+		{
+			"flags joined with OR",
+			"diarization=true&multi_track=0&match=any",
+			"(diarization = ? OR is_multi_track = ?)",
+			[]interface{}{true, false},
+		},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			params, err := url.ParseQuery(tt.query)
+			if err != nil {
+				t.Fatal(err)
+			}
+			condition, args, err := buildLibraryFilters(params)
+			if err != nil {
+				t.Fatalf("buildLibraryFilters(%q) returned error: %v", tt.query, err)
+			}
+			if condition != tt.wantCondition {
+				t.Errorf("condition = %q, want %q", condition, tt.wantCondition)
+			}
+			if !reflect.DeepEqual(args, tt.wantArgs) {
+				t.Errorf("args = %v, want %v", args, tt.wantArgs)
+			}
+		})
+	}
+}
+
+func TestBuildLibraryFiltersInvalid(t *testing.T) {
+	for _, query := range []string{
+		"from=03/01/2025",
+		"to=yesterday",
+		"min_duration=long",
+		"max_duration=1m",
+		"diarization=yes",
+		"multi_track=maybe",
+	} {
+		t.Run(query, func(t *testing.T) {
+			params, _ := url.ParseQuery(query)
+			if _, _, err := buildLibraryFilters(params); err == nil {
+				t.Errorf("buildLibraryFilters(%q) returned no error", query)
+			}
+		})
+	}
+}
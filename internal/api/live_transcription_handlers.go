@@ -0,0 +1,275 @@
+package api
+
+import (
+	"errors"
+	"net/http"
+	"path/filepath"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+	"scriberr/internal/transcription"
+	"scriberr/pkg/logger"
+)
+
+// How long a queued recording waits for the last live pass before the draft
+// it already has is kept as is
+const liveDraftWait = 10 * time.Minute
+
+type CreateLiveTranscriptionRequest struct {
+	// Profile the final job will use; defaults to the user's default profile
+	ProfileID *string `json:"profile_id,omitempty"`
+	// Name of the recorded file, used for its container format
+	FileName string `json:"file_name"`
+}
+
+type QueueLiveTranscriptionRequest struct {
+	JobID     string  `json:"job_id" binding:"required"`
+	ProfileID *string `json:"profile_id,omitempty"`
+}
+
+// resolveProfile returns the requested profile, or the caller's default one
+func resolveProfile(c *gin.Context, profileID *string) (models.TranscriptionProfile, bool) {
+	if profileID != nil && *profileID != "" {
+		var profile models.TranscriptionProfile
+		if err := database.DB.Where("id = ?", *profileID).First(&profile).Error; err != nil {
+			if errors.Is(err, gorm.ErrRecordNotFound) {
+				c.JSON(http.StatusNotFound, gin.H{"error": "Profile not found"})
+			} else {
+				c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get profile"})
+			}
+			return profile, false
+		}
+		return profile, true
+	}
+
+	var user *models.User
+	if userID, exists := c.Get("user_id"); exists {
+		var u models.User
+		if err := database.DB.First(&u, userID).Error; err == nil {
+			user = &u
+		}
+	}
+	profile, found := findDefaultProfile(user)
+	if !found {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "No transcription profile available"})
+	}
+	return profile, found
+}
+
+// CreateLiveTranscription starts a live transcription session
+// @Summary Start a live transcription
+// @Description Create a session that transcribes a recording while it is being made. The draft uses the profile's language and device with a small, fast model.
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param request body CreateLiveTranscriptionRequest false "Profile and file name"
+// @Success 201 {object} transcription.LiveTranscriptionSession
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live [post]
+func (h *Handler) CreateLiveTranscription(c *gin.Context) {
+	var req CreateLiveTranscriptionRequest
+	_ = c.ShouldBindJSON(&req)
+
+	profile, ok := resolveProfile(c, req.ProfileID)
+	if !ok {
+		return
+	}
+
+	ext := filepath.Ext(req.FileName)
+	if ext == "" {
+		ext = ".webm"
+	}
+	session, err := h.liveTranscription.CreateSession(transcription.LiveParams(profile.Parameters), ext)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to start live transcription"})
+		return
+	}
+	c.JSON(http.StatusCreated, session)
+}
+
+// GetLiveTranscription returns the current draft of a live session
+// @Summary Get a live transcription
+// @Description Get the settled segments and partial text transcribed so far
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Live session ID"
+// @Success 200 {object} transcription.LiveTranscriptionSession
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live/{id} [get]
+func (h *Handler) GetLiveTranscription(c *gin.Context) {
+	session, err := h.liveTranscription.GetSession(c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Live session not found"})
+		return
+	}
+	c.JSON(http.StatusOK, session)
+}
+
+// AppendLiveAudio adds recorded audio to a live session
+// @Summary Send live audio
+// @Description Append the next piece of the recording, in order, as the request body. Returns the current draft.
+// @Tags transcription
+// @Accept application/octet-stream
+// @Produce json
+// @Param id path string true "Live session ID"
+// @Success 200 {object} transcription.LiveTranscriptionSession
+// @Failure 404 {object} map[string]string
+// @Failure 413 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live/{id}/audio [put]
+func (h *Handler) AppendLiveAudio(c *gin.Context) {
+	body := http.MaxBytesReader(c.Writer, c.Request.Body, maxUploadChunkSize)
+	session, err := h.liveTranscription.AppendAudio(c.Param("id"), body)
+	if err != nil {
+		var tooLarge *http.MaxBytesError
+		switch {
+		case errors.Is(err, transcription.ErrLiveSessionNotFound):
+			c.JSON(http.StatusNotFound, gin.H{"error": "Live session not found"})
+		case errors.As(err, &tooLarge):
+			c.JSON(http.StatusRequestEntityTooLarge, gin.H{"error": "Audio piece too large"})
+		default:
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save live audio"})
+		}
+		return
+	}
+	c.JSON(http.StatusOK, session)
+}
+
+// FinishLiveTranscription marks the end of the recording
+// @Summary Finish a live transcription
+// @Description Tell the session the recording stopped so its last pass transcribes the remaining audio
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Live session ID"
+// @Success 200 {object} transcription.LiveTranscriptionSession
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live/{id}/finish [post]
+func (h *Handler) FinishLiveTranscription(c *gin.Context) {
+	session, err := h.liveTranscription.FinishSession(c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Live session not found"})
+		return
+	}
+	c.JSON(http.StatusOK, session)
+}
+
+// QueueLiveTranscription queues the full transcription of a live recording
+// @Summary Queue the full transcription of a live recording
+// @Description Queue the uploaded recording with the chosen profile and keep the live draft on the job until its transcript is ready. The live session is removed once its draft is saved.
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param id path string true "Live session ID"
+// @Param request body QueueLiveTranscriptionRequest true "Uploaded job and profile"
+// @Success 200 {object} models.TranscriptionJob
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live/{id}/queue [post]
+func (h *Handler) QueueLiveTranscription(c *gin.Context) {
+	sessionID := c.Param("id")
+
+	var req QueueLiveTranscriptionRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	session, err := h.liveTranscription.GetSession(sessionID)
+	if err != nil {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Live session not found"})
+		return
+	}
+
+	var job models.TranscriptionJob
+	if err := database.DB.Where("id = ?", req.JobID).First(&job).Error; err != nil {
+		if errors.Is(err, gorm.ErrRecordNotFound) {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get job"})
+		return
+	}
+	if job.Status != models.StatusUploaded {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Job is already queued or transcribed"})
+		return
+	}
+
+	profile, ok := resolveProfile(c, req.ProfileID)
+	if !ok {
+		return
+	}
+
+	if draft := session.Text(); draft != "" {
+		job.LiveDraft = &draft
+	}
+	if err := h.queueWithParameters(&job, profile.Parameters); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to queue transcription"})
+		return
+	}
+
+	// The last pass may still be running; save its result when it lands
+	go h.saveFinalLiveDraft(sessionID, job.ID)
+
+	c.JSON(http.StatusOK, job)
+}
+
+// saveFinalLiveDraft waits for a live session to finish its passes, stores
+// the complete draft on the job unless its transcript already arrived, and
+// removes the session
+func (h *Handler) saveFinalLiveDraft(sessionID, jobID string) {
+	defer h.liveTranscription.DeleteSession(sessionID)
+
+	deadline := time.Now().Add(liveDraftWait)
+	for time.Now().Before(deadline) {
+		session, err := h.liveTranscription.GetSession(sessionID)
+		if err != nil {
+			return
+		}
+		if !session.Processing {
+			draft := session.Text()
+			if draft == "" {
+				return
+			}
+			err := database.DB.Model(&models.TranscriptionJob{}).
+				Where("id = ? AND transcript IS NULL", jobID).
+				Update("live_draft", draft).Error
+			if err != nil {
+				logger.Error("Failed to save live draft", "job_id", jobID, "error", err)
+			}
+			return
+		}
+		time.Sleep(time.Second)
+	}
+}
+
+// DeleteLiveTranscription discards a live session
+// @Summary Discard a live transcription
+// @Description Delete the session, its audio and its draft
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Live session ID"
+// @Success 200 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/live/{id} [delete]
+func (h *Handler) DeleteLiveTranscription(c *gin.Context) {
+	h.liveTranscription.DeleteSession(c.Param("id"))
+	c.JSON(http.StatusOK, gin.H{"message": "Live session deleted"})
+}
@@ -0,0 +1,125 @@
+package api
+
+import (
+	"encoding/json"
+	"net/http"
+	"sort"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// TranscriptReviewPayload is the review progress of a transcript, as sent and received
+type TranscriptReviewPayload struct {
+	Threshold float64 `json:"threshold" binding:"min=0,max=1"`
+	// Indices into word_segments of the words accepted or corrected
+	Reviewed  []int     `json:"reviewed" binding:"required"`
+	UpdatedAt time.Time `json:"updated_at,omitempty"`
+}
+
+// GetTranscriptReview returns how far the low-confidence review of a transcript has got
+// @Summary Get transcript review progress
+// @Description Get the confidence threshold and the words already reviewed. A transcript that was never reviewed gets the default threshold and no reviewed words.
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Success 200 {object} TranscriptReviewPayload
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/review [get]
+func (h *Handler) GetTranscriptReview(c *gin.Context) {
+	jobID := c.Param("id")
+	var count int64
+	if err := database.DB.Model(&models.TranscriptionJob{}).Where("id = ?", jobID).Count(&count).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get transcription"})
+		return
+	}
+	if count == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Transcription not found"})
+		return
+	}
+
+	var review models.TranscriptReview
+	err := database.DB.Where("transcription_id = ?", jobID).First(&review).Error
+	if err == gorm.ErrRecordNotFound {
+		c.JSON(http.StatusOK, TranscriptReviewPayload{Threshold: models.DefaultReviewThreshold, Reviewed: []int{}})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get review progress"})
+		return
+	}
+
+	reviewed := []int{}
+	if err := json.Unmarshal([]byte(review.ReviewedWords), &reviewed); err != nil {
+		reviewed = []int{}
+	}
+	c.JSON(http.StatusOK, TranscriptReviewPayload{Threshold: review.Threshold, Reviewed: reviewed, UpdatedAt: review.UpdatedAt})
+}
+
+// UpdateTranscriptReview saves the review progress of a transcript
+// @Summary Save transcript review progress
+// @Description Replace the confidence threshold and the list of reviewed words
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Param request body TranscriptReviewPayload true "Review progress"
+// @Success 200 {object} TranscriptReviewPayload
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/review [put]
+func (h *Handler) UpdateTranscriptReview(c *gin.Context) {
+	jobID := c.Param("id")
+	var req TranscriptReviewPayload
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	var count int64
+	if err := database.DB.Model(&models.TranscriptionJob{}).Where("id = ?", jobID).Count(&count).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get transcription"})
+		return
+	}
+	if count == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Transcription not found"})
+		return
+	}
+
+	// Stored sorted and without repeats
+	seen := make(map[int]bool, len(req.Reviewed))
+	reviewed := make([]int, 0, len(req.Reviewed))
+	for _, index := range req.Reviewed {
+		if index >= 0 && !seen[index] {
+			seen[index] = true
+			reviewed = append(reviewed, index)
+		}
+	}
+	sort.Ints(reviewed)
+	data, err := json.Marshal(reviewed)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save review progress"})
+		return
+	}
+
+	review := models.TranscriptReview{
+		TranscriptionID: jobID,
+		Threshold:       req.Threshold,
+		ReviewedWords:   string(data),
+	}
+	if err := database.DB.Save(&review).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save review progress"})
+		return
+	}
+	c.JSON(http.StatusOK, TranscriptReviewPayload{Threshold: review.Threshold, Reviewed: reviewed, UpdatedAt: review.UpdatedAt})
+}
@@ -0,0 +1,359 @@
+package api
+
+import (
+	"encoding/json"
+	"fmt"
+	"log"
+	"net/http"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// RevisionCreateRequest is the payload for saving an edited transcript
+type RevisionCreateRequest struct {
+	// Full transcript object (text, segments, word_segments)
+	Transcript json.RawMessage `json:"transcript" binding:"required"`
+	Message    *string         `json:"message,omitempty"`
+}
+
+// RevisionListItem is a transcript revision without its transcript body
+type RevisionListItem struct {
+	ID        string                `json:"id"`
+	Version   int                   `json:"version"`
+	Author    string                `json:"author"`
+	Source    models.RevisionSource `json:"source"`
+	Message   *string               `json:"message,omitempty"`
+	CreatedAt time.Time             `json:"created_at"`
+}
+
+// revisionAuthor returns a display name for whoever made the current request
+func revisionAuthor(c *gin.Context) string {
+	if username, exists := c.Get("username"); exists {
+		if name, ok := username.(string); ok && name != "" {
+			return name
+		}
+	}
+	if authType, _ := c.Get("auth_type"); authType == "api_key" {
+		return "API key"
+	}
+	return "system"
+}
+
+// validateTranscriptJSON checks that raw is a transcript object with a text field
+func validateTranscriptJSON(raw json.RawMessage) error {
+	var transcript map[string]interface{}
+	if err := json.Unmarshal(raw, &transcript); err != nil {
+		return fmt.Errorf("transcript must be a JSON object: %v", err)
+	}
+	if _, ok := transcript["text"].(string); !ok {
+		return fmt.Errorf("transcript.text is required")
+	}
+	return nil
+}
+
+// ensureBaselineRevision keeps the current transcript of job as version 1 the first
+// time its history is needed, so the original transcription output is never lost
+func ensureBaselineRevision(tx *gorm.DB, job *models.TranscriptionJob) error {
+	if job.Transcript == nil || *job.Transcript == "" {
+		return nil
+	}
+
+	var count int64
+	if err := tx.Model(&models.TranscriptRevision{}).Where("transcription_id = ?", job.ID).Count(&count).Error; err != nil {
+		return err
+	}
+	if count > 0 {
+		return nil
+	}
+
+	original := models.TranscriptRevision{
+		ID:              uuid.New().String(),
+		TranscriptionID: job.ID,
+		Version:         1,
+		Transcript:      *job.Transcript,
+		Author:          "system",
+		Source:          models.RevisionSourceTranscription,
+		CreatedAt:       job.UpdatedAt,
+	}
+	return tx.Create(&original).Error
+}
+
+// createTranscriptRevision stores transcript as the next revision of job inside tx
+// and makes it the job's current transcript
+func createTranscriptRevision(tx *gorm.DB, job *models.TranscriptionJob, transcript string, author string, source models.RevisionSource, message *string) (*models.TranscriptRevision, error) {
+	if err := ensureBaselineRevision(tx, job); err != nil {
+		return nil, err
+	}
+
+	rev, err := models.AppendTranscriptRevision(tx, job.ID, transcript, author, source, message)
+	if err != nil {
+		return nil, err
+	}
+
+	if err := tx.Model(&models.TranscriptionJob{}).Where("id = ?", job.ID).Update("transcript", transcript).Error; err != nil {
+		return nil, err
+	}
+
+	return rev, nil
+}
+
+// CreateTranscriptRevision saves an edited transcript as a new revision
+// @Summary Save an edited transcript
+// @Description Store an edited transcript as a new revision and make it the current transcript
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Param request body RevisionCreateRequest true "Revision payload"
+// @Success 200 {object} models.TranscriptRevision
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/revisions [post]
+func (h *Handler) CreateTranscriptRevision(c *gin.Context) {
+	transcriptionID := c.Param("id")
+	if transcriptionID == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Transcription ID is required"})
+		return
+	}
+
+	var req RevisionCreateRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "invalid payload", "details": err.Error()})
+		return
+	}
+	if err := validateTranscriptJSON(req.Transcript); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if req.Message != nil {
+		trimmed := strings.TrimSpace(*req.Message)
+		if trimmed == "" {
+			req.Message = nil
+		} else {
+			req.Message = &trimmed
+		}
+	}
+
+	job, ok := findTranscriptionJob(c, transcriptionID)
+	if !ok {
+		return
+	}
+
+	if job.Status != models.StatusCompleted || job.Transcript == nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": fmt.Sprintf("Transcript cannot be edited while job is %s", job.Status)})
+		return
+	}
+
+	tx := database.DB.Begin()
+	rev, err := createTranscriptRevision(tx, job, string(req.Transcript), revisionAuthor(c), models.RevisionSourceEdit, req.Message)
+	if err != nil {
+		tx.Rollback()
+		log.Printf("revisions.CreateTranscriptRevision: failed to save revision for transcription %s: %v", transcriptionID, err)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save transcript revision"})
+		return
+	}
+	if err := tx.Commit().Error; err != nil {
+		log.Printf("revisions.CreateTranscriptRevision: failed to commit revision for transcription %s: %v", transcriptionID, err)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save transcript revision"})
+		return
+	}
+
+	c.JSON(http.StatusOK, rev)
+}
+
+// findTranscriptionJob loads a job for the revision handlers, writing the error response on failure
+func findTranscriptionJob(c *gin.Context, transcriptionID string) (*models.TranscriptionJob, bool) {
+	var job models.TranscriptionJob
+	if err := database.DB.Where("id = ?", transcriptionID).First(&job).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Transcription not found"})
+			return nil, false
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch transcription"})
+		return nil, false
+	}
+	return &job, true
+}
+
+// ListTranscriptRevisions lists the revision history of a transcript
+// @Summary List transcript revisions
+// @Description Get all saved revisions of a transcript, newest first, without their transcript bodies
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Success 200 {array} RevisionListItem
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/revisions [get]
+func (h *Handler) ListTranscriptRevisions(c *gin.Context) {
+	transcriptionID := c.Param("id")
+	if _, ok := findTranscriptionJob(c, transcriptionID); !ok {
+		return
+	}
+
+	var revisions []models.TranscriptRevision
+	if err := database.DB.Select("id", "version", "author", "source", "message", "created_at").
+		Where("transcription_id = ?", transcriptionID).
+		Order("version DESC").
+		Find(&revisions).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to list transcript revisions"})
+		return
+	}
+
+	items := make([]RevisionListItem, 0, len(revisions))
+	for _, rev := range revisions {
+		items = append(items, RevisionListItem{
+			ID:        rev.ID,
+			Version:   rev.Version,
+			Author:    rev.Author,
+			Source:    rev.Source,
+			Message:   rev.Message,
+			CreatedAt: rev.CreatedAt,
+		})
+	}
+
+	c.JSON(http.StatusOK, items)
+}
+
+// GetTranscriptRevision returns a single revision with its transcript
+// @Summary Get a transcript revision
+// @Description Get one saved revision of a transcript, including the parsed transcript
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Param revision_id path string true "Revision ID"
+// @Success 200 {object} map[string]interface{}
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/revisions/{revision_id} [get]
+func (h *Handler) GetTranscriptRevision(c *gin.Context) {
+	transcriptionID := c.Param("id")
+	revisionID := c.Param("revision_id")
+
+	var rev models.TranscriptRevision
+	if err := database.DB.Where("id = ? AND transcription_id = ?", revisionID, transcriptionID).First(&rev).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Revision not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch revision"})
+		return
+	}
+
+	var transcript interface{}
+	if err := json.Unmarshal([]byte(rev.Transcript), &transcript); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to parse transcript"})
+		return
+	}
+
+	c.JSON(http.StatusOK, gin.H{
+		"id":         rev.ID,
+		"version":    rev.Version,
+		"author":     rev.Author,
+		"source":     rev.Source,
+		"message":    rev.Message,
+		"created_at": rev.CreatedAt,
+		"transcript": transcript,
+	})
+}
+
+// sameTranscriptWords reports whether two transcripts have the same words in
+// the same order. Transcripts that can't be parsed never match.
+func sameTranscriptWords(a, b string) bool {
+	type wordList struct {
+		WordSegments []struct {
+			Word string `json:"word"`
+		} `json:"word_segments"`
+	}
+	var first, second wordList
+	if json.Unmarshal([]byte(a), &first) != nil || json.Unmarshal([]byte(b), &second) != nil {
+		return false
+	}
+	if len(first.WordSegments) != len(second.WordSegments) {
+		return false
+	}
+	for i := range first.WordSegments {
+		if first.WordSegments[i].Word != second.WordSegments[i].Word {
+			return false
+		}
+	}
+	return true
+}
+
+// RestoreTranscriptRevision makes an older revision the current transcript again
+// @Summary Restore a transcript revision
+// @Description Copy an older revision into a new revision and make it the current transcript
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Param revision_id path string true "Revision ID"
+// @Success 200 {object} models.TranscriptRevision
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/revisions/{revision_id}/restore [post]
+func (h *Handler) RestoreTranscriptRevision(c *gin.Context) {
+	transcriptionID := c.Param("id")
+	revisionID := c.Param("revision_id")
+
+	job, ok := findTranscriptionJob(c, transcriptionID)
+	if !ok {
+		return
+	}
+	if job.Status != models.StatusCompleted {
+		c.JSON(http.StatusBadRequest, gin.H{"error": fmt.Sprintf("Transcript cannot be restored while job is %s", job.Status)})
+		return
+	}
+
+	var source models.TranscriptRevision
+	if err := database.DB.Where("id = ? AND transcription_id = ?", revisionID, transcriptionID).First(&source).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Revision not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch revision"})
+		return
+	}
+
+	message := fmt.Sprintf("Restored version %d", source.Version)
+	tx := database.DB.Begin()
+	rev, err := createTranscriptRevision(tx, job, source.Transcript, revisionAuthor(c), models.RevisionSourceRestore, &message)
+	if err != nil {
+		tx.Rollback()
+		log.Printf("revisions.RestoreTranscriptRevision: failed to restore revision %s for transcription %s: %v", revisionID, transcriptionID, err)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to restore transcript revision"})
+		return
+	}
+	// Review progress points at words by index, so it only carries over to the same words
+	if job.Transcript == nil || !sameTranscriptWords(*job.Transcript, source.Transcript) {
+		if err := tx.Where("transcription_id = ?", transcriptionID).Delete(&models.TranscriptReview{}).Error; err != nil {
+			tx.Rollback()
+			log.Printf("revisions.RestoreTranscriptRevision: failed to reset review progress for transcription %s: %v", transcriptionID, err)
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to restore transcript revision"})
+			return
+		}
+	}
+	if err := tx.Commit().Error; err != nil {
+		log.Printf("revisions.RestoreTranscriptRevision: failed to commit restore for transcription %s: %v", transcriptionID, err)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to restore transcript revision"})
+		return
+	}
+
+	c.JSON(http.StatusOK, rev)
+}
@@ -0,0 +1,26 @@
+package api
+
+import "testing"
+
+func TestSameTranscriptWords(t *testing.T) {
+	base := `{"text":"a b","word_segments":[{"word":"Hello","start":0,"end":1},{"word":"there","start":1,"end":2}]}`
+
+	tests := []struct {
+		name string
+		b    string
+		want bool
+	}{
+		{"same words, other times and text", `{"text":"x","word_segments":[{"word":"Hello","start":5},{"word":"there"}]}`, true},
+		{"word corrected", `{"word_segments":[{"word":"Hello"},{"word":"their"}]}`, false},
+		{"word added", `{"word_segments":[{"word":"Hello"},{"word":"there"},{"word":"again"}]}`, false},
+		{"no words", `{"text":"Hello there"}`, false},
+		{"invalid JSON", `{`, false},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			if got := sameTranscriptWords(base, tt.b); got != tt.want {
+				t.Errorf("sameTranscriptWords() = %v, want %v", got, tt.want)
+			}
+		})
+	}
+}
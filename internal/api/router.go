@@ -33,7 +33,7 @@ func SetupRoutes(handler *Handler, authService *auth.AuthService) *gin.Engine {
 	router.Use(func(c *gin.Context) {
 		c.Header("Access-Control-Allow-Origin", "*")
 		c.Header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
-		c.Header("Access-Control-Allow-Headers", "Origin, Content-Type, Content-Length, Accept-Encoding, X-CSRF-Token, Authorization, X-API-Key")
+		c.Header("Access-Control-Allow-Headers", "Origin, Content-Type, Content-Length, Accept-Encoding, X-CSRF-Token, Authorization, X-API-Key, X-Share-Password")
 
 		if c.Request.Method == "OPTIONS" {
 			c.AbortWithStatus(204)
@@ -92,6 +92,12 @@ func SetupRoutes(handler *Handler, authService *auth.AuthService) *gin.Engine {
 				uploadRoutes.POST("/upload", handler.UploadAudio)
 				uploadRoutes.POST("/upload-video", handler.UploadVideo)
 				uploadRoutes.POST("/upload-multitrack", handler.UploadMultiTrack)
+				uploadRoutes.POST("/upload-sessions", handler.CreateUploadSession)
+				uploadRoutes.POST("/upload-sessions/multitrack", handler.CompleteMultiTrackUpload)
+				uploadRoutes.GET("/upload-sessions/:id", handler.GetUploadSession)
+				uploadRoutes.PUT("/upload-sessions/:id", handler.AppendUploadChunk)
+				uploadRoutes.POST("/upload-sessions/:id/complete", handler.CompleteUploadSession)
+				uploadRoutes.DELETE("/upload-sessions/:id", handler.DeleteUploadSession)
 				uploadRoutes.GET("/:id/audio", handler.GetAudioFile) // Audio streaming shouldn't be compressed
 			}
 			
@@ -110,18 +116,48 @@ func SetupRoutes(handler *Handler, authService *auth.AuthService) *gin.Engine {
 			transcription.GET("/:id", handler.GetJobByID)
 			transcription.DELETE("/:id", handler.DeleteJob)
 			transcription.GET("/list", handler.ListJobs)
+			transcription.GET("/search", handler.SearchTranscripts)
 			transcription.GET("/models", handler.GetSupportedModels)
 			// Notes for a transcription
 			transcription.GET("/:id/notes", handler.ListNotes)
 			transcription.POST("/:id/notes", handler.CreateNote)
 
+			// Transcript revisions (edits, restores and re-transcriptions)
+			transcription.GET("/:id/revisions", handler.ListTranscriptRevisions)
+			transcription.POST("/:id/revisions", handler.CreateTranscriptRevision)
+			transcription.GET("/:id/revisions/:revision_id", handler.GetTranscriptRevision)
+			transcription.POST("/:id/revisions/:revision_id/restore", handler.RestoreTranscriptRevision)
+
 			// Speaker mappings for a transcription
 			transcription.GET("/:id/speakers", handler.GetSpeakerMappings)
 			transcription.POST("/:id/speakers", handler.UpdateSpeakerMappings)
+			transcription.GET("/:id/speaker-suggestions", handler.GetSpeakerSuggestions)
+
+			// Low-confidence word review progress
+			transcription.GET("/:id/review", handler.GetTranscriptReview)
+			transcription.PUT("/:id/review", handler.UpdateTranscriptReview)
+
+			// Public read-only share links
+			transcription.POST("/:id/shares", handler.CreateShareLink)
+
+			// Tags for a transcription
+			transcription.POST("/:id/tags", handler.AddJobTags)
+			transcription.DELETE("/:id/tags/:tagId", handler.RemoveJobTag)
+
+			// Folder of a transcription
+			transcription.PUT("/:id/folder", handler.MoveJobToFolder)
 
 			// Quick transcription endpoints
 			transcription.POST("/quick", handler.SubmitQuickTranscription)
 			transcription.GET("/quick/:id", handler.GetQuickTranscriptionStatus)
+
+			// Live transcription while recording
+			transcription.POST("/live", handler.CreateLiveTranscription)
+			transcription.GET("/live/:id", handler.GetLiveTranscription)
+			transcription.PUT("/live/:id/audio", handler.AppendLiveAudio)
+			transcription.POST("/live/:id/finish", handler.FinishLiveTranscription)
+			transcription.POST("/live/:id/queue", handler.QueueLiveTranscription)
+			transcription.DELETE("/live/:id", handler.DeleteLiveTranscription)
 		}
 
 		// Profile routes (require authentication)
@@ -177,6 +213,64 @@ func SetupRoutes(handler *Handler, authService *auth.AuthService) *gin.Engine {
 			summaries.POST("/settings", handler.SaveSummarySettings)
 		}
 
+		// Job event stream (require authentication)
+		events := v1.Group("/events")
+		events.Use(middleware.AuthMiddleware(authService))
+		{
+			events.GET("/jobs", handler.StreamJobEvents)
+			events.GET("/jobs/snapshot", handler.GetJobStates)
+		}
+
+		// Tag routes (require authentication)
+		tags := v1.Group("/tags")
+		tags.Use(middleware.AuthMiddleware(authService))
+		{
+			tags.GET("/", handler.ListTags)
+			tags.PUT("/:id", handler.UpdateTag)
+			tags.DELETE("/:id", handler.DeleteTag)
+		}
+
+		// Saved library view routes (require authentication)
+		views := v1.Group("/views")
+		views.Use(middleware.AuthMiddleware(authService))
+		{
+			views.GET("/", handler.ListSavedViews)
+			views.POST("/", handler.CreateSavedView)
+			views.DELETE("/:id", handler.DeleteSavedView)
+		}
+
+		// Glossary routes (require authentication)
+		glossaries := v1.Group("/glossaries")
+		glossaries.Use(middleware.AuthMiddleware(authService))
+		{
+			glossaries.GET("/", handler.ListGlossaries)
+			glossaries.POST("/", handler.CreateGlossary)
+			glossaries.GET("/:id", handler.GetGlossary)
+			glossaries.PUT("/:id", handler.UpdateGlossary)
+			glossaries.DELETE("/:id", handler.DeleteGlossary)
+		}
+
+		// Folder routes (require authentication)
+		folders := v1.Group("/folders")
+		folders.Use(middleware.AuthMiddleware(authService))
+		{
+			folders.GET("/", handler.ListFolders)
+			folders.POST("/", handler.CreateFolder)
+			folders.GET("/:id", handler.GetFolder)
+			folders.PUT("/:id", handler.UpdateFolder)
+			folders.DELETE("/:id", handler.DeleteFolder)
+		}
+
+		// Speaker directory routes (require authentication)
+		speakers := v1.Group("/speakers")
+		speakers.Use(middleware.AuthMiddleware(authService))
+		{
+			speakers.GET("/", handler.ListSpeakers)
+			speakers.POST("/", handler.CreateSpeaker)
+			speakers.PUT("/:id", handler.UpdateSpeaker)
+			speakers.DELETE("/:id", handler.DeleteSpeaker)
+		}
+
 		// Chat routes (require authentication)
 		chat := v1.Group("/chat")
 		chat.Use(middleware.AuthMiddleware(authService))
@@ -191,6 +285,21 @@ func SetupRoutes(handler *Handler, authService *auth.AuthService) *gin.Engine {
 			chat.DELETE("/sessions/:session_id", handler.DeleteChatSession)
 		}
 
+		// Share link management routes (require authentication)
+		shares := v1.Group("/shares")
+		shares.Use(middleware.AuthMiddleware(authService))
+		{
+			shares.GET("/", handler.ListShareLinks)
+			shares.DELETE("/:id", handler.RevokeShareLink)
+		}
+
+		// Public share link routes (no auth required, the signed token is the credential)
+		share := v1.Group("/share")
+		{
+			share.GET("/:token", handler.GetSharedTranscript)
+			share.GET("/:token/audio", handler.GetSharedAudio)
+		}
+
 		// Notes routes (require authentication)
 		notes := v1.Group("/notes")
 		notes.Use(middleware.AuthMiddleware(authService))
@@ -0,0 +1,91 @@
+package api
+
+import (
+	"net/http"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+type SavedViewRequest struct {
+	Name  string `json:"name" binding:"required,min=1"`
+	Query string `json:"query" binding:"required"`
+}
+
+// ListSavedViews returns every saved library view
+// @Summary List saved views
+// @Description Get the named filter combinations saved for the audio library
+// @Tags views
+// @Produce json
+// @Success 200 {array} models.SavedView
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/views [get]
+func (h *Handler) ListSavedViews(c *gin.Context) {
+	var views []models.SavedView
+	if err := database.DB.Order("name ASC").Find(&views).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch saved views"})
+		return
+	}
+	c.JSON(http.StatusOK, views)
+}
+
+// CreateSavedView saves a filter combination under a name
+// @Summary Create saved view
+// @Description Save library filters, given as the query string of the library URL, under a name
+// @Tags views
+// @Accept json
+// @Produce json
+// @Param request body SavedViewRequest true "Saved view payload"
+// @Success 201 {object} models.SavedView
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/views [post]
+func (h *Handler) CreateSavedView(c *gin.Context) {
+	var req SavedViewRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	view := models.SavedView{
+		Name:  strings.TrimSpace(req.Name),
+		Query: strings.TrimPrefix(req.Query, "?"),
+	}
+	if err := database.DB.Create(&view).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save view"})
+		return
+	}
+	c.JSON(http.StatusCreated, view)
+}
+
+// DeleteSavedView removes a saved view
+// @Summary Delete saved view
+// @Description Delete a saved library view
+// @Tags views
+// @Produce json
+// @Param id path string true "Saved view ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/views/{id} [delete]
+func (h *Handler) DeleteSavedView(c *gin.Context) {
+	result := database.DB.Where("id = ?", c.Param("id")).Delete(&models.SavedView{})
+	if result.Error != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete view"})
+		return
+	}
+	if result.RowsAffected == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Saved view not found"})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"message": "View deleted"})
+}
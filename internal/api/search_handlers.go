@@ -0,0 +1,285 @@
+package api
+
+import (
+	"fmt"
+	"log"
+	"net/http"
+	"strconv"
+	"strings"
+	"time"
+	"unicode"
+
+	"github.com/gin-gonic/gin"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// Characters of context kept on each side of a match in a search snippet
+const (
+	snippetContextBefore = 80
+	snippetContextAfter  = 120
+)
+
+// TranscriptSearchHit is one matching transcript segment
+type TranscriptSearchHit struct {
+	TranscriptionID string    `json:"transcription_id"`
+	Title           *string   `json:"title,omitempty"`
+	SegmentIndex    int       `json:"segment_index"`
+	Start           float64   `json:"start"`
+	End             float64   `json:"end"`
+	Speaker         string    `json:"speaker,omitempty"`
+	SpeakerName     string    `json:"speaker_name,omitempty"`
+	Snippet         string    `json:"snippet"`
+	CreatedAt       time.Time `json:"created_at"`
+}
+
+// searchHitRow is a matching segment as read from the database
+type searchHitRow struct {
+	ID           string
+	SegmentIndex int
+	StartTime    float64
+	EndTime      float64
+	Text         string
+	Speaker      *string
+}
+
+// searchHitsFrom lists every segment of the completed transcripts as rows,
+// plus the plain text of transcripts that have no segments. The job
+// conditions (%[1]s) go in both halves so SQLite skips other transcripts
+// before reading their JSON.
+const searchHitsFrom = `FROM (
+	SELECT j.id, j.created_at, CAST(s.key AS INTEGER) AS segment_index,
+		COALESCE(json_extract(s.value, '$.start'), 0) AS start_time,
+		COALESCE(json_extract(s.value, '$.end'), 0) AS end_time,
+		COALESCE(json_extract(s.value, '$.text'), '') AS text,
+		json_extract(s.value, '$.speaker') AS speaker
+	FROM transcription_jobs AS j,
+		json_each(CASE WHEN json_valid(j.transcript) THEN j.transcript END, '$.segments') AS s
+	WHERE %[1]s
+	UNION ALL
+	SELECT j.id, j.created_at, 0, 0, 0, COALESCE(json_extract(j.transcript, '$.text'), ''), NULL
+	FROM transcription_jobs AS j
+	WHERE %[1]s AND json_valid(j.transcript) AND COALESCE(json_array_length(j.transcript, '$.segments'), 0) = 0
+) AS hits
+WHERE hits.text GLOB ?`
+
+// lowerRunes lowercases text rune by rune so indexes line up with the original runes
+func lowerRunes(text []rune) []rune {
+	lowered := make([]rune, len(text))
+	for i, r := range text {
+		lowered[i] = unicode.ToLower(r)
+	}
+	return lowered
+}
+
+// indexRunes returns the index of the first occurrence of needle in haystack, or -1
+func indexRunes(haystack, needle []rune) int {
+	for i := 0; i+len(needle) <= len(haystack); i++ {
+		match := true
+		for j := range needle {
+			if haystack[i+j] != needle[j] {
+				match = false
+				break
+			}
+		}
+		if match {
+			return i
+		}
+	}
+	return -1
+}
+
+// buildSearchSnippet cuts text down to the context around a match, breaking on spaces
+func buildSearchSnippet(text []rune, matchStart, matchLen int) string {
+	start := matchStart - snippetContextBefore
+	end := matchStart + matchLen + snippetContextAfter
+	prefix, suffix := "", ""
+
+	if start <= 0 {
+		start = 0
+	} else {
+		for start < matchStart && !unicode.IsSpace(text[start-1]) {
+			start++
+		}
+		prefix = "…"
+	}
+	if end >= len(text) {
+		end = len(text)
+	} else {
+		for end > matchStart+matchLen && !unicode.IsSpace(text[end]) {
+			end--
+		}
+		suffix = "…"
+	}
+
+	return prefix + strings.TrimSpace(string(text[start:end])) + suffix
+}
+
+// canPrefilterSearch reports whether a LIKE query on the raw transcript JSON finds
+// every match. JSON escaping and SQLite's ASCII-only case folding make that
+// unreliable for other characters, so those queries skip the prefilter.
+func canPrefilterSearch(query string) bool {
+	for _, r := range query {
+		if r > unicode.MaxASCII || strings.ContainsRune(`"\<>&%_`, r) {
+			return false
+		}
+	}
+	return true
+}
+
+// searchGlobPattern builds a GLOB pattern for text containing query in any
+// letter case. LIKE only folds ASCII letters; a set holding every case of
+// each letter works in any script.
+func searchGlobPattern(query string) string {
+	var pattern strings.Builder
+	pattern.WriteByte('*')
+	for _, r := range query {
+		variants := string(r)
+		for _, variant := range []rune{unicode.ToLower(r), unicode.ToUpper(r), unicode.ToTitle(r)} {
+			if !strings.ContainsRune(variants, variant) {
+				variants += string(variant)
+			}
+		}
+		if len([]rune(variants)) > 1 || strings.ContainsRune("*?[", r) {
+			pattern.WriteString("[" + variants + "]")
+		} else {
+			pattern.WriteRune(r)
+		}
+	}
+	pattern.WriteByte('*')
+	return pattern.String()
+}
+
+// SearchTranscripts searches inside the text of all transcripts
+// @Summary Search transcripts
+// @Description Full-text search inside all completed transcripts, returning one hit per matching segment
+// @Tags transcription
+// @Produce json
+// @Param q query string true "Text to search for"
+// @Param page query int false "Page number" default(1)
+// @Param limit query int false "Hits per page" default(20)
+// @Success 200 {object} map[string]interface{}
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/search [get]
+func (h *Handler) SearchTranscripts(c *gin.Context) {
+	query := strings.TrimSpace(c.Query("q"))
+	page, _ := strconv.Atoi(c.DefaultQuery("page", "1"))
+	limit, _ := strconv.Atoi(c.DefaultQuery("limit", "20"))
+
+	if query == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Search query is required"})
+		return
+	}
+	if page < 1 {
+		page = 1
+	}
+	if limit < 1 || limit > 100 {
+		limit = 20
+	}
+
+	conditions := "j.id NOT LIKE 'track_%' AND j.status = ? AND j.transcript IS NOT NULL"
+	conditionArgs := []interface{}{models.StatusCompleted}
+	if canPrefilterSearch(query) {
+		conditions += " AND j.transcript LIKE ? COLLATE NOCASE"
+		conditionArgs = append(conditionArgs, "%"+query+"%")
+	}
+	from := fmt.Sprintf(searchHitsFrom, conditions)
+	args := append(append(append([]interface{}{}, conditionArgs...), conditionArgs...), searchGlobPattern(query))
+
+	var total int64
+	if err := database.DB.Raw("SELECT COUNT(*) "+from, args...).Scan(&total).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to search transcripts"})
+		return
+	}
+
+	var rows []searchHitRow
+	pageQuery := "SELECT hits.id, hits.segment_index, hits.start_time, hits.end_time, hits.text, hits.speaker " + from +
+		" ORDER BY hits.created_at DESC, hits.id, hits.segment_index LIMIT ? OFFSET ?"
+	if err := database.DB.Raw(pageQuery, append(args, limit, (page-1)*limit)...).Scan(&rows).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to search transcripts"})
+		return
+	}
+
+	// Titles and dates of the recordings on this page
+	pageJobIDs := make([]string, 0)
+	for _, row := range rows {
+		pageJobIDs = append(pageJobIDs, row.ID)
+	}
+	jobsByID := make(map[string]models.TranscriptionJob)
+	if len(pageJobIDs) > 0 {
+		var jobs []models.TranscriptionJob
+		if err := database.DB.Select("id", "title", "created_at").Where("id IN ?", pageJobIDs).Find(&jobs).Error; err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to search transcripts"})
+			return
+		}
+		for _, job := range jobs {
+			jobsByID[job.ID] = job
+		}
+	}
+
+	needle := lowerRunes([]rune(query))
+	pageHits := make([]TranscriptSearchHit, 0, len(rows))
+	for _, row := range rows {
+		text := []rune(strings.TrimSpace(row.Text))
+		// SQLite matched the segment; find where for the snippet
+		index := indexRunes(lowerRunes(text), needle)
+		matchLen := len(needle)
+		if index == -1 {
+			index, matchLen = 0, 0
+		}
+		job := jobsByID[row.ID]
+		hit := TranscriptSearchHit{
+			TranscriptionID: row.ID,
+			Title:           job.Title,
+			SegmentIndex:    row.SegmentIndex,
+			Start:           row.StartTime,
+			End:             row.EndTime,
+			Snippet:         buildSearchSnippet(text, index, matchLen),
+			CreatedAt:       job.CreatedAt,
+		}
+		if row.Speaker != nil {
+			hit.Speaker = *row.Speaker
+		}
+		pageHits = append(pageHits, hit)
+	}
+
+	// Resolve custom speaker names for the hits on this page only
+	jobIDs := make([]string, 0)
+	seen := make(map[string]bool)
+	for _, hit := range pageHits {
+		if hit.Speaker != "" && !seen[hit.TranscriptionID] {
+			seen[hit.TranscriptionID] = true
+			jobIDs = append(jobIDs, hit.TranscriptionID)
+		}
+	}
+	if len(jobIDs) > 0 {
+		var mappings []models.SpeakerMapping
+		if err := database.DB.Where("transcription_job_id IN ?", jobIDs).Find(&mappings).Error; err != nil {
+			log.Printf("search.SearchTranscripts: failed to load speaker mappings: %v", err)
+		}
+		names := make(map[string]string)
+		for _, mapping := range mappings {
+			names[mapping.TranscriptionJobID+"/"+mapping.OriginalSpeaker] = mapping.CustomName
+		}
+		for i := range pageHits {
+			if name, ok := names[pageHits[i].TranscriptionID+"/"+pageHits[i].Speaker]; ok {
+				pageHits[i].SpeakerName = name
+			}
+		}
+	}
+
+	c.JSON(http.StatusOK, gin.H{
+		"results": pageHits,
+		"pagination": gin.H{
+			"page":  page,
+			"limit": limit,
+			"total": total,
+			"pages": (int(total) + limit - 1) / limit,
+			"query": query,
+		},
+	})
+}
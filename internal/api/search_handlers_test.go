@@ -0,0 +1,76 @@
+package api
+
+import (
+	"strings"
+	"testing"
+)
+
+func TestSearchGlobPattern(t *testing.T) {
+	tests := []struct {
+		query string
+		want  string
+	}{
+		{"ab", "*[aA][bB]*"},
+		{"Zoë 42", "*[Zz][oO][ëË] 42*"},
+		{"ǆ", "*[ǆǄǅ]*"},
+		{"a*b?[", "*[aA][*][bB][?][[]*"},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.query, func(t *testing.T) {
+			if got := searchGlobPattern(tt.query); got != tt.want {
+				t.Errorf("searchGlobPattern(%q) = %q, want %q", tt.query, got, tt.want)
+			}
+		})
+	}
+}
+
+func TestBuildSearchSnippet(t *testing.T) {
+	long := strings.Repeat("words ", 40) + "needle " + strings.Repeat("words ", 40)
+	matchStart := strings.Index(long, "needle")
+
+	tests := []struct {
+		name       string
+		text       string
+		matchStart int
+		matchLen   int
+		want       string
+	}{
+		{"short text kept whole", " find the needle here ", 10, 6, "find the needle here"},
+		{"match at the start", "needle then more", 0, 6, "needle then more"},
+		{
+			"long text cut on spaces around the match",
+			long, matchStart, 6,
+			"…" + strings.Repeat("words ", 13) + "needle " + strings.Repeat("words ", 19) + "words…",
+		},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			if got := buildSearchSnippet([]rune(tt.text), tt.matchStart, tt.matchLen); got != tt.want {
+				t.Errorf("buildSearchSnippet() = %q, want %q", got, tt.want)
+			}
+		})
+	}
+}
+
+func TestCanPrefilterSearch(t *testing.T) {
+	tests := []struct {
+		query string
+		want  bool
+	}{
+		{"meeting notes", true},
+		{"Zoë", false},
+		{`say "hi"`, false},
+		{"100%", false},
+		{"snake_case", false},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.query, func(t *testing.T) {
+			if got := canPrefilterSearch(tt.query); got != tt.want {
+				t.Errorf("canPrefilterSearch(%q) = %v, want %v", tt.query, got, tt.want)
+			}
+		})
+	}
+}
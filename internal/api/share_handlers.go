@@ -0,0 +1,653 @@
+package api
+
+import (
+	"encoding/json"
+	"fmt"
+	"math"
+	"net/http"
+	"os"
+	"os/exec"
+	"path/filepath"
+	"strconv"
+	"strings"
+	"sync"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/auth"
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// SharePasswordHeader carries the password of a protected share link
+const SharePasswordHeader = "X-Share-Password"
+
+// CreateShareLinkRequest describes a new share link
+type CreateShareLinkRequest struct {
+	Label          string `json:"label" binding:"max=255"`
+	ExpiresInHours int    `json:"expires_in_hours" binding:"required,min=1,max=8760"`
+	// Leave empty for a link that opens without a password
+	Password string `json:"password"`
+	// Limit the link to part of the recording, in seconds
+	StartTime      *float64 `json:"start_time" binding:"omitempty,min=0"`
+	EndTime        *float64 `json:"end_time" binding:"omitempty,min=0"`
+	IncludeSummary bool     `json:"include_summary"`
+}
+
+// ShareLinkResponse is a share link as shown to its owner
+type ShareLinkResponse struct {
+	models.ShareLink
+	// Title of the shared transcription
+	Title       string `json:"title"`
+	HasPassword bool   `json:"has_password"`
+	// Goes after /share/ in the public URL
+	Token string `json:"token"`
+}
+
+// ShareLinksWrapper wraps a list of share links
+type ShareLinksWrapper struct {
+	ShareLinks []ShareLinkResponse `json:"share_links"`
+}
+
+// SharedTranscriptResponse is what visitors of a share link see. Transcript
+// times count from the start of the shared range, like the shared audio.
+type SharedTranscriptResponse struct {
+	Title        string            `json:"title"`
+	Label        string            `json:"label,omitempty"`
+	StartTime    *float64          `json:"start_time,omitempty"`
+	EndTime      *float64          `json:"end_time,omitempty"`
+	ExpiresAt    time.Time         `json:"expires_at"`
+	Transcript   interface{}       `json:"transcript"`
+	SpeakerNames map[string]string `json:"speaker_names"`
+	Summary      *string           `json:"summary,omitempty"`
+}
+
+func (h *Handler) newShareLinkResponse(share models.ShareLink, title *string) ShareLinkResponse {
+	response := ShareLinkResponse{
+		ShareLink:   share,
+		HasPassword: share.PasswordHash != nil,
+		Token:       h.authService.SignShareLink(share.ID),
+	}
+	if title != nil {
+		response.Title = *title
+	}
+	return response
+}
+
+const (
+	// Wrong passwords a visitor may try on a share link within the window
+	sharePasswordMaxFailures   = 5
+	sharePasswordFailureWindow = 15 * time.Minute
+)
+
+// passwordThrottle counts recent wrong passwords per key so share link
+// passwords can't be guessed by trying many
+type passwordThrottle struct {
+	mu       sync.Mutex
+	failures map[string][]time.Time
+}
+
+func newPasswordThrottle() *passwordThrottle {
+	return &passwordThrottle{failures: make(map[string][]time.Time)}
+}
+
+// recent drops the failures that left the window and returns the rest. Callers hold t.mu.
+func (t *passwordThrottle) recent(key string, now time.Time) []time.Time {
+	failures := t.failures[key]
+	for len(failures) > 0 && now.Sub(failures[0]) >= sharePasswordFailureWindow {
+		failures = failures[1:]
+	}
+	if len(failures) == 0 {
+		delete(t.failures, key)
+		return nil
+	}
+	t.failures[key] = failures
+	return failures
+}
+
+// retryAfter returns how long key has to wait before trying again, or zero
+func (t *passwordThrottle) retryAfter(key string, now time.Time) time.Duration {
+	t.mu.Lock()
+	defer t.mu.Unlock()
+	failures := t.recent(key, now)
+	if len(failures) < sharePasswordMaxFailures {
+		return 0
+	}
+	return failures[0].Add(sharePasswordFailureWindow).Sub(now)
+}
+
+// fail records a wrong password
+func (t *passwordThrottle) fail(key string, now time.Time) {
+	t.mu.Lock()
+	defer t.mu.Unlock()
+	t.failures[key] = append(t.recent(key, now), now)
+}
+
+// sweep drops every key whose failures all left the window, so visitors who
+// never come back don't stay in memory
+func (t *passwordThrottle) sweep(now time.Time) {
+	t.mu.Lock()
+	defer t.mu.Unlock()
+	for key := range t.failures {
+		t.recent(key, now)
+	}
+}
+
+// reset forgets the failures of a key once it got the password right
+func (t *passwordThrottle) reset(key string) {
+	t.mu.Lock()
+	defer t.mu.Unlock()
+	delete(t.failures, key)
+}
+
+// sweepSharePasswordsRoutine forgets stale wrong password counts
+func (h *Handler) sweepSharePasswordsRoutine() {
+	ticker := time.NewTicker(sharePasswordFailureWindow)
+	defer ticker.Stop()
+	for range ticker.C {
+		h.sharePasswords.sweep(time.Now())
+	}
+}
+
+// shareClipPath is where the audio of a share link limited to a time range is cached
+func (h *Handler) shareClipPath(shareID string) string {
+	return filepath.Join(h.config.UploadDir, "shares", shareID+".mp3")
+}
+
+// removeShareClip deletes the cached audio of a share link, if any
+func (h *Handler) removeShareClip(shareID string) {
+	if err := os.Remove(h.shareClipPath(shareID)); err != nil && !os.IsNotExist(err) {
+		fmt.Printf("Warning: Failed to delete shared audio clip for %s: %v\n", shareID, err)
+	}
+}
+
+// CreateShareLink creates a public read-only link to a transcription
+// @Summary Create share link
+// @Description Create a signed link that opens the transcript, audio and optionally the summary without an account, until it expires or is revoked
+// @Tags shares
+// @Accept json
+// @Produce json
+// @Param id path string true "Transcription ID"
+// @Param request body CreateShareLinkRequest true "Share link options"
+// @Success 201 {object} ShareLinkResponse
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/shares [post]
+func (h *Handler) CreateShareLink(c *gin.Context) {
+	var req CreateShareLinkRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if req.StartTime != nil && req.EndTime != nil && *req.EndTime <= *req.StartTime {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "End time must be after start time"})
+		return
+	}
+
+	var job models.TranscriptionJob
+	if err := database.DB.Where("id = ?", c.Param("id")).First(&job).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Transcription not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get transcription"})
+		return
+	}
+	if job.Status != models.StatusCompleted || job.Transcript == nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Only completed transcriptions can be shared"})
+		return
+	}
+
+	share := models.ShareLink{
+		TranscriptionID: job.ID,
+		Label:           strings.TrimSpace(req.Label),
+		StartTime:       req.StartTime,
+		EndTime:         req.EndTime,
+		IncludeSummary:  req.IncludeSummary,
+		ExpiresAt:       time.Now().Add(time.Duration(req.ExpiresInHours) * time.Hour),
+	}
+	// A range starting at 0 with no end is the whole recording
+	if share.StartTime != nil && *share.StartTime == 0 && share.EndTime == nil {
+		share.StartTime = nil
+	}
+	if req.Password != "" {
+		hash, err := auth.HashPassword(req.Password)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to hash password"})
+			return
+		}
+		share.PasswordHash = &hash
+	}
+
+	if err := database.DB.Create(&share).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create share link"})
+		return
+	}
+	c.JSON(http.StatusCreated, h.newShareLinkResponse(share, job.Title))
+}
+
+// ListShareLinks lists the share links that have not expired
+// @Summary List share links
+// @Description List the share links that have not expired, newest first
+// @Tags shares
+// @Produce json
+// @Param transcription_id query string false "Only the links to this transcription"
+// @Success 200 {object} ShareLinksWrapper
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/shares [get]
+func (h *Handler) ListShareLinks(c *gin.Context) {
+	query := database.DB.Where("expires_at > ?", time.Now()).Order("created_at DESC")
+	if transcriptionID := c.Query("transcription_id"); transcriptionID != "" {
+		query = query.Where("transcription_id = ?", transcriptionID)
+	}
+	var shares []models.ShareLink
+	if err := query.Find(&shares).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to list share links"})
+		return
+	}
+
+	// Titles of the shared transcriptions
+	ids := make([]string, 0, len(shares))
+	for _, share := range shares {
+		ids = append(ids, share.TranscriptionID)
+	}
+	var jobs []models.TranscriptionJob
+	if len(ids) > 0 {
+		if err := database.DB.Select("id", "title").Where("id IN ?", ids).Find(&jobs).Error; err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to list share links"})
+			return
+		}
+	}
+	titles := make(map[string]*string, len(jobs))
+	for _, job := range jobs {
+		titles[job.ID] = job.Title
+	}
+
+	response := make([]ShareLinkResponse, 0, len(shares))
+	for _, share := range shares {
+		response = append(response, h.newShareLinkResponse(share, titles[share.TranscriptionID]))
+	}
+	c.JSON(http.StatusOK, ShareLinksWrapper{ShareLinks: response})
+}
+
+// RevokeShareLink deletes a share link, so its URL stops working
+// @Summary Revoke share link
+// @Description Delete a share link. Its URL stops working straight away.
+// @Tags shares
+// @Produce json
+// @Param id path string true "Share link ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/shares/{id} [delete]
+func (h *Handler) RevokeShareLink(c *gin.Context) {
+	shareID := c.Param("id")
+	result := database.DB.Where("id = ?", shareID).Delete(&models.ShareLink{})
+	if result.Error != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to revoke share link"})
+		return
+	}
+	if result.RowsAffected == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Share link not found"})
+		return
+	}
+	h.removeShareClip(shareID)
+	c.JSON(http.StatusOK, gin.H{"message": "Share link revoked"})
+}
+
+// resolveShareLink checks the token and password of a public request and
+// loads the share link and its transcription. It writes the error response
+// and returns false when the request may not see them. A missing or wrong
+// password gets 403 rather than 401, which the web app takes to mean its
+// own session has ended.
+func (h *Handler) resolveShareLink(c *gin.Context) (*models.ShareLink, *models.TranscriptionJob, bool) {
+	shareID, ok := h.authService.VerifyShareLink(c.Param("token"))
+	if !ok {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Share link not found"})
+		return nil, nil, false
+	}
+
+	var share models.ShareLink
+	if err := database.DB.Where("id = ?", shareID).First(&share).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Share link not found"})
+			return nil, nil, false
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get share link"})
+		return nil, nil, false
+	}
+	if share.Expired(time.Now()) {
+		c.JSON(http.StatusGone, gin.H{"error": "This share link has expired"})
+		return nil, nil, false
+	}
+
+	if share.PasswordHash != nil {
+		password := c.GetHeader(SharePasswordHeader)
+		if password == "" {
+			c.JSON(http.StatusForbidden, gin.H{"error": "Password required", "password_required": true})
+			return nil, nil, false
+		}
+		// Counted per link and visitor, so guessing doesn't lock others out
+		attemptKey := share.ID + "|" + c.ClientIP()
+		if wait := h.sharePasswords.retryAfter(attemptKey, time.Now()); wait > 0 {
+			c.Header("Retry-After", strconv.Itoa(int(math.Ceil(wait.Seconds()))))
+			c.JSON(http.StatusTooManyRequests, gin.H{"error": "Too many wrong passwords, try again later", "password_required": true})
+			return nil, nil, false
+		}
+		if !auth.CheckPassword(password, *share.PasswordHash) {
+			h.sharePasswords.fail(attemptKey, time.Now())
+			c.JSON(http.StatusForbidden, gin.H{"error": "Wrong password", "password_required": true})
+			return nil, nil, false
+		}
+		h.sharePasswords.reset(attemptKey)
+	}
+
+	var job models.TranscriptionJob
+	if err := database.DB.Where("id = ?", share.TranscriptionID).First(&job).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Share link not found"})
+			return nil, nil, false
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get transcription"})
+		return nil, nil, false
+	}
+	if job.Transcript == nil {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Transcript not available"})
+		return nil, nil, false
+	}
+	return &share, &job, true
+}
+
+// overlapsRange reports whether itemStart–itemEnd overlaps the range of a share link
+func overlapsRange(itemStart, itemEnd, start float64, end *float64) bool {
+	return itemEnd > start && (end == nil || itemStart < *end)
+}
+
+// shiftIntoRange moves a time back by the start of the range, keeping it within the range
+func shiftIntoRange(t, start float64, end *float64) float64 {
+	if end != nil && t > *end {
+		t = *end
+	}
+	return math.Max(t-start, 0)
+}
+
+// transcriptItemTimes returns the start and end of a segment or word; ok is
+// false when it has no times
+func transcriptItemTimes(fields map[string]interface{}) (itemStart, itemEnd float64, ok bool) {
+	itemStart, okStart := fields["start"].(float64)
+	itemEnd, okEnd := fields["end"].(float64)
+	return itemStart, itemEnd, okStart && okEnd
+}
+
+// clipTranscriptWords keeps the words that overlap the range and moves their
+// times back by its start. Words without times, like numbers the aligner
+// skipped, go with the word before them; inside says where the first of them goes.
+func clipTranscriptWords(words []interface{}, start float64, end *float64, inside bool) []interface{} {
+	kept := make([]interface{}, 0, len(words))
+	for _, item := range words {
+		fields, ok := item.(map[string]interface{})
+		if !ok {
+			continue
+		}
+		if wordStart, wordEnd, timed := transcriptItemTimes(fields); timed {
+			inside = overlapsRange(wordStart, wordEnd, start, end)
+			if inside {
+				fields["start"] = shiftIntoRange(wordStart, start, end)
+				fields["end"] = shiftIntoRange(wordEnd, start, end)
+			}
+		}
+		if inside {
+			kept = append(kept, fields)
+		}
+	}
+	return kept
+}
+
+// clipTranscriptSegments keeps the segments that overlap the range and moves
+// their times back by its start. A segment running over an edge of the range
+// keeps only its words inside it, and is left out when it has no word times
+// to cut its text by.
+func clipTranscriptSegments(segments []interface{}, start float64, end *float64) []interface{} {
+	kept := make([]interface{}, 0, len(segments))
+	for _, item := range segments {
+		fields, ok := item.(map[string]interface{})
+		if !ok {
+			continue
+		}
+		segmentStart, segmentEnd, timed := transcriptItemTimes(fields)
+		if !timed || !overlapsRange(segmentStart, segmentEnd, start, end) {
+			continue
+		}
+
+		words, hasWords := fields["words"].([]interface{})
+		if hasWords {
+			words = clipTranscriptWords(words, start, end, segmentStart >= start)
+			fields["words"] = words
+		}
+		if segmentStart < start || (end != nil && segmentEnd > *end) {
+			texts := make([]string, 0, len(words))
+			for _, word := range words {
+				if text, ok := word.(map[string]interface{})["word"].(string); ok {
+					texts = append(texts, strings.TrimSpace(text))
+				}
+			}
+			if len(texts) == 0 {
+				continue
+			}
+			fields["text"] = strings.Join(texts, " ")
+		}
+
+		fields["start"] = shiftIntoRange(segmentStart, start, end)
+		fields["end"] = shiftIntoRange(segmentEnd, start, end)
+		kept = append(kept, fields)
+	}
+	return kept
+}
+
+// clipTranscript limits a transcript to the time range of a share link
+func clipTranscript(transcript map[string]interface{}, start float64, end *float64) {
+	if words, ok := transcript["word_segments"].([]interface{}); ok {
+		transcript["word_segments"] = clipTranscriptWords(words, start, end, start <= 0)
+	}
+	segments, ok := transcript["segments"].([]interface{})
+	if !ok {
+		return
+	}
+	segments = clipTranscriptSegments(segments, start, end)
+	transcript["segments"] = segments
+
+	// The full text would give away what is outside the range
+	texts := make([]string, 0, len(segments))
+	for _, segment := range segments {
+		if text, ok := segment.(map[string]interface{})["text"].(string); ok {
+			texts = append(texts, strings.TrimSpace(text))
+		}
+	}
+	transcript["text"] = strings.Join(texts, " ")
+}
+
+// GetSharedTranscript returns what a share link shows
+// @Summary Open share link
+// @Description Get the title, transcript and, when shared, the summary behind a share link. No account needed; protected links need their password in the X-Share-Password header.
+// @Tags shares
+// @Produce json
+// @Param token path string true "Share link token"
+// @Param X-Share-Password header string false "Password of a protected link"
+// @Success 200 {object} SharedTranscriptResponse
+// @Failure 403 {object} map[string]interface{}
+// @Failure 404 {object} map[string]string
+// @Failure 410 {object} map[string]string
+// @Failure 429 {object} map[string]interface{}
+// @Failure 500 {object} map[string]string
+// @Router /api/v1/share/{token} [get]
+func (h *Handler) GetSharedTranscript(c *gin.Context) {
+	share, job, ok := h.resolveShareLink(c)
+	if !ok {
+		return
+	}
+
+	var transcript map[string]interface{}
+	if err := json.Unmarshal([]byte(*job.Transcript), &transcript); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to parse transcript"})
+		return
+	}
+	if share.StartTime != nil || share.EndTime != nil {
+		start := 0.0
+		if share.StartTime != nil {
+			start = *share.StartTime
+		}
+		clipTranscript(transcript, start, share.EndTime)
+	}
+
+	var mappings []models.SpeakerMapping
+	if err := database.DB.Where("transcription_job_id = ?", job.ID).Find(&mappings).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get speaker names"})
+		return
+	}
+	speakerNames := make(map[string]string, len(mappings))
+	for _, mapping := range mappings {
+		speakerNames[mapping.OriginalSpeaker] = mapping.CustomName
+	}
+
+	response := SharedTranscriptResponse{
+		Label:        share.Label,
+		StartTime:    share.StartTime,
+		EndTime:      share.EndTime,
+		ExpiresAt:    share.ExpiresAt,
+		Transcript:   transcript,
+		SpeakerNames: speakerNames,
+	}
+	if job.Title != nil {
+		response.Title = *job.Title
+	}
+	if share.IncludeSummary {
+		var summary models.Summary
+		if err := database.DB.Where("transcription_id = ?", job.ID).Order("created_at DESC").First(&summary).Error; err == nil {
+			response.Summary = &summary.Content
+		} else if job.Summary != nil && *job.Summary != "" {
+			response.Summary = job.Summary
+		}
+	}
+
+	now := time.Now()
+	_ = database.DB.Model(share).Updates(map[string]interface{}{
+		"access_count":     gorm.Expr("access_count + ?", 1),
+		"last_accessed_at": now,
+	}).Error
+
+	c.JSON(http.StatusOK, response)
+}
+
+// extractShareClip cuts the range of a share link out of the recording
+func extractShareClip(audioPath, clipPath string, start float64, end *float64) error {
+	if err := os.MkdirAll(filepath.Dir(clipPath), 0755); err != nil {
+		return fmt.Errorf("Failed to create shared audio directory: %v", err)
+	}
+	args := []string{"-ss", strconv.FormatFloat(start, 'f', 3, 64), "-i", audioPath}
+	if end != nil {
+		args = append(args, "-t", strconv.FormatFloat(*end-start, 'f', 3, 64))
+	}
+	// Written aside and moved into place, so a visitor never gets half a
+	// file. Each request gets its own part file, so visitors opening the link
+	// at the same time don't write over each other.
+	part, err := os.CreateTemp(filepath.Dir(clipPath), filepath.Base(clipPath)+".*.part")
+	if err != nil {
+		return fmt.Errorf("Failed to create shared audio file: %v", err)
+	}
+	partPath := part.Name()
+	part.Close()
+	args = append(args,
+		"-vn",            // no video
+		"-acodec", "mp3", // audio codec
+		"-ab", "192k", // audio bitrate
+		"-f", "mp3",
+		"-y", // overwrite output
+		partPath)
+
+	cmd := exec.Command("ffmpeg", args...)
+	if output, err := cmd.CombinedOutput(); err != nil {
+		os.Remove(partPath)
+		return fmt.Errorf("Failed to cut shared audio: %v - %s", err, string(output))
+	}
+	if err := os.Rename(partPath, clipPath); err != nil {
+		os.Remove(partPath)
+		return err
+	}
+	return nil
+}
+
+// GetSharedAudio streams the audio behind a share link
+// @Summary Get shared audio
+// @Description Get the audio behind a share link, cut to its time range when it has one. Protected links need their password in the X-Share-Password header.
+// @Tags shares
+// @Produce audio/mpeg
+// @Param token path string true "Share link token"
+// @Param X-Share-Password header string false "Password of a protected link"
+// @Success 200 {file} binary
+// @Failure 403 {object} map[string]interface{}
+// @Failure 404 {object} map[string]string
+// @Failure 410 {object} map[string]string
+// @Failure 429 {object} map[string]interface{}
+// @Failure 500 {object} map[string]string
+// @Router /api/v1/share/{token}/audio [get]
+func (h *Handler) GetSharedAudio(c *gin.Context) {
+	share, job, ok := h.resolveShareLink(c)
+	if !ok {
+		return
+	}
+
+	// For multi-track jobs, prefer merged audio if available
+	audioPath := job.AudioPath
+	if job.IsMultiTrack && job.MergedAudioPath != nil && *job.MergedAudioPath != "" {
+		if _, err := os.Stat(*job.MergedAudioPath); err == nil {
+			audioPath = *job.MergedAudioPath
+		}
+	}
+	if audioPath == "" {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Audio file not found"})
+		return
+	}
+	if _, err := os.Stat(audioPath); os.IsNotExist(err) {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Audio file not found on disk"})
+		return
+	}
+
+	if share.StartTime == nil && share.EndTime == nil {
+		switch filepath.Ext(audioPath) {
+		case ".wav":
+			c.Header("Content-Type", "audio/wav")
+		case ".m4a":
+			c.Header("Content-Type", "audio/mp4")
+		case ".ogg":
+			c.Header("Content-Type", "audio/ogg")
+		default:
+			c.Header("Content-Type", "audio/mpeg")
+		}
+		c.File(audioPath)
+		return
+	}
+
+	clipPath := h.shareClipPath(share.ID)
+	if _, err := os.Stat(clipPath); os.IsNotExist(err) {
+		start := 0.0
+		if share.StartTime != nil {
+			start = *share.StartTime
+		}
+		if err := extractShareClip(audioPath, clipPath, start, share.EndTime); err != nil {
+			fmt.Printf("Warning: %v\n", err)
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to prepare shared audio"})
+			return
+		}
+	}
+	c.Header("Content-Type", "audio/mpeg")
+	c.File(clipPath)
+}
@@ -0,0 +1,164 @@
+package api
+
+import (
+	"reflect"
+	"testing"
+	"time"
+)
+
+func TestPasswordThrottle(t *testing.T) {
+	throttle := newPasswordThrottle()
+	start := time.Date(2025, 3, 1, 12, 0, 0, 0, time.UTC)
+
+	for i := 0; i < sharePasswordMaxFailures-1; i++ {
+		throttle.fail("share|ip", start.Add(time.Duration(i)*time.Minute))
+	}
+	if wait := throttle.retryAfter("share|ip", start.Add(5*time.Minute)); wait != 0 {
+		t.Fatalf("retryAfter below the limit = %v, want 0", wait)
+	}
+
+	throttle.fail("share|ip", start.Add(5*time.Minute))
+	if wait := throttle.retryAfter("share|ip", start.Add(5*time.Minute)); wait != 10*time.Minute {
+		t.Errorf("retryAfter at the limit = %v, want 10m until the first failure leaves the window", wait)
+	}
+	if wait := throttle.retryAfter("share|other-ip", start.Add(5*time.Minute)); wait != 0 {
+		t.Errorf("retryAfter for another visitor = %v, want 0", wait)
+	}
+	if wait := throttle.retryAfter("share|ip", start.Add(sharePasswordFailureWindow)); wait != 0 {
+		t.Errorf("retryAfter once the first failure left the window = %v, want 0", wait)
+	}
+
+	throttle.fail("share|ip", start.Add(sharePasswordFailureWindow))
+	throttle.reset("share|ip")
+	if wait := throttle.retryAfter("share|ip", start.Add(sharePasswordFailureWindow)); wait != 0 {
+		t.Errorf("retryAfter after reset = %v, want 0", wait)
+	}
+}
+
+func TestPasswordThrottleSweep(t *testing.T) {
+	throttle := newPasswordThrottle()
+	start := time.Date(2025, 3, 1, 12, 0, 0, 0, time.UTC)
+	throttle.fail("stale", start)
+	throttle.fail("fresh", start.Add(10*time.Minute))
+
+	throttle.sweep(start.Add(sharePasswordFailureWindow))
+	if _, ok := throttle.failures["stale"]; ok {
+		t.Error("sweep kept a key whose failures all left the window")
+	}
+	if got := len(throttle.failures["fresh"]); got != 1 {
+		t.Errorf("sweep left %d failures for a recent key, want 1", got)
+	}
+}
+
+func word(text string, times ...float64) map[string]interface{} {
+	w := map[string]interface{}{"word": text}
+	if len(times) == 2 {
+		w["start"], w["end"] = times[0], times[1]
+	}
+	return w
+}
+
+func TestClipTranscriptWords(t *testing.T) {
+	end := 10.0
+
+	tests := []struct {
+		name   string
+		words  []interface{}
+		start  float64
+		end    *float64
+		inside bool
+		want   []interface{}
+	}{
+		{
+			"words outside the range dropped and the rest shifted",
+			[]interface{}{word("a", 1, 2), word("b", 5, 6), word("c", 11, 12)},
+			4, &end, false,
+			[]interface{}{word("b", 1, 2)},
+		},
+		{
+			"word across an edge cut to the range",
+			[]interface{}{word("a", 3, 5), word("b", 9, 12)},
+			4, &end, false,
+			[]interface{}{word("a", 0, 1), word("b", 5, 6)},
+		},
+		{
+			"untimed word follows the word before it",
+			[]interface{}{word("a", 1, 2), word("42"), word("b", 5, 6), word("43")},
+			4, nil, false,
+			[]interface{}{word("b", 1, 2), word("43")},
+		},
+		{
+			"leading untimed word goes where inside says",
+			[]interface{}{word("42"), word("b", 5, 6)},
+			4, nil, true,
+			[]interface{}{word("42"), word("b", 1, 2)},
+		},
+		{
+			"word ending at the start of the range dropped",
+			[]interface{}{word("a", 2, 4), word("b", 4, 5)},
+			4, nil, false,
+			[]interface{}{word("b", 0, 1)},
+		},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			got := clipTranscriptWords(tt.words, tt.start, tt.end, tt.inside)
+			if !reflect.DeepEqual(got, tt.want) {
+				t.Errorf("clipTranscriptWords() = %v, want %v", got, tt.want)
+			}
+		})
+	}
+}
+
+func TestClipTranscriptSegments(t *testing.T) {
+	end := 10.0
+	segment := func(text string, start, end float64, words ...interface{}) map[string]interface{} {
+		s := map[string]interface{}{"text": text, "start": start, "end": end}
+		if words != nil {
+			s["words"] = words
+		}
+		return s
+	}
+
+	tests := []struct {
+		name     string
+		segments []interface{}
+		want     []interface{}
+	}{
+		{
+			"segments inside kept whole and shifted",
+			[]interface{}{segment("before", 0, 3), segment("inside", 5, 8), segment("after", 10, 12)},
+			[]interface{}{segment("inside", 1, 4)},
+		},
+		{
+			"segment across the start keeps only its words inside",
+			[]interface{}{segment("one two", 2, 6, word("one", 2, 3), word("two", 5, 6))},
+			[]interface{}{segment("two", 0, 2, word("two", 1, 2))},
+		},
+		{
+			"segment across the end keeps only its words inside",
+			[]interface{}{segment("one two", 8, 12, word("one", 8, 9), word("two", 11, 12))},
+			[]interface{}{segment("one", 4, 6, word("one", 4, 5))},
+		},
+		{
+			"segment across an edge without word times left out",
+			[]interface{}{segment("one two", 2, 6)},
+			[]interface{}{},
+		},
+		{
+			"segment without times left out",
+			[]interface{}{map[string]interface{}{"text": "untimed"}},
+			[]interface{}{},
+		},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			got := clipTranscriptSegments(tt.segments, 4, &end)
+			if !reflect.DeepEqual(got, tt.want) {
+				t.Errorf("clipTranscriptSegments() = %v, want %v", got, tt.want)
+			}
+		})
+	}
+}
@@ -0,0 +1,271 @@
+package api
+
+import (
+	"math"
+	"net/http"
+	"sort"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+// minSuggestionConfidence is the lowest voice similarity offered as a
+// suggested match. Embeddings of the same voice usually score well above it.
+const minSuggestionConfidence = 0.5
+
+type SpeakerRequest struct {
+	Name   string `json:"name" binding:"required,min=1,max=100"`
+	Role   string `json:"role" binding:"max=100"`
+	Color  string `json:"color" binding:"omitempty,oneof=gray red orange amber green teal blue indigo purple pink"`
+	Avatar string `json:"avatar" binding:"max=200000"`
+}
+
+// SpeakerSuggestion is a directory speaker whose voice print matches one of
+// a job's speaker labels
+type SpeakerSuggestion struct {
+	OriginalSpeaker string         `json:"original_speaker"`
+	Speaker         models.Speaker `json:"speaker"`
+	Confidence      float64        `json:"confidence"`
+}
+
+// cosineSimilarity compares two embeddings; vectors of different models
+// (different lengths) never match
+func cosineSimilarity(a, b []float64) float64 {
+	if len(a) == 0 || len(a) != len(b) {
+		return 0
+	}
+	var dot, normA, normB float64
+	for i := range a {
+		dot += a[i] * b[i]
+		normA += a[i] * a[i]
+		normB += b[i] * b[i]
+	}
+	if normA == 0 || normB == 0 {
+		return 0
+	}
+	return dot / (math.Sqrt(normA) * math.Sqrt(normB))
+}
+
+// findJobSpeakerEmbedding returns the voice embedding of one of a job's
+// speaker labels, or nil when diarization didn't produce one
+func findJobSpeakerEmbedding(tx *gorm.DB, jobID, label string) ([]float64, error) {
+	var row models.JobSpeakerEmbedding
+	err := tx.Where("transcription_job_id = ? AND speaker = ?", jobID, label).First(&row).Error
+	if err == gorm.ErrRecordNotFound {
+		return nil, nil
+	}
+	if err != nil {
+		return nil, err
+	}
+	return row.Vector()
+}
+
+// ListSpeakers returns the speaker directory
+// @Summary List speakers
+// @Description Get every speaker in the directory, with how many recordings their voice print was enrolled from
+// @Tags speakers
+// @Produce json
+// @Success 200 {array} models.Speaker
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/speakers [get]
+func (h *Handler) ListSpeakers(c *gin.Context) {
+	var speakers []models.Speaker
+	if err := database.DB.Order("name ASC").Find(&speakers).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch speakers"})
+		return
+	}
+	c.JSON(http.StatusOK, speakers)
+}
+
+// CreateSpeaker adds a speaker to the directory
+// @Summary Create speaker
+// @Description Add a person to the speaker directory. Their voice is enrolled by linking them to a speaker in a diarized transcription.
+// @Tags speakers
+// @Accept json
+// @Produce json
+// @Param request body SpeakerRequest true "Speaker payload"
+// @Success 201 {object} models.Speaker
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/speakers [post]
+func (h *Handler) CreateSpeaker(c *gin.Context) {
+	var req SpeakerRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if req.Avatar != "" && !strings.HasPrefix(req.Avatar, "data:image/") {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Avatar must be an image data URL"})
+		return
+	}
+
+	speaker := models.Speaker{
+		Name:   strings.TrimSpace(req.Name),
+		Role:   strings.TrimSpace(req.Role),
+		Color:  req.Color,
+		Avatar: req.Avatar,
+	}
+	if err := database.DB.Create(&speaker).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create speaker"})
+		return
+	}
+	c.JSON(http.StatusCreated, speaker)
+}
+
+// UpdateSpeaker edits a speaker's details
+// @Summary Update speaker
+// @Description Change a speaker's name, role, colour or avatar. The voice print is kept.
+// @Tags speakers
+// @Accept json
+// @Produce json
+// @Param id path string true "Speaker ID"
+// @Param request body SpeakerRequest true "Speaker payload"
+// @Success 200 {object} models.Speaker
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/speakers/{id} [put]
+func (h *Handler) UpdateSpeaker(c *gin.Context) {
+	var req SpeakerRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	if req.Avatar != "" && !strings.HasPrefix(req.Avatar, "data:image/") {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Avatar must be an image data URL"})
+		return
+	}
+
+	var speaker models.Speaker
+	if err := database.DB.Where("id = ?", c.Param("id")).First(&speaker).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Speaker not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get speaker"})
+		return
+	}
+
+	speaker.Name = strings.TrimSpace(req.Name)
+	speaker.Role = strings.TrimSpace(req.Role)
+	speaker.Color = req.Color
+	speaker.Avatar = req.Avatar
+	if err := database.DB.Save(&speaker).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update speaker"})
+		return
+	}
+	c.JSON(http.StatusOK, speaker)
+}
+
+// DeleteSpeaker removes a speaker and their voice print
+// @Summary Delete speaker
+// @Description Delete a speaker from the directory. Names already given in transcriptions are kept.
+// @Tags speakers
+// @Produce json
+// @Param id path string true "Speaker ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/speakers/{id} [delete]
+func (h *Handler) DeleteSpeaker(c *gin.Context) {
+	var speaker models.Speaker
+	if err := database.DB.Where("id = ?", c.Param("id")).First(&speaker).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Speaker not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get speaker"})
+		return
+	}
+
+	err := database.DB.Transaction(func(tx *gorm.DB) error {
+		if err := tx.Model(&models.SpeakerMapping{}).Where("speaker_id = ?", speaker.ID).Update("speaker_id", nil).Error; err != nil {
+			return err
+		}
+		return tx.Delete(&speaker).Error
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete speaker"})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"message": "Speaker deleted"})
+}
+
+// GetSpeakerSuggestions matches a transcription's speakers against the directory
+// @Summary Suggest speakers for a transcription
+// @Description Compare the voice of each diarized speaker with the enrolled voice prints. Each directory speaker is suggested for at most one label, best matches first; weak matches are left out.
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Transcription Job ID"
+// @Success 200 {array} SpeakerSuggestion
+// @Failure 500 {object} map[string]string
+// @Security BearerAuth
+// @Security ApiKeyAuth
+// @Router /api/v1/transcription/{id}/speaker-suggestions [get]
+func (h *Handler) GetSpeakerSuggestions(c *gin.Context) {
+	var embeddings []models.JobSpeakerEmbedding
+	if err := database.DB.Where("transcription_job_id = ?", c.Param("id")).Find(&embeddings).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get speaker embeddings"})
+		return
+	}
+
+	var speakers []models.Speaker
+	if err := database.DB.Where("embedding IS NOT NULL").Find(&speakers).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch speakers"})
+		return
+	}
+
+	var candidates []SpeakerSuggestion
+	for _, embedding := range embeddings {
+		vector, err := embedding.Vector()
+		if err != nil {
+			continue
+		}
+		for _, speaker := range speakers {
+			score := cosineSimilarity(vector, speaker.VoicePrint())
+			if score >= minSuggestionConfidence {
+				candidates = append(candidates, SpeakerSuggestion{
+					OriginalSpeaker: embedding.Speaker,
+					Speaker:         speaker,
+					Confidence:      math.Min(score, 1),
+				})
+			}
+		}
+	}
+
+	// Best matches claim their label and speaker first
+	sort.Slice(candidates, func(i, j int) bool { return candidates[i].Confidence > candidates[j].Confidence })
+	usedLabels := map[string]bool{}
+	usedSpeakers := map[string]bool{}
+	suggestions := []SpeakerSuggestion{}
+	for _, candidate := range candidates {
+		if usedLabels[candidate.OriginalSpeaker] || usedSpeakers[candidate.Speaker.ID] {
+			continue
+		}
+		usedLabels[candidate.OriginalSpeaker] = true
+		usedSpeakers[candidate.Speaker.ID] = true
+		suggestions = append(suggestions, candidate)
+	}
+	sort.Slice(suggestions, func(i, j int) bool { return suggestions[i].OriginalSpeaker < suggestions[j].OriginalSpeaker })
+
+	c.JSON(http.StatusOK, suggestions)
+}
+
+func sameSpeakerID(a, b *string) bool {
+	if a == nil || b == nil {
+		return a == b
+	}
+	return *a == *b
+}
@@ -0,0 +1,248 @@
+package api
+
+import (
+	"net/http"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+)
+
+type AddTagsRequest struct {
+	Tags []string `json:"tags" binding:"required,min=1,dive,max=100"`
+}
+
+type UpdateTagRequest struct {
+	Name  string `json:"name" binding:"required,min=1,max=100"`
+	Color string `json:"color" binding:"omitempty,oneof=gray red orange amber green teal blue indigo purple pink"`
+}
+
+// findOrCreateTags returns the tags with the given names, creating the missing
+// ones. Names are matched case-insensitively so "Interview" reuses "interview".
+func findOrCreateTags(tx *gorm.DB, names []string) ([]models.Tag, error) {
+	tags := make([]models.Tag, 0, len(names))
+	seen := make(map[string]bool, len(names))
+	for _, name := range names {
+		name = strings.TrimSpace(name)
+		key := strings.ToLower(name)
+		if name == "" || seen[key] {
+			continue
+		}
+		seen[key] = true
+
+		var tag models.Tag
+		err := tx.Where("LOWER(name) = ?", key).First(&tag).Error
+		if err == gorm.ErrRecordNotFound {
+			tag = models.Tag{Name: name}
+			err = tx.Create(&tag).Error
+		}
+		if err != nil {
+			return nil, err
+		}
+		tags = append(tags, tag)
+	}
+	return tags, nil
+}
+
+// ListTags returns all tags
+// @Summary List tags
+// @Description Get all tags that can be attached to transcriptions
+// @Tags tags
+// @Produce json
+// @Success 200 {array} models.Tag
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/tags [get]
+func (h *Handler) ListTags(c *gin.Context) {
+	var items []models.Tag
+	if err := database.DB.Order("name ASC").Find(&items).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to fetch tags"})
+		return
+	}
+	c.JSON(http.StatusOK, items)
+}
+
+// AddJobTags attaches tags to a transcription
+// @Summary Add tags to a transcription
+// @Description Attach tags by name, creating the ones that don't exist yet. Tags already on the transcription are kept.
+// @Tags tags
+// @Accept json
+// @Produce json
+// @Param id path string true "Job ID"
+// @Param request body AddTagsRequest true "Tag names"
+// @Success 200 {array} models.Tag
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/tags [post]
+func (h *Handler) AddJobTags(c *gin.Context) {
+	jobID := c.Param("id")
+
+	var req AddTagsRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	var job models.TranscriptionJob
+	if err := database.DB.Select("id").Where("id = ?", jobID).First(&job).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get job"})
+		return
+	}
+
+	var tags []models.Tag
+	err := database.DB.Transaction(func(tx *gorm.DB) error {
+		created, err := findOrCreateTags(tx, req.Tags)
+		if err != nil {
+			return err
+		}
+		if len(created) > 0 {
+			if err := tx.Model(&job).Association("Tags").Append(created); err != nil {
+				return err
+			}
+		}
+		return tx.Model(&job).Order("name ASC").Association("Tags").Find(&tags)
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to add tags"})
+		return
+	}
+
+	c.JSON(http.StatusOK, tags)
+}
+
+// UpdateTag renames a tag or changes its colour
+// @Summary Update tag
+// @Description Rename a tag or change its colour. Names stay unique regardless of case.
+// @Tags tags
+// @Accept json
+// @Produce json
+// @Param id path string true "Tag ID"
+// @Param request body UpdateTagRequest true "Tag payload"
+// @Success 200 {object} models.Tag
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 409 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/tags/{id} [put]
+func (h *Handler) UpdateTag(c *gin.Context) {
+	var req UpdateTagRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	var tag models.Tag
+	if err := database.DB.Where("id = ?", c.Param("id")).First(&tag).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Tag not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get tag"})
+		return
+	}
+
+	name := strings.TrimSpace(req.Name)
+	if name == "" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Tag name is required"})
+		return
+	}
+	var clashes int64
+	if err := database.DB.Model(&models.Tag{}).Where("LOWER(name) = ? AND id <> ?", strings.ToLower(name), tag.ID).Count(&clashes).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to check tag name"})
+		return
+	}
+	if clashes > 0 {
+		c.JSON(http.StatusConflict, gin.H{"error": "Another tag already has this name"})
+		return
+	}
+
+	tag.Name = name
+	tag.Color = req.Color
+	if err := database.DB.Save(&tag).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update tag"})
+		return
+	}
+	c.JSON(http.StatusOK, tag)
+}
+
+// DeleteTag deletes a tag and removes it from every transcription
+// @Summary Delete tag
+// @Description Delete a tag. Transcriptions that had it are kept.
+// @Tags tags
+// @Produce json
+// @Param id path string true "Tag ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/tags/{id} [delete]
+func (h *Handler) DeleteTag(c *gin.Context) {
+	tag := models.Tag{ID: c.Param("id")}
+	err := database.DB.Transaction(func(tx *gorm.DB) error {
+		if err := tx.Exec("DELETE FROM transcription_job_tags WHERE tag_id = ?", tag.ID).Error; err != nil {
+			return err
+		}
+		result := tx.Delete(&tag)
+		if result.Error == nil && result.RowsAffected == 0 {
+			return gorm.ErrRecordNotFound
+		}
+		return result.Error
+	})
+	if err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Tag not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete tag"})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"message": "Tag deleted"})
+}
+
+// RemoveJobTag takes a tag off a transcription
+// @Summary Remove a tag from a transcription
+// @Description Detach a tag from a transcription. The tag itself is kept.
+// @Tags tags
+// @Produce json
+// @Param id path string true "Job ID"
+// @Param tagId path string true "Tag ID"
+// @Success 200 {array} models.Tag
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/{id}/tags/{tagId} [delete]
+func (h *Handler) RemoveJobTag(c *gin.Context) {
+	var job models.TranscriptionJob
+	if err := database.DB.Select("id").Where("id = ?", c.Param("id")).First(&job).Error; err != nil {
+		if err == gorm.ErrRecordNotFound {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get job"})
+		return
+	}
+
+	var tags []models.Tag
+	err := database.DB.Transaction(func(tx *gorm.DB) error {
+		if err := tx.Model(&job).Association("Tags").Delete(&models.Tag{ID: c.Param("tagId")}); err != nil {
+			return err
+		}
+		return tx.Model(&job).Order("name ASC").Association("Tags").Find(&tags)
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to remove tag"})
+		return
+	}
+
+	c.JSON(http.StatusOK, tags)
+}
@@ -0,0 +1,483 @@
+package api
+
+import (
+	"crypto/sha256"
+	"encoding/hex"
+	"errors"
+	"fmt"
+	"io"
+	"net/http"
+	"os"
+	"path/filepath"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+	"scriberr/pkg/logger"
+)
+
+// Largest chunk accepted in one request; clients send smaller ones
+const maxUploadChunkSize = 64 << 20
+
+// Optional request header with the hex SHA-256 of a chunk's bytes
+const chunkChecksumHeader = "X-Chunk-SHA256"
+
+const (
+	// Sessions that received nothing for this long are removed with their bytes
+	uploadSessionTTL = 24 * time.Hour
+	// How often expired sessions are looked for
+	uploadSessionCleanupInterval = time.Hour
+)
+
+type CreateUploadSessionRequest struct {
+	FileName string  `json:"file_name" binding:"required"`
+	Title    *string `json:"title,omitempty"`
+	FolderID *string `json:"folder_id,omitempty"`
+}
+
+type CompleteUploadSessionRequest struct {
+	Size int64 `json:"size"`
+	// "video" extracts the audio track like a video upload; anything else is
+	// stored as audio
+	Kind string `json:"kind,omitempty"`
+	// Leave the job uploaded even if the user has auto-transcription on, for
+	// callers that queue it themselves
+	SkipAutoTranscription bool `json:"skip_auto_transcription"`
+}
+
+type CompleteMultiTrackUploadRequest struct {
+	Title string `json:"title" binding:"required"`
+	// Session holding the .aup Audacity project file
+	AupSessionID string `json:"aup_session_id" binding:"required"`
+	// Sessions holding the audio tracks, in track order
+	TrackSessionIDs []string `json:"track_session_ids" binding:"required,min=1"`
+}
+
+// uploadSessionPath is where the bytes of a session are stored until it completes
+func (h *Handler) uploadSessionPath(sessionID string) string {
+	return filepath.Join(h.config.UploadDir, "partial", sessionID)
+}
+
+// liveUploadSessions scopes a query to sessions that haven't expired yet
+func liveUploadSessions() *gorm.DB {
+	return database.DB.Where("updated_at >= ?", time.Now().Add(-uploadSessionTTL))
+}
+
+func findUploadSession(c *gin.Context) (*models.UploadSession, bool) {
+	var session models.UploadSession
+	if err := liveUploadSessions().Where("id = ?", c.Param("id")).First(&session).Error; err != nil {
+		if errors.Is(err, gorm.ErrRecordNotFound) {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Upload session not found"})
+		} else {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get upload session"})
+		}
+		return nil, false
+	}
+	return &session, true
+}
+
+// respondCompletedUpload answers a request for an upload session that was
+// already completed with the job it created
+func respondCompletedUpload(c *gin.Context, jobID string) {
+	var job models.TranscriptionJob
+	if err := database.DB.Preload("MultiTrackFiles").Where("id = ?", jobID).First(&job).Error; err != nil {
+		if errors.Is(err, gorm.ErrRecordNotFound) {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Job not found"})
+		} else {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get job"})
+		}
+		return
+	}
+	c.JSON(http.StatusOK, job)
+}
+
+// CreateUploadSession starts a chunked upload
+// @Summary Start a chunked upload
+// @Description Create an upload session. Send the file with PUT requests to the session, then complete it to create the transcription job. Sessions that receive nothing for 24 hours expire and are removed.
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param request body CreateUploadSessionRequest true "File name, optional title and folder"
+// @Success 201 {object} models.UploadSession
+// @Failure 400 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions [post]
+func (h *Handler) CreateUploadSession(c *gin.Context) {
+	var req CreateUploadSessionRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	if !folderExists(c, req.FolderID) {
+		return
+	}
+
+	session := models.UploadSession{FileName: filepath.Base(req.FileName), Title: req.Title, FolderID: req.FolderID}
+	if err := database.DB.Create(&session).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create upload session"})
+		return
+	}
+
+	path := h.uploadSessionPath(session.ID)
+	if err := os.MkdirAll(filepath.Dir(path), 0755); err != nil {
+		database.DB.Delete(&session)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create upload directory"})
+		return
+	}
+	file, err := os.Create(path)
+	if err != nil {
+		database.DB.Delete(&session)
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create upload file"})
+		return
+	}
+	file.Close()
+
+	c.JSON(http.StatusCreated, session)
+}
+
+// GetUploadSession returns how much of a chunked upload the server has
+// @Summary Get an upload session
+// @Description Get the session's offset, the number of bytes stored so far. Clients resume sending from there.
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Upload session ID"
+// @Success 200 {object} models.UploadSession
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions/{id} [get]
+func (h *Handler) GetUploadSession(c *gin.Context) {
+	session, ok := findUploadSession(c)
+	if !ok {
+		return
+	}
+	c.JSON(http.StatusOK, session)
+}
+
+// AppendUploadChunk stores the next chunk of a chunked upload
+// @Summary Upload a chunk
+// @Description Append the request body to the session. The offset must equal the bytes already stored; otherwise nothing is written and 409 returns the session so the client can continue from its offset. When the X-Chunk-SHA256 header is sent, a chunk whose bytes don't match it is dropped with 422.
+// @Tags transcription
+// @Accept application/octet-stream
+// @Produce json
+// @Param id path string true "Upload session ID"
+// @Param offset query int true "Byte offset of the chunk"
+// @Param X-Chunk-SHA256 header string false "Hex SHA-256 of the chunk"
+// @Success 200 {object} models.UploadSession
+// @Failure 400 {object} map[string]string
+// @Failure 422 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 409 {object} models.UploadSession
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions/{id} [put]
+func (h *Handler) AppendUploadChunk(c *gin.Context) {
+	offset, err := strconv.ParseInt(c.Query("offset"), 10, 64)
+	if err != nil || offset < 0 {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid offset"})
+		return
+	}
+
+	session, ok := findUploadSession(c)
+	if !ok {
+		return
+	}
+	if offset != session.Offset || session.JobID != nil {
+		c.JSON(http.StatusConflict, session)
+		return
+	}
+
+	file, err := os.OpenFile(h.uploadSessionPath(session.ID), os.O_WRONLY, 0644)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to open upload file"})
+		return
+	}
+	defer file.Close()
+
+	// Drop whatever an earlier, interrupted request left past the offset
+	if err := file.Truncate(offset); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to write chunk"})
+		return
+	}
+	if _, err := file.Seek(offset, io.SeekStart); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to write chunk"})
+		return
+	}
+
+	hash := sha256.New()
+	written, err := io.Copy(io.MultiWriter(file, hash), http.MaxBytesReader(c.Writer, c.Request.Body, maxUploadChunkSize))
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Failed to read chunk"})
+		return
+	}
+	if expected := c.GetHeader(chunkChecksumHeader); expected != "" && !strings.EqualFold(expected, hex.EncodeToString(hash.Sum(nil))) {
+		// The offset doesn't move, so the client sends the chunk again
+		file.Truncate(offset)
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": "Chunk checksum mismatch"})
+		return
+	}
+
+	// Only advance the offset if nobody else moved it meanwhile
+	result := database.DB.Model(&models.UploadSession{}).
+		Where("id = ? AND upload_offset = ?", session.ID, offset).
+		Update("upload_offset", offset+written)
+	if result.Error != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to update upload session"})
+		return
+	}
+	if result.RowsAffected == 0 {
+		database.DB.Where("id = ?", session.ID).First(session)
+		c.JSON(http.StatusConflict, session)
+		return
+	}
+
+	session.Offset = offset + written
+	c.JSON(http.StatusOK, session)
+}
+
+// CompleteUploadSession turns a finished chunked upload into a transcription job
+// @Summary Complete a chunked upload
+// @Description Create the transcription job from the uploaded bytes, exactly like a single-request upload. When a size is given it must match the bytes stored. With kind "video" the audio track is extracted like a video upload. Completing a session again returns the job it created.
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param id path string true "Upload session ID"
+// @Param request body CompleteUploadSessionRequest false "Expected file size and options"
+// @Success 200 {object} models.TranscriptionJob
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 409 {object} models.UploadSession
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions/{id}/complete [post]
+func (h *Handler) CompleteUploadSession(c *gin.Context) {
+	var req CompleteUploadSessionRequest
+	// The body is optional
+	if err := c.ShouldBindJSON(&req); err != nil && !errors.Is(err, io.EOF) {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	session, ok := findUploadSession(c)
+	if !ok {
+		return
+	}
+	if session.JobID != nil {
+		respondCompletedUpload(c, *session.JobID)
+		return
+	}
+	if req.Size > 0 && req.Size != session.Offset {
+		c.JSON(http.StatusConflict, session)
+		return
+	}
+
+	jobID := uuid.New().String()
+	filePath := filepath.Join(h.config.UploadDir, fmt.Sprintf("%s%s", jobID, filepath.Ext(session.FileName)))
+	if req.Kind == "video" {
+		filePath = filepath.Join(h.config.UploadDir, fmt.Sprintf("%s.mp3", jobID))
+		err := extractVideoAudio(h.uploadSessionPath(session.ID), filePath)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		os.Remove(h.uploadSessionPath(session.ID))
+	} else if err := os.Rename(h.uploadSessionPath(session.ID), filePath); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save file"})
+		return
+	}
+
+	job := models.TranscriptionJob{
+		ID:        jobID,
+		AudioPath: filePath,
+		Title:     session.Title,
+		Status:    models.StatusUploaded,
+		FolderID:  session.FolderID,
+	}
+	if err := database.DB.Create(&job).Error; err != nil {
+		// Put the bytes back so completing can be retried
+		if req.Kind == "video" {
+			os.Remove(filePath)
+		} else {
+			os.Rename(filePath, h.uploadSessionPath(session.ID))
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create job"})
+		return
+	}
+	if err := database.DB.Model(session).Update("job_id", job.ID).Error; err != nil {
+		fmt.Printf("Warning: Failed to mark upload session %s as completed: %v\n", session.ID, err)
+	}
+
+	if !req.SkipAutoTranscription {
+		h.autoQueueUpload(c, &job)
+	}
+
+	c.JSON(http.StatusOK, job)
+}
+
+// CompleteMultiTrackUpload turns finished chunked uploads into a multi-track job
+// @Summary Complete a chunked multi-track upload
+// @Description Create a multi-track job from an uploaded .aup project file and its uploaded audio tracks, exactly like a single-request multi-track upload. Every session must be fully uploaded. Completing the same sessions again returns the job they created.
+// @Tags transcription
+// @Accept json
+// @Produce json
+// @Param request body CompleteMultiTrackUploadRequest true "Title and upload sessions"
+// @Success 200 {object} models.TranscriptionJob
+// @Failure 400 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Failure 409 {object} map[string]string
+// @Failure 500 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions/multitrack [post]
+func (h *Handler) CompleteMultiTrackUpload(c *gin.Context) {
+	var req CompleteMultiTrackUploadRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	sessionIDs := append([]string{req.AupSessionID}, req.TrackSessionIDs...)
+	var sessions []models.UploadSession
+	if err := liveUploadSessions().Where("id IN ?", sessionIDs).Find(&sessions).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to get upload sessions"})
+		return
+	}
+	byID := make(map[string]models.UploadSession, len(sessions))
+	for _, session := range sessions {
+		byID[session.ID] = session
+	}
+	completedJobs := make(map[string]bool)
+	for _, id := range sessionIDs {
+		session, ok := byID[id]
+		if !ok {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Upload session not found"})
+			return
+		}
+		if session.JobID != nil {
+			completedJobs[*session.JobID] = true
+		}
+	}
+	if len(completedJobs) > 0 {
+		// Completing the same sessions again returns the job they became
+		if jobID := byID[req.AupSessionID].JobID; len(completedJobs) == 1 && jobID != nil && completedJobs[*jobID] {
+			respondCompletedUpload(c, *jobID)
+			return
+		}
+		c.JSON(http.StatusConflict, gin.H{"error": "Upload session already completed"})
+		return
+	}
+	if !strings.HasSuffix(strings.ToLower(byID[req.AupSessionID].FileName), ".aup") {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Project file must have .aup extension"})
+		return
+	}
+
+	// Same layout as a single-request multi-track upload
+	jobID := uuid.New().String()
+	multiTrackFolder := filepath.Join(h.config.UploadDir, jobID)
+	tracksFolder := filepath.Join(multiTrackFolder, "tracks")
+	if err := os.MkdirAll(tracksFolder, 0755); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to create upload directory"})
+		return
+	}
+
+	// Moves every stored file into the job folder, or none of them
+	type move struct{ from, to string }
+	var moved []move
+	moveFile := func(from, to string) bool {
+		if err := os.Rename(from, to); err != nil {
+			for _, m := range moved {
+				os.Rename(m.to, m.from)
+			}
+			os.RemoveAll(multiTrackFolder)
+			return false
+		}
+		moved = append(moved, move{from, to})
+		return true
+	}
+
+	aupFilePath := filepath.Join(multiTrackFolder, "project.aup")
+	if !moveFile(h.uploadSessionPath(req.AupSessionID), aupFilePath) {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to save .aup file"})
+		return
+	}
+	var trackPaths []string
+	for _, id := range req.TrackSessionIDs {
+		fileName := byID[id].FileName
+		trackPath := filepath.Join(tracksFolder, fileName)
+		if !moveFile(h.uploadSessionPath(id), trackPath) {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": fmt.Sprintf("Failed to save track file: %s", fileName)})
+			return
+		}
+		trackPaths = append(trackPaths, trackPath)
+	}
+	if err := database.DB.Model(&models.UploadSession{}).Where("id IN ?", sessionIDs).Update("job_id", jobID).Error; err != nil {
+		fmt.Printf("Warning: Failed to mark upload sessions of job %s as completed: %v\n", jobID, err)
+	}
+
+	h.createMultiTrackJob(c, jobID, req.Title, byID[req.AupSessionID].FolderID, multiTrackFolder, aupFilePath, trackPaths)
+}
+
+// DeleteUploadSession abandons a chunked upload
+// @Summary Cancel a chunked upload
+// @Description Delete the session and the bytes stored for it
+// @Tags transcription
+// @Produce json
+// @Param id path string true "Upload session ID"
+// @Success 200 {object} map[string]string
+// @Failure 404 {object} map[string]string
+// @Security ApiKeyAuth
+// @Security BearerAuth
+// @Router /api/v1/transcription/upload-sessions/{id} [delete]
+func (h *Handler) DeleteUploadSession(c *gin.Context) {
+	session, ok := findUploadSession(c)
+	if !ok {
+		return
+	}
+	if err := database.DB.Delete(session).Error; err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "Failed to delete upload session"})
+		return
+	}
+	os.Remove(h.uploadSessionPath(session.ID))
+	c.JSON(http.StatusOK, gin.H{"message": "Upload session deleted"})
+}
+
+// cleanupUploadSessionsRoutine removes abandoned upload sessions
+func (h *Handler) cleanupUploadSessionsRoutine() {
+	ticker := time.NewTicker(uploadSessionCleanupInterval)
+	defer ticker.Stop()
+	for range ticker.C {
+		h.cleanupExpiredUploadSessions()
+	}
+}
+
+// cleanupExpiredUploadSessions deletes expired sessions and the bytes stored for them
+func (h *Handler) cleanupExpiredUploadSessions() {
+	var ids []string
+	if err := database.DB.Model(&models.UploadSession{}).
+		Where("updated_at < ?", time.Now().Add(-uploadSessionTTL)).
+		Pluck("id", &ids).Error; err != nil {
+		logger.Error("Failed to list expired upload sessions", "error", err)
+		return
+	}
+	for _, id := range ids {
+		if err := database.DB.Where("id = ?", id).Delete(&models.UploadSession{}).Error; err != nil {
+			logger.Error("Failed to delete expired upload session", "session_id", id, "error", err)
+			continue
+		}
+		os.Remove(h.uploadSessionPath(id))
+	}
+	if len(ids) > 0 {
+		logger.Info("Removed expired upload sessions", "count", len(ids))
+	}
+}
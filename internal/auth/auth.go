@@ -1,7 +1,11 @@
 package auth
 
 import (
+	"crypto/hmac"
+	"crypto/sha256"
+	"encoding/base64"
 	"errors"
+	"strings"
 	"time"
 
 	"scriberr/internal/models"
@@ -61,6 +65,24 @@ func (as *AuthService) ValidateToken(tokenString string) (*Claims, error) {
 	return nil, errors.New("invalid token")
 }
 
+// SignShareLink returns the public token of a share link: its ID followed by
+// a signature only this server can produce
+func (as *AuthService) SignShareLink(id string) string {
+	mac := hmac.New(sha256.New, as.jwtSecret)
+	mac.Write([]byte("share:" + id))
+	return id + "." + base64.RawURLEncoding.EncodeToString(mac.Sum(nil))
+}
+
+// VerifyShareLink returns the share link ID in a token made by SignShareLink,
+// or false when the signature does not match
+func (as *AuthService) VerifyShareLink(token string) (string, bool) {
+	id, _, found := strings.Cut(token, ".")
+	if !found || id == "" {
+		return "", false
+	}
+	return id, hmac.Equal([]byte(token), []byte(as.SignShareLink(id)))
+}
+
 // HashPassword hashes a password using bcrypt
 func HashPassword(password string) (string, error) {
 	bytes, err := bcrypt.GenerateFromPassword([]byte(password), bcrypt.DefaultCost)
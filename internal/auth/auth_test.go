@@ -0,0 +1,37 @@
+package auth
+
+import (
+	"strings"
+	"testing"
+)
+
+func TestVerifyShareLink(t *testing.T) {
+	service := NewAuthService("secret")
+	token := service.SignShareLink("share-1")
+	signature := token[strings.Index(token, ".")+1:]
+	changed := []byte(token)
+	changed[len(changed)-1] ^= 1
+
+	tests := []struct {
+		name   string
+		token  string
+		wantID string
+		wantOK bool
+	}{
+		{"signed token", token, "share-1", true},
+		{"other ID with the same signature", "share-2." + signature, "share-2", false},
+		{"signature changed", string(changed), "share-1", false},
+		{"signature missing", "share-1", "", false},
+		{"ID missing", "." + signature, "", false},
+		{"signed with another secret", NewAuthService("other").SignShareLink("share-1"), "share-1", false},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			id, ok := service.VerifyShareLink(tt.token)
+			if ok != tt.wantOK || (ok && id != tt.wantID) {
+				t.Errorf("VerifyShareLink(%q) = %q, %v, want %q, %v", tt.token, id, ok, tt.wantID, tt.wantOK)
+			}
+		})
+	}
+}
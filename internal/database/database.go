@@ -74,6 +74,16 @@ func Initialize(dbPath string) error {
 		&models.Summary{},
 		&models.Note{},
 		&models.RefreshToken{},
+		&models.TranscriptRevision{},
+		&models.Glossary{},
+		&models.Tag{},
+		&models.Folder{},
+		&models.SavedView{},
+		&models.Speaker{},
+		&models.JobSpeakerEmbedding{},
+		&models.TranscriptReview{},
+		&models.ShareLink{},
+		&models.UploadSession{},
 	); err != nil {
 		return fmt.Errorf("failed to auto migrate: %v", err)
 	}
@@ -83,6 +93,11 @@ func Initialize(dbPath string) error {
 		return fmt.Errorf("failed to create unique constraint for speaker mappings: %v", err)
 	}
 
+	// Revision versions are unique per transcription
+	if err := DB.Exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_revisions_version ON transcript_revisions(transcription_id, version)").Error; err != nil {
+		return fmt.Errorf("failed to create unique constraint for transcript revisions: %v", err)
+	}
+
 	return nil
 }
 
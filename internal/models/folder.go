@@ -0,0 +1,30 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// Folder groups transcription jobs. Folders nest through ParentID; a folder
+// without defaults of its own uses the closest ancestor's.
+type Folder struct {
+	ID       string  `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	Name     string  `json:"name" gorm:"type:varchar(255);not null"`
+	ParentID *string `json:"parent_id,omitempty" gorm:"type:varchar(36);index"`
+	// Profile used when transcribing jobs in this folder
+	DefaultProfileID *string `json:"default_profile_id,omitempty" gorm:"type:varchar(36)"`
+	// Template offered first when summarizing jobs in this folder
+	DefaultSummaryTemplateID *string   `json:"default_summary_template_id,omitempty" gorm:"type:varchar(36)"`
+	CreatedAt                time.Time `json:"created_at" gorm:"autoCreateTime"`
+	UpdatedAt                time.Time `json:"updated_at" gorm:"autoUpdateTime"`
+}
+
+// BeforeCreate ensures Folder has a UUID primary key
+func (f *Folder) BeforeCreate(tx *gorm.DB) error {
+	if f.ID == "" {
+		f.ID = uuid.New().String()
+	}
+	return nil
+}
@@ -0,0 +1,27 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// Glossary is a named list of terms (proper nouns, acronyms, place names)
+// used to bias transcription and to correct finished transcripts
+type Glossary struct {
+	ID          string    `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	Name        string    `json:"name" gorm:"type:varchar(255);not null"`
+	Description *string   `json:"description,omitempty" gorm:"type:text"`
+	Terms       []string  `json:"terms" gorm:"type:text;serializer:json"`
+	CreatedAt   time.Time `json:"created_at" gorm:"autoCreateTime"`
+	UpdatedAt   time.Time `json:"updated_at" gorm:"autoUpdateTime"`
+}
+
+// BeforeCreate ensures Glossary has a UUID primary key
+func (g *Glossary) BeforeCreate(tx *gorm.DB) error {
+	if g.ID == "" {
+		g.ID = uuid.New().String()
+	}
+	return nil
+}
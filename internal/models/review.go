@@ -0,0 +1,23 @@
+package models
+
+import (
+	"time"
+)
+
+// DefaultReviewThreshold is the word confidence below which a word needs
+// review until the reviewer picks another threshold
+const DefaultReviewThreshold = 0.5
+
+// TranscriptReview records how far the review of a transcript's
+// low-confidence words has got
+type TranscriptReview struct {
+	TranscriptionID string `json:"transcription_id" gorm:"primaryKey;type:varchar(36)"`
+
+	// Words scoring below this confidence (0 to 1) are up for review
+	Threshold float64 `json:"threshold" gorm:"not null;default:0.5"`
+
+	// JSON array of the word indices accepted or corrected so far
+	ReviewedWords string `json:"-" gorm:"type:text;not null;default:'[]'"`
+
+	UpdatedAt time.Time `json:"updated_at" gorm:"autoUpdateTime"`
+}
@@ -0,0 +1,73 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// RevisionSource describes what produced a transcript revision
+type RevisionSource string
+
+const (
+	RevisionSourceTranscription RevisionSource = "transcription"
+	RevisionSourceEdit          RevisionSource = "edit"
+	RevisionSourceRestore       RevisionSource = "restore"
+)
+
+// TranscriptRevision stores one saved version of a transcription's transcript
+type TranscriptRevision struct {
+	ID              string `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	TranscriptionID string `json:"transcription_id" gorm:"type:varchar(36);not null;index"`
+
+	// Sequential version number per transcription, starting at 1
+	Version int `json:"version" gorm:"type:int;not null"`
+
+	// Transcript JSON in the same shape as TranscriptionJob.Transcript
+	Transcript string `json:"transcript" gorm:"type:text;not null"`
+
+	// Who produced the revision (username, "API key" or "system")
+	Author string         `json:"author" gorm:"type:varchar(255)"`
+	Source RevisionSource `json:"source" gorm:"type:varchar(20);not null;default:'edit'"`
+
+	// Optional description of the change
+	Message *string `json:"message,omitempty" gorm:"type:text"`
+
+	CreatedAt time.Time `json:"created_at" gorm:"autoCreateTime"`
+}
+
+// AppendTranscriptRevision stores transcript as the next revision of a transcription.
+// The version is taken in the same statement that inserts the row, so two saves
+// at once can't both get it; a unique index on (transcription_id, version)
+// backs this up.
+func AppendTranscriptRevision(tx *gorm.DB, transcriptionID string, transcript string, author string, source RevisionSource, message *string) (*TranscriptRevision, error) {
+	id := uuid.New().String()
+	err := tx.Exec(`INSERT INTO transcript_revisions (id, transcription_id, version, transcript, author, source, message, created_at)
+		SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?
+		FROM transcript_revisions WHERE transcription_id = ?`,
+		id, transcriptionID, transcript, author, source, message, time.Now(), transcriptionID).Error
+	if err != nil {
+		return nil, err
+	}
+
+	var rev TranscriptRevision
+	if err := tx.Where("id = ?", id).First(&rev).Error; err != nil {
+		return nil, err
+	}
+	return &rev, nil
+}
+
+// AppendTranscriptionResultRevision records a new transcription result for a job that
+// already has a revision history, so re-transcribing adds to the history instead of replacing it
+func AppendTranscriptionResultRevision(tx *gorm.DB, transcriptionID string, transcript string) error {
+	var count int64
+	if err := tx.Model(&TranscriptRevision{}).Where("transcription_id = ?", transcriptionID).Count(&count).Error; err != nil {
+		return err
+	}
+	if count == 0 {
+		return nil
+	}
+	_, err := AppendTranscriptRevision(tx, transcriptionID, transcript, "system", RevisionSourceTranscription, nil)
+	return err
+}
@@ -0,0 +1,25 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// SavedView is a named set of audio library filters
+type SavedView struct {
+	ID   string `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	Name string `json:"name" gorm:"type:varchar(255);not null"`
+	// Filters as the query string of the library URL, e.g. "tags=a,b&match=any"
+	Query     string    `json:"query" gorm:"type:text;not null"`
+	CreatedAt time.Time `json:"created_at" gorm:"autoCreateTime"`
+}
+
+// BeforeCreate ensures SavedView has a UUID primary key
+func (v *SavedView) BeforeCreate(tx *gorm.DB) error {
+	if v.ID == "" {
+		v.ID = uuid.New().String()
+	}
+	return nil
+}
@@ -0,0 +1,43 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// ShareLink is a public, read-only link to a transcription. Anyone holding
+// its signed token can open it until it expires or is revoked by deleting it.
+type ShareLink struct {
+	ID              string `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	TranscriptionID string `json:"transcription_id" gorm:"type:varchar(36);not null;index"`
+	Label           string `json:"label" gorm:"type:varchar(255);not null;default:''"`
+
+	// bcrypt hash of the password visitors must give, when there is one
+	PasswordHash *string `json:"-" gorm:"type:varchar(255)"`
+
+	// Limits the link to part of the recording, in seconds
+	StartTime *float64 `json:"start_time,omitempty"`
+	EndTime   *float64 `json:"end_time,omitempty"`
+
+	IncludeSummary bool `json:"include_summary" gorm:"not null;default:false"`
+
+	ExpiresAt      time.Time  `json:"expires_at" gorm:"not null;index"`
+	LastAccessedAt *time.Time `json:"last_accessed_at,omitempty"`
+	AccessCount    int        `json:"access_count" gorm:"not null;default:0"`
+	CreatedAt      time.Time  `json:"created_at" gorm:"autoCreateTime"`
+}
+
+// BeforeCreate ensures ShareLink has a UUID primary key
+func (s *ShareLink) BeforeCreate(tx *gorm.DB) error {
+	if s.ID == "" {
+		s.ID = uuid.New().String()
+	}
+	return nil
+}
+
+// Expired reports whether the link has stopped working at now
+func (s *ShareLink) Expired(now time.Time) bool {
+	return now.After(s.ExpiresAt)
+}
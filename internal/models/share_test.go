@@ -0,0 +1,29 @@
+package models
+
+import (
+	"testing"
+	"time"
+)
+
+func TestShareLinkExpired(t *testing.T) {
+	expiresAt := time.Date(2025, 3, 1, 12, 0, 0, 0, time.UTC)
+	share := ShareLink{ExpiresAt: expiresAt}
+
+	tests := []struct {
+		name string
+		now  time.Time
+		want bool
+	}{
+		{"before expiry", expiresAt.Add(-time.Second), false},
+		{"at expiry", expiresAt, false},
+		{"after expiry", expiresAt.Add(time.Second), true},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			if got := share.Expired(tt.now); got != tt.want {
+				t.Errorf("Expired(%v) = %v, want %v", tt.now, got, tt.want)
+			}
+		})
+	}
+}
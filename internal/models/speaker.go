@@ -0,0 +1,185 @@
+package models
+
+import (
+	"encoding/json"
+	"math"
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// Speaker is a person in the speaker directory. Voices enrolled from
+// diarized recordings are averaged into a voice print, which is used to
+// suggest who is speaking in new recordings.
+type Speaker struct {
+	ID              string    `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	Name            string    `json:"name" gorm:"type:varchar(100);not null"`
+	Role            string    `json:"role" gorm:"type:varchar(100)"`
+	Color           string    `json:"color" gorm:"type:varchar(20)"` // Same palette as tags
+	Avatar          string    `json:"avatar" gorm:"type:text"`       // Image as a data URL
+	Embedding       *string   `json:"-" gorm:"type:text"`            // JSON array, mean of the enrolled voices
+	EnrollmentCount int       `json:"enrollment_count" gorm:"not null;default:0"`
+	CreatedAt       time.Time `json:"created_at" gorm:"autoCreateTime"`
+	UpdatedAt       time.Time `json:"updated_at" gorm:"autoUpdateTime"`
+}
+
+// BeforeCreate ensures Speaker has a UUID primary key
+func (s *Speaker) BeforeCreate(tx *gorm.DB) error {
+	if s.ID == "" {
+		s.ID = uuid.New().String()
+	}
+	return nil
+}
+
+// VoicePrint decodes the speaker's voice print, or nil when there is none
+func (s Speaker) VoicePrint() []float64 {
+	if s.Embedding == nil {
+		return nil
+	}
+	var vector []float64
+	if err := json.Unmarshal([]byte(*s.Embedding), &vector); err != nil {
+		return nil
+	}
+	return vector
+}
+
+// NormalizeVector scales a vector to unit length, so voice prints average
+// the direction of each voice rather than its loudness in the model
+func NormalizeVector(vector []float64) []float64 {
+	var sum float64
+	for _, v := range vector {
+		sum += v * v
+	}
+	norm := math.Sqrt(sum)
+	if norm == 0 {
+		return vector
+	}
+	out := make([]float64, len(vector))
+	for i, v := range vector {
+		out[i] = v / norm
+	}
+	return out
+}
+
+// voicePrintMean adds a voice to the running mean of count enrolled voices,
+// or takes it back out. It returns the new mean and count; a nil mean when
+// no voice is left.
+func voicePrintMean(current []float64, count int, vector []float64, add bool) ([]float64, int) {
+	vector = NormalizeVector(vector)
+	if len(current) != len(vector) {
+		// No print yet, or one from another diarization model: start over
+		if !add {
+			return current, count
+		}
+		current, count = make([]float64, len(vector)), 0
+	}
+
+	next := count + 1
+	if !add {
+		next = count - 1
+	}
+	if next <= 0 {
+		return nil, 0
+	}
+
+	mean := make([]float64, len(vector))
+	for i := range vector {
+		if add {
+			mean[i] = (current[i]*float64(count) + vector[i]) / float64(next)
+		} else {
+			mean[i] = (current[i]*float64(count) - vector[i]) / float64(next)
+		}
+	}
+	return mean, next
+}
+
+// UpdateVoicePrint adds a voice to a speaker's voice print, or takes it back
+// out when a label is unlinked. The print is the running mean of the
+// enrolled voices.
+func UpdateVoicePrint(tx *gorm.DB, speakerID string, vector []float64, add bool) error {
+	var speaker Speaker
+	if err := tx.Where("id = ?", speakerID).First(&speaker).Error; err != nil {
+		return err
+	}
+
+	mean, count := voicePrintMean(speaker.VoicePrint(), speaker.EnrollmentCount, vector, add)
+	speaker.EnrollmentCount = count
+	speaker.Embedding = nil
+	if mean != nil {
+		data, err := json.Marshal(mean)
+		if err != nil {
+			return err
+		}
+		embedding := string(data)
+		speaker.Embedding = &embedding
+	}
+	return tx.Save(&speaker).Error
+}
+
+// JobSpeakerEmbedding is the voice embedding diarization produced for one
+// speaker label of a transcription job
+type JobSpeakerEmbedding struct {
+	ID                 uint      `json:"id" gorm:"primaryKey;autoIncrement"`
+	TranscriptionJobID string    `json:"transcription_job_id" gorm:"type:varchar(36);not null;index"`
+	Speaker            string    `json:"speaker" gorm:"type:varchar(50);not null"` // e.g., "SPEAKER_00"
+	Embedding          string    `json:"-" gorm:"type:text;not null"`              // JSON array
+	CreatedAt          time.Time `json:"created_at" gorm:"autoCreateTime"`
+}
+
+// Vector decodes the stored embedding
+func (e JobSpeakerEmbedding) Vector() ([]float64, error) {
+	var vector []float64
+	err := json.Unmarshal([]byte(e.Embedding), &vector)
+	return vector, err
+}
+
+// ReplaceJobSpeakerEmbeddings stores the embeddings of a job's latest
+// diarization, dropping the ones from earlier runs. Labels linked to the
+// directory are unlinked and their old voices taken out of the voice prints:
+// a new run's labels may belong to other people.
+func ReplaceJobSpeakerEmbeddings(tx *gorm.DB, jobID string, embeddings map[string][]float64) error {
+	return tx.Transaction(func(tx *gorm.DB) error {
+		var linked []SpeakerMapping
+		if err := tx.Where("transcription_job_id = ? AND speaker_id IS NOT NULL", jobID).Find(&linked).Error; err != nil {
+			return err
+		}
+		for _, mapping := range linked {
+			var old JobSpeakerEmbedding
+			err := tx.Where("transcription_job_id = ? AND speaker = ?", jobID, mapping.OriginalSpeaker).First(&old).Error
+			if err == gorm.ErrRecordNotFound {
+				continue
+			}
+			if err != nil {
+				return err
+			}
+			vector, err := old.Vector()
+			if err != nil {
+				return err
+			}
+			if err := UpdateVoicePrint(tx, *mapping.SpeakerID, vector, false); err != nil && err != gorm.ErrRecordNotFound {
+				return err
+			}
+		}
+		if len(linked) > 0 {
+			if err := tx.Model(&SpeakerMapping{}).Where("transcription_job_id = ?", jobID).Update("speaker_id", nil).Error; err != nil {
+				return err
+			}
+		}
+
+		if err := tx.Where("transcription_job_id = ?", jobID).Delete(&JobSpeakerEmbedding{}).Error; err != nil {
+			return err
+		}
+		for speaker, vector := range embeddings {
+			data, err := json.Marshal(vector)
+			if err != nil {
+				return err
+			}
+			row := JobSpeakerEmbedding{TranscriptionJobID: jobID, Speaker: speaker, Embedding: string(data)}
+			if err := tx.Create(&row).Error; err != nil {
+				return err
+			}
+		}
+		return nil
+	})
+}
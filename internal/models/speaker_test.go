@@ -0,0 +1,83 @@
+package models
+
+import (
+	"math"
+	"testing"
+)
+
+func vectorsClose(a, b []float64) bool {
+	if len(a) != len(b) {
+		return false
+	}
+	for i := range a {
+		if math.Abs(a[i]-b[i]) > 1e-9 {
+			return false
+		}
+	}
+	return true
+}
+
+func TestNormalizeVector(t *testing.T) {
+	tests := []struct {
+		name   string
+		vector []float64
+		want   []float64
+	}{
+		{"scaled to unit length", []float64{3, 4}, []float64{0.6, 0.8}},
+		{"already unit length", []float64{0, 1, 0}, []float64{0, 1, 0}},
+		{"zero vector unchanged", []float64{0, 0}, []float64{0, 0}},
+		{"empty", nil, nil},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			if got := NormalizeVector(tt.vector); !vectorsClose(got, tt.want) {
+				t.Errorf("NormalizeVector(%v) = %v, want %v", tt.vector, got, tt.want)
+			}
+		})
+	}
+}
+
+func TestVoicePrintMeanRoundTrip(t *testing.T) {
+	first := []float64{1, 0, 0}
+	second := []float64{0, 2, 0}
+	third := []float64{0, 0, -5}
+
+	mean, count := voicePrintMean(nil, 0, first, true)
+	mean, count = voicePrintMean(mean, count, second, true)
+	afterTwo := append([]float64(nil), mean...)
+	if count != 2 || !vectorsClose(afterTwo, []float64{0.5, 0.5, 0}) {
+		t.Fatalf("after two voices got %v (%d), want [0.5 0.5 0] (2)", afterTwo, count)
+	}
+
+	// Adding a voice and taking it back out restores the print
+	mean, count = voicePrintMean(mean, count, third, true)
+	if count != 3 {
+		t.Fatalf("count after three voices = %d, want 3", count)
+	}
+	mean, count = voicePrintMean(mean, count, third, false)
+	if count != 2 || !vectorsClose(mean, afterTwo) {
+		t.Errorf("after removing the third voice got %v (%d), want %v (2)", mean, count, afterTwo)
+	}
+
+	mean, count = voicePrintMean(mean, count, second, false)
+	mean, count = voicePrintMean(mean, count, first, false)
+	if mean != nil || count != 0 {
+		t.Errorf("after removing every voice got %v (%d), want no print", mean, count)
+	}
+}
+
+func TestVoicePrintMeanOtherModel(t *testing.T) {
+	current := []float64{1, 0}
+
+	// Removing a voice from another model leaves the print alone
+	mean, count := voicePrintMean(current, 4, []float64{0, 0, 1}, false)
+	if count != 4 || !vectorsClose(mean, current) {
+		t.Errorf("removing a mismatched voice got %v (%d), want %v (4)", mean, count, current)
+	}
+
+	// Adding one starts the print over
+	mean, count = voicePrintMean(current, 4, []float64{0, 0, 2}, true)
+	if count != 1 || !vectorsClose(mean, []float64{0, 0, 1}) {
+		t.Errorf("adding a mismatched voice got %v (%d), want [0 0 1] (1)", mean, count)
+	}
+}
@@ -14,6 +14,7 @@ type TranscriptionJob struct {
 	Status           JobStatus `json:"status" gorm:"type:varchar(20);not null;default:'pending'"`
 	AudioPath        string    `json:"audio_path" gorm:"type:text;not null"`
 	Transcript       *string   `json:"transcript,omitempty" gorm:"type:text"`
+	LiveDraft        *string   `json:"live_draft,omitempty" gorm:"type:text"` // Live preview text, shown until the transcript is ready
 	Diarization      bool      `json:"diarization" gorm:"type:boolean;default:false"`
 	Summary          *string   `json:"summary,omitempty" gorm:"type:text"`
 	ErrorMessage     *string   `json:"error_message,omitempty" gorm:"type:text"`
@@ -24,6 +25,7 @@ type TranscriptionJob struct {
 	MergeStatus           string `json:"merge_status" gorm:"type:varchar(20);default:'none'"` // none, pending, processing, completed, failed
 	MergeError            *string `json:"merge_error,omitempty" gorm:"type:text"`
 	IndividualTranscripts *string `json:"individual_transcripts,omitempty" gorm:"type:text"` // JSON-serialized map[string]*string
+	FolderID              *string `json:"folder_id,omitempty" gorm:"type:varchar(36);index"` // Containing folder; nil for unfiled jobs
 	CreatedAt        time.Time `json:"created_at" gorm:"autoCreateTime"`
 	UpdatedAt        time.Time `json:"updated_at" gorm:"autoUpdateTime"`
 
@@ -32,6 +34,7 @@ type TranscriptionJob struct {
 
 	// Relationships
 	MultiTrackFiles []MultiTrackFile `json:"multi_track_files,omitempty" gorm:"foreignKey:TranscriptionJobID"`
+	Tags            []Tag            `json:"tags,omitempty" gorm:"many2many:transcription_job_tags"`
 }
 
 // JobStatus represents the status of a transcription job
@@ -105,6 +108,9 @@ type WhisperXParams struct {
 	LogprobThreshold               float64 `json:"logprob_threshold" gorm:"type:real;default:-1.0"`
 	NoSpeechThreshold              float64 `json:"no_speech_threshold" gorm:"type:real;default:0.6"`
 
+	// Glossaries whose terms are compiled into the initial prompt
+	GlossaryIDs []string `json:"glossary_ids,omitempty" gorm:"type:text;serializer:json"`
+
 	// Output formatting
 	MaxLineWidth      *int   `json:"max_line_width,omitempty" gorm:"type:int"`
 	MaxLineCount      *int   `json:"max_line_count,omitempty" gorm:"type:int"`
@@ -138,6 +144,7 @@ type User struct {
 	Password                 string    `json:"-" gorm:"not null;type:varchar(255)"`
 	DefaultProfileID         *string   `json:"default_profile_id,omitempty" gorm:"type:varchar(36)"`
 	AutoTranscriptionEnabled bool      `json:"auto_transcription_enabled" gorm:"not null;default:false"`
+	KeyboardShortcuts        *string   `json:"-" gorm:"type:text"` // JSON key bindings and foot pedal setup; nil means the defaults
 	CreatedAt                time.Time `json:"created_at" gorm:"autoCreateTime"`
 	UpdatedAt                time.Time `json:"updated_at" gorm:"autoUpdateTime"`
 }
@@ -333,8 +340,9 @@ func (tje *TranscriptionJobExecution) CalculateProcessingDuration() {
 type SpeakerMapping struct {
 	ID                 uint      `json:"id" gorm:"primaryKey;autoIncrement"`
 	TranscriptionJobID string    `json:"transcription_job_id" gorm:"type:varchar(36);not null;index"`
-	OriginalSpeaker    string    `json:"original_speaker" gorm:"type:varchar(50);not null"` // e.g., "speaker_00"
-	CustomName         string    `json:"custom_name" gorm:"type:varchar(100);not null"`     // e.g., "John Doe"
+	OriginalSpeaker    string    `json:"original_speaker" gorm:"type:varchar(50);not null"`  // e.g., "speaker_00"
+	CustomName         string    `json:"custom_name" gorm:"type:varchar(100);not null"`      // e.g., "John Doe"
+	SpeakerID          *string   `json:"speaker_id,omitempty" gorm:"type:varchar(36);index"` // Directory speaker, if linked
 	CreatedAt          time.Time `json:"created_at" gorm:"autoCreateTime"`
 	UpdatedAt          time.Time `json:"updated_at" gorm:"autoUpdateTime"`
 
@@ -0,0 +1,29 @@
+package models
+
+import (
+	"time"
+
+	"github.com/google/uuid"
+	"gorm.io/gorm"
+)
+
+// UploadSession tracks a file sent in chunks so an interrupted upload can
+// resume from the last byte the server stored instead of starting over
+type UploadSession struct {
+	ID        string    `json:"id" gorm:"primaryKey;type:varchar(36)"`
+	FileName  string    `json:"file_name" gorm:"type:varchar(255);not null"`
+	Title     *string   `json:"title,omitempty" gorm:"type:text"`
+	Offset    int64     `json:"offset" gorm:"column:upload_offset;not null;default:0"`
+	FolderID  *string   `json:"folder_id,omitempty" gorm:"type:varchar(36)"` // Folder the job is filed in once the upload completes
+	JobID     *string   `json:"job_id,omitempty" gorm:"type:varchar(36)"`    // Job the completed upload became, so completing it again returns the same job
+	CreatedAt time.Time `json:"created_at" gorm:"autoCreateTime"`
+	UpdatedAt time.Time `json:"updated_at" gorm:"autoUpdateTime"`
+}
+
+// BeforeCreate ensures UploadSession has a UUID primary key
+func (s *UploadSession) BeforeCreate(tx *gorm.DB) error {
+	if s.ID == "" {
+		s.ID = uuid.New().String()
+	}
+	return nil
+}
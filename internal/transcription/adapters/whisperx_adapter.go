@@ -160,6 +160,14 @@ func NewWhisperXAdapter() *WhisperXAdapter {
 			Description: "Diarization model to use",
 			Group:       "advanced",
 		},
+		{
+			Name:        "speaker_embeddings",
+			Type:        "bool",
+			Required:    false,
+			Default:     false,
+			Description: "Return a voice embedding per speaker, used to recognise speakers across recordings",
+			Group:       "advanced",
+		},
 		{
 			Name:        "min_speakers",
 			Type:        "int",
@@ -486,6 +494,9 @@ func (w *WhisperXAdapter) buildWhisperXArgs(input interfaces.AudioInput, params
 		if maxSpeakers := w.GetIntParameter(params, "max_speakers"); maxSpeakers > 0 {
 			args = append(args, "--max_speakers", strconv.Itoa(maxSpeakers))
 		}
+		if w.GetBoolParameter(params, "speaker_embeddings") {
+			args = append(args, "--speaker_embeddings")
+		}
 	}
 
 	// Quality settings
@@ -540,8 +551,9 @@ func (w *WhisperXAdapter) parseResult(outputDir string, input interfaces.AudioIn
 			Score   float64 `json:"score"`
 			Speaker *string `json:"speaker,omitempty"`
 		} `json:"word_segments,omitempty"`
-		Language string `json:"language"`
-		Text     string `json:"text,omitempty"`
+		Language          string               `json:"language"`
+		Text              string               `json:"text,omitempty"`
+		SpeakerEmbeddings map[string][]float64 `json:"speaker_embeddings,omitempty"`
 	}
 
 	if err := json.Unmarshal(data, &whisperxResult); err != nil {
@@ -554,6 +566,7 @@ func (w *WhisperXAdapter) parseResult(outputDir string, input interfaces.AudioIn
 		Segments:   make([]interfaces.TranscriptSegment, len(whisperxResult.Segments)),
 		WordSegments: make([]interfaces.TranscriptWord, len(whisperxResult.Word)),
 		Confidence: 0.0, // WhisperX doesn't provide overall confidence
+		SpeakerEmbeddings: whisperxResult.SpeakerEmbeddings,
 	}
 
 	// Convert segments
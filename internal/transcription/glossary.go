@@ -0,0 +1,82 @@
+package transcription
+
+import (
+	"strings"
+
+	"scriberr/internal/database"
+	"scriberr/internal/models"
+	"scriberr/pkg/logger"
+)
+
+// maxGlossaryPromptChars keeps the compiled terms well inside Whisper's
+// 224 token prompt window, leaving room for the user's own prompt
+const maxGlossaryPromptChars = 600
+
+// withGlossaryPrompt returns a copy of params whose initial prompt starts with
+// the terms of the attached glossaries. Missing glossaries are skipped.
+func withGlossaryPrompt(params models.WhisperXParams) models.WhisperXParams {
+	if len(params.GlossaryIDs) == 0 {
+		return params
+	}
+
+	var glossaries []models.Glossary
+	if err := database.DB.Where("id IN ?", params.GlossaryIDs).Find(&glossaries).Error; err != nil {
+		logger.Warn("Failed to load glossaries, using initial prompt as is", "error", err)
+		return params
+	}
+
+	// Keep the order in which the glossaries were attached
+	byID := make(map[string]models.Glossary, len(glossaries))
+	for _, g := range glossaries {
+		byID[g.ID] = g
+	}
+	var terms []string
+	for _, id := range params.GlossaryIDs {
+		if g, ok := byID[id]; ok {
+			terms = append(terms, g.Terms...)
+		}
+	}
+
+	prompt := ""
+	if params.InitialPrompt != nil {
+		prompt = *params.InitialPrompt
+	}
+	compiled := buildGlossaryPrompt(terms, prompt)
+	if compiled == "" {
+		return params
+	}
+	params.InitialPrompt = &compiled
+	return params
+}
+
+// buildGlossaryPrompt lists unique terms ahead of the user's prompt, e.g.
+// "Glossary: Le Locle, La Chaux-de-Fonds. <prompt>". Terms that would push the
+// list past maxGlossaryPromptChars are dropped; shorter ones after them still fit.
+func buildGlossaryPrompt(terms []string, prompt string) string {
+	seen := make(map[string]bool, len(terms))
+	var list []string
+	length := 0
+	for _, term := range terms {
+		term = strings.TrimSpace(term)
+		key := strings.ToLower(term)
+		if term == "" || seen[key] {
+			continue
+		}
+		if length+len(term)+2 > maxGlossaryPromptChars {
+			continue
+		}
+		seen[key] = true
+		list = append(list, term)
+		length += len(term) + 2
+	}
+
+	prompt = strings.TrimSpace(prompt)
+	if len(list) == 0 {
+		return prompt
+	}
+	compiled := "Glossary: " + strings.Join(list, ", ") + "."
+	if prompt != "" {
+		compiled += " " + prompt
+	}
+	return compiled
+}
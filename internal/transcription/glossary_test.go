@@ -0,0 +1,44 @@
+package transcription
+
+import (
+	"strings"
+	"testing"
+)
+
+func TestBuildGlossaryPrompt(t *testing.T) {
+	long := strings.Repeat("x", maxGlossaryPromptChars)
+
+	tests := []struct {
+		name   string
+		terms  []string
+		prompt string
+		want   string
+	}{
+		{"no terms", nil, " Meeting notes. ", "Meeting notes."},
+		{"terms only", []string{"Le Locle", "La Chaux-de-Fonds"}, "", "Glossary: Le Locle, La Chaux-de-Fonds."},
+		{"terms before prompt", []string{"Le Locle"}, "Council meeting.", "Glossary: Le Locle. Council meeting."},
+		{"blanks and duplicates", []string{" Tissot ", "", "tissot", "Zenith"}, "", "Glossary: Tissot, Zenith."},
+		{"long term skipped, shorter ones kept", []string{"Le Locle", long, "Zenith"}, "", "Glossary: Le Locle, Zenith."},
+		{"only an overlong term", []string{long}, "Prompt", "Prompt"},
+	}
+
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			if got := buildGlossaryPrompt(tt.terms, tt.prompt); got != tt.want {
+				t.Errorf("buildGlossaryPrompt(%q, %q) = %q, want %q", tt.terms, tt.prompt, got, tt.want)
+			}
+		})
+	}
+}
+
+func TestBuildGlossaryPromptStaysWithinLimit(t *testing.T) {
+	var terms []string
+	for i := 0; i < 200; i++ {
+		terms = append(terms, strings.Repeat(string(rune('a'+i%26)), 5+i%7)+string(rune('A'+i/26)))
+	}
+	got := buildGlossaryPrompt(terms, "")
+	list := strings.TrimSuffix(strings.TrimPrefix(got, "Glossary: "), ".")
+	if len(list) > maxGlossaryPromptChars {
+		t.Errorf("term list is %d chars, want at most %d", len(list), maxGlossaryPromptChars)
+	}
+}
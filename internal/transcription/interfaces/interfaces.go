@@ -83,6 +83,10 @@ type TranscriptResult struct {
 	ProcessingTime time.Duration    `json:"processing_time"`
 	ModelUsed    string             `json:"model_used"`
 	Metadata     map[string]string  `json:"metadata"`
+
+	// Voice embedding per speaker label, when the diarizer produced them.
+	// Stored apart from the transcript, so left out of its JSON.
+	SpeakerEmbeddings map[string][]float64 `json:"-"`
 }
 
 // DiarizationSegment represents speaker diarization information
@@ -0,0 +1,363 @@
+package transcription
+
+import (
+	"context"
+	"errors"
+	"fmt"
+	"io"
+	"os"
+	"os/exec"
+	"path/filepath"
+	"strconv"
+	"strings"
+	"sync"
+	"time"
+
+	"scriberr/internal/config"
+	"scriberr/internal/models"
+	"scriberr/internal/transcription/interfaces"
+	"scriberr/pkg/logger"
+
+	"github.com/google/uuid"
+)
+
+const (
+	// Audio shorter than this isn't worth a pass until recording stops
+	liveMinWindow = 3.0
+	// Segments ending this close to the end of the audio may be cut mid-word,
+	// so they are shown as partial text and transcribed again next pass
+	liveTailMargin = 2.0
+	// Past this length a window is committed even without a safe cut point
+	liveMaxWindow = 30.0
+	// Sessions nobody touched for this long are removed
+	liveSessionTTL = time.Hour
+	// Passes of all sessions run one at a time, so live drafts take at most
+	// one transcription's worth of GPU from the queued jobs
+	liveMaxConcurrentPasses = 1
+)
+
+// ErrLiveSessionNotFound is returned for unknown or expired session IDs
+var ErrLiveSessionNotFound = errors.New("session not found")
+
+// LiveSegment is a piece of the draft transcript, timed from the start of the recording
+type LiveSegment struct {
+	Start float64 `json:"start"`
+	End   float64 `json:"end"`
+	Text  string  `json:"text"`
+}
+
+// LiveTranscriptionSession is the rolling draft transcript of a recording in
+// progress. Segments are settled; Partial is the latest guess at the audio
+// after them and changes as more audio arrives.
+type LiveTranscriptionSession struct {
+	ID             string        `json:"id"`
+	Segments       []LiveSegment `json:"segments"`
+	Partial        string        `json:"partial"`
+	ProcessedUntil float64       `json:"processed_until"`
+	Processing     bool          `json:"processing"`
+	Finished       bool          `json:"finished"`
+	ErrorMessage   *string       `json:"error_message,omitempty"`
+	CreatedAt      time.Time     `json:"created_at"`
+	UpdatedAt      time.Time     `json:"updated_at"`
+
+	params    models.WhisperXParams
+	dir       string
+	audioPath string
+	// New audio arrived since the current pass started
+	dirty bool
+}
+
+// Text joins the settled segments and the partial text into one draft
+func (s *LiveTranscriptionSession) Text() string {
+	parts := make([]string, 0, len(s.Segments)+1)
+	for _, segment := range s.Segments {
+		parts = append(parts, strings.TrimSpace(segment.Text))
+	}
+	if partial := strings.TrimSpace(s.Partial); partial != "" {
+		parts = append(parts, partial)
+	}
+	return strings.Join(parts, " ")
+}
+
+// LiveTranscriptionService transcribes recordings while they are being made.
+// Audio is appended as the recorder produces it and a background pass
+// transcribes whatever came in since the last settled segment, so each pass
+// stays short however long the recording gets.
+type LiveTranscriptionService struct {
+	unifiedProcessor *UnifiedJobProcessor
+	sessions         map[string]*LiveTranscriptionSession
+	mu               sync.Mutex
+	tempDir          string
+	stopCleanup      chan struct{}
+	// Holds a slot per pass in progress
+	passSlots chan struct{}
+}
+
+// NewLiveTranscriptionService creates a new live transcription service
+func NewLiveTranscriptionService(cfg *config.Config, unifiedProcessor *UnifiedJobProcessor) *LiveTranscriptionService {
+	service := &LiveTranscriptionService{
+		unifiedProcessor: unifiedProcessor,
+		sessions:         make(map[string]*LiveTranscriptionSession),
+		tempDir:          filepath.Join(cfg.UploadDir, "live_transcriptions"),
+		stopCleanup:      make(chan struct{}),
+		passSlots:        make(chan struct{}, liveMaxConcurrentPasses),
+	}
+	go service.cleanupRoutine()
+	return service
+}
+
+// LiveParams derives the draft settings from a profile: same model family,
+// language, device and glossaries, but a small model and no diarization,
+// since speed matters more than accuracy for a draft the full job replaces
+func LiveParams(profile models.WhisperXParams) models.WhisperXParams {
+	params := withGlossaryPrompt(profile)
+	if params.ModelFamily == "" || params.ModelFamily == "whisper" {
+		params.Model = "base"
+	}
+	params.Diarize = false
+	return params
+}
+
+// CreateSession starts a live session; ext is the extension of the audio
+// container the recorder produces
+func (ls *LiveTranscriptionService) CreateSession(params models.WhisperXParams, ext string) (*LiveTranscriptionSession, error) {
+	id := uuid.New().String()
+	dir := filepath.Join(ls.tempDir, id)
+	if err := os.MkdirAll(dir, 0755); err != nil {
+		return nil, fmt.Errorf("failed to create session directory: %v", err)
+	}
+
+	now := time.Now()
+	session := &LiveTranscriptionSession{
+		ID:        id,
+		Segments:  []LiveSegment{},
+		CreatedAt: now,
+		UpdatedAt: now,
+		params:    params,
+		dir:       dir,
+		audioPath: filepath.Join(dir, "audio"+ext),
+	}
+	if err := os.WriteFile(session.audioPath, nil, 0644); err != nil {
+		os.RemoveAll(dir)
+		return nil, fmt.Errorf("failed to create audio file: %v", err)
+	}
+
+	ls.mu.Lock()
+	ls.sessions[id] = session
+	snapshot := *session
+	ls.mu.Unlock()
+	return &snapshot, nil
+}
+
+// GetSession returns a copy of the session's current state
+func (ls *LiveTranscriptionService) GetSession(id string) (*LiveTranscriptionSession, error) {
+	ls.mu.Lock()
+	defer ls.mu.Unlock()
+
+	session, ok := ls.sessions[id]
+	if !ok {
+		return nil, ErrLiveSessionNotFound
+	}
+	snapshot := *session
+	snapshot.Segments = append([]LiveSegment(nil), session.Segments...)
+	return &snapshot, nil
+}
+
+// AppendAudio adds the next piece of the recording and schedules a pass
+func (ls *LiveTranscriptionService) AppendAudio(id string, audio io.Reader) (*LiveTranscriptionSession, error) {
+	ls.mu.Lock()
+	session, ok := ls.sessions[id]
+	ls.mu.Unlock()
+	if !ok {
+		return nil, ErrLiveSessionNotFound
+	}
+
+	file, err := os.OpenFile(session.audioPath, os.O_APPEND|os.O_WRONLY, 0644)
+	if err != nil {
+		return nil, fmt.Errorf("failed to open audio file: %v", err)
+	}
+	_, err = io.Copy(file, audio)
+	file.Close()
+	if err != nil {
+		return nil, fmt.Errorf("failed to save audio: %w", err)
+	}
+
+	ls.mu.Lock()
+	session.UpdatedAt = time.Now()
+	ls.schedule(session)
+	ls.mu.Unlock()
+	return ls.GetSession(id)
+}
+
+// FinishSession marks the recording as complete; the last pass then
+// transcribes everything that is left, tail included
+func (ls *LiveTranscriptionService) FinishSession(id string) (*LiveTranscriptionSession, error) {
+	ls.mu.Lock()
+	session, ok := ls.sessions[id]
+	if ok {
+		session.Finished = true
+		session.UpdatedAt = time.Now()
+		ls.schedule(session)
+	}
+	ls.mu.Unlock()
+	if !ok {
+		return nil, ErrLiveSessionNotFound
+	}
+	return ls.GetSession(id)
+}
+
+// DeleteSession removes a session and its audio
+func (ls *LiveTranscriptionService) DeleteSession(id string) {
+	ls.mu.Lock()
+	session, ok := ls.sessions[id]
+	delete(ls.sessions, id)
+	ls.mu.Unlock()
+	if ok {
+		os.RemoveAll(session.dir)
+	}
+}
+
+// schedule starts a pass, or flags the running one to go again. Callers hold ls.mu.
+func (ls *LiveTranscriptionService) schedule(session *LiveTranscriptionSession) {
+	session.dirty = true
+	if !session.Processing {
+		session.Processing = true
+		go ls.run(session)
+	}
+}
+
+func (ls *LiveTranscriptionService) run(session *LiveTranscriptionSession) {
+	for {
+		ls.mu.Lock()
+		if _, ok := ls.sessions[session.ID]; !ok || !session.dirty {
+			session.Processing = false
+			ls.mu.Unlock()
+			return
+		}
+		session.dirty = false
+		from := session.ProcessedUntil
+		final := session.Finished
+		ls.mu.Unlock()
+
+		ls.passSlots <- struct{}{}
+		segments, partial, until, err := ls.pass(session, from, final)
+		<-ls.passSlots
+
+		ls.mu.Lock()
+		if err != nil {
+			logger.Warn("Live transcription pass failed", "session_id", session.ID, "error", err)
+			msg := err.Error()
+			session.ErrorMessage = &msg
+		} else {
+			session.ErrorMessage = nil
+			session.Segments = append(session.Segments, segments...)
+			session.Partial = partial
+			session.ProcessedUntil = until
+		}
+		session.UpdatedAt = time.Now()
+		ls.mu.Unlock()
+	}
+}
+
+// pass transcribes the audio after from and decides how much of it is settled
+func (ls *LiveTranscriptionService) pass(session *LiveTranscriptionSession, from float64, final bool) ([]LiveSegment, string, float64, error) {
+	windowPath := filepath.Join(session.dir, "window.wav")
+	defer os.Remove(windowPath)
+
+	// Seeking by time keeps working while the file grows, unlike byte offsets
+	// into a stream without an index. Placed before -i, ffmpeg skips to the
+	// position in the container instead of decoding everything up to it, so a
+	// pass costs the same however long the recording already is.
+	cmd := exec.Command("ffmpeg", "-v", "error", "-y",
+		"-ss", strconv.FormatFloat(from, 'f', 3, 64),
+		"-i", session.audioPath,
+		"-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le",
+		windowPath)
+	if output, err := cmd.CombinedOutput(); err != nil {
+		return nil, "", from, fmt.Errorf("failed to extract audio: %v: %s", err, strings.TrimSpace(string(output)))
+	}
+
+	info, err := os.Stat(windowPath)
+	if err != nil {
+		return nil, "", from, err
+	}
+	// 16 kHz mono 16-bit PCM after a 44-byte header
+	window := float64(info.Size()-44) / 32000
+	if window < liveMinWindow && !final {
+		return nil, "", from, nil
+	}
+	if window <= 0 {
+		return nil, "", from, nil
+	}
+
+	if err := ls.unifiedProcessor.ensurePythonEnv(); err != nil {
+		return nil, "", from, fmt.Errorf("env setup failed: %v", err)
+	}
+	procCtx := interfaces.ProcessingContext{
+		JobID:           "live-" + session.ID,
+		OutputDirectory: filepath.Join(session.dir, "output"),
+		TempDirectory:   session.dir,
+		Metadata:        map[string]string{},
+	}
+	defer os.RemoveAll(procCtx.OutputDirectory)
+
+	result, err := ls.unifiedProcessor.GetUnifiedService().TranscribeFile(context.Background(), windowPath, session.params, procCtx)
+	if err != nil {
+		return nil, "", from, err
+	}
+
+	cut := window - liveTailMargin
+	if final || window >= liveMaxWindow {
+		cut = window
+	}
+
+	var settled []LiveSegment
+	var partial []string
+	settledUntil := 0.0
+	for _, segment := range result.Segments {
+		text := strings.TrimSpace(segment.Text)
+		if text == "" {
+			continue
+		}
+		if segment.End <= cut && len(partial) == 0 {
+			settled = append(settled, LiveSegment{Start: from + segment.Start, End: from + segment.End, Text: text})
+			settledUntil = segment.End
+		} else {
+			partial = append(partial, text)
+		}
+	}
+
+	// Silence up to the cut needs no second look either
+	if len(result.Segments) == 0 || final || window >= liveMaxWindow {
+		settledUntil = cut
+	}
+	return settled, strings.Join(partial, " "), from + settledUntil, nil
+}
+
+func (ls *LiveTranscriptionService) cleanupRoutine() {
+	ticker := time.NewTicker(10 * time.Minute)
+	defer ticker.Stop()
+	for {
+		select {
+		case <-ticker.C:
+			ls.mu.Lock()
+			var expired []string
+			for id, session := range ls.sessions {
+				if time.Since(session.UpdatedAt) > liveSessionTTL && !session.Processing {
+					expired = append(expired, id)
+				}
+			}
+			ls.mu.Unlock()
+			for _, id := range expired {
+				ls.DeleteSession(id)
+			}
+		case <-ls.stopCleanup:
+			return
+		}
+	}
+}
+
+// Close stops the cleanup routine
+func (ls *LiveTranscriptionService) Close() {
+	close(ls.stopCleanup)
+}
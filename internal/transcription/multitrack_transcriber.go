@@ -197,12 +197,23 @@ func (mt *MultiTrackTranscriber) ProcessMultiTrackTranscription(ctx context.Cont
 		"transcript":             &mergedTranscriptStr,
 		"individual_transcripts": &individualTranscriptsStr,
 		"status":                 models.StatusCompleted,
+		"live_draft":             nil,
 	}
 
 	if err := mt.db.Model(&models.TranscriptionJob{}).Where("id = ?", jobID).Updates(updates).Error; err != nil {
 		return fmt.Errorf("failed to save transcription results: %w", err)
 	}
 
+	// Word indices of the old transcript no longer apply to the new one
+	if err := mt.db.Where("transcription_id = ?", jobID).Delete(&models.TranscriptReview{}).Error; err != nil {
+		return fmt.Errorf("failed to reset review progress: %w", err)
+	}
+
+	// Re-transcriptions are added to the job's revision history
+	if err := models.AppendTranscriptionResultRevision(mt.db, jobID, mergedTranscriptStr); err != nil {
+		logger.Warn("Failed to save transcript revision", "job_id", jobID, "error", err)
+	}
+
 	// Create execution record with timing data for multi-track job
 	overallEndTime := time.Now()
 	overallDuration := overallEndTime.Sub(overallStartTime).Milliseconds()
@@ -223,8 +234,9 @@ func (mt *MultiTrackTranscriber) ProcessMultiTrackTranscription(ctx context.Cont
 
 // transcribeIndividualTrack transcribes a single track file using the direct transcription method
 func (mt *MultiTrackTranscriber) transcribeIndividualTrack(ctx context.Context, job *models.TranscriptionJob, trackFile *models.MultiTrackFile) (*interfaces.TranscriptResult, error) {
-	// Create a proper copy of parameters for this track (disable diarization, enable word timestamps)
-	trackParams := job.Parameters
+	// Create a proper copy of parameters for this track (disable diarization, enable word timestamps),
+	// with the glossaries in the prompt like single-track jobs
+	trackParams := withGlossaryPrompt(job.Parameters)
 
 	// Ensure essential fields are properly set for individual track processing
 	trackParams.Diarize = false             // Never diarize individual tracks
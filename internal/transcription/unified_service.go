@@ -83,7 +83,7 @@ func (u *UnifiedTranscriptionService) ProcessJob(ctx context.Context, jobID stri
 	execution := &models.TranscriptionJobExecution{
 		TranscriptionJobID: jobID,
 		StartedAt:          startTime,
-		ActualParameters:   job.Parameters,
+		ActualParameters:   withGlossaryPrompt(job.Parameters),
 		Status:             models.StatusProcessing,
 	}
 
@@ -203,6 +203,9 @@ func (u *UnifiedTranscriptionService) processSingleTrackJob(ctx context.Context,
 		}
 	}()
 
+	// Attached glossaries are compiled into the initial prompt
+	jobParams := withGlossaryPrompt(job.Parameters)
+
 	var transcriptResult *interfaces.TranscriptResult
 	var diarizationResult *interfaces.DiarizationResult
 
@@ -215,7 +218,7 @@ func (u *UnifiedTranscriptionService) processSingleTrackJob(ctx context.Context,
 		}
 
 		// Convert parameters for this specific model
-		params := u.convertParametersForModel(job.Parameters, transcriptionModelID)
+		params := u.convertParametersForModel(jobParams, transcriptionModelID)
 
 		transcriptResult, err = transcriptionAdapter.Transcribe(ctx, preprocessedInput, params, procCtx)
 		if err != nil {
@@ -226,7 +229,7 @@ func (u *UnifiedTranscriptionService) processSingleTrackJob(ctx context.Context,
 	// Perform diarization if requested and not already done by transcription
 	if job.Parameters.Diarize && diarizationModelID != "" {
 		// Convert parameters for diarization model
-		diarizationParams := u.convertParametersForModel(job.Parameters, diarizationModelID)
+		diarizationParams := u.convertParametersForModel(jobParams, diarizationModelID)
 		
 		if !u.transcriptionIncludesDiarization(transcriptionModelID, diarizationParams) {
 			logger.Info("Running separate diarization", "model_id", diarizationModelID)
@@ -258,6 +261,37 @@ func (u *UnifiedTranscriptionService) processSingleTrackJob(ctx context.Context,
 	return nil
 }
 
+// TranscribeFile transcribes an audio file without a job record, for callers
+// that keep the result themselves. Diarization is not run.
+func (u *UnifiedTranscriptionService) TranscribeFile(ctx context.Context, audioPath string, params models.WhisperXParams, procCtx interfaces.ProcessingContext) (*interfaces.TranscriptResult, error) {
+	if err := os.MkdirAll(procCtx.OutputDirectory, 0755); err != nil {
+		return nil, fmt.Errorf("failed to create output directory: %w", err)
+	}
+
+	audioInput, err := u.createAudioInput(audioPath)
+	if err != nil {
+		return nil, fmt.Errorf("failed to create audio input: %w", err)
+	}
+
+	transcriptionModelID, _, err := u.selectModels(params)
+	if err != nil {
+		return nil, fmt.Errorf("failed to select models: %w", err)
+	}
+	adapter, err := u.registry.GetTranscriptionAdapter(transcriptionModelID)
+	if err != nil {
+		return nil, fmt.Errorf("failed to get transcription adapter: %w", err)
+	}
+
+	input, err := u.pipeline.ProcessAudio(ctx, audioInput, adapter.GetCapabilities())
+	if err != nil {
+		input = audioInput
+	} else if input.TempFilePath != "" && input.TempFilePath != audioInput.FilePath {
+		defer os.Remove(input.TempFilePath)
+	}
+
+	return adapter.Transcribe(ctx, input, u.convertParametersForModel(params, transcriptionModelID), procCtx)
+}
+
 // processMultiTrackJob handles multi-track audio processing
 func (u *UnifiedTranscriptionService) processMultiTrackJob(ctx context.Context, job *models.TranscriptionJob) error {
 	logger.Info("Processing multi-track job", "job_id", job.ID, "track_count", len(job.MultiTrackFiles))
@@ -532,8 +566,9 @@ func (u *UnifiedTranscriptionService) convertToWhisperXParams(params models.Whis
 		"task":          params.Task,
 		
 		// Diarization
-		"diarize":       params.Diarize,
-		"diarize_model": params.DiarizeModel,
+		"diarize":            params.Diarize,
+		"diarize_model":      params.DiarizeModel,
+		"speaker_embeddings": params.SpeakerEmbeddings,
 		
 		// Quality settings
 		"temperature":    params.Temperature,
@@ -749,10 +784,27 @@ func (u *UnifiedTranscriptionService) saveTranscriptionResults(jobID string, res
 	// Update the job in the database
 	if err := database.DB.Model(&models.TranscriptionJob{}).
 		Where("id = ?", jobID).
-		Update("transcript", resultJSON).Error; err != nil {
+		Updates(map[string]interface{}{"transcript": resultJSON, "live_draft": nil}).Error; err != nil {
 		return fmt.Errorf("failed to update job transcript: %w", err)
 	}
 
+	// Re-transcriptions are added to the job's revision history
+	if err := models.AppendTranscriptionResultRevision(database.DB, jobID, resultJSON); err != nil {
+		return fmt.Errorf("failed to save transcript revision: %w", err)
+	}
+
+	// Voice embeddings are kept for matching speakers against the directory
+	if len(result.SpeakerEmbeddings) > 0 {
+		if err := models.ReplaceJobSpeakerEmbeddings(database.DB, jobID, result.SpeakerEmbeddings); err != nil {
+			return fmt.Errorf("failed to save speaker embeddings: %w", err)
+		}
+	}
+
+	// Word indices of the old transcript no longer apply to the new one
+	if err := database.DB.Where("transcription_id = ?", jobID).Delete(&models.TranscriptReview{}).Error; err != nil {
+		return fmt.Errorf("failed to reset review progress: %w", err)
+	}
+
 	logger.Info("Saved transcription results", "job_id", jobID, "text_length", len(result.Text))
 	return nil
 }
@@ -1,11 +1,15 @@
 import { lazy, Suspense } from 'react'
 import { useRouter } from './contexts/RouterContext'
+import { UploadsTray } from './components/UploadsTray'
+import { parseMomentTime, parseWordRange } from './utils/deepLinks'
 
 // Lazy load route components for better performance
 const Homepage = lazy(() => import('./components/Homepage').then(module => ({ default: module.Homepage })))
 const AudioDetailView = lazy(() => import('./components/AudioDetailView').then(module => ({ default: module.AudioDetailView })))
 const Settings = lazy(() => import('./pages/Settings').then(module => ({ default: module.Settings })))
 const ChatPage = lazy(() => import('./pages/ChatPage').then(module => ({ default: module.ChatPage })))
+const SearchPage = lazy(() => import('./pages/SearchPage').then(module => ({ default: module.SearchPage })))
+const SharePage = lazy(() => import('./pages/SharePage').then(module => ({ default: module.SharePage })))
 
 // Loading component
 const PageLoader = () => (
@@ -17,18 +21,39 @@ const PageLoader = () => (
 function App() {
   const { currentRoute } = useRouter()
 
+  // Visitors of a share link get the shared recording and nothing else
+  if (currentRoute.path === 'share' && currentRoute.params?.token) {
+    return (
+      <Suspense fallback={<PageLoader />}>
+        <SharePage token={currentRoute.params.token} />
+      </Suspense>
+    )
+  }
+
   return (
-    <Suspense fallback={<PageLoader />}>
-      {currentRoute.path === 'audio-detail' && currentRoute.params?.id ? (
-        <AudioDetailView audioId={currentRoute.params.id} />
-      ) : currentRoute.path === 'settings' ? (
-        <Settings />
-      ) : currentRoute.path === 'chat' ? (
-        <ChatPage />
-      ) : (
-        <Homepage />
-      )}
-    </Suspense>
+    <>
+      <Suspense fallback={<PageLoader />}>
+        {currentRoute.path === 'audio-detail' && currentRoute.params?.id ? (
+          <AudioDetailView
+            audioId={currentRoute.params.id}
+            initialTime={parseMomentTime(currentRoute.params.t)}
+            initialWords={parseWordRange(currentRoute.params.w)}
+          />
+        ) : currentRoute.path === 'settings' ? (
+          <Settings />
+        ) : currentRoute.path === 'chat' ? (
+          <ChatPage />
+        ) : currentRoute.path === 'search' ? (
+          <SearchPage />
+        ) : currentRoute.path === 'folder' && currentRoute.params?.id ? (
+          <Homepage key={currentRoute.params.id} folderId={currentRoute.params.id} />
+        ) : (
+          <Homepage />
+        )}
+      </Suspense>
+      {/* Outside the routes so uploads stay visible while navigating */}
+      <UploadsTray />
+    </>
   )
 }
 
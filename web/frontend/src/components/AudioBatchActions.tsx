@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { AlertTriangle, Download, Loader2, RotateCcw, Play, StopCircle, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TranscribeDDialog } from "./TranscribeDDialog";
+import type { WhisperXParams } from "./TranscriptionConfigDialog";
+import { useAuth } from "../contexts/AuthContext";
+import type { Transcript } from "../types/transcript";
+import { buildSRT, buildWebVTT, segmentsToCues } from "../utils/subtitles";
+import { ensureOk, runBatch, type BatchFailure } from "../utils/batch";
+import { buildZip, uniqueFileName, type ZipEntry } from "../utils/zip";
+
+export interface BatchAudioFile {
+	id: string;
+	title?: string;
+	status: "uploaded" | "pending" | "processing" | "completed" | "failed";
+	audio_path: string;
+	is_multi_track?: boolean;
+}
+
+export type BatchAction = "transcribe" | "retranscribe" | "stop" | "delete" | "export" | "tag";
+type ExportFormat = "txt" | "srt" | "vtt" | "json";
+
+interface BatchRun {
+	action: BatchAction;
+	done: number;
+	total: number;
+	running: boolean;
+	succeeded: number;
+	failed: BatchFailure<BatchAudioFile>[];
+}
+
+interface AudioBatchActionsProps {
+	items: BatchAudioFile[];
+	onClearSelection: () => void;
+	// Called once a batch finishes so the table can refresh
+	onComplete: (action: BatchAction, succeededIds: string[]) => void;
+}
+
+const ACTION_LABELS: Record<BatchAction, { running: string; done: string }> = {
+	transcribe: { running: "Starting transcriptions", done: "Transcriptions started" },
+	retranscribe: { running: "Starting re-transcriptions", done: "Re-transcriptions started" },
+	stop: { running: "Stopping jobs", done: "Jobs stopped" },
+	delete: { running: "Deleting files", done: "Files deleted" },
+	export: { running: "Exporting transcripts", done: "Transcripts exported" },
+	tag: { running: "Adding tags", done: "Tags added" },
+};
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+	{ value: "txt", label: "Text (.txt)" },
+	{ value: "srt", label: "Subtitles (.srt)" },
+	{ value: "vtt", label: "WebVTT (.vtt)" },
+	{ value: "json", label: "JSON (.json)" },
+];
+
+const getDisplayName = (file: BatchAudioFile): string => {
+	const parts = file.audio_path.split("/");
+	return file.title || parts[parts.length - 1];
+};
+
+const formatTimestamp = (seconds: number): string => {
+	const minutes = Math.floor(seconds / 60);
+	const secs = Math.floor(seconds % 60);
+	return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+const buildExportContent = (transcript: Transcript, format: ExportFormat, getSpeakerName: (speaker: string) => string): string => {
+	switch (format) {
+		case "srt":
+			return buildSRT(segmentsToCues(transcript), { includeSpeakers: true, getSpeakerName });
+		case "vtt":
+			return buildWebVTT(segmentsToCues(transcript), { includeSpeakers: true, karaoke: false, getSpeakerName });
+		case "json":
+			return JSON.stringify({
+				text: transcript.text,
+				segments: (transcript.segments || []).map(segment => ({
+					start: segment.start,
+					end: segment.end,
+					...(segment.speaker ? { speaker: getSpeakerName(segment.speaker) } : {}),
+					text: segment.text.trim(),
+				})),
+			}, null, 2);
+		case "txt":
+		default:
+			if (!transcript.segments?.length) return transcript.text;
+			return transcript.segments
+				.map(segment => `[${formatTimestamp(segment.start)}] ${segment.speaker ? `${getSpeakerName(segment.speaker)}: ` : ""}${segment.text.trim()}`)
+				.join("\n\n");
+	}
+};
+
+export function AudioBatchActions({ items, onClearSelection, onComplete }: AudioBatchActionsProps) {
+	const { getAuthHeaders } = useAuth();
+	const [run, setRun] = useState<BatchRun | null>(null);
+	const [transcribeDialogOpen, setTranscribeDialogOpen] = useState(false);
+	const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+	const [exportOpen, setExportOpen] = useState(false);
+	const [tagOpen, setTagOpen] = useState(false);
+	const [tagInput, setTagInput] = useState("");
+
+	const running = run?.running ?? false;
+	const count = items.length;
+
+	const execute = async <R,>(action: BatchAction, targets: BatchAudioFile[], task: (file: BatchAudioFile) => Promise<R>) => {
+		setRun({ action, done: 0, total: targets.length, running: true, succeeded: 0, failed: [] });
+		const result = await runBatch(targets, task, {
+			onProgress: (done, total) => setRun(prev => prev && { ...prev, done, total }),
+		});
+		setRun({
+			action,
+			done: targets.length,
+			total: targets.length,
+			running: false,
+			succeeded: result.succeeded.length,
+			failed: result.failed,
+		});
+		onComplete(action, result.succeeded.map(s => s.item.id));
+		return result;
+	};
+
+	const startTranscription = async (file: BatchAudioFile, params: WhisperXParams) => {
+		await ensureOk(await fetch(`/api/v1/transcription/${file.id}/start`, {
+			method: "POST",
+			headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+			body: JSON.stringify(params),
+		}));
+	};
+
+	const handleTranscribe = (params: WhisperXParams) => {
+		setTranscribeDialogOpen(false);
+		execute("transcribe", items, async file => {
+			if (file.is_multi_track && !params.is_multi_track_enabled) {
+				throw new Error("Multi-track audio needs a profile with multi-track transcription enabled");
+			}
+			if (!file.is_multi_track && params.is_multi_track_enabled) {
+				throw new Error("Multi-track profiles can't be used with single-track audio");
+			}
+			await startTranscription(file, params);
+		});
+	};
+
+	// Re-runs each job with the parameters it was last transcribed with
+	const handleRetranscribe = () => {
+		execute("retranscribe", items, async file => {
+			const res = await ensureOk(await fetch(`/api/v1/transcription/${file.id}`, { headers: { ...getAuthHeaders() } }));
+			const job: { parameters: WhisperXParams } = await res.json();
+			await startTranscription(file, job.parameters);
+		});
+	};
+
+	const handleStop = () => {
+		execute("stop", items, async file => {
+			if (file.status !== "processing") throw new Error("Not currently running");
+			await ensureOk(await fetch(`/api/v1/transcription/${file.id}/kill`, {
+				method: "POST",
+				headers: { ...getAuthHeaders() },
+			}));
+		});
+	};
+
+	const handleDelete = () => {
+		setDeleteDialogOpen(false);
+		execute("delete", items, async file => {
+			await ensureOk(await fetch(`/api/v1/transcription/${file.id}`, {
+				method: "DELETE",
+				headers: { ...getAuthHeaders() },
+			}));
+		});
+	};
+
+	const handleExport = async (format: ExportFormat) => {
+		setExportOpen(false);
+		const result = await execute("export", items, async file => {
+			const res = await ensureOk(await fetch(`/api/v1/transcription/${file.id}/transcript`, { headers: { ...getAuthHeaders() } }));
+			const data: { transcript: Transcript } = await res.json();
+
+			// Speaker names are optional; fall back to the raw labels
+			const names: Record<string, string> = {};
+			const speakersRes = await fetch(`/api/v1/transcription/${file.id}/speakers`, { headers: { ...getAuthHeaders() } });
+			if (speakersRes.ok) {
+				const mappings: { original_speaker: string; custom_name: string }[] = await speakersRes.json();
+				mappings.forEach(m => {
+					names[m.original_speaker] = m.custom_name;
+				});
+			}
+			return buildExportContent(data.transcript, format, speaker => names[speaker] || speaker);
+		});
+
+		if (result.succeeded.length === 0) return;
+		const used = new Set<string>();
+		const entries: ZipEntry[] = result.succeeded.map(({ item, result: content }) => ({
+			name: uniqueFileName(`${getDisplayName(item).replace(/\.[^/.]+$/, "").replace(/[\\/:*?"<>|]/g, "_") || "transcript"}.${format}`, used),
+			content,
+		}));
+		const url = URL.createObjectURL(buildZip(entries));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `transcripts-${new Date().toISOString().slice(0, 10)}.zip`;
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+		URL.revokeObjectURL(url);
+	};
+
+	const handleAddTags = () => {
+		const tags = tagInput.split(",").map(t => t.trim()).filter(Boolean);
+		if (tags.length === 0) return;
+		setTagOpen(false);
+		setTagInput("");
+		execute("tag", items, async file => {
+			await ensureOk(await fetch(`/api/v1/transcription/${file.id}/tags`, {
+				method: "POST",
+				headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+				body: JSON.stringify({ tags }),
+			}));
+		});
+	};
+
+	const actionButtonClass = "h-8 text-sm cursor-pointer";
+
+	return (
+		<div className="mb-4 rounded-lg border border-blue-200 dark:border-blue-900 bg-blue-50 dark:bg-blue-950/40 p-2 sm:p-3 space-y-2">
+			<div className="flex flex-wrap items-center gap-1.5">
+				<span className="text-sm font-medium text-blue-900 dark:text-blue-100 mr-2">
+					{count} selected
+				</span>
+				<Button variant="ghost" size="sm" className={actionButtonClass} disabled={running} onClick={() => setTranscribeDialogOpen(true)}>
+					<Play className="mr-1.5 h-4 w-4" />
+					Transcribe
+				</Button>
+				<Button variant="ghost" size="sm" className={actionButtonClass} disabled={running} onClick={handleRetranscribe}>
+					<RotateCcw className="mr-1.5 h-4 w-4" />
+					Re-transcribe
+				</Button>
+				<Button variant="ghost" size="sm" className={`${actionButtonClass} text-orange-600 dark:text-orange-400`} disabled={running} onClick={handleStop}>
+					<StopCircle className="mr-1.5 h-4 w-4" />
+					Stop
+				</Button>
+				<Popover open={exportOpen} onOpenChange={setExportOpen}>
+					<PopoverTrigger asChild>
+						<Button variant="ghost" size="sm" className={actionButtonClass} disabled={running}>
+							<Download className="mr-1.5 h-4 w-4" />
+							Export ZIP
+						</Button>
+					</PopoverTrigger>
+					<PopoverContent className="w-44 bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-600 p-1">
+						{EXPORT_FORMATS.map(format => (
+							<Button
+								key={format.value}
+								variant="ghost"
+								size="sm"
+								className="w-full justify-start h-8 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+								onClick={() => handleExport(format.value)}
+							>
+								{format.label}
+							</Button>
+						))}
+					</PopoverContent>
+				</Popover>
+				<Popover open={tagOpen} onOpenChange={setTagOpen}>
+					<PopoverTrigger asChild>
+						<Button variant="ghost" size="sm" className={actionButtonClass} disabled={running}>
+							<Tag className="mr-1.5 h-4 w-4" />
+							Add tags
+						</Button>
+					</PopoverTrigger>
+					<PopoverContent className="w-64 bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-600 p-2 space-y-2">
+						<Input
+							value={tagInput}
+							onChange={(e) => setTagInput(e.target.value)}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") {
+									e.preventDefault();
+									handleAddTags();
+								}
+							}}
+							placeholder="interview, council"
+							className="h-8 text-sm"
+							autoFocus
+						/>
+						<p className="text-xs text-gray-500 dark:text-gray-400">Separate tags with commas. New tags are created as needed.</p>
+						<Button size="sm" className="w-full h-8 bg-blue-600 hover:bg-blue-700 text-white" disabled={!tagInput.trim()} onClick={handleAddTags}>
+							Add to {count} file{count !== 1 ? "s" : ""}
+						</Button>
+					</PopoverContent>
+				</Popover>
+				<Button
+					variant="ghost"
+					size="sm"
+					className={`${actionButtonClass} text-red-600 dark:text-red-400`}
+					disabled={running}
+					onClick={() => setDeleteDialogOpen(true)}
+				>
+					<Trash2 className="mr-1.5 h-4 w-4" />
+					Delete
+				</Button>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-8 w-8 p-0 ml-auto cursor-pointer"
+					disabled={running}
+					onClick={() => {
+						setRun(null);
+						onClearSelection();
+					}}
+					title="Clear selection"
+				>
+					<X className="h-4 w-4" />
+				</Button>
+			</div>
+
+			{run && (
+				<div className="space-y-1.5">
+					<div className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+						{run.running && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+						<span>
+							{run.running
+								? `${ACTION_LABELS[run.action].running}: ${run.done} of ${run.total}`
+								: `${ACTION_LABELS[run.action].done}: ${run.succeeded} of ${run.total} succeeded${run.failed.length > 0 ? `, ${run.failed.length} failed` : ""}`}
+						</span>
+						{!run.running && (
+							<button type="button" className="ml-auto hover:underline cursor-pointer" onClick={() => setRun(null)}>
+								Dismiss
+							</button>
+						)}
+					</div>
+					<Progress value={run.total > 0 ? (run.done / run.total) * 100 : 0} className="h-1.5" />
+					{run.failed.length > 0 && (
+						<ul className="max-h-40 overflow-y-auto rounded-md bg-white dark:bg-gray-800 border border-red-200 dark:border-red-900 divide-y divide-red-100 dark:divide-red-900/50">
+							{run.failed.map(({ item, error }) => (
+								<li key={item.id} className="flex items-start gap-2 px-2.5 py-1.5 text-xs">
+									<AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-red-500" />
+									<span className="font-medium text-gray-800 dark:text-gray-200 break-all">{getDisplayName(item)}</span>
+									<span className="ml-auto text-right text-red-600 dark:text-red-400">{error}</span>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			)}
+
+			<TranscribeDDialog
+				open={transcribeDialogOpen}
+				onOpenChange={setTranscribeDialogOpen}
+				onStartTranscription={handleTranscribe}
+			/>
+
+			<AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+				<AlertDialogContent className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+					<AlertDialogHeader>
+						<AlertDialogTitle className="text-gray-900 dark:text-gray-100">
+							Delete {count} Audio File{count !== 1 ? "s" : ""}
+						</AlertDialogTitle>
+						<AlertDialogDescription className="text-gray-600 dark:text-gray-400">
+							Are you sure you want to delete the selected files? This action cannot be undone and will
+							permanently remove the audio files and any transcription data. Files that are still
+							processing are skipped.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel className="bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700">
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction className="bg-red-600 text-white hover:bg-red-700" onClick={handleDelete}>
+							Delete
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
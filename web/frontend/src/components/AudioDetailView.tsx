@@ -1,6 +1,6 @@
-import { useState, useEffect, useRef, memo, useCallback } from "react";
+import { useState, useEffect, useRef, memo, useCallback, useMemo } from "react";
 import { createPortal } from "react-dom";
-import { ArrowLeft, Play, Pause, List, AlignLeft, MessageCircle, Download, FileText, FileJson, FileImage, Check, StickyNote, Plus, X, Sparkles, Pencil, ChevronUp, ChevronDown, Info, Clock, Settings, Users, Loader2 } from "lucide-react";
+import { ArrowLeft, Play, Pause, List, AlignLeft, MessageCircle, Download, FileText, FileJson, FileImage, Captions, FileType, FileDown, PencilLine, History, TextSearch, SpellCheck, Check, StickyNote, Plus, X, Sparkles, Pencil, ChevronUp, ChevronDown, Info, Clock, Settings, Users, Loader2, Gauge, Keyboard, Link, Share2 } from "lucide-react";
 import WaveSurfer from "wavesurfer.js";
 import { Button } from "./ui/button";
 import {
@@ -17,16 +17,45 @@ import {
 	DialogHeader,
 	DialogTitle,
 } from "./ui/dialog";
+import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { useRouter } from "../contexts/RouterContext";
 import { useTheme } from "../contexts/ThemeContext";
 import { ThemeSwitcher } from "./ThemeSwitcher";
 import { useAuth } from "../contexts/AuthContext";
+import { useJobState } from "../contexts/JobEventsContext";
 import { ChatInterface } from "./ChatInterface";
 import type { Note } from "../types/note";
+import type { Transcript, WordSegment } from "../types/transcript";
+import { buildDOCX, buildPDF, type NotesPlacement } from "../utils/documentExport";
+import { DEFAULT_FIND_OPTIONS, findWordMatches, type FindOptions } from "../utils/transcriptSearch";
+import { planReplacements, type PlannedReplacement } from "../utils/transcriptReplace";
+import { buildSRT, buildWebVTT, getSubtitleLayout, resegmentCues, segmentsToCues, type SubtitleCue, type SubtitleLayout } from "../utils/subtitles";
+import { inheritedDefault, type Folder } from "../utils/folders";
+import type { Tag } from "../utils/tags";
+import { TagEditor } from "./TagEditor";
 import { NotesSidebar } from "./NotesSidebar";
+import { TranscriptEditor } from "./TranscriptEditor";
+import { RevisionHistoryDialog } from "./RevisionHistoryDialog";
+import { TranscriptFindBar } from "./TranscriptFindBar";
+import { ReplacePreviewDialog } from "./ReplacePreviewDialog";
+import { GlossaryCorrectionDialog } from "./GlossaryCorrectionDialog";
 import SpeakerRenameDialog from "./SpeakerRenameDialog";
+import { SpeakerAnalytics } from "./SpeakerAnalytics";
+import { SpeakerLane } from "./SpeakerLane";
+import { computeSpeakerAnalytics, soloPlaybackTarget, speakerRanges } from "../utils/speakerAnalytics";
+import { ShortcutCheatSheet } from "./ShortcutCheatSheet";
+import { ShareDialog } from "./ShareDialog";
+import { DEFAULT_SHORTCUTS, eventToShortcut, findShortcutAction, formatShortcut, parseShortcutSettings, worksWhileTyping, type PedalAction, type ShortcutAction, type ShortcutSettings } from "../utils/shortcuts";
+import { watchPedals } from "../utils/footPedal";
+import { PlaybackControls } from "./PlaybackControls";
+import { momentLink, type WordRange } from "../utils/deepLinks";
+import { loadPlaybackSettings, loopRestart, savePlaybackSettings, silenceSkipTarget, stepPlaybackRate, type LoopRange, type PlaybackSettings } from "../utils/playback";
+import { ConfidenceReviewBar } from "./ConfidenceReviewBar";
+import { ensureOk } from "../utils/batch";
+import { DEFAULT_CONFIDENCE_THRESHOLD, confidenceClass, correctWord, hasConfidenceScores, lowConfidenceWords, reviewWindow, type TranscriptReview } from "../utils/confidence";
 import ReactMarkdown from 'react-markdown';
 import rehypeRaw from 'rehype-raw';
 import rehypeHighlight from 'rehype-highlight';
@@ -85,33 +114,24 @@ interface AudioFile {
 	merged_audio_path?: string;
 	merge_status?: string;
 	merge_error?: string;
+	// Draft from live transcription, shown until the transcript is ready
+	live_draft?: string;
+	folder_id?: string | null;
+	tags?: Tag[];
 	parameters?: {
 		diarize?: boolean;
+		max_line_width?: number;
+		max_line_count?: number;
 		[key: string]: any;
 	};
 }
 
-interface WordSegment {
-	start: number;
-	end: number;
-	word: string;
-	score: number;
-	speaker?: string;
-}
-
-interface Transcript {
-	text: string;
-	segments?: Array<{
-		start: number;
-		end: number;
-		text: string;
-		speaker?: string;
-	}>;
-	word_segments?: WordSegment[];
-}
-
 interface AudioDetailViewProps {
 	audioId: string;
+	// Seconds to seek to once the audio is loaded (e.g. from a search hit)
+	initialTime?: number;
+	// Words to highlight and seek to, from a link to a moment
+	initialWords?: WordRange;
 }
 
 // Helper function to get display name for diarization model
@@ -170,7 +190,7 @@ const formatElapsedTime = (seconds: number): string => {
 	return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 };
 
-export const AudioDetailView = memo(function AudioDetailView({ audioId }: AudioDetailViewProps) {
+export const AudioDetailView = memo(function AudioDetailView({ audioId, initialTime, initialWords }: AudioDetailViewProps) {
 	const { navigate } = useRouter();
 	const { theme } = useTheme();
 	const { getAuthHeaders } = useAuth();
@@ -190,20 +210,63 @@ export const AudioDetailView = memo(function AudioDetailView({ audioId }: AudioD
 	const [transcriptMode, setTranscriptMode] = useState<"compact" | "expanded">(
 		"compact",
 	);
-	const [viewMode, setViewMode] = useState<"transcript" | "chat">("transcript");
+	const [viewMode, setViewMode] = useState<"transcript" | "analytics" | "chat">("transcript");
 	const [currentTime, setCurrentTime] = useState(0);
+	const [audioDuration, setAudioDuration] = useState(0);
+	// Speaker whose segments are the only ones played, if any
+	const [soloSpeaker, setSoloSpeaker] = useState<string | null>(null);
+	// Confidence tint and low-confidence review
+	const [confidenceOpen, setConfidenceOpen] = useState(false);
+	const [review, setReview] = useState<TranscriptReview>({ threshold: DEFAULT_CONFIDENCE_THRESHOLD, reviewed: [] });
+	const [reviewWord, setReviewWord] = useState<number | null>(null);
+	const [savingCorrection, setSavingCorrection] = useState(false);
+	// Playback stops here, when only a stretch of audio was asked for
+	const [playUntil, setPlayUntil] = useState<number | null>(null);
+	const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+	const playbackRateRef = useRef(playbackSettings.rate);
+	// A–B loop being repeated, if any
+	const [loop, setLoop] = useState<LoopRange | null>(null);
+	// Words a link pointed at, highlighted until another link is opened
+	const [linkedWords, setLinkedWords] = useState<WordRange | null>(null);
+	const [shortcutSettings, setShortcutSettings] = useState<ShortcutSettings>(DEFAULT_SHORTCUTS);
+	const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
+	const [shareOpen, setShareOpen] = useState(false);
 	const [currentWordIndex, setCurrentWordIndex] = useState<number | null>(null);
 	const [downloadDialogOpen, setDownloadDialogOpen] = useState(false);
-	const [downloadFormat, setDownloadFormat] = useState<'txt' | 'json'>('txt');
+	const [downloadFormat, setDownloadFormat] = useState<'txt' | 'json' | 'srt' | 'vtt' | 'docx' | 'pdf'>('txt');
 	const [includeSpeakerLabels, setIncludeSpeakerLabels] = useState(true);
 	const [includeTimestamps, setIncludeTimestamps] = useState(true);
+	const [vttKaraoke, setVttKaraoke] = useState(false);
+	const [resegmentSubtitles, setResegmentSubtitles] = useState(true);
+	const [subtitleLayout, setSubtitleLayout] = useState<SubtitleLayout>(getSubtitleLayout());
+	const [subtitleLayoutEdited, setSubtitleLayoutEdited] = useState(false);
+	const [notesPlacement, setNotesPlacement] = useState<NotesPlacement>('appendix');
+	const [includeSummary, setIncludeSummary] = useState(true);
+	const [exportingDocument, setExportingDocument] = useState(false);
+	const [editingTranscript, setEditingTranscript] = useState(false);
+	const [revisionHistoryOpen, setRevisionHistoryOpen] = useState(false);
+
+	// Find bar state
+	const [findOpen, setFindOpen] = useState(false);
+	const [findQuery, setFindQuery] = useState("");
+	const [findOptions, setFindOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+	const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+	const [replaceOpen, setReplaceOpen] = useState(false);
+	const [replaceValue, setReplaceValue] = useState("");
+	const [replaceSpeaker, setReplaceSpeaker] = useState("");
+	const [plannedReplacements, setPlannedReplacements] = useState<PlannedReplacement[]>([]);
+	const [replacePreviewOpen, setReplacePreviewOpen] = useState(false);
+	// Version created by the last find-and-replace, which can be undone
+	const [replaceUndoVersion, setReplaceUndoVersion] = useState<number | null>(null);
+	const [glossaryCorrectionOpen, setGlossaryCorrectionOpen] = useState(false);
+	const [undoingReplace, setUndoingReplace] = useState(false);
 	
 	// Speaker renaming state
 	const [speakerRenameDialogOpen, setSpeakerRenameDialogOpen] = useState(false);
 	const [speakerMappings, setSpeakerMappings] = useState<Record<string, string>>({});
 	
-	// Polling state
-	const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
+	// Status state; live updates come from the job event store
+	const liveStatus = useJobState(audioId)?.status;
 	const [processingStartTime, setProcessingStartTime] = useState<Date | null>(null);
 	const [elapsedTime, setElapsedTime] = useState<number>(0);
 	const [currentStatus, setCurrentStatus] = useState<string | null>(null);
@@ -211,6 +274,9 @@ export const AudioDetailView = memo(function AudioDetailView({ audioId }: AudioD
 	const wavesurferRef = useRef<WaveSurfer | null>(null);
 	const transcriptRef = useRef<HTMLDivElement>(null);
 	const highlightedWordRef = useRef<HTMLSpanElement>(null);
+	const pendingSeekRef = useRef<number | undefined>(undefined);
+	// Word range of the link already seeked to, as "start-end"
+	const appliedWordsRef = useRef<string | null>(null);
     const audioSectionRef = useRef<HTMLDivElement>(null);
 
     // Notes state
@@ -289,48 +355,29 @@ useEffect(() => {
         })();
 }, [audioId]);
 
-// Polling mechanism for status updates
+// Follow status changes from the shared job event store
+useEffect(() => {
+	if (!liveStatus || liveStatus === currentStatus) return;
+	const previousStatus = currentStatus;
+	setCurrentStatus(liveStatus);
+
+	// Load the transcript as soon as the job finishes
+	if (liveStatus === "completed" && previousStatus && previousStatus !== "completed") {
+		setAudioFile(prev => prev ? { ...prev, status: "completed" } : null);
+		fetchTranscriptOnly();
+	}
+}, [liveStatus]);
+
+// Track when processing started
 useEffect(() => {
-	// Start polling if job is processing or pending
 	const status = currentStatus || audioFile?.status;
-	if (audioFile && status && (status === "processing" || status === "pending")) {
-		// Set processing start time if not already set
-		if (!processingStartTime && status === "processing") {
-			setProcessingStartTime(new Date());
-		}
-		
-		// Clear any existing interval
-		if (pollingInterval) {
-			clearInterval(pollingInterval);
-		}
-		
-		// Start polling every 3 seconds
-		const interval = setInterval(async () => {
-			await fetchStatusOnly();
-		}, 3000);
-		
-		setPollingInterval(interval);
-		
-		// Cleanup interval on unmount or when status changes
-		return () => {
-			if (interval) {
-				clearInterval(interval);
-			}
-		};
-	} else {
-		// Stop polling if status is completed, failed, or uploaded
-		if (pollingInterval) {
-			clearInterval(pollingInterval);
-			setPollingInterval(null);
-		}
-		// Clear processing start time if completed or failed
-		const status = currentStatus || audioFile?.status;
-		if (status && (status === "completed" || status === "failed")) {
-			setProcessingStartTime(null);
-			setElapsedTime(0);
-		}
+	if (status === "processing") {
+		setProcessingStartTime(prev => prev || new Date());
+	} else if (status === "completed" || status === "failed") {
+		setProcessingStartTime(null);
+		setElapsedTime(0);
 	}
-}, [currentStatus, audioFile?.status, audioId]); // Re-run when status or audioId changes
+}, [currentStatus, audioFile?.status]);
 
 // Update elapsed time counter
 useEffect(() => {
@@ -346,15 +393,6 @@ useEffect(() => {
 	}
 }, [processingStartTime, currentStatus, audioFile?.status]);
 
-// Cleanup polling on unmount
-useEffect(() => {
-	return () => {
-		if (pollingInterval) {
-			clearInterval(pollingInterval);
-		}
-	};
-}, [pollingInterval]);
-
 // Fetch speaker mappings when audio file is loaded and has diarization enabled
 useEffect(() => {
 	if (audioFile) {
@@ -416,7 +454,8 @@ useEffect(() => {
 				barRadius: 2,
 				height: 80,
 				normalize: true,
-				backend: "WebAudio",
+				// The media element keeps the pitch when the speed changes
+				backend: "MediaElement",
 			});
 
 			// Load the audio blob
@@ -424,6 +463,16 @@ useEffect(() => {
 			const audioObjectURL = URL.createObjectURL(audioBlob);
 
 			await wavesurferRef.current.load(audioObjectURL);
+			setAudioDuration(wavesurferRef.current.getDuration());
+			wavesurferRef.current.setPlaybackRate(playbackRateRef.current, true);
+
+			// Apply a seek that was requested before the audio finished loading
+			if (pendingSeekRef.current !== undefined) {
+				const dur = wavesurferRef.current.getDuration() || 1;
+				wavesurferRef.current.seekTo(Math.min(0.999, Math.max(0, pendingSeekRef.current / dur)));
+				setCurrentTime(pendingSeekRef.current);
+				pendingSeekRef.current = undefined;
+			}
 
 
 			wavesurferRef.current.on("error", (error) => {
@@ -461,6 +510,107 @@ useEffect(() => {
 		}
 	}, [audioId, audioFile, theme, getAuthHeaders]);
 
+	// Seek to the requested moment, or remember it until WaveSurfer has loaded the audio
+	useEffect(() => {
+		if (initialTime === undefined || isNaN(initialTime)) return;
+		const ws = wavesurferRef.current;
+		const dur = ws?.getDuration() || 0;
+		if (ws && dur > 0) {
+			ws.seekTo(Math.min(0.999, Math.max(0, initialTime / dur)));
+			setCurrentTime(initialTime);
+		} else {
+			pendingSeekRef.current = initialTime;
+		}
+	}, [initialTime]);
+
+	// Seek to and highlight the linked words once the transcript is there. Only
+	// once per link, so saving or refetching the transcript doesn't jump back.
+	useEffect(() => {
+		if (!initialWords) {
+			appliedWordsRef.current = null;
+			setLinkedWords(null);
+			return;
+		}
+		const key = `${initialWords.start}-${initialWords.end}`;
+		if (appliedWordsRef.current === key) return;
+		const words = transcript?.word_segments;
+		const first = words?.[initialWords.start];
+		if (!words || !first) return;
+		appliedWordsRef.current = key;
+		setLinkedWords({ start: initialWords.start, end: Math.min(initialWords.end, words.length - 1) });
+		const ws = wavesurferRef.current;
+		const dur = ws?.getDuration() || 0;
+		if (ws && dur > 0) {
+			ws.seekTo(Math.min(0.999, Math.max(0, first.start / dur)));
+		} else {
+			pendingSeekRef.current = first.start;
+		}
+		setCurrentTime(first.start);
+		requestAnimationFrame(() => {
+			transcriptRef.current?.querySelector(`span[data-word-index="${initialWords.start}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+		});
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [initialWords?.start, initialWords?.end, transcript?.word_segments]);
+
+	const seekToTime = (time: number) => {
+		const ws = wavesurferRef.current;
+		if (ws) {
+			const dur = ws.getDuration() || 1;
+			ws.seekTo(Math.min(0.999, Math.max(0, time / dur)));
+		}
+		setCurrentTime(time);
+	};
+
+	// Solo playback jumps over the other speakers, and stops after the soloed one's last words
+	const soloRanges = useMemo(
+		() => (soloSpeaker ? speakerRanges(transcript?.segments, soloSpeaker) : []),
+		[soloSpeaker, transcript?.segments],
+	);
+	useEffect(() => {
+		const ws = wavesurferRef.current;
+		if (!soloSpeaker || !isPlaying || !ws) return;
+		const target = soloPlaybackTarget(soloRanges, currentTime);
+		if (target === null) {
+			ws.pause();
+		} else if (target !== currentTime) {
+			seekToTime(target);
+		}
+	}, [soloSpeaker, soloRanges, isPlaying, currentTime]);
+
+	// Speed keeps the pitch; each new player picks it up from the ref once loaded
+	useEffect(() => {
+		playbackRateRef.current = playbackSettings.rate;
+		wavesurferRef.current?.setPlaybackRate(playbackSettings.rate, true);
+	}, [playbackSettings.rate]);
+
+	useEffect(() => {
+		if (!isPlaying || !loopRestart(loop, currentTime)) return;
+		seekToTime(loop!.start);
+	}, [loop, isPlaying, currentTime]);
+
+	// Skip silence stays out of the way of solo, loop and review playback
+	useEffect(() => {
+		if (!playbackSettings.skipSilence || !isPlaying || soloSpeaker || loop || playUntil !== null) return;
+		const target = silenceSkipTarget(transcript?.segments, currentTime, playbackSettings.silenceThreshold);
+		if (target !== null) seekToTime(target);
+	}, [playbackSettings.skipSilence, playbackSettings.silenceThreshold, transcript?.segments, isPlaying, soloSpeaker, loop, playUntil, currentTime]);
+
+	// The segment being played, for looping it
+	const currentSegment = useMemo(() => {
+		const segment = transcript?.segments?.find(s => currentTime >= s.start && currentTime < s.end);
+		return segment ? { start: segment.start, end: segment.end } : null;
+	}, [transcript?.segments, currentTime]);
+
+	useEffect(() => {
+		if (playUntil === null) return;
+		if (!isPlaying) {
+			setPlayUntil(null);
+		} else if (currentTime >= playUntil) {
+			wavesurferRef.current?.pause();
+			setPlayUntil(null);
+		}
+	}, [playUntil, isPlaying, currentTime]);
+
 	// Initialize WaveSurfer when audioFile is available - with proper DOM timing
     useEffect(() => {
         if (!audioFile) {
@@ -545,6 +695,223 @@ useEffect(() => {
 		}
 	}, [currentWordIndex]);
 
+	const findResult = useMemo(
+		() => (findOpen ? findWordMatches(transcript?.word_segments || [], findQuery, findOptions) : { matches: [] }),
+		[findOpen, findQuery, findOptions, transcript?.word_segments],
+	);
+
+	// Map each matched word to the index of its match, for rendering
+	const matchByWord = useMemo(() => {
+		const byWord = new Map<number, number>();
+		findResult.matches.forEach((match, matchIndex) => {
+			for (let i = match.startWord; i <= match.endWord; i++) byWord.set(i, matchIndex);
+		});
+		return byWord;
+	}, [findResult]);
+
+	const reviewQueue = useMemo(
+		() => lowConfidenceWords(transcript?.word_segments, review.threshold),
+		[transcript?.word_segments, review.threshold],
+	);
+	const reviewedWords = useMemo(() => new Set(review.reviewed), [review.reviewed]);
+
+	useEffect(() => {
+		setConfidenceOpen(false);
+		setReviewWord(null);
+		(async () => {
+			try {
+				const res = await fetch(`/api/v1/transcription/${audioId}/review`, { headers: { ...getAuthHeaders() } });
+				if (!res.ok) return;
+				const data: TranscriptReview = await res.json();
+				setReview({ threshold: data.threshold, reviewed: data.reviewed || [] });
+			} catch (e) {
+				console.error('Failed to load review progress', e);
+			}
+		})();
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [audioId]);
+
+	const saveReview = async (next: TranscriptReview) => {
+		setReview(next);
+		try {
+			await ensureOk(await fetch(`/api/v1/transcription/${audioId}/review`, {
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+				body: JSON.stringify(next),
+			}));
+		} catch (e) {
+			toast({ title: 'Failed to save review progress', description: e instanceof Error ? e.message : String(e) });
+		}
+	};
+
+	const markReviewed = (index: number) => {
+		if (reviewedWords.has(index)) return;
+		saveReview({ ...review, reviewed: [...review.reviewed, index] });
+	};
+
+	// Plays the few seconds around a word, then stops
+	const playReviewWord = (index: number) => {
+		const word = transcript?.word_segments?.[index];
+		const ws = wavesurferRef.current;
+		if (!word || !ws) return;
+		const { start, end } = reviewWindow(word);
+		seekToTime(start);
+		setPlayUntil(end);
+		ws.play();
+	};
+
+	const correctReviewWord = async (index: number, text: string): Promise<boolean> => {
+		if (!transcript) return false;
+		const original = transcript.word_segments?.[index]?.word.trim();
+		const updated = correctWord(transcript, index, text);
+		setSavingCorrection(true);
+		try {
+			const res = await ensureOk(await fetch(`/api/v1/transcription/${audioId}/revisions`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+				body: JSON.stringify({ transcript: updated, message: `Review: "${original}" corrected to "${text}"` }),
+			}));
+			const revision: { version: number } = await res.json();
+			setTranscript(updated);
+			setReplaceUndoVersion(null);
+			markReviewed(index);
+			toast({ title: 'Word corrected', description: `Saved as version ${revision.version}.` });
+			return true;
+		} catch (e) {
+			toast({ title: 'Failed to correct word', description: e instanceof Error ? e.message : String(e) });
+			return false;
+		} finally {
+			setSavingCorrection(false);
+		}
+	};
+
+	// Keep the word under review in view
+	useEffect(() => {
+		if (reviewWord === null) return;
+		const el = transcriptRef.current?.querySelector(`span[data-word-index="${reviewWord}"]`);
+		el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+	}, [reviewWord]);
+
+	// A new query or option set starts navigation over from the playback position
+	useEffect(() => {
+		setActiveMatchIndex(-1);
+	}, [findResult]);
+
+	const goToMatch = (index: number) => {
+		const match = findResult.matches[index];
+		if (!match) return;
+		setActiveMatchIndex(index);
+
+		const ws = wavesurferRef.current;
+		if (ws) {
+			const dur = ws.getDuration() || 1;
+			ws.seekTo(Math.min(0.999, Math.max(0, match.start / dur)));
+		}
+		setCurrentTime(match.start);
+
+		const el = transcriptRef.current?.querySelector(`span[data-word-index="${match.startWord}"]`);
+		el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+	};
+
+	const findNextMatch = (direction: 1 | -1) => {
+		const matches = findResult.matches;
+		if (matches.length === 0) return;
+		let next: number;
+		if (activeMatchIndex === -1) {
+			// First jump goes to the nearest match from the current playback position
+			const time = wavesurferRef.current?.getCurrentTime() ?? currentTime;
+			if (direction === 1) {
+				next = matches.findIndex(m => m.start >= time);
+				if (next === -1) next = 0;
+			} else {
+				next = matches.length - 1 - [...matches].reverse().findIndex(m => m.start < time);
+				if (next === matches.length) next = matches.length - 1;
+			}
+		} else {
+			next = (activeMatchIndex + direction + matches.length) % matches.length;
+		}
+		goToMatch(next);
+	};
+
+	const closeFind = () => {
+		setFindOpen(false);
+		setActiveMatchIndex(-1);
+	};
+
+	const previewReplacements = () => {
+		if (!transcript) return;
+		const plan = planReplacements(transcript, findQuery, replaceValue, findOptions, replaceSpeaker || undefined);
+		if (plan.error) return;
+		if (plan.replacements.length === 0) {
+			toast({ title: "Nothing to replace", description: `No matches for ${getDisplaySpeakerName(replaceSpeaker)}.` });
+			return;
+		}
+		setPlannedReplacements(plan.replacements);
+		setReplacePreviewOpen(true);
+	};
+
+	// Undo restores the revision saved just before the replacement
+	const undoReplace = async () => {
+		if (replaceUndoVersion === null) return;
+		setUndoingReplace(true);
+		try {
+			const listRes = await fetch(`/api/v1/transcription/${audioId}/revisions`, { headers: { ...getAuthHeaders() } });
+			if (!listRes.ok) throw new Error(`HTTP ${listRes.status}`);
+			const revisions: Array<{ id: string; version: number }> = await listRes.json();
+			const previous = revisions.find(r => r.version === replaceUndoVersion - 1);
+			if (!previous) throw new Error("Previous revision not found");
+
+			const res = await fetch(`/api/v1/transcription/${audioId}/revisions/${previous.id}/restore`, {
+				method: 'POST',
+				headers: { ...getAuthHeaders() },
+			});
+			if (!res.ok) {
+				const data = await res.json().catch(() => ({}));
+				throw new Error(data.error || `HTTP ${res.status}`);
+			}
+			const restored: { transcript: string } = await res.json();
+			setTranscript(JSON.parse(restored.transcript));
+			setReplaceUndoVersion(null);
+			toast({ title: "Replacement undone", description: `Restored version ${previous.version}.` });
+		} catch (e) {
+			toast({ title: "Failed to undo replacement", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setUndoingReplace(false);
+		}
+	};
+
+	// Classes for a word, with the active match and playback position taking precedence
+	const getWordClassName = (index: number): string => {
+		const matchIndex = matchByWord.get(index);
+		if (matchIndex !== undefined && matchIndex === activeMatchIndex) {
+			return 'bg-orange-300 dark:bg-orange-500 dark:text-black px-0.5 rounded';
+		}
+		if (confidenceOpen && index === reviewWord) {
+			return 'bg-red-200 dark:bg-red-900/60 ring-2 ring-blue-500 px-0.5 rounded';
+		}
+		if (index === currentWordIndex) {
+			return 'bg-yellow-300 dark:bg-yellow-500 dark:text-black px-1 rounded';
+		}
+		if (matchIndex !== undefined) {
+			return 'bg-orange-100 dark:bg-orange-800/50 px-0.5 rounded';
+		}
+		if (linkedWords && index >= linkedWords.start && index <= linkedWords.end) {
+			return 'bg-sky-200 dark:bg-sky-800/60 px-0.5 rounded';
+		}
+		if (confidenceOpen && !reviewedWords.has(index)) {
+			const tint = confidenceClass(transcript?.word_segments?.[index]?.score, review.threshold);
+			if (tint) return tint;
+		}
+		if (notes.some(n => index >= n.start_word_index && index <= n.end_word_index)) {
+			return 'bg-amber-100/70 dark:bg-amber-800/40 px-0.5 rounded';
+		}
+		return 'px-0.5';
+	};
+
+	// Confidence shown on hover while the tint is on
+	const getWordTitle = (word: WordSegment): string | undefined =>
+		confidenceOpen && typeof word.score === 'number' ? `Confidence ${Math.round(word.score * 100)}%` : undefined;
+
 	const fetchTranscriptOnly = async () => {
 		console.log("[DEBUG] *** fetchTranscriptOnly CALLED ***");
 		try {
@@ -591,32 +958,6 @@ useEffect(() => {
 		}
 	};
 
-	const fetchStatusOnly = async () => {
-		try {
-			const response = await fetch(`/api/v1/transcription/${audioId}`, {
-				headers: {
-					...getAuthHeaders(),
-				},
-			});
-			
-			if (response.ok) {
-				const data = await response.json();
-				const previousStatus = currentStatus || audioFile?.status;
-				
-				// Only update the status state, not the entire audioFile
-				setCurrentStatus(data.status);
-				
-				// If status changed to completed, update audioFile status and fetch transcript
-				if (data.status === "completed" && previousStatus === "processing") {
-					setAudioFile(prev => prev ? { ...prev, status: "completed" } : null);
-					await fetchTranscriptOnly();
-				}
-			}
-		} catch (error) {
-			console.error('Error fetching status:', error);
-		}
-	};
-
 	const fetchAudioDetails = async () => {
 		try {
 			// Fetch audio file details
@@ -825,12 +1166,152 @@ useEffect(() => {
         return () => document.removeEventListener('selectionchange', onSelectionChange);
     }, [showEditor]);
 
+	const copyMomentLink = async (words: WordRange) => {
+		try {
+			await navigator.clipboard.writeText(momentLink(audioId, { words }));
+			toast({ title: 'Link copied', description: 'It opens the transcript at this moment.' });
+		} catch (e) {
+			toast({ title: 'Failed to copy link', description: e instanceof Error ? e.message : String(e) });
+		}
+	};
+
     const openEditorForSelection = () => {
         setShowEditor(true);
         setShowSelectionMenu(false);
         setNewNoteContent("");
     };
 
+	// Per-user key bindings and foot pedal setup
+	useEffect(() => {
+		(async () => {
+			try {
+				const res = await fetch('/api/v1/user/settings', { headers: { ...getAuthHeaders() } });
+				if (!res.ok) return;
+				const data = await res.json();
+				setShortcutSettings(parseShortcutSettings(data.keyboard_shortcuts));
+			} catch (e) {
+				console.error('Failed to load keyboard shortcuts', e);
+			}
+		})();
+	}, [getAuthHeaders]);
+
+	const updatePlaybackSettings = (next: PlaybackSettings) => {
+		setPlaybackSettings(next);
+		savePlaybackSettings(next);
+	};
+
+	const changePlaybackRate = (direction: 1 | -1) => {
+		updatePlaybackSettings({ ...playbackSettings, rate: stepPlaybackRate(playbackSettings.rate, direction) });
+	};
+
+	const skipBy = (seconds: number) => {
+		const ws = wavesurferRef.current;
+		const now = ws?.getCurrentTime() ?? currentTime;
+		const dur = ws?.getDuration() || audioDuration || Infinity;
+		seekToTime(Math.min(dur, Math.max(0, now + seconds)));
+	};
+
+	// Start times of each speaker's turns, for jumping between speaker changes
+	const speakerChanges = useMemo(
+		() => computeSpeakerAnalytics(transcript?.segments).turns.map(turn => turn.start),
+		[transcript?.segments],
+	);
+
+	// Jumps to the next start time after the playback position, or back to the
+	// last one before it; going back from just past a start goes to the one before
+	const jumpTo = (starts: number[], direction: 1 | -1) => {
+		const now = wavesurferRef.current?.getCurrentTime() ?? currentTime;
+		const target = direction === 1
+			? starts.find(start => start > now + 0.05)
+			: [...starts].reverse().find(start => start < now - 0.5);
+		if (target !== undefined) seekToTime(target);
+	};
+
+	// Notes the selected words, or the word being played when nothing is selected
+	const addNoteAtSelection = () => {
+		if (pendingSelection) {
+			openEditorForSelection();
+			return;
+		}
+		const words = transcript?.word_segments;
+		if (!words?.length) return;
+		const now = wavesurferRef.current?.getCurrentTime() ?? currentTime;
+		let index = currentWordIndex ?? words.findIndex(word => word.end >= now);
+		if (index === -1) index = words.length - 1;
+		const word = words[index];
+		const rect = transcriptRef.current?.querySelector(`span[data-word-index="${index}"]`)?.getBoundingClientRect();
+		setSelectionViewportPos({
+			x: rect ? Math.min(window.innerWidth - 16, Math.max(16, rect.left + rect.width / 2)) : window.innerWidth / 2,
+			y: rect ? rect.top - 10 : window.innerHeight / 3,
+		});
+		setPendingSelection({ startIdx: index, endIdx: index, startTime: word.start, endTime: word.end, quote: word.word });
+		openEditorForSelection();
+	};
+
+	// A button title with the first key bound to its action
+	const shortcutHint = (title: string, action: ShortcutAction) => {
+		const key = shortcutSettings.bindings[action][0];
+		return key ? `${title} (${formatShortcut(key)})` : title;
+	};
+
+	const runShortcut = (action: ShortcutAction) => {
+		switch (action) {
+			case 'playPause': togglePlayPause(); break;
+			case 'rewind': skipBy(-shortcutSettings.skipSeconds); break;
+			case 'forward': skipBy(shortcutSettings.skipSeconds); break;
+			case 'speedDown': changePlaybackRate(-1); break;
+			case 'speedUp': changePlaybackRate(1); break;
+			case 'previousSegment': jumpTo((transcript?.segments || []).map(segment => segment.start), -1); break;
+			case 'nextSegment': jumpTo((transcript?.segments || []).map(segment => segment.start), 1); break;
+			case 'previousSpeaker': jumpTo(speakerChanges, -1); break;
+			case 'nextSpeaker': jumpTo(speakerChanges, 1); break;
+			case 'addNote': if (viewMode === 'transcript' && !editingTranscript) addNoteAtSelection(); break;
+			case 'search':
+				if (viewMode === 'transcript' && !editingTranscript && transcript?.word_segments?.length) setFindOpen(true);
+				break;
+			case 'help': setShortcutHelpOpen(v => !v); break;
+		}
+	};
+
+	// Handlers read the latest state through this ref, so listeners are added once
+	const runShortcutRef = useRef(runShortcut);
+	runShortcutRef.current = runShortcut;
+
+	useEffect(() => {
+		const onKeyDown = (e: KeyboardEvent) => {
+			if (e.defaultPrevented || e.repeat) return;
+			const shortcut = eventToShortcut(e);
+			if (!shortcut) return;
+			const action = findShortcutAction(shortcutSettings, shortcut);
+			if (!action) return;
+
+			const target = e.target as HTMLElement | null;
+			// Dialogs keep their keys, apart from the one closing the cheat sheet
+			if (target?.closest('[role="dialog"]') && action !== 'help') return;
+			const typing = target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '');
+			if (typing && !worksWhileTyping(shortcut)) return;
+
+			e.preventDefault();
+			runShortcutRef.current(action);
+		};
+		window.addEventListener('keydown', onKeyDown);
+		return () => window.removeEventListener('keydown', onKeyDown);
+	}, [shortcutSettings]);
+
+	useEffect(() => {
+		if (!shortcutSettings.pedal.enabled) return;
+		return watchPedals(({ button, pressed }) => {
+			const action: PedalAction | undefined = shortcutSettings.pedal.buttons[button];
+			if (!action) return;
+			if (action === 'holdToPlay') {
+				if (pressed) wavesurferRef.current?.play();
+				else wavesurferRef.current?.pause();
+			} else if (pressed) {
+				runShortcutRef.current(action);
+			}
+		});
+	}, [shortcutSettings]);
+
     const saveNewNote = async () => {
         if (!pendingSelection) return;
         try {
@@ -884,7 +1365,6 @@ useEffect(() => {
 
 		return transcript.word_segments.map((word, index) => {
 			const isHighlighted = index === currentWordIndex;
-			const isAnnotated = notes.some(n => index >= n.start_word_index && index <= n.end_word_index);
             return (
                 <span
                     key={index}
@@ -893,11 +1373,8 @@ useEffect(() => {
                     data-word={word.word}
                     data-start={word.start}
                     data-end={word.end}
-                    className={`cursor-text transition-colors duration-150 hover:bg-blue-100 dark:hover:bg-blue-800 inline ${
-                        isHighlighted
-                            ? 'bg-yellow-300 dark:bg-yellow-500 dark:text-black px-1 rounded'
-                            : isAnnotated ? 'bg-amber-100/70 dark:bg-amber-800/40 px-0.5 rounded' : 'px-0.5'
-                    }`}
+                    className={`cursor-text transition-colors duration-150 hover:bg-blue-100 dark:hover:bg-blue-800 inline ${getWordClassName(index)}`}
+                    title={getWordTitle(word)}
                 >
                     {word.word}{" "}
                 </span>
@@ -923,7 +1400,6 @@ useEffect(() => {
 		return segmentWords.map((word, index) => {
 			const globalIndex = transcript.word_segments?.findIndex(w => w === word) ?? -1;
 			const isHighlighted = globalIndex === currentWordIndex;
-			const isAnnotated = notes.some(n => globalIndex >= n.start_word_index && globalIndex <= n.end_word_index);
             return (
                 <span
                     key={index}
@@ -932,11 +1408,8 @@ useEffect(() => {
                     data-word={word.word}
                     data-start={word.start}
                     data-end={word.end}
-                    className={`cursor-text transition-colors duration-150 hover:bg-blue-100 dark:hover:bg-blue-800 inline ${
-                        isHighlighted
-                            ? 'bg-yellow-300 dark:bg-yellow-500 dark:text-black px-1 rounded'
-                            : isAnnotated ? 'bg-amber-100/70 dark:bg-amber-800/40 px-0.5 rounded' : 'px-0.5'
-                    }`}
+                    className={`cursor-text transition-colors duration-150 hover:bg-blue-100 dark:hover:bg-blue-800 inline ${getWordClassName(globalIndex)}`}
+                    title={getWordTitle(word)}
                 >
                     {word.word}{" "}
                 </span>
@@ -1007,16 +1480,31 @@ useEffect(() => {
         } catch {}
         // Else open template picker
         setSummarizeOpen(true);
+        let available = templates;
         if (templates.length === 0) {
             try {
                 setTemplatesLoading(true);
                 const res = await fetch('/api/v1/summaries', { headers: { ...getAuthHeaders() }});
                 if (res.ok) {
                     const data = await res.json();
-                    setTemplates(data || []);
+                    available = data || [];
+                    setTemplates(available);
                 }
             } finally { setTemplatesLoading(false); }
         }
+        // Preselect the template the recording's folder (or a parent folder) defaults to
+        if (!selectedTemplateId && audioFile?.folder_id) {
+            try {
+                const res = await fetch('/api/v1/folders', { headers: { ...getAuthHeaders() }});
+                if (res.ok) {
+                    const folders: Folder[] = await res.json();
+                    const templateId = inheritedDefault(folders, audioFile.folder_id, 'default_summary_template_id');
+                    if (templateId && available.some(t => t.id === templateId)) setSelectedTemplateId(templateId);
+                }
+            } catch (error) {
+                console.error('Failed to load folder defaults:', error);
+            }
+        }
     };
 
     const startSummarization = async () => {
@@ -1084,31 +1572,28 @@ useEffect(() => {
 	};
 
 	// Download functions
+	// Builds cues either re-cut to the subtitle layout or one per transcript segment
+	const getSubtitleCues = (withSpeakerLabels: boolean): SubtitleCue[] => {
+		if (!transcript) return [];
+		if (!resegmentSubtitles || !transcript.word_segments?.length) {
+			return segmentsToCues(transcript);
+		}
+		return resegmentCues(
+			transcript,
+			subtitleLayout,
+			withSpeakerLabels ? (speaker) => `${getDisplaySpeakerName(speaker)}:` : undefined,
+		);
+	};
+
 	const downloadSRT = () => {
 		if (!transcript) return;
 
-		let srtContent = '';
-		let counter = 1;
-
-		if (transcript.segments) {
-			// Use segments for SRT format
-			transcript.segments.forEach((segment) => {
-				const startTime = formatSRTTime(segment.start);
-				const endTime = formatSRTTime(segment.end);
-				let text = segment.text.trim();
-				
-				// Add speaker label if available (common practice in SRT files)
-				if (segment.speaker) {
-					text = `${getDisplaySpeakerName(segment.speaker)}: ${text}`;
-				}
-				
-				srtContent += `${counter}\n${startTime} --> ${endTime}\n${text}\n\n`;
-				counter++;
-			});
-		} else {
-			// If no segments, create one entry with the full text
-			srtContent = `1\n00:00:00,000 --> 99:59:59,999\n${transcript.text}\n\n`;
-		}
+		// Speaker names are part of the visible SRT text, so they count towards the line width
+		const srtContent = buildSRT(getSubtitleCues(includeSpeakerLabels), {
+			includeSpeakers: includeSpeakerLabels,
+			getSpeakerName: getDisplaySpeakerName,
+			maxCharsPerLine: resegmentSubtitles ? subtitleLayout.maxCharsPerLine : undefined,
+		});
 
 		downloadFile(srtContent, `${getFileNameWithoutExt()}.srt`, 'text/plain');
 	};
@@ -1191,17 +1676,71 @@ useEffect(() => {
 		downloadFile(JSON.stringify(jsonData, null, 2), `${getFileNameWithoutExt()}.json`, 'application/json');
 	};
 
-	const formatSRTTime = (seconds: number): string => {
-		const hours = Math.floor(seconds / 3600);
-		const minutes = Math.floor((seconds % 3600) / 60);
-		const secs = Math.floor(seconds % 60);
-		const milliseconds = Math.floor((seconds % 1) * 1000);
+	const downloadVTT = () => {
+		if (!transcript) return;
+
+		const vttContent = buildWebVTT(getSubtitleCues(false), {
+			includeSpeakers: includeSpeakerLabels,
+			// Inline word timings only make sense when timestamps are requested
+			karaoke: includeTimestamps && vttKaraoke,
+			getSpeakerName: getDisplaySpeakerName,
+			maxCharsPerLine: resegmentSubtitles ? subtitleLayout.maxCharsPerLine : undefined,
+		});
+
+		downloadFile(vttContent, `${getFileNameWithoutExt()}.vtt`, 'text/vtt');
+	};
+
+	const downloadDocument = async (format: 'docx' | 'pdf') => {
+		if (!transcript || !audioFile) return;
+
+		setExportingDocument(true);
+		try {
+			// The stored summary is optional; a 404 just means none was generated yet
+			let summary: string | undefined;
+			if (includeSummary) {
+				const res = await fetch(`/api/v1/transcription/${audioId}/summary`, { headers: { ...getAuthHeaders() } });
+				if (res.ok) {
+					const data = await res.json();
+					summary = data.content || undefined;
+				}
+			}
+
+			const duration = getAudioDurationFromTranscript(transcript);
+			const doc = {
+				title: audioFile.title || getFileNameWithoutExt(),
+				createdAt: formatDate(audioFile.created_at),
+				duration: duration !== null ? formatDuration(duration) : null,
+				text: transcript.text,
+				segments: transcript.segments || [],
+				notes,
+				summary,
+			};
+			const options = {
+				includeSpeakers: includeSpeakerLabels,
+				includeTimestamps,
+				includeSummary,
+				notesPlacement,
+				getSpeakerName: getDisplaySpeakerName,
+			};
 
-		return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+			if (format === 'docx') {
+				const blob = await buildDOCX(doc, options);
+				downloadFile(blob, `${getFileNameWithoutExt()}.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+			} else {
+				const blob = await buildPDF(doc, options);
+				downloadFile(blob, `${getFileNameWithoutExt()}.pdf`, 'application/pdf');
+			}
+			setDownloadDialogOpen(false);
+		} catch (error) {
+			console.error(`Failed to export ${format.toUpperCase()}:`, error);
+			toast({ title: 'Export failed', description: `Could not generate the ${format.toUpperCase()} file.` });
+		} finally {
+			setExportingDocument(false);
+		}
 	};
 
-	const downloadFile = (content: string, filename: string, contentType: string) => {
-		const blob = new Blob([content], { type: contentType });
+	const downloadFile = (content: string | Blob, filename: string, contentType: string) => {
+		const blob = typeof content === 'string' ? new Blob([content], { type: contentType }) : content;
 		const url = URL.createObjectURL(blob);
 		const link = document.createElement('a');
 		link.href = url;
@@ -1217,14 +1756,27 @@ useEffect(() => {
 		return name.replace(/\.[^/.]+$/, '') || 'transcript';
 	};
 
-	const handleDownloadWithDialog = (format: 'txt' | 'json') => {
+	const handleDownloadWithDialog = (format: 'txt' | 'json' | 'srt' | 'vtt' | 'docx' | 'pdf') => {
 		setDownloadFormat(format);
+		// Follow the job's line settings until the user overrides them in the dialog
+		if (!subtitleLayoutEdited) {
+			setSubtitleLayout(getSubtitleLayout(audioFile?.parameters));
+		}
 		setDownloadDialogOpen(true);
 	};
 
 	const handleDownloadConfirm = () => {
+		if (downloadFormat === 'docx' || downloadFormat === 'pdf') {
+			// Document exports are async and close the dialog themselves
+			downloadDocument(downloadFormat);
+			return;
+		}
 		if (downloadFormat === 'txt') {
 			downloadTXT();
+		} else if (downloadFormat === 'srt') {
+			downloadSRT();
+		} else if (downloadFormat === 'vtt') {
+			downloadVTT();
 		} else {
 			downloadJSON();
 		}
@@ -1408,6 +1960,14 @@ useEffect(() => {
 						<p className="text-gray-600 dark:text-gray-400 text-sm">
 							Added on {formatDate(audioFile.created_at)}
 						</p>
+						<div className="mt-2">
+							<TagEditor
+								jobId={audioFile.id}
+								tags={audioFile.tags || []}
+								onChange={(tags) => setAudioFile(prev => (prev ? { ...prev, tags } : prev))}
+								size="md"
+							/>
+						</div>
 					</div>
 
 					{/* Audio Player Controls (hidden when collapsed, but kept mounted) */}
@@ -1427,11 +1987,36 @@ useEffect(() => {
 
 							{/* WaveSurfer Container */}
 							<div className="flex-1">
-								<div
-									ref={waveformRef}
-									className="w-full bg-gray-50 dark:bg-gray-700 rounded-lg p-2 sm:p-4"
-									style={{ minHeight: "80px" }}
-								/>
+								<div className="w-full bg-gray-50 dark:bg-gray-700 rounded-lg p-2 sm:p-4">
+									<div className="relative">
+										<div ref={waveformRef} style={{ minHeight: "80px" }} />
+										{loop && audioDuration > 0 && (
+											<div
+												className="pointer-events-none absolute inset-y-0 border-x-2 border-blue-500 bg-blue-500/15"
+												style={{ left: `${(loop.start / audioDuration) * 100}%`, width: `${((loop.end - loop.start) / audioDuration) * 100}%` }}
+											/>
+										)}
+									</div>
+									{/* Diarization lane, lined up with the waveform */}
+									{hasSpeakers() && transcript?.segments && (
+										<SpeakerLane
+											segments={transcript.segments}
+											duration={audioDuration || getAudioDurationFromTranscript(transcript) || 0}
+											getSpeakerName={getDisplaySpeakerName}
+											onSeek={seekToTime}
+											soloSpeaker={soloSpeaker}
+											onSoloChange={setSoloSpeaker}
+										/>
+									)}
+									<PlaybackControls
+										settings={playbackSettings}
+										onSettingsChange={updatePlaybackSettings}
+										currentTime={currentTime}
+										currentSegment={currentSegment}
+										loop={loop}
+										onLoopChange={setLoop}
+									/>
+								</div>
 							</div>
 						</div>
 					</div>
@@ -1443,9 +2028,26 @@ useEffect(() => {
 						<div className="mb-3 sm:mb-6">
 							{/* Title Row */}
 							<div className="flex items-center justify-between mb-3 sm:mb-0">
-								<h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-gray-50">
-									{viewMode === "transcript" ? "Transcript" : "Chat with Transcript"}
-								</h2>
+								<div className="flex items-center gap-3">
+									<h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-gray-50">
+										{viewMode === "transcript" ? "Transcript" : viewMode === "analytics" ? "Speaker Analytics" : "Chat with Transcript"}
+									</h2>
+									{/* Transcript / analytics switch, for transcripts with speakers */}
+									{viewMode !== "chat" && hasSpeakers() && getDetectedSpeakers().length > 0 && (
+										<div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-xs">
+											{(["transcript", "analytics"] as const).map((mode) => (
+												<button
+													key={mode}
+													type="button"
+													onClick={() => setViewMode(mode)}
+													className={`px-2 py-1 rounded cursor-pointer capitalize transition-colors ${viewMode === mode ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm' : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100'}`}
+												>
+													{mode}
+												</button>
+											))}
+										</div>
+									)}
+								</div>
 
 								{/* Desktop: Show toolbar inline, Mobile: Hide here (shown below) */}
 								<div className="hidden sm:flex items-center gap-2">
@@ -1485,6 +2087,66 @@ useEffect(() => {
 
                                 <div className="mx-1 h-5 w-px bg-gray-300 dark:bg-gray-700" />
 
+                                {/* Find in transcript */}
+                                {transcript?.word_segments && transcript.word_segments.length > 0 && !editingTranscript && (
+                                  <button
+                                    type="button"
+                                    onClick={() => (findOpen ? closeFind() : setFindOpen(true))}
+                                    className={`h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${findOpen ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+                                    title={shortcutHint("Find in transcript", "search")}
+                                  >
+                                    <TextSearch className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
+                                {/* Glossary correction */}
+                                {transcript?.word_segments && transcript.word_segments.length > 0 && !editingTranscript && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setGlossaryCorrectionOpen(true)}
+                                    className="h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                    title="Correct with glossary"
+                                  >
+                                    <SpellCheck className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
+                                {/* Confidence tint and review */}
+                                {hasConfidenceScores(transcript) && !editingTranscript && (
+                                  <button
+                                    type="button"
+                                    onClick={() => { setConfidenceOpen(v => !v); setReviewWord(null); }}
+                                    className={`h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${confidenceOpen ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+                                    title="Word confidence and review"
+                                  >
+                                    <Gauge className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
+                                {/* Edit transcript */}
+                                {transcript?.segments && transcript.segments.length > 0 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setEditingTranscript(v => !v)}
+                                    className={`h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${editingTranscript ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+                                    title={editingTranscript ? 'Stop editing' : 'Edit transcript'}
+                                  >
+                                    <PencilLine className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
+                                {/* Revision history */}
+                                {transcript && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setRevisionHistoryOpen(true)}
+                                    className="h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                    title="Revision history"
+                                  >
+                                    <History className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
                                 {/* Execution Info */}
                                 <button
                                   type="button"
@@ -1495,6 +2157,28 @@ useEffect(() => {
                                   <Info className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                                 </button>
 
+                                {/* Keyboard shortcuts */}
+                                <button
+                                  type="button"
+                                  onClick={() => setShortcutHelpOpen(true)}
+                                  className="h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                  title={shortcutHint("Keyboard shortcuts", "help")}
+                                >
+                                  <Keyboard className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                </button>
+
+                                {/* Public share link */}
+                                {transcript && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setShareOpen(true)}
+                                    className="h-6 w-6 sm:h-7 sm:w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                    title="Share a read-only link"
+                                  >
+                                    <Share2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                                  </button>
+                                )}
+
                                 {/* Speaker Renaming - only show if there are speakers (from diarization or multi-track) */}
                                 {hasSpeakers() && getDetectedSpeakers().length > 0 && (
                                   <>
@@ -1537,10 +2221,14 @@ useEffect(() => {
                                     </button>
                                   </DropdownMenuTrigger>
                                   <DropdownMenuContent className="w-44 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
-                                    <DropdownMenuItem onClick={downloadSRT} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+                                    <DropdownMenuItem onClick={() => handleDownloadWithDialog('srt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
                                       <FileImage className="h-4 w-4" />
                                       Download as SRT
                                     </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => handleDownloadWithDialog('vtt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+                                      <Captions className="h-4 w-4" />
+                                      Download as VTT
+                                    </DropdownMenuItem>
                                     <DropdownMenuItem onClick={() => handleDownloadWithDialog('txt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
                                       <FileText className="h-4 w-4" />
                                       Download as TXT
@@ -1549,6 +2237,14 @@ useEffect(() => {
                                       <FileJson className="h-4 w-4" />
                                       Download as JSON
                                     </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => handleDownloadWithDialog('docx')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+                                      <FileType className="h-4 w-4" />
+                                      Download as DOCX
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => handleDownloadWithDialog('pdf')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+                                      <FileDown className="h-4 w-4" />
+                                      Download as PDF
+                                    </DropdownMenuItem>
                                   </DropdownMenuContent>
                                 </DropdownMenu>
 
@@ -1605,6 +2301,66 @@ useEffect(() => {
 
 										<div className="mx-1 h-5 w-px bg-gray-300 dark:bg-gray-700" />
 
+										{/* Find in transcript */}
+										{transcript?.word_segments && transcript.word_segments.length > 0 && !editingTranscript && (
+											<button
+												type="button"
+												onClick={() => (findOpen ? closeFind() : setFindOpen(true))}
+												className={`h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${findOpen ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+												title={shortcutHint("Find in transcript", "search")}
+											>
+												<TextSearch className="h-3.5 w-3.5" />
+											</button>
+										)}
+
+										{/* Glossary correction */}
+										{transcript?.word_segments && transcript.word_segments.length > 0 && !editingTranscript && (
+											<button
+												type="button"
+												onClick={() => setGlossaryCorrectionOpen(true)}
+												className="h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+												title="Correct with glossary"
+											>
+												<SpellCheck className="h-3.5 w-3.5" />
+											</button>
+										)}
+
+										{/* Confidence tint and review */}
+										{hasConfidenceScores(transcript) && !editingTranscript && (
+											<button
+												type="button"
+												onClick={() => { setConfidenceOpen(v => !v); setReviewWord(null); }}
+												className={`h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${confidenceOpen ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+												title="Word confidence and review"
+											>
+												<Gauge className="h-3.5 w-3.5" />
+											</button>
+										)}
+
+										{/* Edit transcript */}
+										{transcript?.segments && transcript.segments.length > 0 && (
+											<button
+												type="button"
+												onClick={() => setEditingTranscript(v => !v)}
+												className={`h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${editingTranscript ? 'bg-white dark:bg-gray-700 shadow-sm' : ''}`}
+												title={editingTranscript ? 'Stop editing' : 'Edit transcript'}
+											>
+												<PencilLine className="h-3.5 w-3.5" />
+											</button>
+										)}
+
+										{/* Revision history */}
+										{transcript && (
+											<button
+												type="button"
+												onClick={() => setRevisionHistoryOpen(true)}
+												className="h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+												title="Revision history"
+											>
+												<History className="h-3.5 w-3.5" />
+											</button>
+										)}
+
 										{/* Execution Info */}
 										<button
 											type="button"
@@ -1615,6 +2371,28 @@ useEffect(() => {
 											<Info className="h-3.5 w-3.5" />
 										</button>
 
+										{/* Keyboard shortcuts */}
+										<button
+											type="button"
+											onClick={() => setShortcutHelpOpen(true)}
+											className="h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+											title={shortcutHint("Keyboard shortcuts", "help")}
+										>
+											<Keyboard className="h-3.5 w-3.5" />
+										</button>
+
+										{/* Public share link */}
+										{transcript && (
+											<button
+												type="button"
+												onClick={() => setShareOpen(true)}
+												className="h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+												title="Share a read-only link"
+											>
+												<Share2 className="h-3.5 w-3.5" />
+											</button>
+										)}
+
 										{/* Speaker Renaming - only show if there are speakers (from diarization or multi-track) */}
 										{hasSpeakers() && getDetectedSpeakers().length > 0 && (
 											<>
@@ -1657,10 +2435,14 @@ useEffect(() => {
 												</button>
 											</DropdownMenuTrigger>
 											<DropdownMenuContent className="w-44 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
-												<DropdownMenuItem onClick={downloadSRT} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+												<DropdownMenuItem onClick={() => handleDownloadWithDialog('srt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
 													<FileImage className="h-4 w-4" />
 													Download as SRT
 												</DropdownMenuItem>
+												<DropdownMenuItem onClick={() => handleDownloadWithDialog('vtt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+													<Captions className="h-4 w-4" />
+													Download as VTT
+												</DropdownMenuItem>
 												<DropdownMenuItem onClick={() => handleDownloadWithDialog('txt')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
 													<FileText className="h-4 w-4" />
 													Download as TXT
@@ -1669,6 +2451,14 @@ useEffect(() => {
 													<FileJson className="h-4 w-4" />
 													Download as JSON
 												</DropdownMenuItem>
+												<DropdownMenuItem onClick={() => handleDownloadWithDialog('docx')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+													<FileType className="h-4 w-4" />
+													Download as DOCX
+												</DropdownMenuItem>
+												<DropdownMenuItem onClick={() => handleDownloadWithDialog('pdf')} className="flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100">
+													<FileDown className="h-4 w-4" />
+													Download as PDF
+												</DropdownMenuItem>
 											</DropdownMenuContent>
 										</DropdownMenu>
 
@@ -1688,8 +2478,73 @@ useEffect(() => {
 							)}
 						</div>
 
-						{/* Content Area - Show transcript or chat based on view mode */}
-						{viewMode === "transcript" ? (
+						{/* Content Area - Show transcript, analytics or chat based on view mode */}
+						{viewMode === "analytics" ? (
+							<SpeakerAnalytics
+								segments={transcript.segments || []}
+								getSpeakerName={getDisplaySpeakerName}
+								currentTime={currentTime}
+								onSeek={seekToTime}
+								onExport={(csv) => downloadFile(csv, `${getFileNameWithoutExt()}-speakers.csv`, 'text/csv')}
+							/>
+						) : viewMode === "transcript" && editingTranscript && transcript ? (
+							<TranscriptEditor
+								transcriptionId={audioId}
+								transcript={transcript}
+								getSpeakerName={getDisplaySpeakerName}
+								onSaved={(updated) => {
+									setTranscript(updated);
+									setEditingTranscript(false);
+									setReplaceUndoVersion(null);
+								}}
+								onCancel={() => setEditingTranscript(false)}
+							/>
+						) : viewMode === "transcript" ? (
+							<>
+							{confidenceOpen && transcript.word_segments && (
+								<ConfidenceReviewBar
+									words={transcript.word_segments}
+									threshold={review.threshold}
+									onThresholdChange={threshold => setReview(prev => ({ ...prev, threshold }))}
+									onThresholdCommit={threshold => saveReview({ ...review, threshold })}
+									queue={reviewQueue}
+									reviewed={reviewedWords}
+									activeWord={reviewWord}
+									onActiveWordChange={setReviewWord}
+									onPlay={playReviewWord}
+									onAccept={markReviewed}
+									onCorrect={correctReviewWord}
+									saving={savingCorrection}
+									onClose={() => { setConfidenceOpen(false); setReviewWord(null); }}
+								/>
+							)}
+							{findOpen && (
+								<TranscriptFindBar
+									query={findQuery}
+									onQueryChange={setFindQuery}
+									options={findOptions}
+									onOptionsChange={setFindOptions}
+									matchCount={findResult.matches.length}
+									activeIndex={activeMatchIndex}
+									error={findResult.error}
+									onNext={() => findNextMatch(1)}
+									onPrevious={() => findNextMatch(-1)}
+									onClose={closeFind}
+									replace={{
+										open: replaceOpen,
+										onOpenChange: setReplaceOpen,
+										value: replaceValue,
+										onValueChange: setReplaceValue,
+										speakers: getDetectedSpeakers().map(speaker => ({ value: speaker, label: getDisplaySpeakerName(speaker) })),
+										speaker: replaceSpeaker,
+										onSpeakerChange: setReplaceSpeaker,
+										onPreview: previewReplacements,
+										canUndo: replaceUndoVersion !== null,
+										undoing: undoingReplace,
+										onUndo: undoReplace,
+									}}
+								/>
+							)}
 							<div className="relative overflow-hidden">
 								<div
                                 className={`transition-all duration-300 ease-in-out ${
@@ -1750,6 +2605,7 @@ useEffect(() => {
 									)}
 								</div>
 							</div>
+							</>
 						) : (
 							<div style={{ height: "600px" }}>
 								<ChatInterface 
@@ -1814,6 +2670,21 @@ useEffect(() => {
 								</>
 							)}
 						</div>
+
+						{/* Live Draft */}
+						{audioFile.live_draft && (currentStatus || audioFile.status) !== "failed" && (
+							<div className="mt-6 text-left">
+								<h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+									Live draft
+								</h3>
+								<p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+									Transcribed while recording. It is replaced by the full transcript when transcription finishes.
+								</p>
+								<div className="max-h-64 overflow-y-auto rounded-lg bg-gray-50 dark:bg-gray-800 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+									{audioFile.live_draft}
+								</div>
+							</div>
+						)}
 					</div>
 				)}
 
@@ -1905,19 +2776,136 @@ useEffect(() => {
 							/>
 						</div>
 
-						<div className="flex items-center justify-between">
-							<Label htmlFor="timestamps" className="text-gray-700 dark:text-gray-300">
-								Include Timestamps
-							</Label>
-							<Switch
-								id="timestamps"
-								checked={includeTimestamps}
-								onCheckedChange={setIncludeTimestamps}
-								disabled={!transcript?.segments}
-							/>
-						</div>
+						{downloadFormat !== 'srt' && (
+							<div className="flex items-center justify-between">
+								<Label htmlFor="timestamps" className="text-gray-700 dark:text-gray-300">
+									Include Timestamps
+								</Label>
+								<Switch
+									id="timestamps"
+									checked={includeTimestamps}
+									onCheckedChange={setIncludeTimestamps}
+									disabled={!transcript?.segments}
+								/>
+							</div>
+						)}
 
-						{(!includeSpeakerLabels && !includeTimestamps) && (
+						{(downloadFormat === 'docx' || downloadFormat === 'pdf') && (
+							<>
+								<div className="flex items-center justify-between">
+									<Label htmlFor="include-summary" className="text-gray-700 dark:text-gray-300">
+										Include Summary
+									</Label>
+									<Switch
+										id="include-summary"
+										checked={includeSummary}
+										onCheckedChange={setIncludeSummary}
+									/>
+								</div>
+
+								<div className="flex items-center justify-between gap-4">
+									<Label htmlFor="notes-placement" className="text-gray-700 dark:text-gray-300">
+										Notes
+									</Label>
+									<Select
+										value={notesPlacement}
+										onValueChange={(v) => setNotesPlacement(v as NotesPlacement)}
+										disabled={notes.length === 0}
+									>
+										<SelectTrigger id="notes-placement" className="w-40">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="appendix">As appendix</SelectItem>
+											<SelectItem value="footnotes">As footnotes</SelectItem>
+											<SelectItem value="none">Leave out</SelectItem>
+										</SelectContent>
+									</Select>
+								</div>
+							</>
+						)}
+
+						{downloadFormat === 'vtt' && (
+							<div className="flex items-center justify-between">
+								<div>
+									<Label htmlFor="vtt-karaoke" className="text-gray-700 dark:text-gray-300">
+										Word-level Timing (Karaoke)
+									</Label>
+									<p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+										Adds an inline timestamp before each word
+									</p>
+								</div>
+								<Switch
+									id="vtt-karaoke"
+									checked={includeTimestamps && vttKaraoke}
+									onCheckedChange={setVttKaraoke}
+									disabled={!includeTimestamps || !transcript?.word_segments?.length}
+								/>
+							</div>
+						)}
+
+						{(downloadFormat === 'srt' || downloadFormat === 'vtt') && (
+							<div className="space-y-3">
+								<div className="flex items-center justify-between">
+									<div>
+										<Label htmlFor="resegment-subtitles" className="text-gray-700 dark:text-gray-300">
+											Re-segment Cues
+										</Label>
+										<p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+											Re-cut cues from word timings to fit the limits below
+										</p>
+									</div>
+									<Switch
+										id="resegment-subtitles"
+										checked={resegmentSubtitles && !!transcript?.word_segments?.length}
+										onCheckedChange={setResegmentSubtitles}
+										disabled={!transcript?.word_segments?.length}
+									/>
+								</div>
+
+								{resegmentSubtitles && !!transcript?.word_segments?.length && (
+									<div className="grid grid-cols-2 gap-3">
+										{([
+											{ key: 'maxCharsPerLine', label: 'Characters per line', step: 1, min: 10 },
+											{ key: 'maxLinesPerCue', label: 'Lines per cue', step: 1, min: 1 },
+											{ key: 'maxCueDuration', label: 'Max cue duration (s)', step: 0.5, min: 1 },
+											{ key: 'minGap', label: 'Min gap (s)', step: 0.01, min: 0 },
+										] as const).map(field => (
+											<div key={field.key} className="space-y-1">
+												<Label htmlFor={`subtitle-${field.key}`} className="text-xs text-gray-600 dark:text-gray-400">
+													{field.label}
+												</Label>
+												<Input
+													id={`subtitle-${field.key}`}
+													type="number"
+													min={field.min}
+													step={field.step}
+													value={subtitleLayout[field.key]}
+													onChange={(e) => {
+														setSubtitleLayout(prev => ({ ...prev, [field.key]: Number(e.target.value) }));
+														setSubtitleLayoutEdited(true);
+													}}
+													className="h-8 bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100"
+												/>
+											</div>
+										))}
+									</div>
+								)}
+							</div>
+						)}
+
+						{downloadFormat === 'vtt' && (
+							<div className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 p-3 rounded-md">
+								<div className="flex items-center gap-2">
+									<Check className="h-4 w-4 text-green-500" />
+									{includeSpeakerLabels
+										? 'Cues will carry speaker voice tags'
+										: 'Cues will contain text only'}
+								</div>
+							</div>
+						)}
+
+						{downloadFormat !== 'srt' && downloadFormat !== 'vtt' && (!includeSpeakerLabels && !includeTimestamps) && (
 							<div className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 p-3 rounded-md">
 								<div className="flex items-center gap-2">
 									<Check className="h-4 w-4 text-green-500" />
@@ -1926,7 +2914,7 @@ useEffect(() => {
 							</div>
 						)}
 
-						{(includeSpeakerLabels || includeTimestamps) && (
+						{downloadFormat !== 'srt' && downloadFormat !== 'vtt' && (includeSpeakerLabels || includeTimestamps) && (
 							<div className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 p-3 rounded-md">
 								<div className="flex items-center gap-2">
 									<Check className="h-4 w-4 text-green-500" />
@@ -1946,9 +2934,10 @@ useEffect(() => {
 						</Button>
 						<Button 
 							onClick={handleDownloadConfirm}
+							disabled={exportingDocument}
 							className="bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-800 text-white"
 						>
-							<Download className="mr-2 h-4 w-4" />
+							{exportingDocument ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
 							Download {downloadFormat.toUpperCase()}
 						</Button>
 					</DialogFooter>
@@ -1964,6 +2953,49 @@ useEffect(() => {
                 initialSpeakers={getDetectedSpeakers()}
             />
 
+            <RevisionHistoryDialog
+                open={revisionHistoryOpen}
+                onOpenChange={setRevisionHistoryOpen}
+                transcriptionId={audioId}
+                onRestored={(restored) => {
+                    setTranscript(restored);
+                    setEditingTranscript(false);
+                    setReplaceUndoVersion(null);
+                }}
+            />
+
+            {transcript && (
+                <ReplacePreviewDialog
+                    open={replacePreviewOpen}
+                    onOpenChange={setReplacePreviewOpen}
+                    transcriptionId={audioId}
+                    transcript={transcript}
+                    query={findQuery}
+                    replacement={replaceValue}
+                    replacements={plannedReplacements}
+                    getSpeakerName={getDisplaySpeakerName}
+                    onApplied={(updated, version) => {
+                        setTranscript(updated);
+                        setReplaceUndoVersion(version);
+                    }}
+                />
+            )}
+
+            {transcript && (
+                <GlossaryCorrectionDialog
+                    open={glossaryCorrectionOpen}
+                    onOpenChange={setGlossaryCorrectionOpen}
+                    transcriptionId={audioId}
+                    transcript={transcript}
+                    glossaryIds={audioFile?.parameters?.glossary_ids}
+                    getSpeakerName={getDisplaySpeakerName}
+                    onApplied={(updated, version) => {
+                        setTranscript(updated);
+                        setReplaceUndoVersion(version);
+                    }}
+                />
+            )}
+
             {/* Summarization template selector dialog */}
             <UIDialog open={summarizeOpen} onOpenChange={(o) => { setSummarizeOpen(o); if (!o) { setTplPopoverOpen(false); } }}>
                 <UIDialogContent className="sm:max-w-lg bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
@@ -2604,6 +3636,15 @@ useEffect(() => {
                 </UIDialogContent>
             </UIDialog>
 
+			<ShortcutCheatSheet
+				open={shortcutHelpOpen}
+				onOpenChange={setShortcutHelpOpen}
+				settings={shortcutSettings}
+				onCustomize={() => navigate({ path: "settings" })}
+			/>
+
+			<ShareDialog open={shareOpen} onOpenChange={setShareOpen} audioId={audioId} suggestedRange={loop} />
+
 			{/* Portal: add-note bubble + editor */}
 				{((showSelectionMenu || showEditor) && pendingSelection) ? (
 					createPortal(
@@ -2628,6 +3669,19 @@ useEffect(() => {
 										<button type="button" className="flex items-center gap-1 hover:opacity-90" onClick={openEditorForSelection}>
 											<Plus className="h-3 w-3" /> Add note
 										</button>
+										<span className="mx-1 h-3 w-px bg-gray-600" />
+										<button
+											type="button"
+											className="flex items-center gap-1 hover:opacity-90"
+											onClick={() => {
+												copyMomentLink({ start: pendingSelection.startIdx, end: pendingSelection.endIdx });
+												setShowSelectionMenu(false);
+												setPendingSelection(null);
+												window.getSelection()?.removeAllRanges();
+											}}
+										>
+											<Link className="h-3 w-3" /> Copy link to this moment
+										</button>
 									</div>
 								</div>
 							)}
@@ -2638,7 +3692,7 @@ useEffect(() => {
 										<div className="text-xs text-gray-500 dark:text-gray-400 border-l-2 border-gray-300 dark:border-gray-600 pl-2 italic mb-2 max-h-32 overflow-auto">
 											{pendingSelection.quote}
 										</div>
-										<textarea className="w-full text-sm bg-transparent border rounded-md p-2 border-gray-300 dark:border-gray-700 text-gray-900 dark:text-gray-100" placeholder="Add a note..." value={newNoteContent} onChange={e => setNewNoteContent(e.target.value)} rows={4} />
+										<textarea autoFocus className="w-full text-sm bg-transparent border rounded-md p-2 border-gray-300 dark:border-gray-700 text-gray-900 dark:text-gray-100" placeholder="Add a note..." value={newNoteContent} onChange={e => setNewNoteContent(e.target.value)} rows={4} />
 										<div className="mt-2 flex items-center justify-end gap-2">
 											<button type="button" className="px-2 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700" onClick={() => { setShowEditor(false); setPendingSelection(null); }}>{"Cancel"}</button>
 											<button type="button" className="px-2 py-1 text-sm rounded-md bg-blue-600 text-white" onClick={saveNewNote}>{"Save"}</button>
@@ -2677,6 +3731,7 @@ useEffect(() => {
 										notes={notes}
 										onEdit={updateNote}
 										onDelete={deleteNote}
+										getLink={(note) => momentLink(audioId, { words: { start: note.start_word_index, end: note.end_word_index } })}
 										onJumpTo={(t) => { if (wavesurferRef.current) { const dur = wavesurferRef.current.getDuration(); wavesurferRef.current.seekTo(Math.min(0.999, Math.max(0, t / dur))); setCurrentTime(t); }}}
 									/>
 								</div>
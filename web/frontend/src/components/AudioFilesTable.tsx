@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useCallback, memo, useRef } from "react";
+import { useState, useEffect, useMemo, useCallback, memo } from "react";
 import {
     CheckCircle,
     Clock,
@@ -17,6 +17,7 @@ import {
     ChevronsLeft,
     ChevronsRight,
     MessageCircle,
+    FileSearch,
 } from "lucide-react";
 
 // Custom SVG icons for transcription actions
@@ -69,8 +70,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { TranscriptionConfigDialog, type WhisperXParams } from "./TranscriptionConfigDialog";
 import { TranscribeDDialog } from "./TranscribeDDialog";
+import { AudioBatchActions, type BatchAction } from "./AudioBatchActions";
+import { LibraryFilterPopover } from "./LibraryFilterPopover";
+import { TagEditor } from "./TagEditor";
 import { useRouter } from "../contexts/RouterContext";
 import { useAuth } from "../contexts/AuthContext";
+import { useJobStates } from "../contexts/JobEventsContext";
+import { JOBS_DRAG_TYPE, inheritedDefault, type Folder } from "../utils/folders";
+import { countFilters, parseFilters, serializeFilters, type LibraryFilters } from "../utils/libraryFilters";
+import type { Tag } from "../utils/tags";
 import {
 	useReactTable,
 	getCoreRowModel,
@@ -130,11 +138,17 @@ interface AudioFile {
 	is_multi_track?: boolean;
 	error_message?: string;
 	individual_transcripts?: any;
+	tags?: Tag[];
+	folder_id?: string | null;
 }
 
 interface AudioFilesTableProps {
 	refreshTrigger: number;
 	onTranscribe?: (jobId: string) => void;
+	// Only list the jobs directly in this folder
+	folderId?: string;
+	// Every folder, to preselect the profile a job's folder defaults to
+	folders?: Folder[];
 }
 
 interface PaginationResponse {
@@ -151,8 +165,10 @@ interface PaginationResponse {
 export const AudioFilesTable = memo(function AudioFilesTable({
 	refreshTrigger,
 	onTranscribe,
+	folderId,
+	folders = [],
 }: AudioFilesTableProps) {
-	const { navigate } = useRouter();
+	const { currentRoute, navigate } = useRouter();
 	const { getAuthHeaders } = useAuth();
 	const [data, setData] = useState<AudioFile[]>([]);
 	const [loading, setLoading] = useState(true);
@@ -164,7 +180,6 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 	const [sorting, setSorting] = useState<SortingState>([]);
 	const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
 	const [globalFilter, setGlobalFilter] = useState("");
-	const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
 	const [openPopovers, setOpenPopovers] = useState<Record<string, boolean>>({});
 	const [totalItems, setTotalItems] = useState(0);
 	const [pageCount, setPageCount] = useState(0);
@@ -173,20 +188,51 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 	const [transcriptionLoading, setTranscriptionLoading] = useState(false);
 	const [killingJobs, setKillingJobs] = useState<Set<string>>(new Set());
 	const [transcribeDDialogOpen, setTranscribeDDialogOpen] = useState(false);
-	const [trackProgress, setTrackProgress] = useState<Record<string, any>>({});
+	// Live status, queue positions and track progress for every job
+	const jobStates = useJobStates();
 	
 	// Dialog state management (moved outside table to prevent re-renders)
 	const [stopDialogOpen, setStopDialogOpen] = useState(false);
 	const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 	const [selectedFile, setSelectedFile] = useState<AudioFile | null>(null);
 
-	const fetchAudioFiles = useCallback(async (page?: number, limit?: number, searchQuery?: string, isInitialLoad = false, isPolling = false) => {
+	// Bulk selection, kept across pages and searches
+	const [selection, setSelection] = useState<Map<string, AudioFile>>(new Map());
+	const [selectingAll, setSelectingAll] = useState(false);
+
+	// Filters live in the URL so a filtered library can be bookmarked; the
+	// normalized query string doubles as the dependency for refetching
+	const filterQuery = serializeFilters(parseFilters(currentRoute.params?.filters));
+	const filters = useMemo(() => parseFilters(filterQuery), [filterQuery]);
+	const isFiltered = countFilters(filters) > 0;
+	const [allTags, setAllTags] = useState<Tag[]>([]);
+
+	const updateFilters = useCallback((next: LibraryFilters) => {
+		navigate(
+			{ ...currentRoute, params: { ...currentRoute.params, filters: serializeFilters(next) || undefined } },
+			{ replace: true },
+		);
+	}, [currentRoute, navigate]);
+
+	const fetchTags = useCallback(async () => {
+		try {
+			const response = await fetch("/api/v1/tags", { headers: { ...getAuthHeaders() } });
+			if (response.ok) setAllTags((await response.json()) || []);
+		} catch (error) {
+			console.error("Failed to fetch tags:", error);
+		}
+	}, [getAuthHeaders]);
+
+	useEffect(() => {
+		fetchTags();
+	}, [fetchTags]);
+
+	const fetchAudioFiles = useCallback(async (page?: number, limit?: number, searchQuery?: string, isInitialLoad = false) => {
 		try {
 			// Only show loading skeleton on initial load, use page changing indicator for pagination
 			if (isInitialLoad) {
 				setLoading(true);
-			} else if (!isPolling) {
-				// Only show loading indicator for user-triggered actions, not polling
+			} else {
 				setIsPageChanging(true);
 			}
 			
@@ -203,6 +249,10 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 			if (currentSearch) {
 				params.set('q', currentSearch);
 			}
+			if (folderId) {
+				params.set('folder_id', folderId);
+			}
+			new URLSearchParams(filterQuery).forEach((value, key) => params.set(key, value));
 			
 			const response = await fetch(`/api/v1/transcription/list?${params}`, {
 				headers: {
@@ -213,78 +263,9 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 			if (response.ok) {
 				const result: PaginationResponse = await response.json();
 				
-				// Smart update: Only update status fields during polling to preserve UI state
-				if (isPolling) {
-					setData(prevData => {
-						const newJobs = result.jobs || [];
-						
-						// Update existing jobs if their status changed
-						const updatedData = prevData.map(existingJob => {
-							const updatedJob = newJobs.find(j => j.id === existingJob.id);
-							if (updatedJob) {
-								// Only update if anything actually changed (mainly status)
-								const hasChanges = 
-									updatedJob.status !== existingJob.status ||
-									updatedJob.error_message !== existingJob.error_message ||
-									JSON.stringify(updatedJob.individual_transcripts) !== JSON.stringify(existingJob.individual_transcripts);
-								
-								if (hasChanges) {
-									return { ...existingJob, ...updatedJob };
-								}
-							}
-							return existingJob; // Keep existing reference if no change
-						});
-						
-						// Add any new jobs that appeared
-						const existingIds = new Set(prevData.map(job => job.id));
-						const newJobsToAdd = newJobs.filter(job => !existingIds.has(job.id));
-						
-						return [...updatedData, ...newJobsToAdd];
-					});
-				} else {
-					// Full replacement for user-triggered actions
-					setData(result.jobs || []);
-				}
-				
+				setData(result.jobs || []);
 				setTotalItems(result.pagination.total);
 				setPageCount(result.pagination.pages);
-				// Fetch queue positions for pending jobs
-				fetchQueuePositions(result.jobs || []);
-				
-				// Fetch track progress for multi-track jobs that are processing
-				const processingMultiTrackJobs = (result.jobs || []).filter(job => 
-					job.is_multi_track && (job.status === "processing" || job.status === "pending")
-				);
-				
-				if (processingMultiTrackJobs.length > 0) {
-					try {
-						const progressPromises = processingMultiTrackJobs.map(async (job) => {
-							const response = await fetch(`/api/v1/transcription/${job.id}/track-progress`, {
-								headers: {
-									...getAuthHeaders(),
-								},
-							});
-							if (response.ok) {
-								const progress = await response.json();
-								return { jobId: job.id, progress };
-							}
-							return null;
-						});
-
-						const results = await Promise.all(progressPromises);
-						const progressData: Record<string, any> = {};
-
-						results.forEach(result => {
-							if (result) {
-								progressData[result.jobId] = result.progress;
-							}
-						});
-
-						setTrackProgress(progressData);
-					} catch (error) {
-						console.error("Failed to fetch track progress:", error);
-					}
-				}
 			}
 		} catch (error) {
 			console.error("Failed to fetch audio files:", error);
@@ -292,32 +273,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 			setLoading(false);
 			setIsPageChanging(false);
 		}
-	}, [pagination.pageIndex, pagination.pageSize, globalFilter, getAuthHeaders]);
-
-	// Fetch queue positions for pending jobs
-	const fetchQueuePositions = async (jobs: AudioFile[]) => {
-		const pendingJobs = jobs.filter((job) => job.status === "pending");
-		if (pendingJobs.length === 0) return;
-
-		try {
-			const response = await fetch("/api/v1/admin/queue/stats", {
-				headers: {
-					...getAuthHeaders(),
-				},
-			});
-
-			if (response.ok) {
-				// For now, use simple position calculation
-				const positions: Record<string, number> = {};
-				pendingJobs.forEach((job, index) => {
-					positions[job.id] = index + 1; // Simple position calculation
-				});
-				setQueuePositions(positions);
-			}
-		} catch (error) {
-			console.error("Failed to fetch queue positions:", error);
-		}
-	};
+	}, [pagination.pageIndex, pagination.pageSize, globalFilter, folderId, filterQuery, getAuthHeaders]);
 
 	// Handle transcribe action - opens configuration dialog
 	const handleTranscribe = useCallback((jobId: string) => {
@@ -515,52 +471,45 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 		}
 	}, [pagination.pageIndex, pagination.pageSize, globalFilter, fetchAudioFiles]);
 
-	// Reset to first page when search changes
+	// Reset to first page when search or filters change
 	useEffect(() => {
 		if (globalFilter !== undefined) {
 			setPagination(prev => ({ ...prev, pageIndex: 0 }));
 		}
-	}, [globalFilter]);
-
-	// Smart polling: only poll when there are active jobs and increase interval when idle
-	const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-	
-	useEffect(() => {
-		const activeJobs = data.filter(
-			(job) => job.status === "pending" || job.status === "processing",
-		);
+	}, [globalFilter, filterQuery]);
 
-		// Clear any existing polling interval
-		if (pollingIntervalRef.current) {
-			clearInterval(pollingIntervalRef.current);
-			pollingIntervalRef.current = null;
-		}
+	const setFileTags = useCallback((jobId: string, tags: Tag[]) => {
+		setData(prev => prev.map(file => (file.id === jobId ? { ...file, tags } : file)));
+	}, []);
 
-		// Only poll if there are active jobs
-		if (activeJobs.length > 0) {
-			// Use shorter interval for processing jobs, longer for pending jobs
-			const hasProcessingJobs = activeJobs.some(job => job.status === "processing");
-			const pollingInterval = hasProcessingJobs ? 2000 : 5000; // 2s for processing, 5s for pending
-			
-			pollingIntervalRef.current = setInterval(() => {
-				// Keep current pagination when polling, but don't show loading indicators
-				fetchAudioFiles(undefined, undefined, undefined, false, true);
-			}, pollingInterval);
-		}
+	// A renamed, recoloured or deleted tag shows on other rows too
+	const handleTagsEdited = useCallback(() => {
+		fetchTags();
+		fetchAudioFiles();
+	}, [fetchTags, fetchAudioFiles]);
 
-		return () => {
-			if (pollingIntervalRef.current) {
-				clearInterval(pollingIntervalRef.current);
-				pollingIntervalRef.current = null;
-			}
-		};
-	}, [data, fetchAudioFiles]);
+	// Apply live status changes from the job event stream to the loaded page
+	useEffect(() => {
+		setData(prevData => {
+			let changed = false;
+			const nextData = prevData.map(job => {
+				const live = jobStates.get(job.id);
+				if (!live || (live.status === job.status && live.error_message === job.error_message)) {
+					return job;
+				}
+				changed = true;
+				return { ...job, status: live.status, error_message: live.error_message };
+			});
+			return changed ? nextData : prevData;
+		});
+	}, [jobStates]);
 
 	const getStatusIcon = useCallback((file: AudioFile) => {
 		const iconSize = 16;
 		const status = file.status;
-		const queuePosition = queuePositions[file.id];
-		const progress = trackProgress[file.id];
+		const liveState = jobStates.get(file.id);
+		const queuePosition = liveState?.queue_position;
+		const progress = liveState?.track_progress;
 
 		// Special handling for multi-track jobs that are processing
 		if (file.is_multi_track && status === "processing" && progress) {
@@ -585,7 +534,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 						<div className="space-y-1">
 							<p>Multi-Track Processing ({percentage}%)</p>
 							<div className="space-y-1">
-								{tracks && tracks.slice(0, 5).map((track: any, index: number) => (
+								{tracks && tracks.slice(0, 5).map((track, index) => (
 									<div key={index} className="flex items-center gap-2 text-xs">
 										<span className={`w-2 h-2 rounded-full ${
 											track.status === 'completed' ? 'bg-green-400' : 
@@ -679,7 +628,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 					</Tooltip>
 				);
 		}
-	}, [queuePositions, trackProgress]);
+	}, [jobStates]);
 
 	const formatDate = useCallback((dateString: string) => {
 		return new Date(dateString).toLocaleDateString("en-US", {
@@ -700,9 +649,110 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 		navigate({ path: 'audio-detail', params: { id: audioId } });
 	}, [navigate]);
 
+	const toggleSelected = useCallback((file: AudioFile) => {
+		setSelection(prev => {
+			const next = new Map(prev);
+			if (next.has(file.id)) next.delete(file.id);
+			else next.set(file.id, file);
+			return next;
+		});
+	}, []);
+
+	const allOnPageSelected = data.length > 0 && data.every(file => selection.has(file.id));
+	const someOnPageSelected = data.some(file => selection.has(file.id));
+
+	const togglePageSelected = useCallback(() => {
+		setSelection(prev => {
+			const next = new Map(prev);
+			if (data.every(file => next.has(file.id))) {
+				data.forEach(file => next.delete(file.id));
+			} else {
+				data.forEach(file => next.set(file.id, file));
+			}
+			return next;
+		});
+	}, [data]);
+
+	// Pages through every job matching the current search with the compact listing
+	const selectAllMatching = useCallback(async () => {
+		setSelectingAll(true);
+		try {
+			const next = new Map<string, AudioFile>();
+			for (let page = 1; ; page++) {
+				const params = new URLSearchParams({ page: page.toString(), limit: "1000", compact: "true" });
+				if (globalFilter) params.set('q', globalFilter);
+				if (folderId) params.set('folder_id', folderId);
+				new URLSearchParams(filterQuery).forEach((value, key) => params.set(key, value));
+				const response = await fetch(`/api/v1/transcription/list?${params}`, {
+					headers: { ...getAuthHeaders() },
+				});
+				if (!response.ok) throw new Error(`HTTP ${response.status}`);
+				const result: PaginationResponse = await response.json();
+				(result.jobs || []).forEach(job => next.set(job.id, job));
+				if (page >= result.pagination.pages) break;
+			}
+			setSelection(next);
+		} catch (error) {
+			console.error("Failed to select all files:", error);
+			alert("Failed to select all matching files");
+		} finally {
+			setSelectingAll(false);
+		}
+	}, [globalFilter, folderId, filterQuery, getAuthHeaders]);
+
+	// Dragging a selected row moves the whole selection onto a folder
+	const handleRowDragStart = useCallback((e: React.DragEvent, jobId: string) => {
+		const ids = selection.has(jobId) ? Array.from(selection.keys()) : [jobId];
+		e.dataTransfer.setData(JOBS_DRAG_TYPE, JSON.stringify(ids));
+		e.dataTransfer.effectAllowed = "move";
+	}, [selection]);
+
+	// Selected files, with the status from the latest poll when the row is loaded
+	const selectedFiles = useMemo(() => {
+		const byId = new Map(data.map(file => [file.id, file]));
+		return Array.from(selection.values()).map(file => byId.get(file.id) || file);
+	}, [selection, data]);
+
+	const handleBatchComplete = useCallback((action: BatchAction, succeededIds: string[]) => {
+		if (action === "delete") {
+			setSelection(prev => {
+				const next = new Map(prev);
+				succeededIds.forEach(id => next.delete(id));
+				return next;
+			});
+		}
+		fetchAudioFiles();
+	}, [fetchAudioFiles]);
+
 	// Memoize column definitions to prevent recreation on every render
 	const columns = useMemo<ColumnDef<AudioFile>[]>(
 		() => [
+			{
+				id: "select",
+				header: () => (
+					<input
+						type="checkbox"
+						checked={allOnPageSelected}
+						ref={(el) => {
+							if (el) el.indeterminate = someOnPageSelected && !allOnPageSelected;
+						}}
+						onChange={togglePageSelected}
+						className="h-4 w-4 accent-blue-600 cursor-pointer align-middle"
+						aria-label="Select all on this page"
+					/>
+				),
+				cell: ({ row }) => (
+					<input
+						type="checkbox"
+						checked={selection.has(row.original.id)}
+						onChange={() => toggleSelected(row.original)}
+						className="h-4 w-4 accent-blue-600 cursor-pointer align-middle"
+						aria-label="Select file"
+					/>
+				),
+				enableSorting: false,
+				enableGlobalFilter: false,
+			},
 			{
 				accessorFn: (row) => row.title || getFileName(row.audio_path),
 				id: "title",
@@ -727,12 +777,22 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 				cell: ({ row }) => {
 					const file = row.original;
 					return (
-						<button
-							onClick={() => handleAudioClick(file.id)}
-							className="text-gray-900 dark:text-gray-50 font-medium hover:text-blue-600 dark:hover:text-blue-400 transition-colors cursor-pointer text-left"
-						>
-							{file.title || getFileName(file.audio_path)}
-						</button>
+						<div>
+							<button
+								onClick={() => handleAudioClick(file.id)}
+								className="text-gray-900 dark:text-gray-50 font-medium hover:text-blue-600 dark:hover:text-blue-400 transition-colors cursor-pointer text-left"
+							>
+								{file.title || getFileName(file.audio_path)}
+							</button>
+							<div className="mt-1">
+								<TagEditor
+									jobId={file.id}
+									tags={file.tags || []}
+									onChange={(tags) => setFileTags(file.id, tags)}
+									onTagsEdited={handleTagsEdited}
+								/>
+							</div>
+						</div>
 					);
 				},
 				enableGlobalFilter: false,
@@ -907,7 +967,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 				enableGlobalFilter: false,
 			},
 		],
-		[openPopovers, queuePositions, trackProgress, getStatusIcon, handleAudioClick, handleTranscribe, handleTranscribeD, canTranscribe, getFileName, killingJobs, setSelectedFile, setStopDialogOpen, setDeleteDialogOpen]
+		[openPopovers, getStatusIcon, handleAudioClick, handleTranscribe, handleTranscribeD, canTranscribe, getFileName, killingJobs, setSelectedFile, setStopDialogOpen, setDeleteDialogOpen, selection, allOnPageSelected, someOnPageSelected, togglePageSelected, toggleSelected, setFileTags, handleTagsEdited]
 	);
 
 	// Create the table instance with server-side pagination and search
@@ -959,22 +1019,39 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 							Audio Files
 						</h2>
 						<p className="text-gray-600 dark:text-gray-400 text-sm">
-							{globalFilter 
+							{globalFilter || isFiltered
 								? `${totalItems} file${totalItems !== 1 ? "s" : ""} found`
 								: `${totalItems} file${totalItems !== 1 ? "s" : ""} total`
 							}
 						</p>
 					</div>
 					
-					{/* Global Search */}
-					<div className="relative w-full sm:w-72">
-						<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 z-10" />
-						<DebouncedSearchInput
-							placeholder="Search audio files..."
-							value={globalFilter ?? ""}
-							onChange={setGlobalFilter}
-							className="pl-10 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
-						/>
+					<div className="w-full sm:w-auto flex items-start gap-2">
+						<LibraryFilterPopover filters={filters} onChange={updateFilters} tags={allTags} />
+
+						{/* Global Search */}
+						<div className="flex-1 sm:w-72 sm:flex-none">
+							<div className="relative">
+								<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 z-10" />
+								<DebouncedSearchInput
+									placeholder="Search audio files..."
+									value={globalFilter ?? ""}
+									onChange={setGlobalFilter}
+									className="pl-10 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+								/>
+							</div>
+							{/* Title search only; offer the full-text search page for the same query */}
+							{globalFilter && (
+								<button
+									type="button"
+									onClick={() => navigate({ path: 'search', params: { q: globalFilter } })}
+									className="mt-1.5 inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+								>
+									<FileSearch className="h-3.5 w-3.5" />
+									Search inside transcripts
+								</button>
+							)}
+						</div>
 					</div>
 				</div>
 
@@ -982,17 +1059,41 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 					<div className="p-12 text-center">
 						<div className="text-5xl mb-4 opacity-50">🎵</div>
 						<h3 className="text-lg font-medium text-gray-600 dark:text-gray-300 mb-2">
-							{globalFilter ? "No matching audio files" : "No audio files yet"}
+							{globalFilter || isFiltered ? "No matching audio files" : "No audio files yet"}
 						</h3>
 						<p className="text-gray-500 dark:text-gray-400">
-							{globalFilter 
-								? "Try adjusting your search terms" 
+							{globalFilter || isFiltered
+								? "Try adjusting your search terms or filters" 
 								: "Upload your first audio file to get started"
 							}
 						</p>
 					</div>
 				) : (
 					<>
+						{selection.size > 0 && (
+							<AudioBatchActions
+								items={selectedFiles}
+								onClearSelection={() => setSelection(new Map())}
+								onComplete={handleBatchComplete}
+							/>
+						)}
+
+						{/* Offer to extend a full page selection to every matching file */}
+						{allOnPageSelected && totalItems > data.length && selection.size < totalItems && (
+							<div className="mb-3 px-3 py-2 rounded-md bg-gray-50 dark:bg-gray-700/50 text-sm text-center text-gray-700 dark:text-gray-300">
+								All {data.length} files on this page are selected.{" "}
+								<button
+									type="button"
+									onClick={selectAllMatching}
+									disabled={selectingAll}
+									className="inline-flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer disabled:opacity-60"
+								>
+									{selectingAll && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+									Select all {totalItems} {globalFilter ? "matching files" : "files"}
+								</button>
+							</div>
+						)}
+
 						{/* Table */}
 					<div className={`border border-gray-100 dark:border-gray-900 rounded-lg overflow-hidden relative transition-opacity duration-200 ${isPageChanging ? 'opacity-75' : ''}`}>
 							{isPageChanging && (
@@ -1013,7 +1114,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 											{headerGroup.headers.map((header) => (
 												<TableHead 
 													key={header.id}
-													className={`text-gray-700 dark:text-gray-300 ${header.column.id === 'created_at' ? 'hidden sm:table-cell' : ''} ${header.column.id === 'title' ? 'w-full' : ''} ${header.column.id === 'status' ? 'w-10 text-center' : ''} ${header.column.id === 'actions' ? 'w-10 text-center' : ''}`}
+													className={`text-gray-700 dark:text-gray-300 ${header.column.id === 'created_at' ? 'hidden sm:table-cell' : ''} ${header.column.id === 'select' ? 'w-10' : ''} ${header.column.id === 'title' ? 'w-full' : ''} ${header.column.id === 'status' ? 'w-10 text-center' : ''} ${header.column.id === 'actions' ? 'w-10 text-center' : ''}`}
 												>
 													{header.isPlaceholder
 														? null
@@ -1031,6 +1132,8 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 										table.getRowModel().rows.map((row) => (
 											<TableRow
 												key={row.id}
+												draggable
+												onDragStart={(e) => handleRowDragStart(e, row.original.id)}
 												className="hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200 border-b border-gray-100 dark:border-gray-700 last:border-b-0"
 											>
 												{row.getVisibleCells().map((cell) => (
@@ -1038,6 +1141,7 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 														key={cell.id}
 														className={`
 															${cell.column.id === 'created_at' ? 'hidden sm:table-cell' : ''}
+															${cell.column.id === 'select' ? 'w-[36px] px-1 sm:px-2' : ''}
 															${cell.column.id === 'title' ? 'whitespace-normal break-words pr-1 sm:pr-2' : ''}
 															${cell.column.id === 'status' ? 'w-[36px] px-1 text-center' : ''}
 															${cell.column.id === 'actions' ? 'w-[36px] px-1 text-center' : ''}
@@ -1144,6 +1248,11 @@ export const AudioFilesTable = memo(function AudioFilesTable({
 				onOpenChange={setTranscribeDDialogOpen}
 				onStartTranscription={handleStartTranscriptionWithProfile}
 				loading={transcriptionLoading}
+				preferredProfileId={inheritedDefault(
+					folders,
+					data.find(job => job.id === selectedJobId)?.folder_id,
+					"default_profile_id",
+				)}
 			/>
 
 			{/* Stop Transcription Dialog */}
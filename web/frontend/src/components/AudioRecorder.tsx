@@ -10,6 +10,7 @@ import {
 	Loader2,
 	ChevronDown,
 	Settings,
+	Radio,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,18 +27,52 @@ import {
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { WhisperXParams } from "./TranscriptionConfigDialog";
+import { useAuth } from "../contexts/AuthContext";
+import { uploadInChunks, cancelUploadSession } from "../utils/chunkedUpload";
+import { LiveTranscriber } from "../utils/liveTranscription";
+import type { LiveDraft } from "../utils/liveTranscription";
+import {
+	appendRecordingChunk,
+	createRecording,
+	deleteRecording,
+	holdRecordingLock,
+	newRecordingId,
+	recordingFileName,
+	updateRecording,
+} from "../utils/recordingStore";
+
+// How often the recorder hands over a chunk to be saved; at most this much
+// audio is lost if the tab dies
+const CHUNK_INTERVAL = 5000;
+
+interface TranscriptionProfile {
+	id: string;
+	name: string;
+	parameters: WhisperXParams;
+}
 
 interface AudioRecorderProps {
 	isOpen: boolean;
 	onClose: () => void;
-	onRecordingComplete: (blob: Blob, title: string) => void;
+	onUploadComplete?: () => void;
 }
 
 export function AudioRecorder({
 	isOpen,
 	onClose,
-	onRecordingComplete,
+	onUploadComplete,
 }: AudioRecorderProps) {
+	const { getAuthHeaders } = useAuth();
 	const [wavesurfer, setWavesurfer] = useState<WaveSurfer | null>(null);
 	const [record, setRecord] = useState<RecordPlugin | null>(null);
 	const [isRecording, setIsRecording] = useState(false);
@@ -50,8 +85,99 @@ export function AudioRecorder({
 	const [selectedDevice, setSelectedDevice] = useState("");
 	const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
 	const [isUploading, setIsUploading] = useState(false);
+	const [uploadProgress, setUploadProgress] = useState(0);
+	const [persistFailed, setPersistFailed] = useState(false);
+	const [liveEnabled, setLiveEnabled] = useState(false);
+	const [profiles, setProfiles] = useState<TranscriptionProfile[]>([]);
+	const [selectedProfileId, setSelectedProfileId] = useState("");
+	const [isLive, setIsLive] = useState(false);
+	const [liveDraft, setLiveDraft] = useState<LiveDraft | null>(null);
+	const [liveFailed, setLiveFailed] = useState(false);
 
 	const micContainerRef = useRef<HTMLDivElement>(null);
+	// The recording being saved to IndexedDB; chunk writes are chained so
+	// they land in order and finish before the recording is marked done
+	const recordingRef = useRef<{
+		id: string;
+		title: string;
+		chunkIndex: number;
+		uploadSessionId?: string;
+		// Set in live mode: the profile the full transcription is queued with
+		profileId?: string;
+		releaseLock: () => void;
+	} | null>(null);
+	const persistChainRef = useRef<Promise<void>>(Promise.resolve());
+	const recordingTimeRef = useRef(0);
+	const liveRef = useRef<LiveTranscriber | null>(null);
+	const draftEndRef = useRef<HTMLDivElement>(null);
+
+	const persist = (task: () => Promise<void>) => {
+		persistChainRef.current = persistChainRef.current
+			.then(task)
+			.catch((error) => {
+				console.error("Failed to save recording chunk:", error);
+				setPersistFailed(true);
+			});
+		return persistChainRef.current;
+	};
+
+	// Forgets the current recording, removing its saved copy unless it is kept
+	// for recovery
+	const releaseRecording = (discard: boolean) => {
+		const recording = recordingRef.current;
+		if (!recording) return;
+		recordingRef.current = null;
+		if (discard) {
+			persist(() => deleteRecording(recording.id));
+			if (recording.uploadSessionId) {
+				cancelUploadSession(recording.uploadSessionId, getAuthHeaders);
+			}
+		}
+		persistChainRef.current.finally(recording.releaseLock);
+	};
+
+	// Stops following the live draft, deleting the server session if asked
+	const releaseLive = (discard: boolean) => {
+		if (discard) liveRef.current?.discard();
+		liveRef.current = null;
+		setIsLive(false);
+		setLiveDraft(null);
+		setLiveFailed(false);
+	};
+
+	// Load profiles for live mode; the final job is queued with the chosen one
+	useEffect(() => {
+		if (!isOpen || !liveEnabled || profiles.length > 0) return;
+
+		const fetchProfiles = async () => {
+			try {
+				const response = await fetch("/api/v1/profiles", {
+					headers: { ...getAuthHeaders() },
+				});
+				if (!response.ok) return;
+				const data: TranscriptionProfile[] = await response.json();
+				setProfiles(data);
+
+				const defaultResponse = await fetch("/api/v1/user/default-profile", {
+					headers: { ...getAuthHeaders() },
+				});
+				if (defaultResponse.ok) {
+					const defaultProfile: TranscriptionProfile = await defaultResponse.json();
+					setSelectedProfileId(defaultProfile.id);
+				} else if (data.length > 0) {
+					setSelectedProfileId(data[0].id);
+				}
+			} catch (error) {
+				console.error("Failed to fetch profiles:", error);
+			}
+		};
+		fetchProfiles();
+	}, [isOpen, liveEnabled, profiles.length, getAuthHeaders]);
+
+	// Keep the newest draft text in view
+	useEffect(() => {
+		draftEndRef.current?.scrollIntoView({ block: "nearest" });
+	}, [liveDraft]);
 
 	// Initialize WaveSurfer and RecordPlugin when dialog opens
 	useEffect(() => {
@@ -94,19 +220,45 @@ export function AudioRecorder({
 							scrollingWaveform: true,
 							continuousWaveform: true,
 							continuousWaveformDuration: 30,
+							mediaRecorderTimeslice: CHUNK_INTERVAL,
 						}),
 					);
 
 
+					// Save every chunk as it arrives so a crash loses at most one interval
+					recordPlugin.on("record-data-available", (blob: Blob) => {
+						const recording = recordingRef.current;
+						if (!recording || blob.size === 0) return;
+						const index = recording.chunkIndex++;
+						const duration = recordingTimeRef.current;
+						persist(() => appendRecordingChunk(recording.id, index, blob, duration));
+
+						const live = liveRef.current;
+						if (live) {
+							// The first chunk tells which container the browser records
+							if (index === 0) {
+								live.start(recording.profileId, recordingFileName("live", blob.type));
+							}
+							live.push(blob);
+						}
+					});
+
 					// Handle recording end and progress events
 					recordPlugin.on("record-end", (blob: Blob) => {
-						setRecordedBlob(blob);
 						setIsRecording(false);
 						setIsPaused(false);
+						// Nothing to keep when the recording was discarded
+						const recording = recordingRef.current;
+						if (!recording) return;
+						setRecordedBlob(blob);
+						const duration = recordingTimeRef.current;
+						persist(() => updateRecording(recording.id, { finished: true, duration }));
+						liveRef.current?.finish();
 					});
 
 					// Handle recording progress
 					recordPlugin.on("record-progress", (time: number) => {
+						recordingTimeRef.current = time;
 						setRecordingTime(time);
 					});
 
@@ -191,6 +343,37 @@ export function AudioRecorder({
 			return;
 		}
 
+		const id = newRecordingId();
+		const recordingTitle = title || `Recording ${new Date().toISOString()}`;
+		recordingRef.current = {
+			id,
+			title: recordingTitle,
+			chunkIndex: 0,
+			profileId: liveEnabled ? selectedProfileId : undefined,
+			releaseLock: holdRecordingLock(id),
+		};
+		recordingTimeRef.current = 0;
+		setPersistFailed(false);
+
+		releaseLive(true);
+		if (liveEnabled) {
+			liveRef.current = new LiveTranscriber(getAuthHeaders, setLiveDraft, () => setLiveFailed(true));
+			setIsLive(true);
+		}
+		persist(() =>
+			createRecording({
+				id,
+				title: recordingTitle,
+				mimeType: "",
+				startedAt: Date.now(),
+				updatedAt: Date.now(),
+				duration: 0,
+				size: 0,
+				chunkCount: 0,
+				finished: false,
+			}),
+		);
+
 		try {
 			await record.startRecording({ deviceId: selectedDevice });
 			setIsRecording(true);
@@ -198,6 +381,8 @@ export function AudioRecorder({
 			setRecordingTime(0);
 			setRecordedBlob(null);
 		} catch (error) {
+			releaseRecording(true);
+			releaseLive(true);
 			console.error("Failed to start recording:", error);
 			alert(
 				"Failed to start recording. Please check microphone permissions and try again.",
@@ -231,16 +416,54 @@ export function AudioRecorder({
 		return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
 	};
 
-	// Handle upload
+	// Queues the full transcription of a live recording with its profile. The
+	// live session carries the draft over to the job; without one the job is
+	// started directly.
+	const queueLiveRecording = async (jobId: string, profileId?: string) => {
+		try {
+			if (!liveRef.current) throw new Error("No live session");
+			await liveRef.current.queue(jobId, profileId);
+			return;
+		} catch (error) {
+			console.warn("Live draft not kept, starting transcription directly:", error);
+		}
+		const profile = profiles.find((p) => p.id === profileId);
+		const response = await fetch(`/api/v1/transcription/${jobId}/start`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+			body: JSON.stringify(profile?.parameters ?? {}),
+		});
+		if (!response.ok) {
+			alert("The recording was uploaded, but its transcription could not be started.");
+		}
+	};
+
+	// Handle upload; a failed upload resumes from the same session on retry
 	const handleUpload = async () => {
-		if (!recordedBlob) return;
+		const recording = recordingRef.current;
+		if (!recordedBlob || !recording) return;
+		const liveMode = recording.profileId !== undefined;
 
 		setIsUploading(true);
+		setUploadProgress(0);
 		try {
-			await onRecordingComplete(
-				recordedBlob,
-				title || `Recording ${new Date().toISOString()}`,
-			);
+			const job = await uploadInChunks<{ id: string }>(recordedBlob, {
+				fileName: recordingFileName(recording.title, recordedBlob.type),
+				title: recording.title,
+				sessionId: recording.uploadSessionId,
+				getHeaders: getAuthHeaders,
+				onSession: (sessionId) => {
+					recording.uploadSessionId = sessionId;
+					persist(() => updateRecording(recording.id, { uploadSessionId: sessionId }));
+				},
+				onProgress: (uploaded, total) => setUploadProgress(total ? (uploaded / total) * 100 : 100),
+				skipAutoTranscription: liveMode,
+			});
+			recording.uploadSessionId = undefined;
+			releaseRecording(true);
+			if (liveMode) await queueLiveRecording(job.id, recording.profileId);
+			releaseLive(false);
+			onUploadComplete?.();
 			// Reset state
 			setRecordedBlob(null);
 			setTitle("");
@@ -248,7 +471,7 @@ export function AudioRecorder({
 			onClose();
 		} catch (error) {
 			console.error("Failed to upload recording:", error);
-			alert("Failed to upload recording");
+			alert("Failed to upload recording. It is saved in this browser; try again to resume the upload.");
 		} finally {
 			setIsUploading(false);
 		}
@@ -256,9 +479,15 @@ export function AudioRecorder({
 
 	// Handle dialog close
 	const handleClose = () => {
+		if (isUploading) return;
+		if ((isRecording || recordedBlob) && !confirm("Discard this recording?")) {
+			return;
+		}
 		if (isRecording) {
 			stopRecording();
 		}
+		releaseRecording(true);
+		releaseLive(true);
 		setRecordedBlob(null);
 		setTitle("");
 		setRecordingTime(0);
@@ -345,6 +574,52 @@ export function AudioRecorder({
 						</div>
 					)}
 
+					{/* Live transcription */}
+					<div className="space-y-2">
+						<div className="flex items-center justify-between gap-4">
+							<div>
+								<label
+									htmlFor="live-transcription"
+									className="text-sm font-medium text-gray-700 dark:text-gray-300"
+								>
+									Live transcription
+								</label>
+								<div className="text-xs text-gray-500 dark:text-gray-400">
+									Show a draft while recording; the full transcription starts
+									when you upload
+								</div>
+							</div>
+							<Switch
+								id="live-transcription"
+								checked={liveEnabled}
+								onCheckedChange={setLiveEnabled}
+								disabled={isRecording || !!recordedBlob}
+							/>
+						</div>
+						{liveEnabled && profiles.length > 0 && (
+							<Select
+								value={selectedProfileId}
+								onValueChange={setSelectedProfileId}
+								disabled={isRecording || !!recordedBlob}
+							>
+								<SelectTrigger className="bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100">
+									<SelectValue placeholder="Choose a profile..." />
+								</SelectTrigger>
+								<SelectContent className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 max-h-60">
+									{profiles.map((profile) => (
+										<SelectItem
+											key={profile.id}
+											value={profile.id}
+											className="text-gray-900 dark:text-gray-100 focus:bg-gray-100 dark:focus:bg-gray-700"
+										>
+											{profile.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						)}
+					</div>
+
 					{/* Recording Time */}
 					<div className="text-center">
 						<div className="text-3xl font-mono font-bold text-gray-900 dark:text-gray-100 mb-2">
@@ -367,6 +642,11 @@ export function AudioRecorder({
 								Recording continues even if you switch tabs
 							</div>
 						)}
+						{persistFailed && (isRecording || recordedBlob) && (
+							<div className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+								This recording can't be saved in the browser; keep this tab open until it is uploaded
+							</div>
+						)}
 					</div>
 
 					{/* Waveform Container */}
@@ -400,6 +680,47 @@ export function AudioRecorder({
 						)}
 					</div>
 
+					{/* Live draft */}
+					{isLive && (
+						<div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+							<div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+								<span className="flex items-center gap-1.5">
+									<Radio className="h-3.5 w-3.5 text-red-500" />
+									Live draft
+								</span>
+								{liveDraft?.processing && (
+									<Loader2 className="h-3.5 w-3.5 animate-spin" />
+								)}
+							</div>
+							<div className="max-h-40 overflow-y-auto text-sm leading-relaxed text-gray-900 dark:text-gray-100">
+								{liveDraft && (liveDraft.segments.length > 0 || liveDraft.partial) ? (
+									<>
+										{liveDraft.segments.map((segment) => segment.text).join(" ")}{" "}
+										<span className="italic text-gray-400 dark:text-gray-500">
+											{liveDraft.partial}
+										</span>
+									</>
+								) : (
+									<span className="text-gray-400 dark:text-gray-500">
+										{isRecording ? "Listening..." : "No speech transcribed yet"}
+									</span>
+								)}
+								<div ref={draftEndRef} />
+							</div>
+							{(liveFailed || liveDraft?.error_message) && (
+								<div className="text-xs text-amber-600 dark:text-amber-400">
+									{liveFailed
+										? "Live transcription stopped; the recording itself is not affected"
+										: "The live draft is behind; it will catch up"}
+								</div>
+							)}
+							<div className="text-xs text-gray-500 dark:text-gray-400">
+								Draft from a fast model. It is replaced by the full transcript
+								when the transcription finishes.
+							</div>
+						</div>
+					)}
+
 					{/* Recording Controls */}
 					<div className="flex justify-center gap-4">
 						{!isRecording && !recordedBlob && (
@@ -466,7 +787,9 @@ export function AudioRecorder({
 						)}
 					</div>
 
-					{recordedBlob && (
+					{isUploading && <Progress value={uploadProgress} className="h-2" />}
+
+					{recordedBlob && !isUploading && (
 						<div className="text-center text-sm text-green-600 dark:text-green-400">
 							✓ Recording completed! Review and upload when ready.
 						</div>
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronLeft, ChevronRight, ClipboardCheck, Loader2, Play, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import type { WordSegment } from "../types/transcript";
+
+// Words shown either side of the one under review
+const CONTEXT_WORDS = 6;
+
+interface ConfidenceReviewBarProps {
+	words: WordSegment[];
+	threshold: number;
+	onThresholdChange: (threshold: number) => void;
+	// Called once the slider is let go, to save the threshold
+	onThresholdCommit: (threshold: number) => void;
+	// Indices of the words below the threshold, in transcript order
+	queue: number[];
+	reviewed: Set<number>;
+	// Word under review, or null when not reviewing
+	activeWord: number | null;
+	onActiveWordChange: (index: number | null) => void;
+	// Plays the audio around a word
+	onPlay: (index: number) => void;
+	onAccept: (index: number) => void;
+	// Resolves to whether the correction was saved
+	onCorrect: (index: number, text: string) => Promise<boolean>;
+	saving: boolean;
+	onClose: () => void;
+}
+
+/**
+ * Confidence threshold for the word tint, and the review queue that steps
+ * through the words below it one at a time
+ */
+export function ConfidenceReviewBar({
+	words,
+	threshold,
+	onThresholdChange,
+	onThresholdCommit,
+	queue,
+	reviewed,
+	activeWord,
+	onActiveWordChange,
+	onPlay,
+	onAccept,
+	onCorrect,
+	saving,
+	onClose,
+}: ConfidenceReviewBarProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [correction, setCorrection] = useState("");
+
+	const current = activeWord !== null ? words[activeWord] : undefined;
+
+	useEffect(() => {
+		setCorrection(current?.word.trim() ?? "");
+		if (current) {
+			inputRef.current?.focus();
+			inputRef.current?.select();
+		}
+	}, [current]);
+
+	const reviewedCount = queue.filter((index) => reviewed.has(index)).length;
+	const percent = queue.length > 0 ? (reviewedCount / queue.length) * 100 : 0;
+
+	const goTo = (index: number | undefined) => {
+		if (index === undefined) return;
+		onActiveWordChange(index);
+		onPlay(index);
+	};
+
+	// The next word still to review, wrapping round to the start of the queue
+	const nextUnreviewed = (after: number, skip?: number) => {
+		const pending = queue.filter((index) => index !== skip && !reviewed.has(index));
+		return pending.find((index) => index > after) ?? pending[0];
+	};
+
+	const previous = activeWord !== null ? [...queue].reverse().find((index) => index < activeWord) : undefined;
+	const next = activeWord !== null ? queue.find((index) => index > activeWord) : undefined;
+
+	const finish = (index: number) => {
+		const following = nextUnreviewed(index, index);
+		if (following === undefined) {
+			onActiveWordChange(null);
+		} else {
+			goTo(following);
+		}
+	};
+
+	const submit = async () => {
+		if (activeWord === null || !current || saving) return;
+		const text = correction.trim();
+		if (!text || text === current.word.trim()) {
+			onAccept(activeWord);
+		} else if (!(await onCorrect(activeWord, text))) {
+			return;
+		}
+		finish(activeWord);
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			submit();
+		} else if (e.key === "Escape") {
+			e.preventDefault();
+			onActiveWordChange(null);
+		} else if (e.key === " " && e.ctrlKey && activeWord !== null) {
+			e.preventDefault();
+			onPlay(activeWord);
+		}
+	};
+
+	const context = (from: number, to: number) =>
+		words
+			.slice(Math.max(0, from), Math.max(0, to))
+			.map((word) => word.word.trim())
+			.join(" ");
+
+	return (
+		<div className="sticky top-0 z-20 mb-3 p-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm space-y-2">
+			<div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+				<div className="flex items-center gap-2 min-w-[220px] flex-1">
+					<span className="text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap">Below</span>
+					<Slider
+						value={[Math.round(threshold * 100)]}
+						min={5}
+						max={100}
+						step={5}
+						onValueChange={([value]) => onThresholdChange(value / 100)}
+						onValueCommit={([value]) => onThresholdCommit(value / 100)}
+						className="max-w-[180px]"
+						aria-label="Confidence threshold"
+					/>
+					<span className="w-9 text-xs tabular-nums text-gray-700 dark:text-gray-200">{Math.round(threshold * 100)}%</span>
+				</div>
+
+				<div className="flex items-center gap-2 min-w-[160px]">
+					<div className="h-1.5 w-24 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+						<div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+					</div>
+					<span className="text-xs tabular-nums text-gray-600 dark:text-gray-300 whitespace-nowrap">
+						{reviewedCount} of {queue.length} reviewed
+					</span>
+				</div>
+
+				<div className="flex items-center gap-1 ml-auto">
+					{activeWord === null && (
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => goTo(nextUnreviewed(-1))}
+							disabled={reviewedCount === queue.length}
+							className="h-7 text-xs"
+						>
+							<ClipboardCheck className="mr-1 h-3.5 w-3.5" />
+							{queue.length > 0 && reviewedCount === queue.length ? "All reviewed" : reviewedCount > 0 ? "Resume review" : "Review"}
+						</Button>
+					)}
+					<button
+						type="button"
+						onClick={onClose}
+						className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+						title="Hide confidence"
+					>
+						<X className="h-4 w-4" />
+					</button>
+				</div>
+			</div>
+
+			{activeWord !== null && current && (
+				<div className="pt-2 border-t border-gray-100 dark:border-gray-700 space-y-2">
+					<p className="text-sm text-gray-600 dark:text-gray-300 leading-relaxed">
+						<span className="text-gray-400">{context(activeWord - CONTEXT_WORDS, activeWord)} </span>
+						<span className="px-1 rounded bg-red-200 dark:bg-red-900/60 text-gray-900 dark:text-gray-100 font-medium">{current.word.trim()}</span>
+						<span className="text-gray-400"> {context(activeWord + 1, activeWord + 1 + CONTEXT_WORDS)}</span>
+						<span className="ml-2 text-xs tabular-nums text-gray-500">{Math.round(current.score * 100)}%</span>
+						{reviewed.has(activeWord) && <span className="ml-2 text-xs text-green-600 dark:text-green-400">Reviewed</span>}
+					</p>
+					<div className="flex flex-wrap items-center gap-1.5">
+						<button
+							type="button"
+							onClick={() => goTo(previous)}
+							disabled={previous === undefined}
+							className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+							title="Previous word"
+						>
+							<ChevronLeft className="h-4 w-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => onPlay(activeWord)}
+							className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+							title="Play again (Ctrl+Space)"
+						>
+							<Play className="h-4 w-4" />
+						</button>
+						<input
+							ref={inputRef}
+							value={correction}
+							onChange={(e) => setCorrection(e.target.value)}
+							onKeyDown={handleKeyDown}
+							disabled={saving}
+							className="h-7 flex-1 min-w-[140px] px-2 text-sm rounded-md bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+							aria-label="Correct word"
+						/>
+						<Button size="sm" onClick={submit} disabled={saving || !correction.trim()} className="h-7 text-xs">
+							{saving ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Check className="mr-1 h-3.5 w-3.5" />}
+							{correction.trim() && correction.trim() !== current.word.trim() ? "Correct" : "Accept"}
+						</Button>
+						<button
+							type="button"
+							onClick={() => goTo(next)}
+							disabled={next === undefined}
+							className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+							title="Next word"
+						>
+							<ChevronRight className="h-4 w-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => onActiveWordChange(null)}
+							className="h-7 px-2 text-xs rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+						>
+							Stop
+						</button>
+					</div>
+					<p className="text-[11px] text-gray-500 dark:text-gray-400">
+						Enter accepts the word, or saves your correction as a new revision. Esc stops reviewing.
+					</p>
+				</div>
+			)}
+		</div>
+	);
+}
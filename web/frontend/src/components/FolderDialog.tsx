@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "../contexts/AuthContext";
+import type { Folder } from "../utils/folders";
+
+export interface FolderFormValues {
+	name: string;
+	default_profile_id: string | null;
+	default_summary_template_id: string | null;
+}
+
+interface FolderDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	// Folder being edited; a new folder is created when missing
+	folder?: Folder;
+	// Name of the folder a new folder goes into, for the description
+	parentName?: string;
+	onSave: (values: FolderFormValues) => Promise<void>;
+}
+
+interface Option {
+	id: string;
+	name: string;
+}
+
+// Select value standing for "use the parent folder's default"
+const INHERIT = "__inherit__";
+
+/**
+ * Creates or edits a folder: its name and the transcription profile and
+ * summary template used for what it contains
+ */
+export function FolderDialog({ open, onOpenChange, folder, parentName, onSave }: FolderDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const [name, setName] = useState("");
+	const [profileId, setProfileId] = useState(INHERIT);
+	const [templateId, setTemplateId] = useState(INHERIT);
+	const [profiles, setProfiles] = useState<Option[]>([]);
+	const [templates, setTemplates] = useState<Option[]>([]);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		if (!open) return;
+		setName(folder?.name ?? "");
+		setProfileId(folder?.default_profile_id || INHERIT);
+		setTemplateId(folder?.default_summary_template_id || INHERIT);
+
+		const load = async (url: string, set: (options: Option[]) => void) => {
+			try {
+				const response = await fetch(url, { headers: { ...getAuthHeaders() } });
+				if (response.ok) set((await response.json()) || []);
+			} catch (error) {
+				console.error(`Failed to load ${url}:`, error);
+			}
+		};
+		load("/api/v1/profiles", setProfiles);
+		load("/api/v1/summaries", setTemplates);
+	}, [open, folder, getAuthHeaders]);
+
+	const handleSave = async () => {
+		if (!name.trim()) return;
+		setSaving(true);
+		try {
+			await onSave({
+				name: name.trim(),
+				default_profile_id: profileId === INHERIT ? null : profileId,
+				default_summary_template_id: templateId === INHERIT ? null : templateId,
+			});
+			onOpenChange(false);
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to save folder");
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const hasParent = Boolean(folder?.parent_id || parentName);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[440px] bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+				<DialogHeader>
+					<DialogTitle className="text-gray-900 dark:text-gray-100">
+						{folder ? "Edit Folder" : "New Folder"}
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						{parentName ? `Inside ${parentName}. ` : ""}
+						Recordings added to the folder use its defaults, as do its subfolders unless they set their own.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="folder-name" className="text-gray-900 dark:text-gray-100">
+							Name
+						</Label>
+						<Input
+							id="folder-name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							onKeyDown={(e) => e.key === "Enter" && handleSave()}
+							autoFocus
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label className="text-gray-900 dark:text-gray-100">Transcription profile</Label>
+						<Select value={profileId} onValueChange={setProfileId}>
+							<SelectTrigger className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={INHERIT}>{hasParent ? "Same as parent folder" : "Same as my default"}</SelectItem>
+								{profiles.map((profile) => (
+									<SelectItem key={profile.id} value={profile.id}>
+										{profile.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-2">
+						<Label className="text-gray-900 dark:text-gray-100">Summary template</Label>
+						<Select value={templateId} onValueChange={setTemplateId}>
+							<SelectTrigger className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={INHERIT}>{hasParent ? "Same as parent folder" : "None"}</SelectItem>
+								{templates.map((template) => (
+									<SelectItem key={template.id} value={template.id}>
+										{template.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						onClick={handleSave}
+						disabled={saving || !name.trim()}
+						className="bg-blue-500 hover:bg-blue-600 text-white"
+					>
+						{saving ? "Saving..." : folder ? "Save" : "Create"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Folder as FolderIcon, FolderOpen, FolderPlus, Inbox, MoreVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FolderDialog, type FolderFormValues } from "./FolderDialog";
+import { useRouter } from "../contexts/RouterContext";
+import { useAuth } from "../contexts/AuthContext";
+import { ensureOk, runBatch } from "../utils/batch";
+import { JOBS_DRAG_TYPE, folderChain, folderSubtree, type Folder } from "../utils/folders";
+
+interface FolderTreeProps {
+	folders: Folder[];
+	currentFolderId?: string;
+	onFoldersChanged: () => void;
+	onJobsMoved: () => void;
+}
+
+// MIME type of the folder id carried when dragging a folder onto another
+const FOLDER_DRAG_TYPE = "application/x-scriberr-folder";
+
+// Drop target standing for "no folder"
+const ROOT = "";
+
+/**
+ * Sidebar of nested folders. Recordings dragged from the table, and folders
+ * dragged within the tree, are moved to the folder they're dropped on.
+ */
+export function FolderTree({ folders, currentFolderId, onFoldersChanged, onJobsMoved }: FolderTreeProps) {
+	const { currentRoute, navigate } = useRouter();
+	// Library filters carry over from folder to folder
+	const filters = currentRoute.params?.filters;
+	const { getAuthHeaders } = useAuth();
+	const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+	const [dropTarget, setDropTarget] = useState<string | null>(null);
+	const [dialog, setDialog] = useState<{ folder?: Folder; parent?: Folder } | null>(null);
+
+	const children = useMemo(() => {
+		const byParent = new Map<string, Folder[]>();
+		folders.forEach((folder) => {
+			const parent = folder.parent_id || ROOT;
+			byParent.set(parent, [...(byParent.get(parent) || []), folder]);
+		});
+		return byParent;
+	}, [folders]);
+
+	// Folders above the current one stay open so it's always visible
+	const currentPath = useMemo(
+		() => new Set(folderChain(folders, currentFolderId).map((folder) => folder.id)),
+		[folders, currentFolderId],
+	);
+
+	const toggle = (id: string) =>
+		setCollapsed((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+
+	const saveFolder = async (folder: Folder | undefined, parentId: string | null, values: FolderFormValues) => {
+		const response = await fetch(folder ? `/api/v1/folders/${folder.id}` : "/api/v1/folders", {
+			method: folder ? "PUT" : "POST",
+			headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+			body: JSON.stringify({ ...values, parent_id: parentId }),
+		});
+		await ensureOk(response);
+		onFoldersChanged();
+	};
+
+	const deleteFolder = async (folder: Folder) => {
+		if (!confirm(`Delete "${folder.name}"? Its recordings and subfolders move up to the parent folder.`)) return;
+		try {
+			await ensureOk(await fetch(`/api/v1/folders/${folder.id}`, { method: "DELETE", headers: { ...getAuthHeaders() } }));
+			onFoldersChanged();
+			onJobsMoved();
+			if (currentPath.has(folder.id)) {
+				navigate(
+					folder.parent_id
+						? { path: "folder", params: { id: folder.parent_id, filters } }
+						: { path: "home", params: { filters } },
+				);
+			}
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to delete folder");
+		}
+	};
+
+	const moveJobs = async (jobIds: string[], folderId: string) => {
+		const result = await runBatch(jobIds, async (jobId) =>
+			ensureOk(
+				await fetch(`/api/v1/transcription/${jobId}/folder`, {
+					method: "PUT",
+					headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+					body: JSON.stringify({ folder_id: folderId || null }),
+				}),
+			),
+		);
+		if (result.failed.length > 0) {
+			alert(`${result.failed.length} of ${jobIds.length} recordings couldn't be moved: ${result.failed[0].error}`);
+		}
+		onFoldersChanged();
+		onJobsMoved();
+	};
+
+	const moveFolder = async (folderId: string, parentId: string) => {
+		const folder = folders.find((f) => f.id === folderId);
+		if (!folder || (folder.parent_id || ROOT) === parentId) return;
+		if (parentId && folderSubtree(folders, folderId).has(parentId)) {
+			alert("A folder can't be moved into itself or one of its subfolders");
+			return;
+		}
+		try {
+			await saveFolder(folder, parentId || null, {
+				name: folder.name,
+				default_profile_id: folder.default_profile_id ?? null,
+				default_summary_template_id: folder.default_summary_template_id ?? null,
+			});
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to move folder");
+		}
+	};
+
+	const dropHandlers = (targetId: string) => ({
+		onDragOver: (e: React.DragEvent) => {
+			const types = e.dataTransfer.types;
+			if (!types.includes(JOBS_DRAG_TYPE) && !types.includes(FOLDER_DRAG_TYPE)) return;
+			e.preventDefault();
+			e.stopPropagation();
+			e.dataTransfer.dropEffect = "move";
+			setDropTarget(targetId);
+		},
+		onDragLeave: () => setDropTarget((prev) => (prev === targetId ? null : prev)),
+		onDrop: (e: React.DragEvent) => {
+			const jobs = e.dataTransfer.getData(JOBS_DRAG_TYPE);
+			const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+			if (!jobs && !folderId) return;
+			e.preventDefault();
+			e.stopPropagation();
+			setDropTarget(null);
+			if (jobs) moveJobs(JSON.parse(jobs), targetId);
+			else moveFolder(folderId, targetId);
+		},
+	});
+
+	const rowClass = (id: string, active: boolean) =>
+		`group flex items-center gap-1 rounded-md pr-1 text-sm cursor-pointer transition-colors ${
+			dropTarget === id
+				? "bg-blue-100 dark:bg-blue-900/40 ring-1 ring-blue-400"
+				: active
+					? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-medium"
+					: "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+		}`;
+
+	const renderFolder = (folder: Folder, depth: number) => {
+		const subfolders = children.get(folder.id) || [];
+		const open = currentPath.has(folder.id) || !collapsed.has(folder.id);
+		const active = folder.id === currentFolderId;
+		return (
+			<li key={folder.id}>
+				<div
+					className={rowClass(folder.id, active)}
+					style={{ paddingLeft: `${depth * 12 + 4}px` }}
+					draggable
+					onDragStart={(e) => {
+						e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+						e.dataTransfer.effectAllowed = "move";
+					}}
+					onClick={() => navigate({ path: "folder", params: { id: folder.id, filters } })}
+					{...dropHandlers(folder.id)}
+				>
+					<button
+						type="button"
+						onClick={(e) => {
+							e.stopPropagation();
+							toggle(folder.id);
+						}}
+						className={`p-0.5 text-gray-400 ${subfolders.length ? "" : "invisible"}`}
+						aria-label={open ? "Collapse" : "Expand"}
+					>
+						{open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+					</button>
+					{active ? (
+						<FolderOpen className="h-4 w-4 flex-shrink-0 text-blue-500" />
+					) : (
+						<FolderIcon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+					)}
+					<span className="flex-1 truncate py-1.5">{folder.name}</span>
+					{!!folder.job_count && <span className="text-xs text-gray-400">{folder.job_count}</span>}
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+							<button
+								type="button"
+								className="p-0.5 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
+								aria-label={`${folder.name} options`}
+							>
+								<MoreVertical className="h-3.5 w-3.5" />
+							</button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+							<DropdownMenuItem onClick={() => setDialog({ parent: folder })}>New subfolder</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => setDialog({ folder })}>Edit name and defaults</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => deleteFolder(folder)} className="text-red-600 dark:text-red-400">
+								Delete
+							</DropdownMenuItem>
+						</DropdownMenuContent>
+					</DropdownMenu>
+				</div>
+				{open && subfolders.length > 0 && <ul>{subfolders.map((child) => renderFolder(child, depth + 1))}</ul>}
+			</li>
+		);
+	};
+
+	return (
+		<nav className="bg-white dark:bg-gray-800 rounded-xl p-3" aria-label="Folders">
+			<div className="flex items-center justify-between px-1 pb-2">
+				<h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Folders</h2>
+				<Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDialog({})} title="New folder">
+					<FolderPlus className="h-4 w-4" />
+				</Button>
+			</div>
+			<div
+				className={rowClass(ROOT, !currentFolderId)}
+				style={{ paddingLeft: "4px" }}
+				onClick={() => navigate({ path: "home", params: { filters } })}
+				{...dropHandlers(ROOT)}
+			>
+				<Inbox className="ml-5 h-4 w-4 flex-shrink-0 text-gray-400" />
+				<span className="flex-1 truncate py-1.5">All recordings</span>
+			</div>
+			<ul>{(children.get(ROOT) || []).map((folder) => renderFolder(folder, 0))}</ul>
+			{folders.length === 0 && (
+				<p className="px-1 pt-2 text-xs text-gray-500 dark:text-gray-400">
+					Create folders to group recordings by project, then drag recordings onto them.
+				</p>
+			)}
+
+			<FolderDialog
+				open={dialog !== null}
+				onOpenChange={(open) => !open && setDialog(null)}
+				folder={dialog?.folder}
+				parentName={dialog?.parent?.name}
+				onSave={(values) =>
+					saveFolder(dialog?.folder, dialog?.folder ? dialog.folder.parent_id ?? null : dialog?.parent?.id ?? null, values)
+				}
+			/>
+		</nav>
+	);
+}
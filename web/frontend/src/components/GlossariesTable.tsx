@@ -0,0 +1,129 @@
+import { useEffect, useState, useCallback } from "react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "./ui/alert-dialog";
+import { Trash2, BookText } from "lucide-react";
+import type { Glossary } from "./GlossaryDialog";
+import { useAuth } from "../contexts/AuthContext";
+
+interface GlossariesTableProps {
+  onEdit: (glossary: Glossary) => void;
+  refreshTrigger?: number;
+}
+
+export function GlossariesTable({ onEdit, refreshTrigger = 0 }: GlossariesTableProps) {
+  const { getAuthHeaders } = useAuth();
+  const [items, setItems] = useState<Glossary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openPop, setOpenPop] = useState<Record<string, boolean>>({});
+  const [deleting, setDeleting] = useState<Set<string>>(new Set());
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/v1/glossaries', { headers: { ...getAuthHeaders() }});
+      if (res.ok) {
+        const data: Glossary[] = await res.json();
+        setItems(data);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [getAuthHeaders]);
+
+  useEffect(() => { fetchItems(); }, [fetchItems, refreshTrigger]);
+
+  const handleDelete = async (id: string) => {
+    setOpenPop(prev => ({ ...prev, [id]: false }));
+    try {
+      setDeleting(prev => new Set(prev).add(id));
+      const res = await fetch(`/api/v1/glossaries/${id}`, { method: 'DELETE', headers: { ...getAuthHeaders() }});
+      if (res.ok) {
+        setItems(prev => prev.filter(i => i.id !== id));
+      } else {
+        alert('Failed to delete');
+      }
+    } finally {
+      setDeleting(prev => { const s = new Set(prev); s.delete(id); return s; });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="bg-gray-100 dark:bg-gray-800 rounded-lg p-4 animate-pulse h-16" />
+        ))}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <div className="bg-gray-100 dark:bg-gray-700 rounded-full w-16 h-16 mx-auto mb-4 flex items-center justify-center">
+          <BookText className="h-8 w-8 text-gray-400 dark:text-gray-500" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No glossaries</h3>
+        <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-sm mx-auto">Create a glossary so names and acronyms come out right in your transcripts.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map(glossary => (
+        <div key={glossary.id} className="group bg-gray-100 dark:bg-gray-700 rounded-lg p-4 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer" onClick={() => onEdit(glossary)}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3 flex-1 min-w-0">
+              <div className="bg-gray-200 dark:bg-gray-800 rounded-md p-1.5">
+                <BookText className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{glossary.name}</h3>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {glossary.terms.length} term{glossary.terms.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate mt-1">
+                  {glossary.description || glossary.terms.slice(0, 8).join(', ')}
+                </p>
+              </div>
+            </div>
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200" onClick={(e) => e.stopPropagation()}>
+              <Popover open={openPop[glossary.id!] || false} onOpenChange={(open) => setOpenPop(prev => ({ ...prev, [glossary.id!]: open }))}>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 hover:bg-gray-300 dark:hover:bg-gray-600">
+                    ⋮
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-32 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 p-1">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="w-full justify-start h-7 text-xs hover:bg-gray-100 dark:hover:bg-gray-700 text-red-500 dark:text-red-400 hover:text-red-600 dark:hover:text-red-300" disabled={deleting.has(glossary.id!)}>
+                        <Trash2 className="mr-2 h-3 w-3" /> Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle className="text-gray-900 dark:text-gray-100">Delete Glossary</AlertDialogTitle>
+                        <AlertDialogDescription className="text-gray-600 dark:text-gray-400">
+                          Are you sure you want to delete "{glossary.name}"? Profiles using it will stop adding its terms to the prompt.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600">Cancel</AlertDialogCancel>
+                        <AlertDialogAction className="bg-red-600 text-white hover:bg-red-700" onClick={() => handleDelete(glossary.id!)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
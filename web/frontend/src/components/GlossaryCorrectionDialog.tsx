@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, SpellCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "./ui/toast";
+import type { Glossary } from "./GlossaryDialog";
+import type { Transcript } from "../types/transcript";
+import { applyReplacements } from "../utils/transcriptReplace";
+import { DEFAULT_MIN_SIMILARITY, planGlossaryCorrections } from "../utils/glossaryCorrection";
+
+interface GlossaryCorrectionDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	transcriptionId: string;
+	transcript: Transcript;
+	// Glossaries attached to the job's profile; they start selected
+	glossaryIds?: string[];
+	getSpeakerName: (speaker: string) => string;
+	onApplied: (transcript: Transcript, version: number) => void;
+}
+
+const formatTimestamp = (seconds: number): string => {
+	const minutes = Math.floor(seconds / 60);
+	const secs = Math.floor(seconds % 60);
+	return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function GlossaryCorrectionDialog({
+	open,
+	onOpenChange,
+	transcriptionId,
+	transcript,
+	glossaryIds,
+	getSpeakerName,
+	onApplied,
+}: GlossaryCorrectionDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const { toast } = useToast();
+	const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [activeIds, setActiveIds] = useState<Set<string>>(new Set());
+	const [minSimilarity, setMinSimilarity] = useState(DEFAULT_MIN_SIMILARITY);
+	const [selected, setSelected] = useState<Set<number>>(new Set());
+	const [applying, setApplying] = useState(false);
+
+	useEffect(() => {
+		if (!open) return;
+		let cancelled = false;
+		const load = async () => {
+			setLoading(true);
+			try {
+				const res = await fetch("/api/v1/glossaries", { headers: { ...getAuthHeaders() } });
+				if (!res.ok) throw new Error(`HTTP ${res.status}`);
+				const data: Glossary[] = await res.json();
+				if (cancelled) return;
+				setGlossaries(data);
+				// Start with the job's glossaries, or every glossary when it has none
+				const attached = data.filter(g => glossaryIds?.includes(g.id!));
+				setActiveIds(new Set((attached.length > 0 ? attached : data).map(g => g.id!)));
+			} catch (e) {
+				if (!cancelled) toast({ title: "Failed to load glossaries", description: e instanceof Error ? e.message : String(e) });
+			} finally {
+				if (!cancelled) setLoading(false);
+			}
+		};
+		load();
+		return () => {
+			cancelled = true;
+		};
+	}, [open, glossaryIds, getAuthHeaders, toast]);
+
+	const plan = useMemo(() => {
+		if (!open) return { corrections: [], stats: [] };
+		const terms = glossaries.filter(g => activeIds.has(g.id!)).flatMap(g => g.terms);
+		return planGlossaryCorrections(transcript, terms, minSimilarity);
+	}, [open, glossaries, activeIds, transcript, minSimilarity]);
+
+	// Every correction is selected by default whenever the plan changes
+	useEffect(() => {
+		setSelected(new Set(plan.corrections.map((_, i) => i)));
+	}, [plan]);
+
+	const termsWithHits = plan.stats.filter(s => s.exact > 0 || s.corrected > 0);
+
+	const toggleGlossary = (id: string) => {
+		setActiveIds(prev => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	};
+
+	const toggle = (index: number) => {
+		setSelected(prev => {
+			const next = new Set(prev);
+			if (next.has(index)) next.delete(index);
+			else next.add(index);
+			return next;
+		});
+	};
+
+	const handleApply = async () => {
+		const chosen = plan.corrections.filter((_, i) => selected.has(i));
+		if (chosen.length === 0) return;
+		const updated = applyReplacements(transcript, chosen);
+		const message = `Glossary correction (${chosen.length} change${chosen.length !== 1 ? "s" : ""})`;
+
+		setApplying(true);
+		try {
+			const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+				body: JSON.stringify({ transcript: updated, message }),
+			});
+			if (!res.ok) {
+				const data = await res.json().catch(() => ({}));
+				throw new Error(data.error || `HTTP ${res.status}`);
+			}
+			const revision: { version: number } = await res.json();
+			toast({ title: "Corrections applied", description: `${message}. Saved as version ${revision.version}.` });
+			onApplied(updated, revision.version);
+			onOpenChange(false);
+		} catch (e) {
+			toast({ title: "Failed to apply corrections", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setApplying(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 max-h-[85vh] overflow-hidden flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+						<SpellCheck className="h-5 w-5" />
+						Glossary correction
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						Words that look like a glossary term are respelled to match it. Review the changes before saving them as a revision.
+					</DialogDescription>
+				</DialogHeader>
+
+				{loading ? (
+					<div className="flex items-center justify-center py-10 text-gray-500 dark:text-gray-400">
+						<Loader2 className="h-5 w-5 mr-2 animate-spin" />
+						Loading glossaries...
+					</div>
+				) : glossaries.length === 0 ? (
+					<p className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+						No glossaries yet. Create one in the Glossary tab of Settings.
+					</p>
+				) : (
+					<div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+						<div className="flex flex-wrap gap-2">
+							{glossaries.map(glossary => (
+								<button
+									key={glossary.id}
+									type="button"
+									onClick={() => toggleGlossary(glossary.id!)}
+									aria-pressed={activeIds.has(glossary.id!)}
+									className={`px-2.5 py-1 rounded-full text-xs font-medium cursor-pointer transition-colors ${
+										activeIds.has(glossary.id!)
+											? "bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300"
+											: "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+									}`}
+								>
+									{glossary.name} ({glossary.terms.length})
+								</button>
+							))}
+						</div>
+
+						<div className="space-y-2">
+							<div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+								<span>Minimum similarity</span>
+								<span className="font-mono">{Math.round(minSimilarity * 100)}%</span>
+							</div>
+							<Slider
+								value={[minSimilarity]}
+								onValueChange={([value]) => setMinSimilarity(value)}
+								min={0.6}
+								max={1}
+								step={0.05}
+							/>
+						</div>
+
+						{termsWithHits.length > 0 && (
+							<div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+								<table className="w-full text-sm">
+									<thead className="bg-gray-50 dark:bg-gray-900/50 text-xs text-gray-500 dark:text-gray-400">
+										<tr>
+											<th className="text-left font-medium px-3 py-1.5">Term</th>
+											<th className="text-right font-medium px-3 py-1.5">Already correct</th>
+											<th className="text-right font-medium px-3 py-1.5">To correct</th>
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+										{termsWithHits.map(stat => (
+											<tr key={stat.term} className="text-gray-700 dark:text-gray-200">
+												<td className="px-3 py-1.5">{stat.term}</td>
+												<td className="px-3 py-1.5 text-right tabular-nums">{stat.exact}</td>
+												<td className="px-3 py-1.5 text-right tabular-nums">{stat.corrected}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+								{plan.stats.length > termsWithHits.length && (
+									<p className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/50">
+										{plan.stats.length - termsWithHits.length} other term{plan.stats.length - termsWithHits.length !== 1 ? "s" : ""} not found
+									</p>
+								)}
+							</div>
+						)}
+
+						{plan.corrections.length === 0 ? (
+							<p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+								{activeIds.size === 0 ? "Select at least one glossary." : "Nothing to correct."}
+							</p>
+						) : (
+							<>
+								<div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+									<span>
+										{selected.size} of {plan.corrections.length} selected
+									</span>
+									<div className="flex gap-2">
+										<button type="button" className="hover:underline cursor-pointer" onClick={() => setSelected(new Set(plan.corrections.map((_, i) => i)))}>
+											Select all
+										</button>
+										<button type="button" className="hover:underline cursor-pointer" onClick={() => setSelected(new Set())}>
+											Select none
+										</button>
+									</div>
+								</div>
+
+								<ul className="space-y-2">
+									{plan.corrections.map((c, i) => (
+										<li key={`${c.match.offset}-${i}`}>
+											<label className="flex gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 cursor-pointer">
+												<input
+													type="checkbox"
+													checked={selected.has(i)}
+													onChange={() => toggle(i)}
+													className="mt-1 h-4 w-4 accent-blue-600 flex-shrink-0"
+												/>
+												<div className="min-w-0">
+													<div className="flex items-center gap-2 mb-1">
+														<span className="px-1.5 py-0.5 text-[11px] font-mono bg-blue-100 dark:bg-blue-700 text-blue-800 dark:text-blue-200 rounded">
+															{formatTimestamp(c.match.start)}
+														</span>
+														{c.speaker && (
+															<span className="text-xs font-medium text-gray-500 dark:text-gray-400">{getSpeakerName(c.speaker)}</span>
+														)}
+														<span className="ml-auto text-[11px] text-gray-500 dark:text-gray-400">{Math.round(c.score * 100)}% match</span>
+													</div>
+													<p className="text-sm text-gray-700 dark:text-gray-200 break-words">
+														{c.before}
+														<del className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 rounded px-0.5">{c.match.text}</del>
+														<ins className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 rounded px-0.5">{c.replacement}</ins>
+														{c.after}
+													</p>
+												</div>
+											</label>
+										</li>
+									))}
+								</ul>
+							</>
+						)}
+					</div>
+				)}
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+						Cancel
+					</Button>
+					<Button
+						onClick={handleApply}
+						disabled={applying || selected.size === 0}
+						className="bg-blue-600 hover:bg-blue-700 text-white"
+					>
+						{applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+						Apply {selected.size} change{selected.size !== 1 ? "s" : ""}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Button } from "./ui/button";
+
+export interface Glossary {
+  id?: string;
+  name: string;
+  description?: string;
+  terms: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface GlossaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (glossary: Omit<Glossary, 'created_at' | 'updated_at'>) => Promise<void> | void;
+  initial?: Glossary | null;
+}
+
+// One term per line; blank lines and repeats are dropped
+const parseTerms = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split('\n')
+    .map(t => t.trim())
+    .filter(t => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export function GlossaryDialog({ open, onOpenChange, onSave, initial }: GlossaryDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [termsText, setTermsText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(initial?.name || "");
+      setDescription(initial?.description || "");
+      setTermsText((initial?.terms || []).join('\n'));
+    }
+  }, [open, initial]);
+
+  const terms = parseTerms(termsText);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    try {
+      setSaving(true);
+      await onSave({ id: initial?.id, name: name.trim(), description: description.trim() || undefined, terms });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl md:max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900 dark:text-gray-100">{initial ? 'Edit Glossary' : 'New Glossary'}</DialogTitle>
+          <DialogDescription className="text-gray-600 dark:text-gray-400">
+            List the proper nouns, acronyms and place names the transcriber should get right.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label className="text-gray-700 dark:text-gray-300">Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Le Locle council" />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-700 dark:text-gray-300">Description (optional)</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Short description" />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-gray-700 dark:text-gray-300">Terms</Label>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {terms.length} term{terms.length !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <Textarea
+              rows={12}
+              className="resize-y min-h-48 max-h-[55vh] font-mono text-sm"
+              value={termsText}
+              onChange={(e) => setTermsText(e.target.value)}
+              placeholder={"One term per line, e.g.\nLe Locle\nLa Chaux-de-Fonds\nHEIG-VD"}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Write each term exactly as it should appear in the transcript.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-600 dark:hover:bg-blue-500"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { BookText } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import type { Glossary } from "./GlossaryDialog";
+
+interface GlossaryPickerProps {
+  value: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// Checkbox list of the saved glossaries, used to attach them to a profile
+export function GlossaryPicker({ value, onChange }: GlossaryPickerProps) {
+  const { getAuthHeaders } = useAuth();
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/v1/glossaries', { headers: { ...getAuthHeaders() }});
+        if (res.ok && !cancelled) setGlossaries(await res.json());
+      } catch {
+        // The picker just stays empty
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [getAuthHeaders]);
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading glossaries...</p>;
+  }
+
+  if (glossaries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No glossaries yet. Create one in the Glossary tab of Settings.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {glossaries.map(glossary => (
+        <label
+          key={glossary.id}
+          className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+        >
+          <input
+            type="checkbox"
+            checked={value.includes(glossary.id!)}
+            onChange={() => toggle(glossary.id!)}
+            className="mt-1 h-4 w-4 accent-blue-600 flex-shrink-0"
+          />
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <BookText className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+              <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{glossary.name}</span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate mt-0.5">
+              {glossary.terms.length} term{glossary.terms.length !== 1 ? 's' : ''}
+              {glossary.terms.length > 0 && `: ${glossary.terms.slice(0, 5).join(', ')}`}
+            </p>
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -6,14 +6,16 @@ import {
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Upload, Mic, Settings, LogOut, Home, Plus, Grip, Zap, Youtube, Video, Users } from "lucide-react";
+import { Upload, Mic, Settings, LogOut, Home, Plus, Grip, Zap, Youtube, Video, Users, Search, ChevronRight } from "lucide-react";
 import { ScriberrLogo } from "./ScriberrLogo";
 import { ThemeSwitcher } from "./ThemeSwitcher";
 import { AudioRecorder } from "./AudioRecorder";
+import { RecordingRecoveryDialog } from "./RecordingRecoveryDialog";
 import { QuickTranscriptionDialog } from "./QuickTranscriptionDialog";
 import { YouTubeDownloadDialog } from "./YouTubeDownloadDialog";
 import { useRouter } from "../contexts/RouterContext";
 import { useAuth } from "../contexts/AuthContext";
+import type { Folder } from "../utils/folders";
 
 interface FileWithType {
 	file: File;
@@ -24,9 +26,12 @@ interface HeaderProps {
 	onFileSelect: (files: File | File[] | FileWithType | FileWithType[]) => void;
 	onMultiTrackClick?: () => void;
 	onDownloadComplete?: () => void;
+	onRecordingUploaded?: () => void;
+	// Folders from the outermost down to the one being shown
+	breadcrumb?: Folder[];
 }
 
-export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete }: HeaderProps) {
+export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete, onRecordingUploaded, breadcrumb }: HeaderProps) {
 	const { navigate } = useRouter();
 	const { logout } = useAuth();
 	const fileInputRef = useRef<HTMLInputElement>(null);
@@ -63,6 +68,10 @@ export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete }:
 		navigate({ path: "settings" });
 	};
 
+	const handleSearchClick = () => {
+		navigate({ path: "search" });
+	};
+
 	const handleLogout = () => {
 		logout();
 	};
@@ -99,12 +108,6 @@ export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete }:
 		}
 	};
 
-	const handleRecordingComplete = async (blob: Blob, title: string) => {
-		// Convert blob to file and use existing upload logic
-		const file = new File([blob], `${title}.webm`, { type: blob.type });
-		onFileSelect(file);
-	};
-
 	return (
 		<header className="bg-white dark:bg-gray-800 rounded-xl p-4 sm:p-6 mb-4 sm:mb-6">
 			<div className="flex items-center justify-between">
@@ -221,6 +224,10 @@ export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete }:
 								<Home className="h-4 w-4" />
 								Home
 							</DropdownMenuItem>
+							<DropdownMenuItem onClick={handleSearchClick} className="cursor-pointer">
+								<Search className="h-4 w-4" />
+								Search
+							</DropdownMenuItem>
 							<DropdownMenuItem onClick={handleSettingsClick} className="cursor-pointer">
 								<Settings className="h-4 w-4" />
 								Settings
@@ -257,13 +264,43 @@ export function Header({ onFileSelect, onMultiTrackClick, onDownloadComplete }:
 				</div>
 			</div>
 
+			{/* Where the folder being shown sits */}
+			{breadcrumb && breadcrumb.length > 0 && (
+				<nav aria-label="Breadcrumb" className="mt-3 flex flex-wrap items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+					<button type="button" onClick={handleHomeClick} className="hover:text-gray-900 dark:hover:text-gray-100 cursor-pointer">
+						All recordings
+					</button>
+					{breadcrumb.map((folder, index) => (
+						<span key={folder.id} className="flex items-center gap-1">
+							<ChevronRight className="h-3.5 w-3.5" />
+							{index === breadcrumb.length - 1 ? (
+								<span className="font-medium text-gray-900 dark:text-gray-100" aria-current="page">
+									{folder.name}
+								</span>
+							) : (
+								<button
+									type="button"
+									onClick={() => navigate({ path: "folder", params: { id: folder.id } })}
+									className="hover:text-gray-900 dark:hover:text-gray-100 cursor-pointer"
+								>
+									{folder.name}
+								</button>
+							)}
+						</span>
+					))}
+				</nav>
+			)}
+
 			{/* Audio Recorder Dialog */}
 			<AudioRecorder
 				isOpen={isRecorderOpen}
 				onClose={() => setIsRecorderOpen(false)}
-				onRecordingComplete={handleRecordingComplete}
+				onUploadComplete={onRecordingUploaded}
 			/>
 
+			{/* Offers recordings a closed or crashed tab never uploaded */}
+			<RecordingRecoveryDialog onUploadComplete={onRecordingUploaded} />
+
 			{/* Quick Transcription Dialog */}
 			<QuickTranscriptionDialog
 				isOpen={isQuickTranscriptionOpen}
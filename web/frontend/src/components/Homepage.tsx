@@ -1,11 +1,14 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Header } from "./Header";
 import { AudioFilesTable } from "./AudioFilesTable";
 import { DragDropOverlay } from "./DragDropOverlay";
 import { MultiTrackUploadDialog } from "./MultiTrackUploadDialog";
+import { VideoUploadDialog } from "./VideoUploadDialog";
+import { FolderTree } from "./FolderTree";
+import { SavedViews } from "./SavedViews";
 import { useAuth } from "../contexts/AuthContext";
-import { Progress } from "./ui/progress";
-import { X, CheckCircle, AlertCircle } from "lucide-react";
+import { useCompletedUploads, useUploadStore } from "../contexts/UploadsContext";
+import { folderChain, type Folder } from "../utils/folders";
 import { 
 	groupFiles, 
 	convertToFileWithType, 
@@ -20,17 +23,18 @@ interface FileWithType {
 	isVideo: boolean;
 }
 
-interface UploadProgress {
-	fileName: string;
-	status: 'uploading' | 'success' | 'error';
-	error?: string;
+interface HomepageProps {
+	// Folder being shown; every recording is listed without one
+	folderId?: string;
 }
 
-export function Homepage() {
+export function Homepage({ folderId }: HomepageProps) {
 	const { getAuthHeaders } = useAuth();
+	const uploads = useUploadStore();
+	const completedUploads = useCompletedUploads();
 	const [refreshTrigger, setRefreshTrigger] = useState(0);
-	const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
-	const [isUploading, setIsUploading] = useState(false);
+	// Selection waiting for the user to choose how videos are uploaded
+	const [pendingVideoUpload, setPendingVideoUpload] = useState<FileWithType[] | null>(null);
 	
 	// Drag and drop state
 	const [isDragging, setIsDragging] = useState(false);
@@ -39,46 +43,27 @@ export function Homepage() {
 	const [isMultiTrackDialogOpen, setIsMultiTrackDialogOpen] = useState(false);
 	const [multiTrackPreview, setMultiTrackPreview] = useState<{audioFiles: File[], aupFile: File, title: string} | null>(null);
 	const dragCounter = useRef(0);
+	const [folders, setFolders] = useState<Folder[]>([]);
 
-	const uploadSingleFile = async (file: File): Promise<boolean> => {
-		const formData = new FormData();
-		formData.append("audio", file);
-		formData.append("title", file.name.replace(/\.[^/.]+$/, ""));
-
+	const fetchFolders = useCallback(async () => {
 		try {
-			const response = await fetch("/api/v1/transcription/upload", {
-				method: "POST",
-				headers: {
-					...getAuthHeaders(),
-				},
-				body: formData,
-			});
-
-			return response.ok;
-		} catch {
-			return false;
+			const response = await fetch("/api/v1/folders", { headers: { ...getAuthHeaders() } });
+			if (response.ok) setFolders((await response.json()) || []);
+		} catch (error) {
+			console.error("Failed to fetch folders:", error);
 		}
-	};
-
-	const uploadSingleVideo = async (file: File): Promise<boolean> => {
-		const formData = new FormData();
-		formData.append("video", file);
-		formData.append("title", file.name.replace(/\.[^/.]+$/, ""));
+	}, [getAuthHeaders]);
 
-		try {
-			const response = await fetch("/api/v1/transcription/upload-video", {
-				method: "POST",
-				headers: {
-					...getAuthHeaders(),
-				},
-				body: formData,
-			});
+	useEffect(() => {
+		fetchFolders();
+	}, [fetchFolders]);
 
-			return response.ok;
-		} catch {
-			return false;
-		}
-	};
+	// Refresh table as uploads from the tray create jobs
+	useEffect(() => {
+		if (completedUploads === 0) return;
+		setRefreshTrigger((prev) => prev + 1);
+		fetchFolders();
+	}, [completedUploads, fetchFolders]);
 
 	const handleFileSelect = async (files: File | File[] | FileWithType | FileWithType[]) => {
 		// Normalize input to an array of FileWithType objects
@@ -95,56 +80,19 @@ export function Homepage() {
 		
 		if (processedFiles.length === 0) return;
 		
-		setIsUploading(true);
-		setUploadProgress(processedFiles.map(item => ({
-			fileName: item.file.name,
-			status: 'uploading'
-		})));
-
-		let successCount = 0;
-		
-		// Upload files sequentially to avoid overwhelming the server
-		for (let i = 0; i < processedFiles.length; i++) {
-			const fileItem = processedFiles[i];
-			const file = fileItem.file;
-			const isVideo = fileItem.isVideo;
-			
-			try {
-				const success = isVideo ? await uploadSingleVideo(file) : await uploadSingleFile(file);
-				
-				setUploadProgress(prev => prev.map((item, index) => 
-					index === i ? {
-						...item,
-						status: success ? 'success' : 'error',
-						error: success ? undefined : (isVideo ? 'Video upload failed' : 'Upload failed')
-					} : item
-				));
-				
-				if (success) {
-					successCount++;
-				}
-			} catch (error) {
-				setUploadProgress(prev => prev.map((item, index) => 
-					index === i ? {
-						...item,
-						status: 'error',
-						error: 'Network error'
-					} : item
-				));
-			}
-		}
-		
-		setIsUploading(false);
-		
-		// Refresh table if any uploads succeeded
-		if (successCount > 0) {
-			setRefreshTrigger((prev) => prev + 1);
+		// Videos can be reduced to their audio before uploading; ask how first
+		if (processedFiles.some(item => item.isVideo)) {
+			setPendingVideoUpload(processedFiles);
+			return;
 		}
 		
-		// Auto-hide progress after 3 seconds if all succeeded
-		if (successCount === fileArray.length) {
-			setTimeout(() => setUploadProgress([]), 3000);
-		}
+		// Uploads run from the tray one file at a time, resumable and retried
+		uploads.addFiles(processedFiles, { folderId });
+	};
+
+	const handleVideoUploadConfirm = (extractAudio: boolean) => {
+		if (pendingVideoUpload) uploads.addFiles(pendingVideoUpload, { extractAudio, folderId });
+		setPendingVideoUpload(null);
 	};
 
 	const handleTranscribe = () => {
@@ -152,70 +100,14 @@ export function Homepage() {
 		setRefreshTrigger((prev) => prev + 1);
 	};
 
-	const dismissProgress = () => {
-		setUploadProgress([]);
-	};
-
 	const handleMultiTrackUpload = async (files: File[], aupFile: File, title: string) => {
-		setIsUploading(true);
-		
-		// Create progress entry for multi-track upload
-		const multiTrackProgress = {
-			fileName: `${title} (${files.length} tracks)`,
-			status: 'uploading' as const
-		};
-		
-		setUploadProgress([multiTrackProgress]);
-
-		try {
-			const formData = new FormData();
-			formData.append('title', title);
-			formData.append('aup', aupFile);
-			
-			files.forEach(file => {
-				formData.append('tracks', file);
-			});
-
-			const response = await fetch("/api/v1/transcription/upload-multitrack", {
-				method: "POST",
-				headers: {
-					...getAuthHeaders(),
-				},
-				body: formData,
-			});
-
-			if (response.ok) {
-				setUploadProgress([{
-					...multiTrackProgress,
-					status: 'success'
-				}]);
-				
-				// Refresh table
-				setRefreshTrigger((prev) => prev + 1);
-				
-				// Auto-hide progress after 3 seconds
-				setTimeout(() => setUploadProgress([]), 3000);
-			} else {
-				const errorData = await response.json();
-				setUploadProgress([{
-					...multiTrackProgress,
-					status: 'error',
-					error: errorData.error || 'Upload failed'
-				}]);
-			}
-		} catch (error) {
-			setUploadProgress([{
-				...multiTrackProgress,
-				status: 'error',
-				error: 'Upload failed: Network error'
-			}]);
-		} finally {
-			setIsUploading(false);
-		}
+		uploads.addMultiTrack(files, aupFile, title, folderId);
 	};
 
 	// Drag and drop handlers
 	const handleDragEnter = useCallback((e: React.DragEvent) => {
+		// Recordings and folders dragged onto the folder tree aren't uploads
+		if (!e.dataTransfer.types.includes("Files")) return;
 		e.preventDefault();
 		e.stopPropagation();
 		
@@ -239,6 +131,7 @@ export function Homepage() {
 	}, []);
 
 	const handleDragLeave = useCallback((e: React.DragEvent) => {
+		if (!e.dataTransfer.types.includes("Files")) return;
 		e.preventDefault();
 		e.stopPropagation();
 		
@@ -252,11 +145,13 @@ export function Homepage() {
 	}, []);
 
 	const handleDragOver = useCallback((e: React.DragEvent) => {
+		if (!e.dataTransfer.types.includes("Files")) return;
 		e.preventDefault();
 		e.stopPropagation();
 	}, []);
 
 	const handleDrop = useCallback(async (e: React.DragEvent) => {
+		if (!e.dataTransfer.types.includes("Files")) return;
 		e.preventDefault();
 		e.stopPropagation();
 		
@@ -319,73 +214,29 @@ export function Homepage() {
 					onFileSelect={handleFileSelect} 
 					onMultiTrackClick={() => setIsMultiTrackDialogOpen(true)}
 					onDownloadComplete={() => setRefreshTrigger((prev) => prev + 1)}
+					onRecordingUploaded={() => setRefreshTrigger((prev) => prev + 1)}
+					breadcrumb={folderChain(folders, folderId).reverse()}
 				/>
 				
-				{/* Upload Progress */}
-				{uploadProgress.length > 0 && (
-					<div className="mb-4 sm:mb-6 bg-white dark:bg-gray-800 rounded-xl p-4 sm:p-6">
-						<div className="flex items-center justify-between mb-4">
-							<h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-								Uploading Files ({uploadProgress.filter(p => p.status === 'success').length}/{uploadProgress.length})
-							</h3>
-							{!isUploading && (
-								<button
-									onClick={dismissProgress}
-									className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors cursor-pointer"
-								>
-									<X className="h-4 w-4 text-gray-500 dark:text-gray-400" />
-								</button>
-							)}
-						</div>
-						
-						{/* Overall progress */}
-						<div className="mb-4">
-							<Progress 
-								value={(uploadProgress.filter(p => p.status !== 'uploading').length / uploadProgress.length) * 100} 
-								className="h-2"
-							/>
-						</div>
-						
-						{/* Individual file progress */}
-						<div className="space-y-2 max-h-32 overflow-y-auto">
-							{uploadProgress.map((progress, index) => (
-								<div key={index} className="flex items-center gap-3 text-sm">
-									<div className="flex-shrink-0">
-										{progress.status === 'uploading' && (
-											<div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
-										)}
-										{progress.status === 'success' && (
-											<CheckCircle className="w-4 h-4 text-green-500" />
-										)}
-										{progress.status === 'error' && (
-											<AlertCircle className="w-4 h-4 text-red-500" />
-										)}
-									</div>
-									<div className="flex-1 min-w-0">
-										<div className="truncate text-gray-900 dark:text-gray-100">
-											{progress.fileName}
-										</div>
-										{progress.error && (
-											<div className="text-red-500 dark:text-red-400 text-xs">
-												{progress.error}
-											</div>
-										)}
-									</div>
-									<div className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
-										{progress.status === 'uploading' && 'Uploading...'}
-										{progress.status === 'success' && 'Completed'}
-										{progress.status === 'error' && 'Failed'}
-									</div>
-								</div>
-							))}
-						</div>
+				<div className="flex flex-col lg:flex-row gap-4 sm:gap-6">
+					<aside className="lg:w-60 lg:flex-shrink-0 space-y-4">
+						<FolderTree
+							folders={folders}
+							currentFolderId={folderId}
+							onFoldersChanged={fetchFolders}
+							onJobsMoved={() => setRefreshTrigger((prev) => prev + 1)}
+						/>
+						<SavedViews />
+					</aside>
+					<div className="flex-1 min-w-0">
+						<AudioFilesTable
+							refreshTrigger={refreshTrigger}
+							onTranscribe={handleTranscribe}
+							folderId={folderId}
+							folders={folders}
+						/>
 					</div>
-				)}
-				
-				<AudioFilesTable
-					refreshTrigger={refreshTrigger}
-					onTranscribe={handleTranscribe}
-				/>
+				</div>
 			</div>
 			
 			{/* Drag and Drop Overlay */}
@@ -401,6 +252,14 @@ export function Homepage() {
 					: undefined}
 			/>
 			
+			{/* Video Upload Options */}
+			<VideoUploadDialog
+				open={pendingVideoUpload !== null}
+				onOpenChange={(open) => !open && setPendingVideoUpload(null)}
+				files={pendingVideoUpload?.filter(item => item.isVideo).map(item => item.file) ?? []}
+				onConfirm={handleVideoUploadConfirm}
+			/>
+			
 			{/* Multi-track Upload Dialog with pre-populated data */}
 			<MultiTrackUploadDialog
 				open={isMultiTrackDialogOpen}
@@ -0,0 +1,183 @@
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EMPTY_FILTERS, JOB_STATUSES, countFilters, type LibraryFilters } from "../utils/libraryFilters";
+import { tagChipClass, type Tag } from "../utils/tags";
+
+interface LibraryFilterPopoverProps {
+	filters: LibraryFilters;
+	onChange: (filters: LibraryFilters) => void;
+	tags: Tag[];
+}
+
+// Select value for a yes/no filter that isn't set
+const ANY = "any";
+
+const toggle = <T,>(items: T[], item: T) => (items.includes(item) ? items.filter((i) => i !== item) : [...items, item]);
+
+const minutesToSeconds = (value: string) => (value === "" ? undefined : Math.max(0, Number(value)) * 60);
+const secondsToMinutes = (value?: number) => (value === undefined ? "" : String(Math.round((value / 60) * 10) / 10));
+
+const pillClass = (active: boolean) =>
+	`px-2 py-0.5 rounded-full text-xs font-medium border cursor-pointer transition-colors ${
+		active
+			? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
+			: "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+	}`;
+
+/**
+ * Filters for the audio library: status, tags, date range, duration,
+ * diarization and multi-track, combined with AND or OR
+ */
+export function LibraryFilterPopover({ filters, onChange, tags }: LibraryFilterPopoverProps) {
+	const active = countFilters(filters);
+	const set = (changes: Partial<LibraryFilters>) => onChange({ ...filters, ...changes });
+
+	const flagSelect = (value: boolean | undefined, onValue: (value: boolean | undefined) => void, labels: [string, string]) => (
+		<Select value={value === undefined ? ANY : String(value)} onValueChange={(v) => onValue(v === ANY ? undefined : v === "true")}>
+			<SelectTrigger className="h-8 w-full text-xs">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={ANY}>Any</SelectItem>
+				<SelectItem value="true">{labels[0]}</SelectItem>
+				<SelectItem value="false">{labels[1]}</SelectItem>
+			</SelectContent>
+		</Select>
+	);
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button variant="outline" className="h-9 gap-1.5 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+					<Filter className="h-4 w-4" />
+					Filters
+					{active > 0 && (
+						<span className="ml-0.5 rounded-full bg-blue-600 px-1.5 text-[11px] font-semibold text-white">{active}</span>
+					)}
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="end" className="w-80 space-y-4 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+				<div className="flex items-center justify-between">
+					<div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+						Match
+						<button type="button" className={pillClass(filters.match === "all")} onClick={() => set({ match: "all" })}>
+							all filters
+						</button>
+						<button type="button" className={pillClass(filters.match === "any")} onClick={() => set({ match: "any" })}>
+							any filter
+						</button>
+					</div>
+					{active > 0 && (
+						<button
+							type="button"
+							onClick={() => onChange({ ...EMPTY_FILTERS, match: filters.match })}
+							className="text-xs text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+						>
+							Clear
+						</button>
+					)}
+				</div>
+
+				<div className="space-y-1.5">
+					<Label className="text-xs text-gray-700 dark:text-gray-300">Status</Label>
+					<div className="flex flex-wrap gap-1">
+						{JOB_STATUSES.map((status) => (
+							<button
+								key={status}
+								type="button"
+								className={`${pillClass(filters.status.includes(status))} capitalize`}
+								onClick={() => set({ status: toggle(filters.status, status) })}
+							>
+								{status}
+							</button>
+						))}
+					</div>
+				</div>
+
+				<div className="space-y-1.5">
+					<Label className="text-xs text-gray-700 dark:text-gray-300">Tags</Label>
+					{tags.length === 0 ? (
+						<p className="text-xs text-gray-500 dark:text-gray-400">No tags yet</p>
+					) : (
+						<div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+							{tags.map((tag) => (
+								<button
+									key={tag.id}
+									type="button"
+									onClick={() => set({ tags: toggle(filters.tags, tag.id) })}
+									className={`px-2 py-0.5 rounded-full text-xs font-medium cursor-pointer ${tagChipClass(tag.color)} ${
+										filters.tags.includes(tag.id) ? "ring-2 ring-blue-500" : "opacity-70 hover:opacity-100"
+									}`}
+								>
+									{tag.name}
+								</button>
+							))}
+						</div>
+					)}
+				</div>
+
+				<div className="grid grid-cols-2 gap-2">
+					<div className="space-y-1.5">
+						<Label htmlFor="filter-from" className="text-xs text-gray-700 dark:text-gray-300">Added from</Label>
+						<Input
+							id="filter-from"
+							type="date"
+							value={filters.from ?? ""}
+							onChange={(e) => set({ from: e.target.value || undefined })}
+							className="h-8 text-xs"
+						/>
+					</div>
+					<div className="space-y-1.5">
+						<Label htmlFor="filter-to" className="text-xs text-gray-700 dark:text-gray-300">to</Label>
+						<Input
+							id="filter-to"
+							type="date"
+							value={filters.to ?? ""}
+							onChange={(e) => set({ to: e.target.value || undefined })}
+							className="h-8 text-xs"
+						/>
+					</div>
+					<div className="space-y-1.5">
+						<Label htmlFor="filter-min" className="text-xs text-gray-700 dark:text-gray-300">Min length (min)</Label>
+						<Input
+							id="filter-min"
+							type="number"
+							min={0}
+							step="any"
+							value={secondsToMinutes(filters.minDuration)}
+							onChange={(e) => set({ minDuration: minutesToSeconds(e.target.value) })}
+							className="h-8 text-xs"
+						/>
+					</div>
+					<div className="space-y-1.5">
+						<Label htmlFor="filter-max" className="text-xs text-gray-700 dark:text-gray-300">Max length (min)</Label>
+						<Input
+							id="filter-max"
+							type="number"
+							min={0}
+							step="any"
+							value={secondsToMinutes(filters.maxDuration)}
+							onChange={(e) => set({ maxDuration: minutesToSeconds(e.target.value) })}
+							className="h-8 text-xs"
+						/>
+					</div>
+					<div className="space-y-1.5">
+						<Label className="text-xs text-gray-700 dark:text-gray-300">Diarization</Label>
+						{flagSelect(filters.diarization, (diarization) => set({ diarization }), ["On", "Off"])}
+					</div>
+					<div className="space-y-1.5">
+						<Label className="text-xs text-gray-700 dark:text-gray-300">Multi-track</Label>
+						{flagSelect(filters.multiTrack, (multiTrack) => set({ multiTrack }), ["Only multi-track", "Single track"])}
+					</div>
+				</div>
+				<p className="text-[11px] text-gray-500 dark:text-gray-400">
+					Length is known once a recording is transcribed.
+				</p>
+			</PopoverContent>
+		</Popover>
+	);
+}
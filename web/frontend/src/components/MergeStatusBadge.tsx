@@ -1,6 +1,5 @@
-import { useState, useEffect } from "react";
 import { CheckCircle, AlertCircle, Loader2, Clock } from "lucide-react";
-import { useAuth } from "../contexts/AuthContext";
+import { useJobState } from "../contexts/JobEventsContext";
 
 interface MergeStatusBadgeProps {
 	jobId: string;
@@ -10,37 +9,10 @@ interface MergeStatusBadgeProps {
 }
 
 export function MergeStatusBadge({ jobId, mergeStatus: initialStatus, mergeError: initialError, className }: MergeStatusBadgeProps) {
-	const { getAuthHeaders } = useAuth();
-	const [status, setStatus] = useState(initialStatus || "none");
-	const [error, setError] = useState(initialError);
-
-	// Poll for status updates when processing
-	useEffect(() => {
-		if (status === "processing" || status === "pending") {
-			const interval = setInterval(async () => {
-				try {
-					const response = await fetch(`/api/v1/transcription/${jobId}/merge-status`, {
-						headers: getAuthHeaders(),
-					});
-					
-					if (response.ok) {
-						const data = await response.json();
-						setStatus(data.merge_status);
-						setError(data.merge_error);
-						
-						// Stop polling when processing is complete
-						if (data.merge_status === "completed" || data.merge_status === "failed") {
-							clearInterval(interval);
-						}
-					}
-				} catch (error) {
-					console.error("Failed to fetch merge status:", error);
-				}
-			}, 2000); // Poll every 2 seconds
-
-			return () => clearInterval(interval);
-		}
-	}, [status, jobId, getAuthHeaders]);
+	// Live merge status from the shared job event store, falling back to the props
+	const liveJob = useJobState(jobId);
+	const status = liveJob?.merge_status || initialStatus || "none";
+	const error = liveJob ? liveJob.merge_error : initialError;
 
 	if (status === "none") {
 		return null; // Don't show badge for single-track files
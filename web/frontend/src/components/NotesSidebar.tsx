@@ -3,21 +3,24 @@ import type { Note } from "../types/note";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Textarea } from "./ui/textarea";
-import { Trash2, Pencil, Save, X, ExternalLink, Copy, Check } from "lucide-react";
+import { Trash2, Pencil, Save, X, ExternalLink, Copy, Check, Link } from "lucide-react";
 
 interface NotesSidebarProps {
   notes: Note[];
   onEdit: (id: string, newContent: string) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
   onJumpTo: (time: number) => void;
+  // Link that opens the transcript at a note's words
+  getLink?: (note: Note) => string;
 }
 
-export function NotesSidebar({ notes, onEdit, onDelete, onJumpTo }: NotesSidebarProps) {
+export function NotesSidebar({ notes, onEdit, onDelete, onJumpTo, getLink }: NotesSidebarProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [draft, setDraft] = useState<string>("");
   const [saving, setSaving] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [linkCopiedId, setLinkCopiedId] = useState<string | null>(null);
 
   const startEdit = (n: Note) => {
     setEditingId(n.id);
@@ -85,6 +88,26 @@ export function NotesSidebar({ notes, onEdit, onDelete, onJumpTo }: NotesSidebar
               >
                 {copiedId === n.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
               </Button>
+              {/* Share a link to the note's moment */}
+              {getLink && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  title={linkCopiedId === n.id ? "Link copied" : "Copy link to this moment"}
+                  onClick={async () => {
+                    try {
+                      await navigator.clipboard.writeText(getLink(n));
+                      setLinkCopiedId(n.id);
+                      setTimeout(() => setLinkCopiedId((prev) => (prev === n.id ? null : prev)), 1200);
+                    } catch (e) {
+                      console.error("Failed to copy link", e);
+                    }
+                  }}
+                >
+                  {linkCopiedId === n.id ? <Check className="h-3.5 w-3.5" /> : <Link className="h-3.5 w-3.5" />}
+                </Button>
+              )}
               {editingId === n.id ? (
                 <>
                   <Button size="icon" variant="ghost" className="h-6 w-6" disabled={saving} onClick={() => saveEdit(n.id)} title="Save">
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Repeat, X } from "lucide-react";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { PLAYBACK_RATES, type LoopRange, type PlaybackSettings } from "../utils/playback";
+
+interface PlaybackControlsProps {
+	settings: PlaybackSettings;
+	onSettingsChange: (settings: PlaybackSettings) => void;
+	currentTime: number;
+	// The segment being played, which "Loop segment" repeats
+	currentSegment: LoopRange | null;
+	loop: LoopRange | null;
+	onLoopChange: (loop: LoopRange | null) => void;
+}
+
+const formatTime = (seconds: number) => {
+	const m = Math.floor(seconds / 60);
+	const s = seconds - m * 60;
+	return `${m}:${s.toFixed(1).padStart(4, "0")}`;
+};
+
+const buttonClass = (active: boolean) =>
+	`h-7 px-2 inline-flex items-center gap-1 rounded-md text-xs font-medium cursor-pointer transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+		active
+			? "bg-blue-600 text-white"
+			: "text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+	}`;
+
+/**
+ * Speed, skip silence and the A–B loop, under the waveform
+ */
+export function PlaybackControls({ settings, onSettingsChange, currentTime, currentSegment, loop, onLoopChange }: PlaybackControlsProps) {
+	// Loop start picked with A, waiting for B
+	const [pointA, setPointA] = useState<number | null>(null);
+	const [thresholdInput, setThresholdInput] = useState(String(settings.silenceThreshold));
+
+	useEffect(() => {
+		setThresholdInput(String(settings.silenceThreshold));
+	}, [settings.silenceThreshold]);
+
+	const commitThreshold = () => {
+		const seconds = Number(thresholdInput);
+		if (Number.isFinite(seconds) && seconds >= 0.5 && seconds <= 60) {
+			onSettingsChange({ ...settings, silenceThreshold: seconds });
+		} else {
+			setThresholdInput(String(settings.silenceThreshold));
+		}
+	};
+
+	const setA = () => {
+		setPointA(currentTime);
+		onLoopChange(null);
+	};
+
+	const setB = () => {
+		if (pointA === null) return;
+		const start = Math.min(pointA, currentTime);
+		const end = Math.max(pointA, currentTime);
+		setPointA(null);
+		if (end - start >= 0.2) onLoopChange({ start, end });
+	};
+
+	const clearLoop = () => {
+		setPointA(null);
+		onLoopChange(null);
+	};
+
+	return (
+		<div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2">
+			<div className="flex items-center gap-1.5">
+				<span className="text-xs text-gray-600 dark:text-gray-400">Speed</span>
+				<Select value={String(settings.rate)} onValueChange={(value) => onSettingsChange({ ...settings, rate: Number(value) })}>
+					<SelectTrigger className="h-7 w-[76px] text-xs" aria-label="Playback speed">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{PLAYBACK_RATES.map((rate) => (
+							<SelectItem key={rate} value={String(rate)}>
+								{rate}×
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div className="flex items-center gap-1.5">
+				<Switch
+					id="skipSilence"
+					checked={settings.skipSilence}
+					onCheckedChange={(skipSilence) => onSettingsChange({ ...settings, skipSilence })}
+				/>
+				<label htmlFor="skipSilence" className="text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+					Skip silence over
+				</label>
+				<input
+					type="number"
+					min={0.5}
+					max={60}
+					step={0.5}
+					value={thresholdInput}
+					onChange={(e) => setThresholdInput(e.target.value)}
+					onBlur={commitThreshold}
+					onKeyDown={(e) => e.key === "Enter" && commitThreshold()}
+					className="h-7 w-14 px-1.5 text-xs rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100"
+					aria-label="Shortest silence to skip, in seconds"
+				/>
+				<span className="text-xs text-gray-600 dark:text-gray-400">s</span>
+			</div>
+
+			<div className="flex items-center gap-1">
+				<Repeat className="h-3.5 w-3.5 text-gray-500" />
+				<button type="button" onClick={setA} className={buttonClass(pointA !== null)} title="Start the loop here">
+					A
+				</button>
+				<button type="button" onClick={setB} disabled={pointA === null} className={buttonClass(false)} title="End the loop here">
+					B
+				</button>
+				<button
+					type="button"
+					onClick={() => {
+						setPointA(null);
+						onLoopChange(currentSegment);
+					}}
+					disabled={!currentSegment}
+					className={buttonClass(false)}
+					title="Repeat the segment being played"
+				>
+					Segment
+				</button>
+				{(loop || pointA !== null) && (
+					<>
+						<span className="ml-1 text-xs tabular-nums text-gray-600 dark:text-gray-400">
+							{loop ? `${formatTime(loop.start)} – ${formatTime(loop.end)}` : `${formatTime(pointA!)} – …`}
+						</span>
+						<button
+							type="button"
+							onClick={clearLoop}
+							className="h-6 w-6 inline-flex items-center justify-center rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
+							title="Stop looping"
+						>
+							<X className="h-3.5 w-3.5" />
+						</button>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,5 +1,6 @@
 import type { ReactNode } from "react";
 import { useAuth } from "../contexts/AuthContext";
+import { useRouter } from "../contexts/RouterContext";
 import { Login } from "../pages/Login";
 import { Register } from "../pages/Register";
 
@@ -9,6 +10,12 @@ interface ProtectedRouteProps {
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
 	const { isAuthenticated, requiresRegistration, isInitialized, login } = useAuth();
+	const { currentRoute } = useRouter();
+
+	// Share links are for people without an account
+	if (currentRoute.path === "share") {
+		return <>{children}</>;
+	}
 
 	// Show loading while initializing
 	if (!isInitialized) {
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Download, Loader2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "../contexts/AuthContext";
+import { cancelUploadSession, uploadInChunks } from "../utils/chunkedUpload";
+import {
+	deleteRecording,
+	holdRecordingLock,
+	isRecordingInUse,
+	listRecordings,
+	loadRecordingBlob,
+	recordingFileName,
+	updateRecording,
+} from "../utils/recordingStore";
+import type { StoredRecording } from "../utils/recordingStore";
+
+interface RecordingRecoveryDialogProps {
+	onUploadComplete?: () => void;
+}
+
+// The header mounts on every page; only offer recovery once per page load
+let recoveryChecked = false;
+
+const formatDuration = (ms: number) => {
+	const totalSeconds = Math.floor(ms / 1000);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	const mmss = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+	return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const formatSize = (bytes: number) =>
+	bytes >= 1024 * 1024
+		? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+		: `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Offers to upload, download or discard recordings left in the browser by a
+ * tab that closed, crashed or went to sleep before uploading them
+ */
+export function RecordingRecoveryDialog({ onUploadComplete }: RecordingRecoveryDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const [recordings, setRecordings] = useState<StoredRecording[]>([]);
+	const [isOpen, setIsOpen] = useState(false);
+	const [busyId, setBusyId] = useState<string | null>(null);
+	const [progress, setProgress] = useState(0);
+
+	useEffect(() => {
+		if (recoveryChecked || typeof indexedDB === "undefined") return;
+		recoveryChecked = true;
+
+		const check = async () => {
+			try {
+				const stored = await listRecordings();
+				const inUse = await Promise.all(stored.map((recording) => isRecordingInUse(recording.id)));
+				const abandoned = stored.filter((recording, index) => !inUse[index] && recording.size > 0);
+				if (abandoned.length > 0) {
+					setRecordings(abandoned);
+					setIsOpen(true);
+				}
+			} catch (error) {
+				console.error("Failed to read saved recordings:", error);
+			}
+		};
+		check();
+	}, []);
+
+	const removeFromList = (id: string) => {
+		setRecordings((prev) => {
+			const next = prev.filter((recording) => recording.id !== id);
+			if (next.length === 0) setIsOpen(false);
+			return next;
+		});
+	};
+
+	const handleUpload = async (recording: StoredRecording) => {
+		setBusyId(recording.id);
+		setProgress(0);
+		const releaseLock = holdRecordingLock(recording.id);
+		try {
+			const blob = await loadRecordingBlob(recording);
+			await uploadInChunks(blob, {
+				fileName: recordingFileName(recording.title, blob.type),
+				title: recording.title,
+				sessionId: recording.uploadSessionId,
+				getHeaders: getAuthHeaders,
+				onSession: (sessionId) => {
+					recording.uploadSessionId = sessionId;
+					updateRecording(recording.id, { uploadSessionId: sessionId }).catch(() => {});
+				},
+				onProgress: (uploaded, total) => setProgress(total ? (uploaded / total) * 100 : 100),
+			});
+			await deleteRecording(recording.id);
+			removeFromList(recording.id);
+			onUploadComplete?.();
+		} catch (error) {
+			console.error("Failed to upload recovered recording:", error);
+			alert("Failed to upload recording. It is still saved; try again to resume the upload.");
+		} finally {
+			releaseLock();
+			setBusyId(null);
+		}
+	};
+
+	const handleDownload = async (recording: StoredRecording) => {
+		try {
+			const blob = await loadRecordingBlob(recording);
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = recordingFileName(recording.title, blob.type);
+			link.click();
+			URL.revokeObjectURL(url);
+		} catch (error) {
+			console.error("Failed to read recording:", error);
+			alert("Failed to read recording");
+		}
+	};
+
+	const handleDiscard = async (recording: StoredRecording) => {
+		if (!confirm(`Discard "${recording.title}"? This cannot be undone.`)) return;
+		try {
+			await deleteRecording(recording.id);
+			if (recording.uploadSessionId) {
+				cancelUploadSession(recording.uploadSessionId, getAuthHeaders);
+			}
+			removeFromList(recording.id);
+		} catch (error) {
+			console.error("Failed to discard recording:", error);
+		}
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={(open) => !busyId && setIsOpen(open)}>
+			<DialogContent className="sm:max-w-[600px] bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+				<DialogHeader>
+					<DialogTitle className="text-gray-900 dark:text-gray-100 text-xl font-semibold">
+						Recover Recordings
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						These recordings were saved in this browser but never uploaded.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-3 max-h-[50vh] overflow-y-auto">
+					{recordings.map((recording) => (
+						<div
+							key={recording.id}
+							className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2"
+						>
+							<div className="flex items-start justify-between gap-3">
+								<div className="min-w-0">
+									<div className="font-medium text-gray-900 dark:text-gray-100 truncate">
+										{recording.title}
+									</div>
+									<div className="text-xs text-gray-500 dark:text-gray-400">
+										{new Date(recording.startedAt).toLocaleString()} ·{" "}
+										{formatDuration(recording.duration)} · {formatSize(recording.size)}
+										{!recording.finished && (
+											<span className="ml-2 text-amber-600 dark:text-amber-400">
+												Interrupted
+											</span>
+										)}
+									</div>
+								</div>
+								<div className="flex items-center gap-1 shrink-0">
+									<Button
+										size="sm"
+										onClick={() => handleUpload(recording)}
+										disabled={busyId !== null}
+										className="bg-blue-500 hover:bg-blue-600 text-white"
+									>
+										{busyId === recording.id ? (
+											<Loader2 className="h-4 w-4 animate-spin" />
+										) : (
+											<Upload className="h-4 w-4" />
+										)}
+										<span className="ml-1">Upload</span>
+									</Button>
+									<Button
+										size="icon"
+										variant="ghost"
+										onClick={() => handleDownload(recording)}
+										title="Download"
+									>
+										<Download className="h-4 w-4" />
+									</Button>
+									<Button
+										size="icon"
+										variant="ghost"
+										onClick={() => handleDiscard(recording)}
+										disabled={busyId === recording.id}
+										title="Discard"
+										className="text-red-600 hover:text-red-700"
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								</div>
+							</div>
+							{busyId === recording.id && <Progress value={progress} className="h-2" />}
+						</div>
+					))}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => setIsOpen(false)} disabled={busyId !== null}>
+						Later
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
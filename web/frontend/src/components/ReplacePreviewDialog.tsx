@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Loader2, Replace } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "./ui/toast";
+import type { Transcript } from "../types/transcript";
+import { applyReplacements, type PlannedReplacement } from "../utils/transcriptReplace";
+
+interface ReplacePreviewDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	transcriptionId: string;
+	transcript: Transcript;
+	query: string;
+	replacement: string;
+	replacements: PlannedReplacement[];
+	getSpeakerName: (speaker: string) => string;
+	onApplied: (transcript: Transcript, version: number) => void;
+}
+
+const formatTimestamp = (seconds: number): string => {
+	const minutes = Math.floor(seconds / 60);
+	const secs = Math.floor(seconds % 60);
+	return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function ReplacePreviewDialog({
+	open,
+	onOpenChange,
+	transcriptionId,
+	transcript,
+	query,
+	replacement,
+	replacements,
+	getSpeakerName,
+	onApplied,
+}: ReplacePreviewDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const { toast } = useToast();
+	const [selected, setSelected] = useState<Set<number>>(new Set());
+	const [applying, setApplying] = useState(false);
+
+	// Every change is selected by default each time the preview opens
+	useEffect(() => {
+		if (open) setSelected(new Set(replacements.map((_, i) => i)));
+	}, [open, replacements]);
+
+	const toggle = (index: number) => {
+		setSelected(prev => {
+			const next = new Set(prev);
+			if (next.has(index)) next.delete(index);
+			else next.add(index);
+			return next;
+		});
+	};
+
+	const handleApply = async () => {
+		const chosen = replacements.filter((_, i) => selected.has(i));
+		if (chosen.length === 0) return;
+		const updated = applyReplacements(transcript, chosen);
+		const message = `Replaced "${query}" with "${replacement}" (${chosen.length} change${chosen.length !== 1 ? "s" : ""})`;
+
+		setApplying(true);
+		try {
+			const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+				body: JSON.stringify({ transcript: updated, message }),
+			});
+			if (!res.ok) {
+				const data = await res.json().catch(() => ({}));
+				throw new Error(data.error || `HTTP ${res.status}`);
+			}
+			const revision: { version: number } = await res.json();
+			toast({ title: "Replacements applied", description: `${message}. Saved as version ${revision.version}.` });
+			onApplied(updated, revision.version);
+			onOpenChange(false);
+		} catch (e) {
+			toast({ title: "Failed to apply replacements", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setApplying(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 max-h-[85vh] overflow-hidden flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+						<Replace className="h-5 w-5" />
+						Review replacements
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						Uncheck any change you want to keep as is. All selected changes are saved together as one revision.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+					<span>
+						{selected.size} of {replacements.length} selected
+					</span>
+					<div className="flex gap-2">
+						<button type="button" className="hover:underline cursor-pointer" onClick={() => setSelected(new Set(replacements.map((_, i) => i)))}>
+							Select all
+						</button>
+						<button type="button" className="hover:underline cursor-pointer" onClick={() => setSelected(new Set())}>
+							Select none
+						</button>
+					</div>
+				</div>
+
+				<ul className="flex-1 overflow-y-auto space-y-2 pr-1 min-h-0">
+					{replacements.map((r, i) => (
+						<li key={`${r.match.offset}-${i}`}>
+							<label className="flex gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 cursor-pointer">
+								<input
+									type="checkbox"
+									checked={selected.has(i)}
+									onChange={() => toggle(i)}
+									className="mt-1 h-4 w-4 accent-blue-600 flex-shrink-0"
+								/>
+								<div className="min-w-0">
+									<div className="flex items-center gap-2 mb-1">
+										<span className="px-1.5 py-0.5 text-[11px] font-mono bg-blue-100 dark:bg-blue-700 text-blue-800 dark:text-blue-200 rounded">
+											{formatTimestamp(r.match.start)}
+										</span>
+										{r.speaker && (
+											<span className="text-xs font-medium text-gray-500 dark:text-gray-400">{getSpeakerName(r.speaker)}</span>
+										)}
+									</div>
+									<p className="text-sm text-gray-700 dark:text-gray-200 break-words">
+										{r.before}
+										<del className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 rounded px-0.5">{r.match.text}</del>
+										<ins className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 rounded px-0.5">{r.replacement}</ins>
+										{r.after}
+									</p>
+								</div>
+							</label>
+						</li>
+					))}
+				</ul>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+						Cancel
+					</Button>
+					<Button
+						onClick={handleApply}
+						disabled={applying || selected.size === 0}
+						className="bg-blue-600 hover:bg-blue-700 text-white"
+					>
+						{applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+						Apply {selected.size} change{selected.size !== 1 ? "s" : ""}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
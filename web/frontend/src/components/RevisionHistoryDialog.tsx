@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "./ui/toast";
+import type { Transcript } from "../types/transcript";
+import { countDiffWords, diffWords } from "../utils/wordDiff";
+
+interface RevisionHistoryDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	transcriptionId: string;
+	onRestored: (transcript: Transcript) => void;
+}
+
+interface RevisionSummary {
+	id: string;
+	version: number;
+	author: string;
+	source: "transcription" | "edit" | "restore";
+	message?: string;
+	created_at: string;
+}
+
+const SOURCE_LABELS: Record<RevisionSummary["source"], string> = {
+	transcription: "Transcription",
+	edit: "Edit",
+	restore: "Restore",
+};
+
+const SOURCE_STYLES: Record<RevisionSummary["source"], string> = {
+	transcription: "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200",
+	edit: "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200",
+	restore: "bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200",
+};
+
+const getTranscriptText = (transcript: Transcript): string => {
+	if (transcript.segments && transcript.segments.length > 0) {
+		return transcript.segments.map(s => s.text.trim()).join(" ");
+	}
+	return transcript.text;
+};
+
+export function RevisionHistoryDialog({ open, onOpenChange, transcriptionId, onRestored }: RevisionHistoryDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const { toast } = useToast();
+	const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+	const [transcripts, setTranscripts] = useState<Record<string, Transcript>>({});
+	const [loading, setLoading] = useState(false);
+	const [fromId, setFromId] = useState("");
+	const [toId, setToId] = useState("");
+	const [restoringId, setRestoringId] = useState<string | null>(null);
+
+	const loadRevisions = async () => {
+		setLoading(true);
+		try {
+			const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions`, {
+				headers: { ...getAuthHeaders() },
+			});
+			if (!res.ok) throw new Error(`HTTP ${res.status}`);
+			const data: RevisionSummary[] = await res.json();
+			setRevisions(data);
+			// Compare the latest revision with the one before it by default
+			setToId(data[0]?.id || "");
+			setFromId(data[1]?.id || data[0]?.id || "");
+		} catch (e) {
+			toast({ title: "Failed to load revision history", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		if (open && transcriptionId) {
+			void loadRevisions();
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [open, transcriptionId]);
+
+	// Revision bodies are immutable, so each one is fetched at most once
+	useEffect(() => {
+		const missing = [fromId, toId].filter(id => id && !transcripts[id]);
+		if (missing.length === 0) return;
+		let cancelled = false;
+		Promise.all(
+			Array.from(new Set(missing)).map(async id => {
+				const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions/${id}`, {
+					headers: { ...getAuthHeaders() },
+				});
+				if (!res.ok) throw new Error(`HTTP ${res.status}`);
+				const data: { transcript: Transcript } = await res.json();
+				return [id, data.transcript] as const;
+			}),
+		)
+			.then(entries => {
+				if (cancelled) return;
+				setTranscripts(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+			})
+			.catch(e => {
+				if (cancelled) return;
+				toast({ title: "Failed to load revision", description: e instanceof Error ? e.message : String(e) });
+			});
+		return () => {
+			cancelled = true;
+		};
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [fromId, toId, transcriptionId]);
+
+	const diff = useMemo(() => {
+		const from = transcripts[fromId];
+		const to = transcripts[toId];
+		if (!from || !to) return null;
+		return diffWords(getTranscriptText(from), getTranscriptText(to));
+	}, [transcripts, fromId, toId]);
+
+	const counts = useMemo(() => (diff ? countDiffWords(diff) : null), [diff]);
+
+	const handleRestore = async (revision: RevisionSummary) => {
+		if (!confirm(`Restore version ${revision.version}? The current transcript stays in the history.`)) return;
+		setRestoringId(revision.id);
+		try {
+			const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions/${revision.id}/restore`, {
+				method: "POST",
+				headers: { ...getAuthHeaders() },
+			});
+			if (!res.ok) {
+				const data = await res.json().catch(() => ({}));
+				throw new Error(data.error || `HTTP ${res.status}`);
+			}
+			const restored: { id: string; transcript: string } = await res.json();
+			const transcript: Transcript = JSON.parse(restored.transcript);
+			setTranscripts(prev => ({ ...prev, [restored.id]: transcript }));
+			onRestored(transcript);
+			toast({ title: "Revision restored", description: `Version ${revision.version} is now the current transcript.` });
+			await loadRevisions();
+		} catch (e) {
+			toast({ title: "Failed to restore revision", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setRestoringId(null);
+		}
+	};
+
+	const renderRevisionOption = (revision: RevisionSummary) => (
+		<SelectItem key={revision.id} value={revision.id}>
+			v{revision.version} · {SOURCE_LABELS[revision.source] || revision.source} · {new Date(revision.created_at).toLocaleString()}
+		</SelectItem>
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-4xl bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 max-h-[85vh] overflow-hidden flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+						<History className="h-5 w-5" />
+						Revision history
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						Every edit, restore and re-transcription is kept as a revision. Compare any two versions or restore an older one.
+					</DialogDescription>
+				</DialogHeader>
+
+				{loading && revisions.length === 0 ? (
+					<div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400">
+						<Loader2 className="h-5 w-5 mr-2 animate-spin" />
+						Loading revisions...
+					</div>
+				) : revisions.length === 0 ? (
+					<p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+						No revisions yet. Edits and re-transcriptions will appear here.
+					</p>
+				) : (
+					<div className="flex flex-col md:flex-row gap-4 min-h-0 flex-1">
+						{/* Revision list */}
+						<div className="md:w-72 flex-shrink-0 overflow-y-auto max-h-60 md:max-h-none space-y-2 pr-1">
+							{revisions.map((revision, index) => (
+								<div
+									key={revision.id}
+									className={`p-3 rounded-lg border text-sm ${
+										revision.id === toId
+											? "border-blue-400 dark:border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+											: "border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50"
+									}`}
+								>
+									<div className="flex items-center gap-2">
+										<span className="font-semibold text-gray-900 dark:text-gray-100">v{revision.version}</span>
+										<span className={`px-1.5 py-0.5 rounded text-[11px] ${SOURCE_STYLES[revision.source] || SOURCE_STYLES.edit}`}>
+											{SOURCE_LABELS[revision.source] || revision.source}
+										</span>
+										{index === 0 && (
+											<span className="ml-auto text-[11px] font-medium text-green-700 dark:text-green-400">Current</span>
+										)}
+									</div>
+									<p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+										{revision.author} · {new Date(revision.created_at).toLocaleString()}
+									</p>
+									{revision.message && (
+										<p className="mt-1 text-xs text-gray-700 dark:text-gray-300 break-words">{revision.message}</p>
+									)}
+									<div className="mt-2 flex gap-2">
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-6 px-2 text-xs"
+											onClick={() => setToId(revision.id)}
+										>
+											Compare
+										</Button>
+										{index > 0 && (
+											<Button
+												variant="ghost"
+												size="sm"
+												className="h-6 px-2 text-xs"
+												onClick={() => handleRestore(revision)}
+												disabled={restoringId !== null}
+											>
+												{restoringId === revision.id ? (
+													<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+												) : (
+													<RotateCcw className="h-3 w-3 mr-1" />
+												)}
+												Restore
+											</Button>
+										)}
+									</div>
+								</div>
+							))}
+						</div>
+
+						{/* Diff */}
+						<div className="flex-1 min-w-0 flex flex-col min-h-0">
+							<div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3">
+								<Select value={fromId} onValueChange={setFromId}>
+									<SelectTrigger className="h-8 text-xs sm:flex-1">
+										<SelectValue placeholder="From" />
+									</SelectTrigger>
+									<SelectContent>{revisions.map(renderRevisionOption)}</SelectContent>
+								</Select>
+								<span className="text-xs text-gray-500 dark:text-gray-400 text-center">→</span>
+								<Select value={toId} onValueChange={setToId}>
+									<SelectTrigger className="h-8 text-xs sm:flex-1">
+										<SelectValue placeholder="To" />
+									</SelectTrigger>
+									<SelectContent>{revisions.map(renderRevisionOption)}</SelectContent>
+								</Select>
+							</div>
+							{counts && (
+								<p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+									<span className="text-green-700 dark:text-green-400">+{counts.inserted}</span>
+									{" / "}
+									<span className="text-red-700 dark:text-red-400">−{counts.deleted}</span>
+									{" words"}
+								</p>
+							)}
+							<div className="flex-1 overflow-y-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-900/40 text-sm leading-relaxed text-gray-700 dark:text-gray-200 break-words min-h-40">
+								{!diff ? (
+									<div className="flex items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+										<Loader2 className="h-4 w-4 mr-2 animate-spin" />
+										Loading...
+									</div>
+								) : fromId === toId ? (
+									<p className="text-gray-500 dark:text-gray-400">Select two different revisions to see what changed.</p>
+								) : (
+									diff.map((part, i) => {
+										if (part.op === "insert") {
+											return (
+												<ins key={i} className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 rounded px-0.5">
+													{part.text}{" "}
+												</ins>
+											);
+										}
+										if (part.op === "delete") {
+											return (
+												<del key={i} className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 rounded px-0.5">
+													{part.text}{" "}
+												</del>
+											);
+										}
+										return <span key={i}>{part.text} </span>;
+									})
+								)}
+							</div>
+						</div>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bookmark, BookmarkPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRouter } from "../contexts/RouterContext";
+import { useAuth } from "../contexts/AuthContext";
+import { ensureOk } from "../utils/batch";
+import { parseFilters, serializeFilters } from "../utils/libraryFilters";
+
+interface SavedView {
+	id: string;
+	name: string;
+	query: string;
+}
+
+// Same filters written the same way, whatever order they were saved in
+const normalize = (query: string | undefined) => serializeFilters(parseFilters(query));
+
+/**
+ * Named filter combinations in the sidebar. Opening one applies its filters
+ * to the library being shown, the whole library or a folder.
+ */
+export function SavedViews() {
+	const { currentRoute, navigate } = useRouter();
+	const { getAuthHeaders } = useAuth();
+	const [views, setViews] = useState<SavedView[]>([]);
+
+	const current = normalize(currentRoute.params?.filters);
+
+	const fetchViews = useCallback(async () => {
+		try {
+			const response = await fetch("/api/v1/views", { headers: { ...getAuthHeaders() } });
+			if (response.ok) setViews((await response.json()) || []);
+		} catch (error) {
+			console.error("Failed to fetch saved views:", error);
+		}
+	}, [getAuthHeaders]);
+
+	useEffect(() => {
+		fetchViews();
+	}, [fetchViews]);
+
+	const openView = (view: SavedView) => {
+		navigate({ ...currentRoute, params: { ...currentRoute.params, filters: normalize(view.query) || undefined } });
+	};
+
+	const saveView = async () => {
+		const name = prompt("Name this view")?.trim();
+		if (!name) return;
+		try {
+			await ensureOk(
+				await fetch("/api/v1/views", {
+					method: "POST",
+					headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+					body: JSON.stringify({ name, query: current }),
+				}),
+			);
+			fetchViews();
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to save view");
+		}
+	};
+
+	const deleteView = async (view: SavedView) => {
+		if (!confirm(`Delete the view "${view.name}"?`)) return;
+		try {
+			await ensureOk(await fetch(`/api/v1/views/${view.id}`, { method: "DELETE", headers: { ...getAuthHeaders() } }));
+			setViews((prev) => prev.filter((v) => v.id !== view.id));
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to delete view");
+		}
+	};
+
+	return (
+		<nav className="bg-white dark:bg-gray-800 rounded-xl p-3" aria-label="Saved views">
+			<div className="flex items-center justify-between px-1 pb-2">
+				<h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Views</h2>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-7 w-7"
+					onClick={saveView}
+					disabled={!current}
+					title={current ? "Save the current filters as a view" : "Set some filters to save them as a view"}
+				>
+					<BookmarkPlus className="h-4 w-4" />
+				</Button>
+			</div>
+			<ul>
+				{views.map((view) => {
+					const active = normalize(view.query) === current;
+					return (
+						<li
+							key={view.id}
+							onClick={() => openView(view)}
+							className={`group flex items-center gap-2 rounded-md px-1 text-sm cursor-pointer transition-colors ${
+								active
+									? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-medium"
+									: "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+							}`}
+						>
+							<Bookmark className={`ml-5 h-4 w-4 flex-shrink-0 ${active ? "text-blue-500" : "text-gray-400"}`} />
+							<span className="flex-1 truncate py-1.5">{view.name}</span>
+							<button
+								type="button"
+								onClick={(e) => {
+									e.stopPropagation();
+									deleteView(view);
+								}}
+								className="p-0.5 rounded text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+								aria-label={`Delete ${view.name}`}
+							>
+								<X className="h-3.5 w-3.5" />
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+			{views.length === 0 && (
+				<p className="px-1 text-xs text-gray-500 dark:text-gray-400">
+					Filter the library, then save the filters here to come back to them.
+				</p>
+			)}
+		</nav>
+	);
+}
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2 } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useAuth } from "../contexts/AuthContext";
+import { ensureOk } from "../utils/batch";
+import { parseMomentTime } from "../utils/deepLinks";
+import { SHARE_EXPIRY_OPTIONS, formatClockTime, formatShareRange, shareLinkUrl, type ShareLink } from "../utils/shareLinks";
+
+interface ShareDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	audioId: string;
+	// Range offered for "Only part of the recording", e.g. the current loop
+	suggestedRange?: { start: number; end: number } | null;
+}
+
+/**
+ * Creates a public read-only link to the transcript and audio
+ */
+export function ShareDialog({ open, onOpenChange, audioId, suggestedRange }: ShareDialogProps) {
+	const { getAuthHeaders } = useAuth();
+	const [label, setLabel] = useState("");
+	const [expiresInHours, setExpiresInHours] = useState(String(SHARE_EXPIRY_OPTIONS[1].hours));
+	const [password, setPassword] = useState("");
+	const [limitRange, setLimitRange] = useState(false);
+	const [startInput, setStartInput] = useState("");
+	const [endInput, setEndInput] = useState("");
+	const [includeSummary, setIncludeSummary] = useState(false);
+	const [creating, setCreating] = useState(false);
+	const [error, setError] = useState("");
+	const [created, setCreated] = useState<ShareLink | null>(null);
+	const [copied, setCopied] = useState(false);
+
+	// Start afresh each time the dialog opens
+	useEffect(() => {
+		if (!open) return;
+		setLabel("");
+		setExpiresInHours(String(SHARE_EXPIRY_OPTIONS[1].hours));
+		setPassword("");
+		setLimitRange(!!suggestedRange);
+		setStartInput(suggestedRange ? formatClockTime(suggestedRange.start) : "");
+		setEndInput(suggestedRange ? formatClockTime(Math.ceil(suggestedRange.end)) : "");
+		setIncludeSummary(false);
+		setError("");
+		setCreated(null);
+		setCopied(false);
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [open]);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		let startTime: number | undefined;
+		let endTime: number | undefined;
+		if (limitRange) {
+			startTime = startInput.trim() ? parseMomentTime(startInput.trim()) : 0;
+			endTime = endInput.trim() ? parseMomentTime(endInput.trim()) : undefined;
+			if (startTime === undefined || (endInput.trim() && endTime === undefined)) {
+				setError("Enter times as seconds or mm:ss");
+				return;
+			}
+			if (endTime !== undefined && endTime <= startTime) {
+				setError("The end must come after the start");
+				return;
+			}
+		}
+
+		setCreating(true);
+		try {
+			const res = await ensureOk(
+				await fetch(`/api/v1/transcription/${audioId}/shares`, {
+					method: "POST",
+					headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+					body: JSON.stringify({
+						label: label.trim(),
+						expires_in_hours: Number(expiresInHours),
+						password,
+						start_time: startTime,
+						end_time: endTime,
+						include_summary: includeSummary,
+					}),
+				}),
+			);
+			setCreated(await res.json());
+		} catch (e) {
+			setError(e instanceof Error ? e.message : "Failed to create share link");
+		} finally {
+			setCreating(false);
+		}
+	};
+
+	const copyLink = async () => {
+		if (!created) return;
+		try {
+			await navigator.clipboard.writeText(shareLinkUrl(created.token));
+			setCopied(true);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : "Failed to copy link");
+		}
+	};
+
+	const createdRange = created ? formatShareRange(created) : null;
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !creating && onOpenChange(next)}>
+			<DialogContent className="sm:max-w-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+						<Link2 className="h-5 w-5" />
+						Share
+					</DialogTitle>
+					<DialogDescription>
+						Anyone with the link can play the audio and read the transcript, without an account. They can't edit it, chat about it or see your notes.
+					</DialogDescription>
+				</DialogHeader>
+
+				{created ? (
+					<div className="space-y-4">
+						<div className="flex gap-2">
+							<Input readOnly value={shareLinkUrl(created.token)} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+							<Button type="button" variant="outline" onClick={copyLink} aria-label="Copy link">
+								{copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+							</Button>
+						</div>
+						<p className="text-sm text-gray-600 dark:text-gray-400">
+							Works until {new Date(created.expires_at).toLocaleString()}
+							{createdRange && `, for ${createdRange} only`}
+							{created.has_password && ", with the password you set"}. Revoke it any time in Settings → Sharing.
+						</p>
+						{error && (
+							<div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">{error}</div>
+						)}
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => setCreated(null)}>
+								Create another
+							</Button>
+							<Button type="button" onClick={() => onOpenChange(false)} className="bg-blue-600 hover:bg-blue-700 text-white">
+								Done
+							</Button>
+						</DialogFooter>
+					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor="shareLabel">Label</Label>
+							<Input
+								id="shareLabel"
+								placeholder="e.g., For the client"
+								value={label}
+								onChange={(e) => setLabel(e.target.value)}
+								maxLength={255}
+								disabled={creating}
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor="shareExpiry">Expires after</Label>
+							<Select value={expiresInHours} onValueChange={setExpiresInHours} disabled={creating}>
+								<SelectTrigger id="shareExpiry">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{SHARE_EXPIRY_OPTIONS.map((option) => (
+										<SelectItem key={option.hours} value={String(option.hours)}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor="sharePassword">Password</Label>
+							<Input
+								id="sharePassword"
+								type="password"
+								autoComplete="new-password"
+								placeholder="Optional"
+								value={password}
+								onChange={(e) => setPassword(e.target.value)}
+								disabled={creating}
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<div className="flex items-center gap-2">
+								<Switch id="shareLimitRange" checked={limitRange} onCheckedChange={setLimitRange} disabled={creating} />
+								<Label htmlFor="shareLimitRange">Only part of the recording</Label>
+							</div>
+							{limitRange && (
+								<div className="flex items-center gap-2">
+									<Input
+										aria-label="From"
+										placeholder="From (0:00)"
+										value={startInput}
+										onChange={(e) => setStartInput(e.target.value)}
+										disabled={creating}
+									/>
+									<span className="text-gray-500">–</span>
+									<Input
+										aria-label="To"
+										placeholder="To (end)"
+										value={endInput}
+										onChange={(e) => setEndInput(e.target.value)}
+										disabled={creating}
+									/>
+								</div>
+							)}
+						</div>
+
+						<div className="flex items-center gap-2">
+							<Switch id="shareIncludeSummary" checked={includeSummary} onCheckedChange={setIncludeSummary} disabled={creating} />
+							<Label htmlFor="shareIncludeSummary">Include the summary, if there is one</Label>
+						</div>
+
+						{error && (
+							<div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">{error}</div>
+						)}
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={creating}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={creating} className="bg-blue-600 hover:bg-blue-700 text-white">
+								{creating ? "Creating..." : "Create link"}
+							</Button>
+						</DialogFooter>
+					</form>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
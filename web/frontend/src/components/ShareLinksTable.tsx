@@ -0,0 +1,202 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Trash2, Calendar, Clock, Copy, Lock } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { useRouter } from "../contexts/RouterContext";
+import { useToast } from "./ui/toast";
+import { formatShareRange, shareLinkUrl, type ShareLink } from "../utils/shareLinks";
+
+export function ShareLinksTable() {
+	const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [revokingId, setRevokingId] = useState<string | null>(null);
+	const { getAuthHeaders } = useAuth();
+	const { navigate } = useRouter();
+	const { toast } = useToast();
+
+	const fetchShareLinks = async () => {
+		try {
+			const response = await fetch("/api/v1/shares/", {
+				headers: getAuthHeaders(),
+			});
+
+			if (response.ok) {
+				const data = await response.json();
+				setShareLinks(data.share_links || []);
+			} else {
+				console.error("Failed to fetch share links");
+				setShareLinks([]);
+			}
+		} catch (error) {
+			console.error("Error fetching share links:", error);
+			setShareLinks([]);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		fetchShareLinks();
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, []);
+
+	const handleRevoke = async (id: string) => {
+		if (!confirm("Revoke this share link? Anyone who has it will no longer be able to open it.")) {
+			return;
+		}
+
+		setRevokingId(id);
+		try {
+			const response = await fetch(`/api/v1/shares/${id}`, {
+				method: "DELETE",
+				headers: getAuthHeaders(),
+			});
+
+			if (response.ok) {
+				setShareLinks((links) => links.filter((link) => link.id !== id));
+			} else {
+				console.error("Failed to revoke share link");
+			}
+		} catch (error) {
+			console.error("Error revoking share link:", error);
+		} finally {
+			setRevokingId(null);
+		}
+	};
+
+	const copyLink = async (link: ShareLink) => {
+		try {
+			await navigator.clipboard.writeText(shareLinkUrl(link.token));
+			toast({ title: "Link copied" });
+		} catch (error) {
+			toast({ title: "Failed to copy link", description: error instanceof Error ? error.message : String(error) });
+		}
+	};
+
+	const formatDateTime = (dateString: string) => {
+		return new Date(dateString).toLocaleString("en-US", {
+			year: "numeric",
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+	};
+
+	if (loading) {
+		return (
+			<div className="flex items-center justify-center h-32">
+				<div className="text-gray-500 dark:text-gray-400">Loading share links...</div>
+			</div>
+		);
+	}
+
+	if (shareLinks.length === 0) {
+		return (
+			<div className="text-center py-8">
+				<div className="text-gray-500 dark:text-gray-400 mb-2">
+					No active share links
+				</div>
+				<div className="text-sm text-gray-400 dark:text-gray-500">
+					Share a recording from the Share button on its transcript
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="overflow-x-auto">
+			<table className="w-full">
+				<thead>
+					<tr className="border-b border-gray-200 dark:border-gray-600">
+						<th className="text-left py-2 px-2 sm:py-3 sm:px-4 font-medium text-gray-700 dark:text-gray-300">
+							Recording
+						</th>
+						<th className="hidden sm:table-cell text-left py-2 px-2 sm:py-3 sm:px-4 font-medium text-gray-700 dark:text-gray-300">
+							Shares
+						</th>
+						<th className="hidden sm:table-cell text-left py-2 px-2 sm:py-3 sm:px-4 font-medium text-gray-700 dark:text-gray-300">
+							Expires
+						</th>
+						<th className="hidden sm:table-cell text-left py-2 px-2 sm:py-3 sm:px-4 font-medium text-gray-700 dark:text-gray-300">
+							Last Opened
+						</th>
+						<th className="text-right py-2 px-2 sm:py-3 sm:px-4 font-medium text-gray-700 dark:text-gray-300">
+							Actions
+						</th>
+					</tr>
+				</thead>
+				<tbody>
+					{shareLinks.map((link) => (
+						<tr
+							key={link.id}
+							className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+						>
+							<td className="py-2 px-2 sm:py-3 sm:px-4">
+								<button
+									type="button"
+									onClick={() => navigate({ path: "audio-detail", params: { id: link.transcription_id } })}
+									className="font-medium text-gray-900 dark:text-gray-100 hover:underline cursor-pointer text-left"
+								>
+									{link.title || "Untitled recording"}
+								</button>
+								{link.label && (
+									<div className="text-sm text-gray-600 dark:text-gray-400">{link.label}</div>
+								)}
+							</td>
+							<td className="hidden sm:table-cell py-2 px-2 sm:py-3 sm:px-4">
+								<div className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+									{link.has_password && <Lock className="h-4 w-4" aria-label="Password protected" />}
+									{[
+										formatShareRange(link) ?? "Whole recording",
+										link.include_summary && "summary",
+									]
+										.filter(Boolean)
+										.join(", ")}
+								</div>
+							</td>
+							<td className="hidden sm:table-cell py-2 px-2 sm:py-3 sm:px-4">
+								<div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+									<Calendar className="h-4 w-4 mr-1" />
+									{formatDateTime(link.expires_at)}
+								</div>
+							</td>
+							<td className="hidden sm:table-cell py-2 px-2 sm:py-3 sm:px-4">
+								<div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+									{link.last_accessed_at ? (
+										<>
+											<Clock className="h-4 w-4 mr-1" />
+											{formatDateTime(link.last_accessed_at)} ({link.access_count}×)
+										</>
+									) : (
+										"Never"
+									)}
+								</div>
+							</td>
+							<td className="py-2 px-2 sm:py-3 sm:px-4 text-right whitespace-nowrap">
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => copyLink(link)}
+									title="Copy link"
+								>
+									<Copy className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => handleRevoke(link.id)}
+									disabled={revokingId === link.id}
+									title="Revoke"
+									className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-900/20"
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
@@ -0,0 +1,69 @@
+import { Keyboard } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { PEDAL_ACTIONS, SHORTCUT_ACTIONS, formatShortcut, type ShortcutSettings } from "../utils/shortcuts";
+
+interface ShortcutCheatSheetProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	settings: ShortcutSettings;
+	onCustomize: () => void;
+}
+
+const Key = ({ children }: { children: string }) => (
+	<kbd className="rounded border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 px-1.5 py-0.5 text-[11px] font-mono text-gray-800 dark:text-gray-200">
+		{children}
+	</kbd>
+);
+
+/**
+ * Every playback and transcript shortcut with its current keys, opened with "?"
+ */
+export function ShortcutCheatSheet({ open, onOpenChange, settings, onCustomize }: ShortcutCheatSheetProps) {
+	const pedalButtons = Object.entries(settings.pedal.buttons).sort(([a], [b]) => Number(a) - Number(b));
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-lg bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+						<Keyboard className="h-5 w-5" />
+						Keyboard shortcuts
+					</DialogTitle>
+					<DialogDescription>
+						Rewind and forward jump {settings.skipSeconds} seconds.{" "}
+						<button type="button" onClick={onCustomize} className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer">
+							Change them in Settings → Shortcuts
+						</button>
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="divide-y divide-gray-100 dark:divide-gray-700">
+					{SHORTCUT_ACTIONS.map(({ action, label }) => (
+						<div key={action} className="flex items-center justify-between gap-3 py-1.5">
+							<span className="text-sm text-gray-700 dark:text-gray-300">{label}</span>
+							<span className="flex flex-wrap justify-end gap-1">
+								{settings.bindings[action].length > 0 ? (
+									settings.bindings[action].map((shortcut) => <Key key={shortcut}>{formatShortcut(shortcut)}</Key>)
+								) : (
+									<span className="text-xs text-gray-400">None</span>
+								)}
+							</span>
+						</div>
+					))}
+				</div>
+
+				{settings.pedal.enabled && pedalButtons.length > 0 && (
+					<div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+						<p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">Foot pedal</p>
+						{pedalButtons.map(([button, action]) => (
+							<div key={button} className="flex items-center justify-between py-1 text-sm text-gray-700 dark:text-gray-300">
+								<span>{PEDAL_ACTIONS.find((option) => option.action === action)?.label}</span>
+								<Key>{`Pedal ${Number(button) + 1}`}</Key>
+							</div>
+						))}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { Footprints, Keyboard, Plus, RotateCcw, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useAuth } from "../contexts/AuthContext";
+import { ensureOk } from "../utils/batch";
+import { connectedPedals, watchPedals } from "../utils/footPedal";
+import {
+	DEFAULT_SHORTCUTS,
+	PEDAL_ACTIONS,
+	SHORTCUT_ACTIONS,
+	bindShortcut,
+	eventToShortcut,
+	formatShortcut,
+	parseShortcutSettings,
+	type PedalAction,
+	type ShortcutAction,
+	type ShortcutSettings as ShortcutSettingsValue,
+} from "../utils/shortcuts";
+
+export function ShortcutSettings() {
+	const { getAuthHeaders } = useAuth();
+	const [settings, setSettings] = useState<ShortcutSettingsValue>(DEFAULT_SHORTCUTS);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState("");
+	// Action waiting for a key press to bind
+	const [recording, setRecording] = useState<ShortcutAction | null>(null);
+	const [learningPedal, setLearningPedal] = useState(false);
+	const [pedals, setPedals] = useState<string[]>([]);
+	const [skipInput, setSkipInput] = useState(String(DEFAULT_SHORTCUTS.skipSeconds));
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				const res = await ensureOk(await fetch("/api/v1/user/settings", { headers: getAuthHeaders() }));
+				const data = await res.json();
+				const parsed = parseShortcutSettings(data.keyboard_shortcuts);
+				setSettings(parsed);
+				setSkipInput(String(parsed.skipSeconds));
+			} catch (e) {
+				setError(e instanceof Error ? e.message : "Failed to load shortcuts");
+			} finally {
+				setLoading(false);
+			}
+		};
+		load();
+	}, [getAuthHeaders]);
+
+	const save = async (next: ShortcutSettingsValue | null) => {
+		setError("");
+		const value = next ?? DEFAULT_SHORTCUTS;
+		setSettings(value);
+		setSkipInput(String(value.skipSeconds));
+		try {
+			await ensureOk(
+				await fetch("/api/v1/user/settings", {
+					method: "PUT",
+					headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+					// An empty object goes back to the defaults
+					body: JSON.stringify({ keyboard_shortcuts: next ?? {} }),
+				}),
+			);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : "Failed to save shortcuts");
+		}
+	};
+
+	// Record the next key combination for an action; Escape cancels
+	useEffect(() => {
+		if (!recording) return;
+		const onKeyDown = (e: KeyboardEvent) => {
+			const shortcut = eventToShortcut(e);
+			if (!shortcut) return;
+			e.preventDefault();
+			e.stopPropagation();
+			setRecording(null);
+			if (shortcut !== "Escape") save(bindShortcut(settings, recording, shortcut));
+		};
+		window.addEventListener("keydown", onKeyDown, true);
+		return () => window.removeEventListener("keydown", onKeyDown, true);
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [recording, settings]);
+
+	useEffect(() => {
+		const update = () => setPedals(connectedPedals());
+		update();
+		window.addEventListener("gamepadconnected", update);
+		window.addEventListener("gamepaddisconnected", update);
+		return () => {
+			window.removeEventListener("gamepadconnected", update);
+			window.removeEventListener("gamepaddisconnected", update);
+		};
+	}, []);
+
+	// The next pedal pressed gets a mapping
+	useEffect(() => {
+		if (!learningPedal) return;
+		return watchPedals(({ button, pressed }) => {
+			if (!pressed) return;
+			setLearningPedal(false);
+			const buttons = { ...settings.pedal.buttons };
+			if (!buttons[button]) buttons[button] = "playPause";
+			save({ ...settings, pedal: { ...settings.pedal, buttons } });
+		});
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [learningPedal, settings]);
+
+	const removeBinding = (action: ShortcutAction, shortcut: string) => {
+		save({ ...settings, bindings: { ...settings.bindings, [action]: settings.bindings[action].filter((key) => key !== shortcut) } });
+	};
+
+	const setPedalAction = (button: string, action: PedalAction | null) => {
+		const buttons = { ...settings.pedal.buttons };
+		if (action) buttons[button] = action;
+		else delete buttons[button];
+		save({ ...settings, pedal: { ...settings.pedal, buttons } });
+	};
+
+	const commitSkip = () => {
+		const seconds = Number(skipInput);
+		if (!Number.isFinite(seconds) || seconds <= 0 || seconds > 60) {
+			setSkipInput(String(settings.skipSeconds));
+			return;
+		}
+		if (seconds !== settings.skipSeconds) save({ ...settings, skipSeconds: seconds });
+	};
+
+	if (loading) {
+		return <p className="text-sm text-gray-500 dark:text-gray-400">Loading shortcuts…</p>;
+	}
+
+	return (
+		<div className="space-y-6">
+			{error && (
+				<div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+					<p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+				</div>
+			)}
+
+			<div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 sm:p-6">
+				<div className="mb-4 flex items-start justify-between gap-4">
+					<div>
+						<div className="flex items-center space-x-2 mb-2">
+							<Keyboard className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+							<h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Keyboard Shortcuts</h3>
+						</div>
+						<p className="text-sm text-gray-600 dark:text-gray-400">
+							Used on the transcript page. Keys without Ctrl, Alt or a function key are ignored while you type in a text field. Press <kbd className="px-1 rounded border border-gray-300 dark:border-gray-600">?</kbd> there to see them.
+						</p>
+					</div>
+					<Button variant="outline" size="sm" onClick={() => save(null)}>
+						<RotateCcw className="mr-1 h-4 w-4" />
+						Reset
+					</Button>
+				</div>
+
+				<div className="divide-y divide-gray-200 dark:divide-gray-700">
+					{SHORTCUT_ACTIONS.map(({ action, label }) => (
+						<div key={action} className="flex flex-wrap items-center gap-2 py-2">
+							<span className="w-48 text-sm text-gray-800 dark:text-gray-200">{label}</span>
+							<div className="flex flex-1 flex-wrap items-center gap-1.5">
+								{settings.bindings[action].map((shortcut) => (
+									<span
+										key={shortcut}
+										className="inline-flex items-center gap-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-0.5 text-xs font-mono text-gray-800 dark:text-gray-200"
+									>
+										{formatShortcut(shortcut)}
+										<button
+											type="button"
+											onClick={() => removeBinding(action, shortcut)}
+											className="text-gray-400 hover:text-red-500 cursor-pointer"
+											aria-label={`Remove ${shortcut}`}
+										>
+											<X className="h-3 w-3" />
+										</button>
+									</span>
+								))}
+								<button
+									type="button"
+									onClick={() => setRecording(recording === action ? null : action)}
+									className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs cursor-pointer ${
+										recording === action
+											? "bg-blue-600 text-white"
+											: "text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+									}`}
+								>
+									{recording === action ? "Press keys… (Esc to cancel)" : <><Plus className="h-3 w-3" />Add</>}
+								</button>
+							</div>
+						</div>
+					))}
+				</div>
+
+				<div className="mt-4 flex items-center gap-3">
+					<Label htmlFor="skipSeconds" className="text-gray-700 dark:text-gray-300">
+						Rewind / forward by
+					</Label>
+					<Input
+						id="skipSeconds"
+						type="number"
+						min={1}
+						max={60}
+						value={skipInput}
+						onChange={(e) => setSkipInput(e.target.value)}
+						onBlur={commitSkip}
+						onKeyDown={(e) => e.key === "Enter" && commitSkip()}
+						className="w-20"
+					/>
+					<span className="text-sm text-gray-600 dark:text-gray-400">seconds</span>
+				</div>
+			</div>
+
+			<div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 sm:p-6">
+				<div className="mb-4 flex items-start justify-between gap-4">
+					<div>
+						<div className="flex items-center space-x-2 mb-2">
+							<Footprints className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+							<h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Foot Pedal</h3>
+						</div>
+						<p className="text-sm text-gray-600 dark:text-gray-400">
+							USB pedals that show up as a game controller. Press a pedal once after plugging it in so the browser makes it available.
+						</p>
+					</div>
+					<Switch
+						checked={settings.pedal.enabled}
+						onCheckedChange={(enabled) => save({ ...settings, pedal: { ...settings.pedal, enabled } })}
+						aria-label="Use foot pedal"
+					/>
+				</div>
+
+				{settings.pedal.enabled && (
+					<div className="space-y-3">
+						<p className="text-xs text-gray-500 dark:text-gray-400">
+							{pedals.length > 0 ? `Connected: ${pedals.join(", ")}` : "No pedal detected yet."}
+						</p>
+						<div className="divide-y divide-gray-200 dark:divide-gray-700">
+							{Object.entries(settings.pedal.buttons)
+								.sort(([a], [b]) => Number(a) - Number(b))
+								.map(([button, action]) => (
+									<div key={button} className="flex items-center gap-3 py-2">
+										<span className="w-48 text-sm text-gray-800 dark:text-gray-200">Pedal {Number(button) + 1}</span>
+										<Select value={action} onValueChange={(value) => setPedalAction(button, value as PedalAction)}>
+											<SelectTrigger className="w-56">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{PEDAL_ACTIONS.map((option) => (
+													<SelectItem key={option.action} value={option.action}>
+														{option.label}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+										<button
+											type="button"
+											onClick={() => setPedalAction(button, null)}
+											className="h-8 w-8 inline-flex items-center justify-center rounded-md text-gray-400 hover:text-red-500 cursor-pointer"
+											aria-label={`Remove pedal ${Number(button) + 1}`}
+										>
+											<X className="h-4 w-4" />
+										</button>
+									</div>
+								))}
+						</div>
+						<Button variant="outline" size="sm" onClick={() => setLearningPedal((v) => !v)}>
+							{learningPedal ? "Press a pedal… (click to cancel)" : <><Plus className="mr-1 h-4 w-4" />Add pedal</>}
+						</Button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,137 @@
+import { useMemo } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { TranscriptSegment } from "../types/transcript";
+import { computeSpeakerAnalytics, speakerAnalyticsToCSV } from "../utils/speakerAnalytics";
+import { speakerColorMap } from "../utils/speakers";
+import { tagSwatchClass } from "../utils/tags";
+
+interface SpeakerAnalyticsProps {
+	segments: TranscriptSegment[];
+	getSpeakerName: (speaker: string) => string;
+	currentTime: number;
+	onSeek: (time: number) => void;
+	onExport: (csv: string) => void;
+}
+
+const formatDuration = (seconds: number) => {
+	const total = Math.round(seconds);
+	const h = Math.floor(total / 3600);
+	const m = Math.floor((total % 3600) / 60);
+	const s = total % 60;
+	return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}` : `${m}:${String(s).padStart(2, "0")}`;
+};
+
+/**
+ * Per-speaker talk time, turns, pace and interruptions, with a timeline of
+ * who spoke when. Clicking a turn in the timeline seeks playback to it.
+ */
+export function SpeakerAnalytics({ segments, getSpeakerName, currentTime, onSeek, onExport }: SpeakerAnalyticsProps) {
+	const analytics = useMemo(() => computeSpeakerAnalytics(segments), [segments]);
+
+	const colors = useMemo(() => speakerColorMap(analytics.speakers.map((s) => s.speaker)), [analytics]);
+
+	if (analytics.speakers.length === 0) {
+		return (
+			<p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+				This transcript has no speaker labels to analyse.
+			</p>
+		);
+	}
+
+	const duration = analytics.duration || 1;
+
+	return (
+		<div className="space-y-6">
+			<section>
+				<div className="mb-2 flex items-center justify-between">
+					<h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Who spoke when</h3>
+					<Button variant="outline" size="sm" onClick={() => onExport(speakerAnalyticsToCSV(analytics, getSpeakerName))}>
+						<Download className="mr-1 h-4 w-4" />
+						Export CSV
+					</Button>
+				</div>
+				<div className="space-y-1.5">
+					{analytics.speakers.map((stats) => (
+						<div key={stats.speaker} className="flex items-center gap-3">
+							<span className="w-32 flex-shrink-0 truncate text-xs text-gray-700 dark:text-gray-300" title={getSpeakerName(stats.speaker)}>
+								{getSpeakerName(stats.speaker)}
+							</span>
+							<div className="relative h-5 flex-1 rounded bg-gray-100 dark:bg-gray-700">
+								{analytics.turns
+									.filter((turn) => turn.speaker === stats.speaker)
+									.map((turn) => (
+										<button
+											key={turn.start}
+											type="button"
+											onClick={() => onSeek(turn.start)}
+											className={`absolute inset-y-0 min-w-[2px] rounded-sm opacity-80 hover:opacity-100 cursor-pointer ${tagSwatchClass(colors.get(turn.speaker))}`}
+											style={{ left: `${(turn.start / duration) * 100}%`, width: `${((turn.end - turn.start) / duration) * 100}%` }}
+											title={`${getSpeakerName(turn.speaker)} · ${formatDuration(turn.start)}–${formatDuration(turn.end)}`}
+										/>
+									))}
+								<div
+									className="pointer-events-none absolute inset-y-0 w-px bg-gray-900 dark:bg-white"
+									style={{ left: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+								/>
+							</div>
+						</div>
+					))}
+				</div>
+				<div className="mt-1 flex justify-between pl-[8.75rem] text-[11px] text-gray-400">
+					<span>0:00</span>
+					<span>{formatDuration(analytics.duration)}</span>
+				</div>
+			</section>
+
+			<section className="overflow-x-auto">
+				<table className="w-full text-sm">
+					<thead>
+						<tr className="border-b border-gray-200 text-left text-xs text-gray-500 dark:border-gray-700 dark:text-gray-400">
+							<th className="py-2 pr-3 font-medium">Speaker</th>
+							<th className="py-2 pr-3 font-medium">Talk time</th>
+							<th className="py-2 pr-3 font-medium">Turns</th>
+							<th className="py-2 pr-3 font-medium">Avg. turn</th>
+							<th className="py-2 pr-3 font-medium">Words/min</th>
+							<th className="py-2 pr-3 font-medium">Longest monologue</th>
+							<th className="py-2 pr-3 font-medium">Interruptions</th>
+							<th className="py-2 font-medium">Overlap</th>
+						</tr>
+					</thead>
+					<tbody>
+						{analytics.speakers.map((stats) => (
+							<tr key={stats.speaker} className="border-b border-gray-100 text-gray-700 dark:border-gray-700/60 dark:text-gray-300">
+								<td className="py-2 pr-3">
+									<span className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+										<span className={`h-2.5 w-2.5 flex-shrink-0 rounded-full ${tagSwatchClass(colors.get(stats.speaker))}`} />
+										{getSpeakerName(stats.speaker)}
+									</span>
+								</td>
+								<td className="py-2 pr-3">
+									<div className="flex items-center gap-2">
+										<span className="tabular-nums">{formatDuration(stats.talkTime)}</span>
+										<span className="text-xs text-gray-500">{Math.round(stats.share * 100)}%</span>
+									</div>
+									<div className="mt-1 h-1 w-24 rounded bg-gray-100 dark:bg-gray-700">
+										<div className={`h-1 rounded ${tagSwatchClass(colors.get(stats.speaker))}`} style={{ width: `${stats.share * 100}%` }} />
+									</div>
+								</td>
+								<td className="py-2 pr-3 tabular-nums">{stats.turns}</td>
+								<td className="py-2 pr-3 tabular-nums">{formatDuration(stats.averageTurn)}</td>
+								<td className="py-2 pr-3 tabular-nums">{Math.round(stats.wordsPerMinute)}</td>
+								<td className="py-2 pr-3 tabular-nums">{formatDuration(stats.longestMonologue)}</td>
+								<td className="py-2 pr-3 tabular-nums">
+									{stats.interruptions} / {stats.interrupted}
+								</td>
+								<td className="py-2 tabular-nums">{formatDuration(stats.overlapTime)}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+				<p className="mt-2 text-[11px] text-gray-500 dark:text-gray-400">
+					Interruptions count the times a speaker started while someone else was speaking, and the times they were talked over.
+				</p>
+			</section>
+		</div>
+	);
+}
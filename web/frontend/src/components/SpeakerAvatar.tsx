@@ -0,0 +1,24 @@
+import { speakerInitials, type Speaker } from "../utils/speakers";
+import { tagSwatchClass } from "../utils/tags";
+
+interface SpeakerAvatarProps {
+	speaker: Pick<Speaker, "name" | "color" | "avatar">;
+	className?: string;
+}
+
+/**
+ * A directory speaker's picture, or their initials on their colour
+ */
+export function SpeakerAvatar({ speaker, className = "h-8 w-8 text-xs" }: SpeakerAvatarProps) {
+	if (speaker.avatar) {
+		return <img src={speaker.avatar} alt="" className={`${className} flex-shrink-0 rounded-full object-cover`} />;
+	}
+	return (
+		<span
+			className={`${className} ${tagSwatchClass(speaker.color)} flex flex-shrink-0 items-center justify-center rounded-full font-semibold text-white`}
+			aria-hidden
+		>
+			{speakerInitials(speaker.name)}
+		</span>
+	);
+}
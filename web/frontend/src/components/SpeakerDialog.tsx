@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { SpeakerAvatar } from "./SpeakerAvatar";
+import { resizeAvatar, type Speaker } from "../utils/speakers";
+import { TAG_COLORS, tagSwatchClass } from "../utils/tags";
+
+export type SpeakerFormValues = Pick<Speaker, 'name' | 'role' | 'color' | 'avatar'>;
+
+interface SpeakerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (values: SpeakerFormValues) => Promise<void> | void;
+  initial?: Speaker | null;
+}
+
+export function SpeakerDialog({ open, onOpenChange, onSave, initial }: SpeakerDialogProps) {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("");
+  const [color, setColor] = useState<string>("gray");
+  const [avatar, setAvatar] = useState("");
+  const [saving, setSaving] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(initial?.name || "");
+      setRole(initial?.role || "");
+      setColor(initial?.color || "gray");
+      setAvatar(initial?.avatar || "");
+    }
+  }, [open, initial]);
+
+  const handleAvatar = async (file?: File) => {
+    if (!file) return;
+    try {
+      setAvatar(await resizeAvatar(file));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to read image');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    try {
+      setSaving(true);
+      await onSave({ name: name.trim(), role: role.trim(), color, avatar });
+      onOpenChange(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save speaker');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900 dark:text-gray-100">{initial ? 'Edit Speaker' : 'New Speaker'}</DialogTitle>
+          <DialogDescription className="text-gray-600 dark:text-gray-400">
+            Link this person to a speaker when renaming speakers in a transcript to teach Scriberr their voice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-4">
+            <SpeakerAvatar speaker={{ name: name || '?', color, avatar }} className="h-14 w-14 text-lg" />
+            <div className="flex flex-col items-start gap-1">
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                {avatar ? 'Change picture' : 'Add picture'}
+              </Button>
+              {avatar && (
+                <button type="button" onClick={() => setAvatar("")} className="text-xs text-gray-500 hover:text-red-600 cursor-pointer">
+                  Remove picture
+                </button>
+              )}
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  handleAvatar(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-700 dark:text-gray-300">Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Anne Dupont" />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-700 dark:text-gray-300">Role (optional)</Label>
+            <Input value={role} onChange={(e) => setRole(e.target.value)} placeholder="e.g., Town councillor" />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-700 dark:text-gray-300">Colour</Label>
+            <div className="flex items-center gap-1.5">
+              {TAG_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`h-5 w-5 rounded-full cursor-pointer ${tagSwatchClass(c)} ${
+                    color === c ? 'ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-gray-800' : ''
+                  }`}
+                  aria-label={c}
+                  title={c}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-600 dark:hover:bg-blue-500"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import { Headphones } from "lucide-react";
+import type { TranscriptSegment } from "../types/transcript";
+import { speakerColorMap } from "../utils/speakers";
+import { tagChipClass, tagSwatchClass } from "../utils/tags";
+
+interface SpeakerLaneProps {
+	segments: TranscriptSegment[];
+	// Length of the waveform the lane lines up with, in seconds
+	duration: number;
+	getSpeakerName: (speaker: string) => string;
+	onSeek: (time: number) => void;
+	soloSpeaker: string | null;
+	onSoloChange: (speaker: string | null) => void;
+}
+
+const formatTime = (seconds: number) => {
+	const total = Math.floor(seconds);
+	return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Who is speaking, as coloured blocks lined up under the waveform. Clicking a
+ * block seeks to it; the chips below solo a speaker.
+ */
+export function SpeakerLane({ segments, duration, getSpeakerName, onSeek, soloSpeaker, onSoloChange }: SpeakerLaneProps) {
+	const [hovered, setHovered] = useState<number | null>(null);
+
+	const spoken = useMemo(
+		() => segments.map((segment, index) => ({ ...segment, index })).filter((segment) => segment.speaker && segment.end > segment.start),
+		[segments],
+	);
+	const colors = useMemo(() => speakerColorMap(spoken.map((segment) => segment.speaker!)), [spoken]);
+
+	if (spoken.length === 0 || duration <= 0) return null;
+
+	const percent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+	const hoveredSegment = spoken.find((segment) => segment.index === hovered);
+
+	return (
+		<div className="mt-1.5 space-y-1.5">
+			<div className="relative h-3 rounded-sm bg-gray-100 dark:bg-gray-800" onMouseLeave={() => setHovered(null)}>
+				{spoken.map((segment) => (
+					<button
+						key={segment.index}
+						type="button"
+						onClick={() => onSeek(segment.start)}
+						onMouseEnter={() => setHovered(segment.index)}
+						className={`absolute inset-y-0 min-w-[2px] cursor-pointer transition-opacity ${tagSwatchClass(colors.get(segment.speaker!))} ${
+							soloSpeaker && segment.speaker !== soloSpeaker ? "opacity-20" : "opacity-90 hover:opacity-100"
+						}`}
+						style={{ left: percent(segment.start), width: percent(segment.end - segment.start) }}
+						aria-label={`${getSpeakerName(segment.speaker!)} at ${formatTime(segment.start)}`}
+					/>
+				))}
+				{hoveredSegment && (
+					<div
+						className="pointer-events-none absolute bottom-full z-10 mb-1 -translate-x-1/2 whitespace-nowrap rounded bg-gray-900 px-2 py-1 text-[11px] text-white shadow dark:bg-gray-100 dark:text-gray-900"
+						style={{ left: percent((hoveredSegment.start + hoveredSegment.end) / 2) }}
+					>
+						<span className="font-medium">{getSpeakerName(hoveredSegment.speaker!)}</span>
+						<span className="ml-1.5 opacity-70">
+							{formatTime(hoveredSegment.start)}–{formatTime(hoveredSegment.end)}
+						</span>
+					</div>
+				)}
+			</div>
+			<div className="flex flex-wrap items-center gap-1">
+				{[...colors.entries()].map(([speaker, color]) => {
+					const solo = soloSpeaker === speaker;
+					return (
+						<button
+							key={speaker}
+							type="button"
+							onClick={() => onSoloChange(solo ? null : speaker)}
+							className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] font-medium cursor-pointer transition-opacity ${tagChipClass(color)} ${
+								soloSpeaker && !solo ? "opacity-50 hover:opacity-80" : ""
+							} ${solo ? "ring-2 ring-blue-500" : ""}`}
+							title={solo ? "Play everyone" : `Play only ${getSpeakerName(speaker)}`}
+						>
+							{solo && <Headphones className="h-3 w-3" />}
+							{getSpeakerName(speaker)}
+						</button>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
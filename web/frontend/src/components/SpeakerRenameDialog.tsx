@@ -4,8 +4,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
-import { Loader2, Users, Save, X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Users, Save, X, Sparkles, Check } from 'lucide-react';
 import { useAuth } from "../contexts/AuthContext";
+import { SpeakerAvatar } from './SpeakerAvatar';
+import type { Speaker, SpeakerSuggestion } from '../utils/speakers';
 // Note: Install framer-motion for enhanced animations
 // import { motion, AnimatePresence } from 'framer-motion';
 
@@ -13,8 +16,12 @@ interface SpeakerMapping {
   id?: number;
   original_speaker: string;
   custom_name: string;
+  speaker_id?: string;
 }
 
+// Select value for a speaker not linked to the directory
+const UNLINKED = 'none';
+
 interface SpeakerRenameDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -32,6 +39,10 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
 }) => {
   const { getAuthHeaders } = useAuth();
   const [speakerMappings, setSpeakerMappings] = useState<Record<string, string>>({});
+  // Directory speaker each label is linked to
+  const [speakerLinks, setSpeakerLinks] = useState<Record<string, string | undefined>>({});
+  const [directory, setDirectory] = useState<Speaker[]>([]);
+  const [suggestions, setSuggestions] = useState<Record<string, SpeakerSuggestion>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,10 +71,12 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
       
       // Create a mapping object from the response
       const mappingObj: Record<string, string> = {};
+      const linkObj: Record<string, string | undefined> = {};
       
       // Initialize with existing mappings
       existingMappings.forEach(mapping => {
         mappingObj[mapping.original_speaker] = mapping.custom_name;
+        linkObj[mapping.original_speaker] = mapping.speaker_id;
       });
 
       // Add any speakers from the transcript that don't have mappings yet
@@ -74,6 +87,8 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
       });
 
       setSpeakerMappings(mappingObj);
+      setSpeakerLinks(linkObj);
+      await fetchDirectory();
     } catch (err) {
       console.error('Error fetching speaker mappings:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch speaker mappings');
@@ -89,6 +104,39 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
     }
   };
 
+  // The speaker directory, and voice matches for speakers not linked yet
+  const fetchDirectory = async () => {
+    try {
+      const [directoryResponse, suggestionsResponse] = await Promise.all([
+        fetch('/api/v1/speakers', { headers: { ...getAuthHeaders() } }),
+        fetch(`/api/v1/transcription/${transcriptionId}/speaker-suggestions`, { headers: { ...getAuthHeaders() } }),
+      ]);
+      if (directoryResponse.ok) setDirectory((await directoryResponse.json()) || []);
+      if (suggestionsResponse.ok) {
+        const list: SpeakerSuggestion[] = (await suggestionsResponse.json()) || [];
+        setSuggestions(Object.fromEntries(list.map(suggestion => [suggestion.original_speaker, suggestion])));
+      }
+    } catch (err) {
+      console.error('Error fetching speaker directory:', err);
+    }
+  };
+
+  const linkSpeaker = (originalSpeaker: string, speaker?: Speaker) => {
+    setSpeakerLinks(prev => ({ ...prev, [originalSpeaker]: speaker?.id }));
+    if (speaker) {
+      setSpeakerMappings(prev => ({ ...prev, [originalSpeaker]: speaker.name }));
+    }
+  };
+
+  // Suggestions for labels that aren't linked to that speaker already
+  const pendingSuggestions = Object.values(suggestions).filter(
+    suggestion => speakerLinks[suggestion.original_speaker] !== suggestion.speaker.id
+  );
+
+  const acceptAllSuggestions = () => {
+    pendingSuggestions.forEach(suggestion => linkSpeaker(suggestion.original_speaker, suggestion.speaker));
+  };
+
   const handleSpeakerNameChange = (originalSpeaker: string, customName: string) => {
     setSpeakerMappings(prev => ({
       ...prev,
@@ -105,6 +153,7 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
       const mappingsArray = Object.entries(speakerMappings).map(([original_speaker, custom_name]) => ({
         original_speaker,
         custom_name,
+        speaker_id: speakerLinks[original_speaker] ?? null,
       }));
 
       const response = await fetch(`/api/v1/transcription/${transcriptionId}/speakers`, {
@@ -134,7 +183,7 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-lg">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
@@ -155,6 +204,19 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
               </div>
             )}
 
+            {pendingSuggestions.length > 0 && (
+              <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+                <p className="text-sm text-blue-700 dark:text-blue-300 flex items-center gap-1.5">
+                  <Sparkles className="h-4 w-4" />
+                  {pendingSuggestions.length} speaker{pendingSuggestions.length !== 1 ? 's' : ''} recognised by voice
+                </p>
+                <Button size="sm" variant="outline" onClick={acceptAllSuggestions}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Accept all
+                </Button>
+              </div>
+            )}
+
             {speakers.length === 0 ? (
               <Card>
                 <CardContent className="pt-6 text-center text-muted-foreground">
@@ -163,24 +225,65 @@ const SpeakerRenameDialog: React.FC<SpeakerRenameDialogProps> = ({
                 </CardContent>
               </Card>
             ) : (
-              <div className="space-y-3 max-h-60 overflow-y-auto">
-                {speakers.map((speaker) => (
-                  <div
-                    key={speaker}
-                    className="space-y-1"
-                  >
-                    <Label htmlFor={`speaker-${speaker}`} className="text-xs font-medium text-muted-foreground">
-                      {speaker}
-                    </Label>
-                    <Input
-                      id={`speaker-${speaker}`}
-                      value={speakerMappings[speaker] || ''}
-                      onChange={(e) => handleSpeakerNameChange(speaker, e.target.value)}
-                      placeholder={`Enter custom name for ${speaker}`}
-                      className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
-                    />
-                  </div>
-                ))}
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {speakers.map((speaker) => {
+                  const suggestion = suggestions[speaker];
+                  const linked = directory.find(person => person.id === speakerLinks[speaker]);
+                  return (
+                    <div
+                      key={speaker}
+                      className="space-y-1"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor={`speaker-${speaker}`} className="text-xs font-medium text-muted-foreground">
+                          {speaker}
+                        </Label>
+                        {suggestion && linked?.id !== suggestion.speaker.id && (
+                          <button
+                            type="button"
+                            onClick={() => linkSpeaker(speaker, suggestion.speaker)}
+                            className="flex items-center gap-1.5 rounded-full px-2 py-0.5 text-xs text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 cursor-pointer"
+                            title="Accept this suggestion"
+                          >
+                            <SpeakerAvatar speaker={suggestion.speaker} className="h-4 w-4 text-[8px]" />
+                            {suggestion.speaker.name}
+                            <span className="text-muted-foreground">{Math.round(suggestion.confidence * 100)}%</span>
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`speaker-${speaker}`}
+                          value={speakerMappings[speaker] || ''}
+                          onChange={(e) => handleSpeakerNameChange(speaker, e.target.value)}
+                          placeholder={`Enter custom name for ${speaker}`}
+                          className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
+                        />
+                        {directory.length > 0 && (
+                          <Select
+                            value={linked?.id ?? UNLINKED}
+                            onValueChange={(value) => linkSpeaker(speaker, directory.find(person => person.id === value))}
+                          >
+                            <SelectTrigger className="w-40 flex-shrink-0" aria-label={`Directory speaker for ${speaker}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNLINKED}>Not in directory</SelectItem>
+                              {directory.map(person => (
+                                <SelectItem key={person.id} value={person.id}>
+                                  <span className="flex items-center gap-2">
+                                    <SpeakerAvatar speaker={person} className="h-5 w-5 text-[9px]" />
+                                    {person.name}
+                                  </span>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Check, Palette, Plus, Tag as TagIcon, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "../contexts/AuthContext";
+import { ensureOk } from "../utils/batch";
+import { TAG_COLORS, tagChipClass, tagSwatchClass, type Tag } from "../utils/tags";
+
+interface TagEditorProps {
+	jobId: string;
+	tags: Tag[];
+	// Called with the job's tags after each change
+	onChange: (tags: Tag[]) => void;
+	// A tag was renamed, recoloured or deleted, which other jobs may show too
+	onTagsEdited?: () => void;
+	size?: "sm" | "md";
+}
+
+/**
+ * A job's tags as coloured chips, with a popover to attach, detach, create,
+ * recolour and delete tags
+ */
+export function TagEditor({ jobId, tags, onChange, onTagsEdited, size = "sm" }: TagEditorProps) {
+	const { getAuthHeaders } = useAuth();
+	const [open, setOpen] = useState(false);
+	const [allTags, setAllTags] = useState<Tag[]>([]);
+	const [input, setInput] = useState("");
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	const loadTags = async () => {
+		try {
+			const response = await fetch("/api/v1/tags", { headers: { ...getAuthHeaders() } });
+			if (response.ok) setAllTags((await response.json()) || []);
+		} catch (error) {
+			console.error("Failed to load tags:", error);
+		}
+	};
+
+	const handleOpenChange = (next: boolean) => {
+		setOpen(next);
+		setEditingId(null);
+		if (next) loadTags();
+	};
+
+	const run = async (action: () => Promise<void>) => {
+		setBusy(true);
+		try {
+			await action();
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to update tags");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const attach = (names: string[]) =>
+		run(async () => {
+			const response = await fetch(`/api/v1/transcription/${jobId}/tags`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+				body: JSON.stringify({ tags: names }),
+			});
+			onChange(await (await ensureOk(response)).json());
+			await loadTags();
+		});
+
+	const detach = (tag: Tag) =>
+		run(async () => {
+			const response = await fetch(`/api/v1/transcription/${jobId}/tags/${tag.id}`, {
+				method: "DELETE",
+				headers: { ...getAuthHeaders() },
+			});
+			onChange(await (await ensureOk(response)).json());
+		});
+
+	const recolor = (tag: Tag, color: string) =>
+		run(async () => {
+			await ensureOk(
+				await fetch(`/api/v1/tags/${tag.id}`, {
+					method: "PUT",
+					headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+					body: JSON.stringify({ name: tag.name, color }),
+				}),
+			);
+			setAllTags((prev) => prev.map((t) => (t.id === tag.id ? { ...t, color } : t)));
+			onChange(tags.map((t) => (t.id === tag.id ? { ...t, color } : t)));
+			onTagsEdited?.();
+		});
+
+	const remove = (tag: Tag) => {
+		if (!confirm(`Delete the tag "${tag.name}" from every recording?`)) return;
+		run(async () => {
+			await ensureOk(await fetch(`/api/v1/tags/${tag.id}`, { method: "DELETE", headers: { ...getAuthHeaders() } }));
+			setAllTags((prev) => prev.filter((t) => t.id !== tag.id));
+			onChange(tags.filter((t) => t.id !== tag.id));
+			onTagsEdited?.();
+		});
+	};
+
+	const handleCreate = () => {
+		const names = input.split(",").map((name) => name.trim()).filter(Boolean);
+		if (names.length === 0) return;
+		setInput("");
+		attach(names);
+	};
+
+	const attachedIds = new Set(tags.map((tag) => tag.id));
+	const query = input.trim().toLowerCase();
+	const visible = allTags.filter((tag) => !query || tag.name.toLowerCase().includes(query));
+	const chipSize = size === "sm" ? "px-1.5 py-0.5 text-[11px]" : "px-2 py-0.5 text-xs";
+
+	return (
+		<div className="flex flex-wrap items-center gap-1">
+			{tags.map((tag) => (
+				<span key={tag.id} className={`rounded-full font-medium ${chipSize} ${tagChipClass(tag.color)}`}>
+					{tag.name}
+				</span>
+			))}
+			<Popover open={open} onOpenChange={handleOpenChange}>
+				<PopoverTrigger asChild>
+					<button
+						type="button"
+						className="inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[11px] text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-gray-200 cursor-pointer"
+						title="Edit tags"
+					>
+						<TagIcon className="h-3 w-3" />
+						{tags.length === 0 && "Add tag"}
+					</button>
+				</PopoverTrigger>
+				<PopoverContent align="start" className="w-64 p-2 space-y-2 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+					<Input
+						autoFocus
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								handleCreate();
+							}
+						}}
+						placeholder="Find or create tags..."
+						className="h-8 text-sm"
+					/>
+					<div className="max-h-56 overflow-y-auto space-y-0.5">
+						{visible.map((tag) => (
+							<div key={tag.id}>
+								<div className="group flex items-center gap-2 rounded px-1.5 py-1 hover:bg-gray-100 dark:hover:bg-gray-700">
+									<button
+										type="button"
+										disabled={busy}
+										onClick={() => (attachedIds.has(tag.id) ? detach(tag) : attach([tag.name]))}
+										className="flex flex-1 items-center gap-2 min-w-0 text-left cursor-pointer"
+									>
+										<span className="w-4 flex-shrink-0">
+											{attachedIds.has(tag.id) && <Check className="h-4 w-4 text-blue-600" />}
+										</span>
+										<span className={`truncate rounded-full px-2 py-0.5 text-xs font-medium ${tagChipClass(tag.color)}`}>
+											{tag.name}
+										</span>
+									</button>
+									<button
+										type="button"
+										onClick={() => setEditingId(editingId === tag.id ? null : tag.id)}
+										className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 cursor-pointer"
+										aria-label={`Colour of ${tag.name}`}
+									>
+										<Palette className="h-3.5 w-3.5" />
+									</button>
+								</div>
+								{editingId === tag.id && (
+									<div className="flex items-center gap-1 px-1.5 py-1">
+										{TAG_COLORS.map((color) => (
+											<button
+												key={color}
+												type="button"
+												disabled={busy}
+												onClick={() => recolor(tag, color)}
+												className={`h-4 w-4 rounded-full cursor-pointer ${tagSwatchClass(color)} ${
+													(tag.color || "gray") === color ? "ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-gray-800" : ""
+												}`}
+												aria-label={color}
+												title={color}
+											/>
+										))}
+										<button
+											type="button"
+											disabled={busy}
+											onClick={() => remove(tag)}
+											className="ml-auto p-0.5 text-gray-400 hover:text-red-600 cursor-pointer"
+											aria-label={`Delete ${tag.name}`}
+											title="Delete tag"
+										>
+											<Trash2 className="h-3.5 w-3.5" />
+										</button>
+									</div>
+								)}
+							</div>
+						))}
+						{query && !allTags.some((tag) => tag.name.toLowerCase() === query) && (
+							<button
+								type="button"
+								disabled={busy}
+								onClick={handleCreate}
+								className="flex w-full items-center gap-2 rounded px-1.5 py-1 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+							>
+								<Plus className="h-4 w-4" />
+								Create "{input.trim()}"
+							</button>
+						)}
+						{allTags.length === 0 && !query && (
+							<p className="px-1.5 py-1 text-xs text-gray-500 dark:text-gray-400">No tags yet. Type a name to create one.</p>
+						)}
+					</div>
+				</PopoverContent>
+			</Popover>
+		</div>
+	);
+}
@@ -35,6 +35,8 @@ interface TranscribeDDialogProps {
   onOpenChange: (open: boolean) => void;
   onStartTranscription: (params: WhisperXParams, profileId?: string) => void;
   loading?: boolean;
+  // Preselected instead of the user's default, e.g. the default of the job's folder
+  preferredProfileId?: string;
 }
 
 export function TranscribeDDialog({
@@ -42,6 +44,7 @@ export function TranscribeDDialog({
   onOpenChange,
   onStartTranscription,
   loading = false,
+  preferredProfileId,
 }: TranscribeDDialogProps) {
   const { getAuthHeaders } = useAuth();
   const [profiles, setProfiles] = useState<TranscriptionProfile[]>([]);
@@ -89,6 +92,10 @@ export function TranscribeDDialog({
             setSelectedProfileId(profilesData[0].id);
           }
         }
+
+        if (preferredProfileId && profilesData.some(p => p.id === preferredProfileId)) {
+          setSelectedProfileId(preferredProfileId);
+        }
       } else {
         console.error("Failed to fetch profiles");
       }
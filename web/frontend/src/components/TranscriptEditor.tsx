@@ -0,0 +1,247 @@
+import { useState, useMemo } from "react";
+import { Loader2, Merge, Save, Scissors, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "./ui/toast";
+import type { Transcript } from "../types/transcript";
+import {
+	editWord,
+	fromEditableSegments,
+	mergeWithNext,
+	splitSegment,
+	toEditableSegments,
+	type EditableSegment,
+} from "../utils/transcriptEdit";
+
+interface TranscriptEditorProps {
+	transcriptionId: string;
+	transcript: Transcript;
+	getSpeakerName: (speaker: string) => string;
+	onSaved: (transcript: Transcript) => void;
+	onCancel: () => void;
+}
+
+const NEW_SPEAKER = "__new__";
+
+const formatTimestamp = (seconds: number): string => {
+	const minutes = Math.floor(seconds / 60);
+	const secs = Math.floor(seconds % 60);
+	return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function TranscriptEditor({ transcriptionId, transcript, getSpeakerName, onSaved, onCancel }: TranscriptEditorProps) {
+	const { getAuthHeaders } = useAuth();
+	const { toast } = useToast();
+	const [segments, setSegments] = useState<EditableSegment[]>(() => toEditableSegments(transcript));
+	const [activeWord, setActiveWord] = useState<{ seg: number; word: number } | null>(null);
+	const [wordDraft, setWordDraft] = useState("");
+	const [message, setMessage] = useState("");
+	const [dirty, setDirty] = useState(false);
+	const [saving, setSaving] = useState(false);
+
+	const speakers = useMemo(() => {
+		const found = new Set<string>();
+		(transcript.segments || []).forEach(s => s.speaker && found.add(s.speaker));
+		segments.forEach(s => s.speaker && found.add(s.speaker));
+		return Array.from(found).sort();
+	}, [transcript.segments, segments]);
+
+	const update = (next: EditableSegment[]) => {
+		setSegments(next);
+		setDirty(true);
+	};
+
+	const startWordEdit = (seg: number, word: number) => {
+		setActiveWord({ seg, word });
+		setWordDraft(segments[seg].words[word].word.trim());
+	};
+
+	// Segments with the word being typed applied, or null when there is nothing to apply
+	const withWordDraft = (): EditableSegment[] | null => {
+		if (!activeWord) return null;
+		const current = segments[activeWord.seg].words[activeWord.word].word.trim();
+		const next = wordDraft.trim();
+		// Empty corrections are ignored so word indices (used by notes) stay stable
+		if (!next || next === current) return null;
+		return editWord(segments, activeWord.seg, activeWord.word, next);
+	};
+
+	const commitWordEdit = () => {
+		const edited = withWordDraft();
+		if (edited) update(edited);
+		setActiveWord(null);
+	};
+
+	// The split and merge buttons keep focus in the word input, so the word
+	// being typed is committed along with them
+	const handleSplit = (seg: number, word: number) => {
+		const base = withWordDraft() ?? segments;
+		setActiveWord(null);
+		update(splitSegment(base, seg, word));
+	};
+
+	const handleMerge = (seg: number) => {
+		const base = withWordDraft() ?? segments;
+		setActiveWord(null);
+		update(mergeWithNext(base, seg));
+	};
+
+	const handleSpeakerChange = (seg: number, value: string) => {
+		let speaker = value;
+		if (value === NEW_SPEAKER) {
+			let n = speakers.length;
+			while (speakers.includes(`SPEAKER_${n.toString().padStart(2, "0")}`)) n++;
+			speaker = `SPEAKER_${n.toString().padStart(2, "0")}`;
+		}
+		update(segments.map((s, i) => (i === seg ? { ...s, speaker } : s)));
+	};
+
+	const handleSegmentTextChange = (seg: number, text: string) => {
+		update(segments.map((s, i) => (i === seg ? { ...s, text } : s)));
+	};
+
+	const handleSave = async () => {
+		const updated = fromEditableSegments(transcript, segments);
+		setSaving(true);
+		try {
+			const res = await fetch(`/api/v1/transcription/${transcriptionId}/revisions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+				body: JSON.stringify({ transcript: updated, message: message.trim() || undefined }),
+			});
+			if (!res.ok) {
+				const data = await res.json().catch(() => ({}));
+				throw new Error(data.error || `HTTP ${res.status}`);
+			}
+			toast({ title: "Transcript saved", description: "Your edits were saved as a new revision." });
+			onSaved(updated);
+		} catch (e) {
+			toast({ title: "Failed to save transcript", description: e instanceof Error ? e.message : String(e) });
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			{/* Edit toolbar */}
+			<div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+				<p className="text-xs text-blue-800 dark:text-blue-200 flex-1">
+					Click a word to correct it. Use the scissors to split a segment before a word, or merge a segment with the next one.
+				</p>
+				<Input
+					value={message}
+					onChange={(e) => setMessage(e.target.value)}
+					placeholder="Describe your changes (optional)"
+					className="h-8 sm:w-64 bg-white dark:bg-gray-800"
+				/>
+				<div className="flex gap-2">
+					<Button variant="outline" size="sm" onClick={onCancel} disabled={saving}>
+						<X className="h-4 w-4 mr-1" />
+						Cancel
+					</Button>
+					<Button size="sm" onClick={handleSave} disabled={saving || !dirty} className="bg-blue-600 hover:bg-blue-700 text-white">
+						{saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+						Save revision
+					</Button>
+				</div>
+			</div>
+
+			{segments.map((segment, segIndex) => (
+				<div
+					key={`${segIndex}-${segment.start}`}
+					className="flex gap-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700"
+				>
+					<div className="flex-shrink-0 flex flex-col gap-2 w-36">
+						<span className="inline-block w-fit px-2 py-1 text-xs font-mono bg-blue-100 dark:bg-blue-700 text-blue-800 dark:text-blue-200 rounded">
+							{formatTimestamp(segment.start)}
+						</span>
+						{speakers.length > 0 && (
+							<Select value={segment.speaker || ""} onValueChange={(v) => handleSpeakerChange(segIndex, v)}>
+								<SelectTrigger className="h-7 text-xs">
+									<SelectValue placeholder="Speaker" />
+								</SelectTrigger>
+								<SelectContent>
+									{speakers.map(speaker => (
+										<SelectItem key={speaker} value={speaker}>
+											{getSpeakerName(speaker)}
+										</SelectItem>
+									))}
+									<SelectItem value={NEW_SPEAKER}>New speaker</SelectItem>
+								</SelectContent>
+							</Select>
+						)}
+						{segIndex < segments.length - 1 && (
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => handleMerge(segIndex)}
+								className="h-7 w-fit px-2 text-xs text-gray-600 dark:text-gray-300"
+								title="Merge with next segment"
+							>
+								<Merge className="h-3.5 w-3.5 mr-1" />
+								Merge next
+							</Button>
+						)}
+					</div>
+					<div className="flex-1 min-w-0">
+						{segment.words.length === 0 ? (
+							<Textarea
+								value={segment.text}
+								onChange={(e) => handleSegmentTextChange(segIndex, e.target.value)}
+								className="bg-white dark:bg-gray-800 text-sm"
+							/>
+						) : (
+							<p className="text-gray-700 dark:text-gray-200 leading-relaxed break-words">
+								{segment.words.map((word, wordIndex) => {
+									const isActive = activeWord?.seg === segIndex && activeWord.word === wordIndex;
+									if (isActive) {
+										return (
+											<span key={wordIndex} className="inline-flex items-center gap-1 mx-0.5 align-middle">
+												{wordIndex > 0 && (
+													<button
+														type="button"
+														onMouseDown={(e) => e.preventDefault()}
+														onClick={() => handleSplit(segIndex, wordIndex)}
+														className="h-6 w-6 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+														title="Split segment before this word"
+													>
+														<Scissors className="h-3.5 w-3.5" />
+													</button>
+												)}
+												<input
+													autoFocus
+													value={wordDraft}
+													onChange={(e) => setWordDraft(e.target.value)}
+													onBlur={commitWordEdit}
+													onKeyDown={(e) => {
+														if (e.key === "Enter") commitWordEdit();
+														if (e.key === "Escape") setActiveWord(null);
+													}}
+													size={Math.max(wordDraft.length, 3)}
+													className="px-1 py-0.5 text-sm rounded border border-blue-400 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 outline-none"
+												/>
+											</span>
+										);
+									}
+									return (
+										<span
+											key={wordIndex}
+											onClick={() => startWordEdit(segIndex, wordIndex)}
+											className="cursor-pointer px-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-800"
+										>
+											{word.word.trim()}{" "}
+										</span>
+									);
+								})}
+							</p>
+						)}
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
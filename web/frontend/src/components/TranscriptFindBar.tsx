@@ -0,0 +1,214 @@
+import { useEffect, useRef } from "react";
+import { CaseSensitive, ChevronDown, ChevronRight, ChevronUp, Loader2, Regex, Replace, Undo2, WholeWord, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { FindOptions } from "../utils/transcriptSearch";
+
+const ALL_SPEAKERS = "__all__";
+
+export interface FindBarReplaceProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	value: string;
+	onValueChange: (value: string) => void;
+	speakers: Array<{ value: string; label: string }>;
+	// Empty string means every speaker
+	speaker: string;
+	onSpeakerChange: (speaker: string) => void;
+	onPreview: () => void;
+	canUndo: boolean;
+	undoing: boolean;
+	onUndo: () => void;
+}
+
+interface TranscriptFindBarProps {
+	query: string;
+	onQueryChange: (query: string) => void;
+	options: FindOptions;
+	onOptionsChange: (options: FindOptions) => void;
+	matchCount: number;
+	// Index of the active match, or -1 when there is none
+	activeIndex: number;
+	error?: string;
+	onNext: () => void;
+	onPrevious: () => void;
+	onClose: () => void;
+	// Replace controls; omitted when the transcript can't be edited
+	replace?: FindBarReplaceProps;
+}
+
+export function TranscriptFindBar({
+	query,
+	onQueryChange,
+	options,
+	onOptionsChange,
+	matchCount,
+	activeIndex,
+	error,
+	onNext,
+	onPrevious,
+	onClose,
+	replace,
+}: TranscriptFindBarProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		inputRef.current?.focus();
+		inputRef.current?.select();
+	}, []);
+
+	const toggles: Array<{ key: keyof FindOptions; title: string; icon: typeof CaseSensitive }> = [
+		{ key: "caseSensitive", title: "Match case", icon: CaseSensitive },
+		{ key: "wholeWord", title: "Match whole word", icon: WholeWord },
+		{ key: "regex", title: "Use regular expression", icon: Regex },
+	];
+
+	const counter = error
+		? "Invalid regex"
+		: !query
+			? ""
+			: matchCount === 0
+				? "No results"
+				: activeIndex === -1
+					? `${matchCount} result${matchCount !== 1 ? "s" : ""}`
+					: `${activeIndex + 1} of ${matchCount}`;
+
+	return (
+		<div className="sticky top-0 z-20 mb-3 p-1.5 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm space-y-1.5">
+			<div className="flex items-center gap-1">
+				{replace && (
+					<button
+						type="button"
+						onClick={() => replace.onOpenChange(!replace.open)}
+						className="h-7 w-5 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+						title="Toggle replace"
+					>
+						{replace.open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+					</button>
+				)}
+				<input
+					ref={inputRef}
+					value={query}
+					onChange={(e) => onQueryChange(e.target.value)}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") {
+							e.preventDefault();
+							if (e.shiftKey) onPrevious();
+							else onNext();
+						} else if (e.key === "Escape") {
+							e.preventDefault();
+							onClose();
+						}
+					}}
+					placeholder="Find in transcript"
+					className={`flex-1 min-w-0 h-7 px-2 text-sm rounded-md bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 outline-none border ${
+						error ? "border-red-400" : "border-transparent focus:border-blue-400"
+					}`}
+					title={error}
+				/>
+				{toggles.map(({ key, title, icon: Icon }) => (
+					<button
+						key={key}
+						type="button"
+						onClick={() => onOptionsChange({ ...options, [key]: !options[key] })}
+						className={`h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${
+							options[key] ? "bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300" : ""
+						}`}
+						title={title}
+						aria-pressed={options[key]}
+					>
+						<Icon className="h-4 w-4" />
+					</button>
+				))}
+				<span className={`px-2 text-xs whitespace-nowrap min-w-[4.5rem] text-center ${error ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`}>
+					{counter}
+				</span>
+				<button
+					type="button"
+					onClick={onPrevious}
+					disabled={matchCount === 0}
+					className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-default"
+					title="Previous match (Shift+Enter)"
+				>
+					<ChevronUp className="h-4 w-4" />
+				</button>
+				<button
+					type="button"
+					onClick={onNext}
+					disabled={matchCount === 0}
+					className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-default"
+					title="Next match (Enter)"
+				>
+					<ChevronDown className="h-4 w-4" />
+				</button>
+				<button
+					type="button"
+					onClick={onClose}
+					className="h-7 w-7 inline-flex items-center justify-center rounded-md cursor-pointer text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+					title="Close (Esc)"
+				>
+					<X className="h-4 w-4" />
+				</button>
+			</div>
+
+			{replace?.open && (
+				<div className="flex flex-wrap items-center gap-1 pl-6">
+					<input
+						value={replace.value}
+						onChange={(e) => replace.onValueChange(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter" && matchCount > 0) {
+								e.preventDefault();
+								replace.onPreview();
+							} else if (e.key === "Escape") {
+								e.preventDefault();
+								onClose();
+							}
+						}}
+						placeholder={options.regex ? "Replace with ($1 for groups)" : "Replace with"}
+						className="flex-1 min-w-[8rem] h-7 px-2 text-sm rounded-md bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 outline-none border border-transparent focus:border-blue-400"
+					/>
+					{replace.speakers.length > 0 && (
+						<Select
+							value={replace.speaker || ALL_SPEAKERS}
+							onValueChange={(v) => replace.onSpeakerChange(v === ALL_SPEAKERS ? "" : v)}
+						>
+							<SelectTrigger className="h-7 w-40 text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_SPEAKERS}>All speakers</SelectItem>
+								{replace.speakers.map(speaker => (
+									<SelectItem key={speaker.value} value={speaker.value}>
+										{speaker.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					<button
+						type="button"
+						onClick={replace.onPreview}
+						disabled={matchCount === 0 || !!error}
+						className="h-7 px-2 inline-flex items-center gap-1 rounded-md cursor-pointer text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-default"
+						title="Preview and replace (Enter)"
+					>
+						<Replace className="h-4 w-4" />
+						Replace...
+					</button>
+					{replace.canUndo && (
+						<button
+							type="button"
+							onClick={replace.onUndo}
+							disabled={replace.undoing}
+							className="h-7 px-2 inline-flex items-center gap-1 rounded-md cursor-pointer text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-default"
+							title="Undo the last replacement"
+						>
+							{replace.undoing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+							Undo
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
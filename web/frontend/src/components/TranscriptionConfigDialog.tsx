@@ -29,6 +29,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
 import { Info } from "lucide-react";
+import { GlossaryPicker } from "./GlossaryPicker";
 
 export interface WhisperXParams {
   // Model family (whisper or nvidia)
@@ -82,6 +83,8 @@ export interface WhisperXParams {
   suppress_tokens?: string;
   suppress_numerals: boolean;
   initial_prompt?: string;
+  // Glossaries whose terms are compiled into the initial prompt
+  glossary_ids?: string[];
   condition_on_previous_text: boolean;
   fp16: boolean;
   temperature_increment_on_fallback: number;
@@ -118,6 +121,7 @@ const PARAM_DESCRIPTIONS = {
   diarize: "Enable speaker diarization to identify and separate different speakers in the audio.",
   min_speakers: "Minimum number of speakers expected in the audio (leave empty for automatic detection).",
   max_speakers: "Maximum number of speakers expected in the audio (leave empty for automatic detection).",
+  speaker_embeddings: "Keep a voice print of each speaker so they can be matched with people in the speaker directory, here and in later recordings.",
   diarize_model: "Choose diarization model: Pyannote models require a HuggingFace token and support unlimited speakers. NVIDIA Sortformer is optimized for 4-speaker scenarios and doesn't require a token.",
   temperature: "Controls randomness in output. 0 = deterministic, higher values = more creative but less accurate.",
   beam_size: "Number of beams for beam search decoding. Higher values improve quality but are slower.",
@@ -433,6 +437,18 @@ export const TranscriptionConfigDialog = memo(function TranscriptionConfigDialog
                 rows={2}
               />
             </div>
+            <div className="space-y-2">
+              <Label className="text-gray-700 dark:text-gray-300 font-medium">
+                Glossaries <span className="text-gray-500 dark:text-gray-400 font-normal">(optional)</span>
+              </Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Terms from the selected glossaries are added to the initial prompt when this profile is used.
+              </p>
+              <GlossaryPicker
+                value={params.glossary_ids || []}
+                onChange={(ids) => updateParam('glossary_ids', ids.length > 0 ? ids : undefined)}
+              />
+            </div>
           </div>
         )}
 
@@ -1687,6 +1703,25 @@ export const TranscriptionConfigDialog = memo(function TranscriptionConfigDialog
                     </div>
                   )}
 
+                  {params.diarize_model === "pyannote" && (
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="speaker_embeddings"
+                        checked={params.speaker_embeddings}
+                        onCheckedChange={(checked) => updateParam('speaker_embeddings', checked)}
+                      />
+                      <Label htmlFor="speaker_embeddings" className="text-gray-700 dark:text-gray-300">Recognise Speakers by Voice</Label>
+                      <HoverCard>
+                        <HoverCardTrigger asChild>
+                          <Info className="h-4 w-4 text-gray-400 cursor-help" />
+                        </HoverCardTrigger>
+                        <HoverCardContent className="w-80 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+                          <p className="text-sm text-gray-700 dark:text-gray-300">{PARAM_DESCRIPTIONS.speaker_embeddings}</p>
+                        </HoverCardContent>
+                      </HoverCard>
+                    </div>
+                  )}
+
                   <Separator className="my-4 sm:my-6" />
 
                   {params.diarize_model === "pyannote" && (
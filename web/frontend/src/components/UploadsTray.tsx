@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { AlertCircle, CheckCircle, ChevronDown, ChevronUp, Pause, Play, RotateCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useUploadStore, useUploads } from "../contexts/UploadsContext";
+import type { UploadItem } from "../contexts/UploadsContext";
+
+const formatSize = (bytes: number) => {
+	if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+	if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const statusLabel = (item: UploadItem) => {
+	switch (item.status) {
+		case "queued":
+			return "Waiting";
+		case "extracting":
+			return `Extracting audio… ${Math.round((item.extracted ?? 0) * 100)}%`;
+		case "uploading":
+			return `${formatSize(item.uploaded)} of ${formatSize(item.size)}`;
+		case "paused":
+			return `Paused at ${formatSize(item.uploaded)} of ${formatSize(item.size)}`;
+		case "failed":
+			return item.error || "Upload failed";
+		case "completed":
+			return "Completed";
+	}
+};
+
+/**
+ * Floating list of uploads in progress. It sits outside the pages so uploads
+ * stay visible and controllable while navigating.
+ */
+export function UploadsTray() {
+	const store = useUploadStore();
+	const uploads = useUploads();
+	const [collapsed, setCollapsed] = useState(false);
+
+	if (uploads.length === 0) return null;
+
+	const done = uploads.filter((item) => item.status === "completed").length;
+	const active = uploads.some((item) => ["queued", "extracting", "uploading"].includes(item.status));
+
+	return (
+		<div className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] sm:w-96 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg">
+			<div className="flex items-center justify-between px-4 py-3">
+				<h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+					Uploads ({done}/{uploads.length})
+				</h3>
+				<div className="flex items-center gap-1">
+					{done > 0 && (
+						<Button variant="ghost" size="sm" onClick={() => store.clearFinished()} className="h-7 text-xs">
+							Clear completed
+						</Button>
+					)}
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => setCollapsed((prev) => !prev)}
+						className="h-7 w-7"
+						title={collapsed ? "Show uploads" : "Hide uploads"}
+					>
+						{collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+					</Button>
+				</div>
+			</div>
+
+			{!collapsed && (
+				<div className="max-h-72 overflow-y-auto px-4 pb-4 space-y-3">
+					{uploads.map((item) => (
+						<div key={item.id} className="space-y-1">
+							<div className="flex items-center gap-2 text-sm">
+								<div className="flex-shrink-0">
+									{(item.status === "extracting" || item.status === "uploading") && (
+										<div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+									)}
+									{item.status === "completed" && <CheckCircle className="w-4 h-4 text-green-500" />}
+									{item.status === "failed" && <AlertCircle className="w-4 h-4 text-red-500" />}
+									{(item.status === "queued" || item.status === "paused") && (
+										<Pause className="w-4 h-4 text-gray-400" />
+									)}
+								</div>
+								<div className="flex-1 min-w-0">
+									<div className="truncate text-gray-900 dark:text-gray-100">{item.name}</div>
+									<div
+										className={`text-xs truncate ${
+											item.status === "failed"
+												? "text-red-500 dark:text-red-400"
+												: "text-gray-500 dark:text-gray-400"
+										}`}
+									>
+										{statusLabel(item)}
+									</div>
+									{item.originalSize !== undefined && (
+										<div className="text-xs text-green-600 dark:text-green-400 truncate">
+											Audio only: {formatSize(item.originalSize)} → {formatSize(item.size)} (
+											{Math.round((1 - item.size / item.originalSize) * 100)}% smaller)
+										</div>
+									)}
+									{item.notice && (
+										<div className="text-xs text-amber-600 dark:text-amber-400">{item.notice}</div>
+									)}
+								</div>
+								<div className="flex items-center flex-shrink-0">
+									{(item.status === "queued" ||
+										item.status === "extracting" ||
+										item.status === "uploading") && (
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => store.pause(item.id)}
+											className="h-7 w-7"
+											title="Pause"
+										>
+											<Pause className="h-4 w-4" />
+										</Button>
+									)}
+									{item.status === "paused" && (
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => store.resume(item.id)}
+											className="h-7 w-7"
+											title="Resume"
+										>
+											<Play className="h-4 w-4" />
+										</Button>
+									)}
+									{item.status === "failed" && (
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => store.resume(item.id)}
+											className="h-7 w-7"
+											title="Retry"
+										>
+											<RotateCw className="h-4 w-4" />
+										</Button>
+									)}
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => store.cancel(item.id)}
+										className="h-7 w-7"
+										title={item.status === "completed" ? "Dismiss" : "Cancel upload"}
+									>
+										<X className="h-4 w-4" />
+									</Button>
+								</div>
+							</div>
+							{item.status !== "completed" && (
+								<Progress
+									value={
+										item.status === "extracting"
+											? (item.extracted ?? 0) * 100
+											: item.size
+												? (item.uploaded / item.size) * 100
+												: 0
+									}
+									className="h-1.5"
+								/>
+							)}
+						</div>
+					))}
+					{active && (
+						<p className="text-xs text-gray-500 dark:text-gray-400">
+							Uploads continue while you browse. Keep this tab open until they finish.
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
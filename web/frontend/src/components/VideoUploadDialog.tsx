@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { canExtractAudio } from "../utils/audioExtraction";
+
+interface VideoUploadDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	files: File[];
+	onConfirm: (extractAudio: boolean) => void;
+}
+
+const EXTRACT_PREFERENCE_KEY = "scriberr_extract_video_audio";
+
+const formatSize = (bytes: number) => {
+	if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+	if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+/**
+ * Asks how to upload videos: whole, for the server to extract the audio, or
+ * as audio extracted in the browser, which is far smaller to send
+ */
+export function VideoUploadDialog({ open, onOpenChange, files, onConfirm }: VideoUploadDialogProps) {
+	const supported = canExtractAudio();
+	const [extract, setExtract] = useState(() => localStorage.getItem(EXTRACT_PREFERENCE_KEY) !== "0");
+
+	const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+	const handleConfirm = () => {
+		localStorage.setItem(EXTRACT_PREFERENCE_KEY, extract ? "1" : "0");
+		onConfirm(supported && extract);
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px] bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+				<DialogHeader>
+					<DialogTitle className="text-gray-900 dark:text-gray-100">
+						Upload {files.length === 1 ? "Video" : `${files.length} Videos`}
+					</DialogTitle>
+					<DialogDescription className="text-gray-600 dark:text-gray-400">
+						Only the audio is transcribed. {formatSize(totalSize)} in total.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-1 max-h-40 overflow-y-auto">
+						{files.map((file, index) => (
+							<div key={index} className="flex items-center gap-2 text-sm">
+								<Video className="h-4 w-4 text-purple-500 flex-shrink-0" />
+								<span className="flex-1 truncate text-gray-900 dark:text-gray-100">{file.name}</span>
+								<span className="text-xs text-gray-500 dark:text-gray-400">{formatSize(file.size)}</span>
+							</div>
+						))}
+					</div>
+
+					<div className="flex items-start justify-between gap-4 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+						<div>
+							<Label htmlFor="extract-audio" className="text-gray-900 dark:text-gray-100">
+								Extract audio in the browser
+							</Label>
+							<p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+								{supported
+									? "Converts the audio track to 16 kHz mono before uploading, typically a few percent of the video's size. The size saved is shown in the uploads tray."
+									: "This browser can't convert audio, so the whole video is uploaded and the server extracts the audio."}
+							</p>
+						</div>
+						<Switch
+							id="extract-audio"
+							checked={supported && extract}
+							onCheckedChange={setExtract}
+							disabled={!supported}
+						/>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleConfirm} className="bg-blue-500 hover:bg-blue-600 text-white">
+						Upload
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,260 @@
+import { createContext, useContext, useEffect, useRef, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import { useAuth } from "./AuthContext";
+
+export type JobStatus = "uploaded" | "pending" | "processing" | "completed" | "failed";
+
+export interface TrackProgress {
+	job_id: string;
+	overall_status: JobStatus;
+	merge_status: string;
+	tracks: Array<{ track_name: string; track_index: number; status: string }>;
+	progress: {
+		completed_tracks: number;
+		total_tracks: number;
+		percentage: number;
+	};
+}
+
+export interface JobState {
+	id: string;
+	status: JobStatus;
+	error_message?: string;
+	is_multi_track: boolean;
+	merge_status?: string;
+	merge_error?: string;
+	queue_position?: number;
+	track_progress?: TrackProgress;
+}
+
+// Snapshot polling interval while the stream is down
+const POLL_INTERVAL = 5000;
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// Keep the stream open briefly after the last subscriber leaves so switching
+// pages doesn't reconnect
+const IDLE_DISCONNECT_DELAY = 10000;
+
+type Listener = () => void;
+
+/**
+ * Live job state shared by every component. Reads the server's job event
+ * stream while anything is subscribed and polls the snapshot endpoint while
+ * the stream is unavailable, reconnecting with exponential backoff.
+ */
+class JobEventStore {
+	states: ReadonlyMap<string, JobState> = new Map();
+
+	private listeners = new Set<Listener>();
+	private getHeaders: () => { Authorization?: string } = () => ({});
+	private enabled = false;
+	private running = false;
+	private controller: AbortController | null = null;
+	private retryDelay = MIN_RETRY_DELAY;
+	private retryTimer: ReturnType<typeof setTimeout> | null = null;
+	private pollTimer: ReturnType<typeof setInterval> | null = null;
+	private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+	setHeaders(getHeaders: () => { Authorization?: string }) {
+		this.getHeaders = getHeaders;
+	}
+
+	setEnabled(enabled: boolean) {
+		this.enabled = enabled;
+		if (!enabled) this.stop();
+		else if (this.listeners.size > 0) this.start();
+	}
+
+	subscribe = (listener: Listener) => {
+		this.listeners.add(listener);
+		if (this.idleTimer) {
+			clearTimeout(this.idleTimer);
+			this.idleTimer = null;
+		}
+		this.start();
+		return () => {
+			this.listeners.delete(listener);
+			if (this.listeners.size === 0) {
+				this.idleTimer = setTimeout(() => this.stop(), IDLE_DISCONNECT_DELAY);
+			}
+		};
+	};
+
+	private emit() {
+		this.listeners.forEach(listener => listener());
+	}
+
+	private start() {
+		if (!this.enabled || this.running) return;
+		this.running = true;
+		this.connect();
+	}
+
+	private stop() {
+		this.running = false;
+		this.controller?.abort();
+		this.controller = null;
+		if (this.retryTimer) clearTimeout(this.retryTimer);
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.retryTimer = null;
+		this.idleTimer = null;
+		this.stopPolling();
+		this.retryDelay = MIN_RETRY_DELAY;
+		// Nothing keeps stale states up to date once stopped
+		this.states = new Map();
+		this.emit();
+	}
+
+	private async connect() {
+		const controller = new AbortController();
+		this.controller = controller;
+		try {
+			const response = await fetch("/api/v1/events/jobs", {
+				headers: { ...this.getHeaders() },
+				signal: controller.signal,
+			});
+			if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = "";
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				const blocks = buffer.split("\n\n");
+				buffer = blocks.pop() ?? "";
+				if (blocks.map(block => this.handleEvent(block)).some(Boolean)) this.emit();
+			}
+		} catch (error) {
+			if (!controller.signal.aborted) console.error("Job event stream failed:", error);
+		}
+
+		if (controller.signal.aborted || !this.running) return;
+		this.startPolling();
+		this.retryTimer = setTimeout(() => {
+			this.retryTimer = null;
+			if (this.running) this.connect();
+		}, this.retryDelay);
+		this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+	}
+
+	// Applies one server-sent event block; returns whether anything changed
+	private handleEvent(block: string): boolean {
+		let event = "message";
+		let data = "";
+		block.split("\n").forEach(line => {
+			if (line.startsWith("event:")) event = line.slice(6).trim();
+			else if (line.startsWith("data:")) data += line.slice(5).trim();
+		});
+		if (!data) return false;
+
+		const payload = JSON.parse(data);
+		switch (event) {
+			case "snapshot":
+				this.retryDelay = MIN_RETRY_DELAY;
+				this.stopPolling();
+				this.replaceAll(payload as JobState[]);
+				return true;
+			case "job": {
+				const next = new Map(this.states);
+				next.set(payload.id, payload as JobState);
+				this.states = next;
+				return true;
+			}
+			case "job_removed": {
+				const next = new Map(this.states);
+				next.delete(payload.id);
+				this.states = next;
+				return true;
+			}
+			default:
+				return false;
+		}
+	}
+
+	// Keeps the object of every unchanged job so per-job subscribers don't re-render
+	private replaceAll(states: JobState[]) {
+		const next = new Map<string, JobState>();
+		states.forEach(state => {
+			const previous = this.states.get(state.id);
+			next.set(state.id, previous && JSON.stringify(previous) === JSON.stringify(state) ? previous : state);
+		});
+		this.states = next;
+	}
+
+	private startPolling() {
+		if (this.pollTimer) return;
+		const poll = async () => {
+			try {
+				const response = await fetch("/api/v1/events/jobs/snapshot", {
+					headers: { ...this.getHeaders() },
+				});
+				if (!response.ok || !this.pollTimer) return;
+				this.replaceAll(await response.json());
+				this.emit();
+			} catch (error) {
+				console.error("Failed to poll job states:", error);
+			}
+		};
+		this.pollTimer = setInterval(poll, POLL_INTERVAL);
+		poll();
+	}
+
+	private stopPolling() {
+		if (this.pollTimer) clearInterval(this.pollTimer);
+		this.pollTimer = null;
+	}
+}
+
+const JobEventsContext = createContext<JobEventStore | undefined>(undefined);
+
+interface JobEventsProviderProps {
+	children: ReactNode;
+}
+
+export function JobEventsProvider({ children }: JobEventsProviderProps) {
+	const { isAuthenticated, getAuthHeaders } = useAuth();
+	const storeRef = useRef<JobEventStore | null>(null);
+	if (!storeRef.current) storeRef.current = new JobEventStore();
+	const store = storeRef.current;
+
+	useEffect(() => {
+		store.setHeaders(getAuthHeaders);
+	}, [store, getAuthHeaders]);
+
+	useEffect(() => {
+		store.setEnabled(isAuthenticated);
+		return () => store.setEnabled(false);
+	}, [store, isAuthenticated]);
+
+	return (
+		<JobEventsContext.Provider value={store}>
+			{children}
+		</JobEventsContext.Provider>
+	);
+}
+
+function useJobEventStore() {
+	const context = useContext(JobEventsContext);
+	if (context === undefined) {
+		throw new Error("useJobEventStore must be used within a JobEventsProvider");
+	}
+	return context;
+}
+
+/**
+ * Live state of every job
+ */
+export function useJobStates(): ReadonlyMap<string, JobState> {
+	const store = useJobEventStore();
+	return useSyncExternalStore(store.subscribe, () => store.states);
+}
+
+/**
+ * Live state of one job; undefined until the store has heard about it
+ */
+export function useJobState(jobId?: string): JobState | undefined {
+	const store = useJobEventStore();
+	return useSyncExternalStore(store.subscribe, () => (jobId ? store.states.get(jobId) : undefined));
+}
@@ -1,61 +1,104 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 
 export type Route = {
-  path: 'home' | 'audio-detail' | 'settings' | 'chat'
+  path: 'home' | 'folder' | 'audio-detail' | 'settings' | 'chat' | 'search' | 'share'
   params?: Record<string, string | undefined>
 }
 
+interface NavigateOptions {
+  // Replace the current history entry instead of adding one, e.g. while editing filters
+  replace?: boolean
+}
+
 interface RouterContextType {
   currentRoute: Route
-  navigate: (route: Route) => void
+  navigate: (route: Route, options?: NavigateOptions) => void
 }
 
 const RouterContext = createContext<RouterContextType | undefined>(undefined)
 
-export function RouterProvider({ children }: { children: React.ReactNode }) {
-  const [currentRoute, setCurrentRoute] = useState<Route>(() => {
-    // Parse initial URL
-    const path = window.location.pathname
-
-    // /audio/<audioId>/chat/<chatSessionId>
-    const chatMatch = path.match(/^\/audio\/([^\/]+)\/chat\/(.+)$/)
-    if (chatMatch) {
-      return { path: 'chat', params: { audioId: chatMatch[1], sessionId: chatMatch[2] } }
-    }
+// Builds a route from the current browser URL
+function parseLocation(): Route {
+  const path = window.location.pathname
+  const query = new URLSearchParams(window.location.search)
 
-    // /audio/<audioId>/chat (no session specified)
-    const chatBase = path.match(/^\/audio\/([^\/]+)\/chat\/?$/)
-    if (chatBase) {
-      return { path: 'chat', params: { audioId: chatBase[1] } }
-    }
+  // /audio/<audioId>/chat/<chatSessionId>
+  const chatMatch = path.match(/^\/audio\/([^\/]+)\/chat\/(.+)$/)
+  if (chatMatch) {
+    return { path: 'chat', params: { audioId: chatMatch[1], sessionId: chatMatch[2] } }
+  }
 
-    // /audio/<audioId>
-    if (path.startsWith('/audio/')) {
-      const audioId = path.split('/audio/')[1]
-      return { path: 'audio-detail', params: { id: audioId } }
-    } else if (path === '/settings') {
-      return { path: 'settings' }
-    }
+  // /audio/<audioId>/chat (no session specified)
+  const chatBase = path.match(/^\/audio\/([^\/]+)\/chat\/?$/)
+  if (chatBase) {
+    return { path: 'chat', params: { audioId: chatBase[1] } }
+  }
+
+  // /share/<token>, a public read-only link
+  const shareMatch = path.match(/^\/share\/([^/]+)\/?$/)
+  if (shareMatch) {
+    return { path: 'share', params: { token: decodeURIComponent(shareMatch[1]) } }
+  }
 
-    return { path: 'home' }
-  })
+  // /audio/<audioId>?t=<seconds> or ?w=<first word>-<last word>
+  if (path.startsWith('/audio/')) {
+    const audioId = path.split('/audio/')[1]
+    return { path: 'audio-detail', params: { id: audioId, t: query.get('t') || undefined, w: query.get('w') || undefined } }
+  } else if (path.startsWith('/folders/')) {
+    // /folders/<folderId>?<library filters>
+    return { path: 'folder', params: { id: path.split('/folders/')[1], filters: query.toString() || undefined } }
+  } else if (path === '/settings') {
+    return { path: 'settings' }
+  } else if (path === '/search') {
+    // /search?q=<query>&page=<page>
+    return { path: 'search', params: { q: query.get('q') || undefined, page: query.get('page') || undefined } }
+  }
 
-  const navigate = (route: Route) => {
+  // /?<library filters>
+  return { path: 'home', params: { filters: query.toString() || undefined } }
+}
+
+export function RouterProvider({ children }: { children: React.ReactNode }) {
+  const [currentRoute, setCurrentRoute] = useState<Route>(() => parseLocation())
+
+  const navigate = (route: Route, options: NavigateOptions = {}) => {
     setCurrentRoute(route)
     
     // Update browser URL
     let url = '/'
     if (route.path === 'audio-detail' && route.params?.id) {
       url = `/audio/${route.params.id}`
+      const query = new URLSearchParams()
+      if (route.params.t) query.set('t', route.params.t)
+      if (route.params.w) query.set('w', route.params.w)
+      if (query.toString()) url += `?${query}`
     } else if (route.path === 'chat' && route.params?.audioId && route.params?.sessionId) {
       url = `/audio/${route.params.audioId}/chat/${route.params.sessionId}`
     } else if (route.path === 'chat' && route.params?.audioId) {
       url = `/audio/${route.params.audioId}/chat`
+    } else if (route.path === 'folder' && route.params?.id) {
+      url = `/folders/${route.params.id}`
+    } else if (route.path === 'share' && route.params?.token) {
+      url = `/share/${encodeURIComponent(route.params.token)}`
     } else if (route.path === 'settings') {
       url = '/settings'
+    } else if (route.path === 'search') {
+      const query = new URLSearchParams()
+      if (route.params?.q) query.set('q', route.params.q)
+      if (route.params?.page && route.params.page !== '1') query.set('page', route.params.page)
+      url = query.toString() ? `/search?${query}` : '/search'
     }
     
-    window.history.pushState({ route }, '', url)
+    // The library keeps its filters in the query string
+    if ((route.path === 'home' || route.path === 'folder') && route.params?.filters) {
+      url += `?${route.params.filters}`
+    }
+
+    if (options.replace) {
+      window.history.replaceState({ route }, '', url)
+    } else {
+      window.history.pushState({ route }, '', url)
+    }
   }
 
   useEffect(() => {
@@ -64,24 +107,7 @@ export function RouterProvider({ children }: { children: React.ReactNode }) {
         setCurrentRoute(event.state.route)
       } else {
         // Fallback to parsing URL
-        const path = window.location.pathname
-        const chatMatch = path.match(/^\/audio\/([^\/]+)\/chat\/(.+)$/)
-        if (chatMatch) {
-          setCurrentRoute({ path: 'chat', params: { audioId: chatMatch[1], sessionId: chatMatch[2] } })
-        } else {
-          const chatBase = path.match(/^\/audio\/([^\/]+)\/chat\/?$/)
-          if (chatBase) {
-            setCurrentRoute({ path: 'chat', params: { audioId: chatBase[1] } })
-            return
-          } else if (path.startsWith('/audio/')) {
-            const audioId = path.split('/audio/')[1]
-            setCurrentRoute({ path: 'audio-detail', params: { id: audioId } })
-          } else if (path === '/settings') {
-            setCurrentRoute({ path: 'settings' })
-          } else {
-            setCurrentRoute({ path: 'home' })
-          }
-        }
+        setCurrentRoute(parseLocation())
       }
     }
 
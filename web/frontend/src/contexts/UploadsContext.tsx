@@ -0,0 +1,333 @@
+import { createContext, useContext, useEffect, useRef, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import { useAuth } from "./AuthContext";
+import { extractAudio } from "../utils/audioExtraction";
+import { cancelUploadSession, completeMultiTrackUpload, sendInChunks, uploadInChunks } from "../utils/chunkedUpload";
+import { extractTitle } from "../utils/fileProcessor";
+
+export type UploadStatus = "queued" | "extracting" | "uploading" | "paused" | "failed" | "completed";
+
+export interface UploadItem {
+	id: string;
+	name: string;
+	kind: "audio" | "video" | "multitrack";
+	status: UploadStatus;
+	uploaded: number;
+	size: number;
+	// Size of the video before its audio was extracted in the browser
+	originalSize?: number;
+	// Share of the audio extraction done, from 0 to 1
+	extracted?: number;
+	error?: string;
+	notice?: string;
+}
+
+export interface AddFilesOptions {
+	// Extract the audio of videos in the browser and upload only that
+	extractAudio?: boolean;
+	// Folder the new jobs are filed in
+	folderId?: string;
+}
+
+interface UploadPart {
+	file: File;
+	sessionId?: string;
+	uploaded: number;
+}
+
+interface UploadTask {
+	item: UploadItem;
+	title: string;
+	// Multi-track uploads send the .aup project file first, then the tracks
+	parts: UploadPart[];
+	// Videos whose audio still has to be extracted before uploading
+	extractAudio: boolean;
+	folderId?: string;
+	controller: AbortController | null;
+}
+
+type Listener = () => void;
+
+/**
+ * Uploads queued from any page. Files are sent one at a time through
+ * resumable upload sessions, so an upload survives page changes, can be
+ * paused and resumed, and a failed one continues where it stopped when
+ * retried or when the browser comes back online.
+ */
+class UploadStore {
+	items: readonly UploadItem[] = [];
+	// Increases each time an upload creates a job, for lists to refresh on
+	completed = 0;
+
+	private tasks: UploadTask[] = [];
+	private listeners = new Set<Listener>();
+	private getHeaders: () => { Authorization?: string } = () => ({});
+	private active: UploadTask | null = null;
+	private nextId = 0;
+
+	setHeaders(getHeaders: () => { Authorization?: string }) {
+		this.getHeaders = getHeaders;
+	}
+
+	subscribe = (listener: Listener) => {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	};
+
+	get busy() {
+		return this.tasks.some(task => ["queued", "extracting", "uploading"].includes(task.item.status));
+	}
+
+	addFiles(files: Array<{ file: File; isVideo: boolean }>, { extractAudio = false, folderId }: AddFilesOptions = {}) {
+		files.forEach(({ file, isVideo }) => {
+			this.add(file.name, isVideo ? "video" : "audio", extractTitle(file.name), [file], isVideo && extractAudio, folderId);
+		});
+	}
+
+	addMultiTrack(tracks: File[], aupFile: File, title: string, folderId?: string) {
+		this.add(`${title} (${tracks.length} tracks)`, "multitrack", title, [aupFile, ...tracks], false, folderId);
+	}
+
+	pause(id: string) {
+		const task = this.find(id);
+		if (!task) return;
+		if (task.item.status === "queued") {
+			this.update(task, { status: "paused" });
+		} else if (task.item.status === "extracting" || task.item.status === "uploading") {
+			// The running upload sees the abort and leaves the task paused;
+			// an interrupted extraction starts over on resume
+			this.update(task, { status: "paused" });
+			task.controller?.abort();
+		}
+	}
+
+	resume(id: string) {
+		const task = this.find(id);
+		if (!task || (task.item.status !== "paused" && task.item.status !== "failed")) return;
+		this.update(task, { status: "queued", error: undefined });
+		this.pump();
+	}
+
+	resumeFailed() {
+		this.tasks.filter(task => task.item.status === "failed").forEach(task => this.resume(task.item.id));
+	}
+
+	cancel(id: string) {
+		const task = this.find(id);
+		if (!task) return;
+		task.controller?.abort();
+		task.parts.forEach(part => {
+			if (part.sessionId && task.item.status !== "completed") cancelUploadSession(part.sessionId, this.getHeaders);
+		});
+		this.remove(task);
+	}
+
+	clearFinished() {
+		this.tasks.filter(task => task.item.status === "completed").forEach(task => this.remove(task));
+	}
+
+	private add(
+		name: string,
+		kind: UploadItem["kind"],
+		title: string,
+		files: File[],
+		extractAudio: boolean,
+		folderId?: string,
+	) {
+		const parts = files.map(file => ({ file, uploaded: 0 }));
+		const item: UploadItem = {
+			id: `upload-${++this.nextId}`,
+			name,
+			kind,
+			status: "queued",
+			uploaded: 0,
+			size: files.reduce((sum, file) => sum + file.size, 0),
+		};
+		this.tasks.push({ item, title, parts, extractAudio, folderId, controller: null });
+		this.publish();
+		this.pump();
+	}
+
+	private find(id: string) {
+		return this.tasks.find(task => task.item.id === id);
+	}
+
+	private remove(task: UploadTask) {
+		this.tasks = this.tasks.filter(t => t !== task);
+		this.publish();
+	}
+
+	private update(task: UploadTask, changes: Partial<UploadItem>) {
+		task.item = { ...task.item, ...changes };
+		this.publish();
+	}
+
+	private publish() {
+		this.items = this.tasks.map(task => task.item);
+		this.listeners.forEach(listener => listener());
+	}
+
+	private pump() {
+		if (this.active) return;
+		const task = this.tasks.find(t => t.item.status === "queued");
+		if (!task) return;
+		this.active = task;
+		this.run(task).finally(() => {
+			this.active = null;
+			this.pump();
+		});
+	}
+
+	private async run(task: UploadTask) {
+		const controller = new AbortController();
+		task.controller = controller;
+
+		if (task.extractAudio) {
+			const video = task.parts[0].file;
+			this.update(task, { status: "extracting", extracted: 0 });
+			try {
+				const audio = await extractAudio(video, {
+					onProgress: extracted => this.update(task, { extracted }),
+					signal: controller.signal,
+				});
+				task.parts = [{ file: audio, uploaded: 0 }];
+				task.extractAudio = false;
+				this.update(task, { originalSize: video.size, size: audio.size });
+			} catch (error) {
+				if (controller.signal.aborted) {
+					task.controller = null;
+					return;
+				}
+				// The server can still extract it, just after a longer upload
+				console.error(`Failed to extract audio from ${task.item.name}:`, error);
+				task.extractAudio = false;
+				this.update(task, { notice: "Audio couldn't be extracted in the browser; uploading the whole video" });
+			}
+		}
+		this.update(task, { status: "uploading" });
+
+		// Extracted audio is uploaded like any audio file
+		const extracted = task.item.originalSize !== undefined;
+
+		const progress = () =>
+			this.update(task, { uploaded: task.parts.reduce((sum, part) => sum + part.uploaded, 0) });
+
+		try {
+			if (task.item.kind === "multitrack") {
+				for (const part of task.parts) {
+					await sendInChunks(part.file, {
+						fileName: part.file.name,
+						folderId: task.folderId,
+						sessionId: part.sessionId,
+						getHeaders: this.getHeaders,
+						onSession: sessionId => (part.sessionId = sessionId),
+						onProgress: uploaded => {
+							part.uploaded = uploaded;
+							progress();
+						},
+						signal: controller.signal,
+					});
+				}
+				const [aup, ...tracks] = task.parts;
+				await completeMultiTrackUpload(
+					task.title,
+					aup.sessionId!,
+					tracks.map(part => part.sessionId!),
+					this.getHeaders,
+					controller.signal,
+				);
+			} else {
+				const [part] = task.parts;
+				await uploadInChunks(part.file, {
+					fileName: part.file.name,
+					title: task.title,
+					folderId: task.folderId,
+					sessionId: part.sessionId,
+					getHeaders: this.getHeaders,
+					onSession: sessionId => (part.sessionId = sessionId),
+					onProgress: uploaded => {
+						part.uploaded = uploaded;
+						progress();
+					},
+					kind: task.item.kind === "video" && !extracted ? "video" : "audio",
+					signal: controller.signal,
+				});
+			}
+			this.completed++;
+			this.update(task, { status: "completed", uploaded: task.item.size });
+		} catch (error) {
+			// Paused or cancelled; the status is already what it should be
+			if (controller.signal.aborted) return;
+			console.error(`Failed to upload ${task.item.name}:`, error);
+			this.update(task, { status: "failed", error: error instanceof Error ? error.message : "Upload failed" });
+		} finally {
+			task.controller = null;
+		}
+	}
+}
+
+const UploadsContext = createContext<UploadStore | undefined>(undefined);
+
+interface UploadsProviderProps {
+	children: ReactNode;
+}
+
+export function UploadsProvider({ children }: UploadsProviderProps) {
+	const { getAuthHeaders } = useAuth();
+	const storeRef = useRef<UploadStore | null>(null);
+	if (!storeRef.current) storeRef.current = new UploadStore();
+	const store = storeRef.current;
+
+	useEffect(() => {
+		store.setHeaders(getAuthHeaders);
+	}, [store, getAuthHeaders]);
+
+	useEffect(() => {
+		// Uploads that ran out of retries while offline pick up again
+		const handleOnline = () => store.resumeFailed();
+		// The browser can't hand the files back after a reload, so warn first
+		const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+			if (!store.busy) return;
+			e.preventDefault();
+			e.returnValue = "";
+		};
+		window.addEventListener("online", handleOnline);
+		window.addEventListener("beforeunload", handleBeforeUnload);
+		return () => {
+			window.removeEventListener("online", handleOnline);
+			window.removeEventListener("beforeunload", handleBeforeUnload);
+		};
+	}, [store]);
+
+	return (
+		<UploadsContext.Provider value={store}>
+			{children}
+		</UploadsContext.Provider>
+	);
+}
+
+export function useUploadStore() {
+	const context = useContext(UploadsContext);
+	if (context === undefined) {
+		throw new Error("useUploadStore must be used within an UploadsProvider");
+	}
+	return context;
+}
+
+/**
+ * Every upload in the tray
+ */
+export function useUploads(): readonly UploadItem[] {
+	const store = useUploadStore();
+	return useSyncExternalStore(store.subscribe, () => store.items);
+}
+
+/**
+ * Number of uploads that created a job so far
+ */
+export function useCompletedUploads(): number {
+	const store = useUploadStore();
+	return useSyncExternalStore(store.subscribe, () => store.completed);
+}
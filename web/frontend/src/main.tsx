@@ -12,6 +12,8 @@ import { ProtectedRoute } from './components/ProtectedRoute'
 import { TooltipProvider } from '@/components/ui/tooltip'
 import { ToastProvider } from '@/components/ui/toast'
 import { ChatEventsProvider } from './contexts/ChatEventsContext'
+import { JobEventsProvider } from './contexts/JobEventsContext'
+import { UploadsProvider } from './contexts/UploadsContext'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -21,9 +23,13 @@ createRoot(document.getElementById('root')!).render(
           <TooltipProvider>
             <ToastProvider>
               <ChatEventsProvider>
-                <ProtectedRoute>
-                  <App />
-                </ProtectedRoute>
+                <JobEventsProvider>
+                  <UploadsProvider>
+                    <ProtectedRoute>
+                      <App />
+                    </ProtectedRoute>
+                  </UploadsProvider>
+                </JobEventsProvider>
               </ChatEventsProvider>
             </ToastProvider>
           </TooltipProvider>
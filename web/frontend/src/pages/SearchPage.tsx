@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2, Search } from "lucide-react";
+import { Header } from "../components/Header";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { useRouter } from "../contexts/RouterContext";
+import { useAuth } from "../contexts/AuthContext";
+
+interface SearchHit {
+	transcription_id: string;
+	title?: string;
+	segment_index: number;
+	start: number;
+	end: number;
+	speaker?: string;
+	speaker_name?: string;
+	snippet: string;
+	created_at: string;
+}
+
+interface SearchResponse {
+	results: SearchHit[];
+	pagination: {
+		page: number;
+		limit: number;
+		total: number;
+		pages: number;
+		query: string;
+	};
+}
+
+const PAGE_SIZE = 20;
+
+const formatTimestamp = (seconds: number): string => {
+	const total = Math.floor(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = (total % 60).toString().padStart(2, "0");
+	return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Wraps every case-insensitive occurrence of query in a <mark>
+const highlight = (text: string, query: string) => {
+	if (!query) return text;
+	const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, "gi"));
+	return parts.map((part, i) =>
+		i % 2 === 1 ? (
+			<mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-gray-900 dark:text-gray-100 rounded px-0.5">
+				{part}
+			</mark>
+		) : (
+			part
+		),
+	);
+};
+
+export function SearchPage() {
+	const { currentRoute, navigate } = useRouter();
+	const { getAuthHeaders } = useAuth();
+	const query = currentRoute.params?.q || "";
+	const page = Math.max(1, parseInt(currentRoute.params?.page || "1", 10) || 1);
+
+	const [draft, setDraft] = useState(query);
+	const [results, setResults] = useState<SearchHit[]>([]);
+	const [total, setTotal] = useState(0);
+	const [pages, setPages] = useState(0);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setDraft(query);
+	}, [query]);
+
+	useEffect(() => {
+		if (!query) {
+			setResults([]);
+			setTotal(0);
+			setPages(0);
+			return;
+		}
+
+		let cancelled = false;
+		const search = async () => {
+			setLoading(true);
+			setError(null);
+			try {
+				const params = new URLSearchParams({ q: query, page: String(page), limit: String(PAGE_SIZE) });
+				const res = await fetch(`/api/v1/transcription/search?${params}`, {
+					headers: { ...getAuthHeaders() },
+				});
+				if (!res.ok) {
+					const data = await res.json().catch(() => ({}));
+					throw new Error(data.error || `HTTP ${res.status}`);
+				}
+				const data: SearchResponse = await res.json();
+				if (cancelled) return;
+				setResults(data.results);
+				setTotal(data.pagination.total);
+				setPages(data.pagination.pages);
+			} catch (e) {
+				if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+			} finally {
+				if (!cancelled) setLoading(false);
+			}
+		};
+		search();
+
+		return () => {
+			cancelled = true;
+		};
+	}, [query, page, getAuthHeaders]);
+
+	// Group consecutive hits from the same recording under one heading
+	const groups = useMemo(() => {
+		const grouped: Array<{ id: string; title: string; createdAt: string; hits: SearchHit[] }> = [];
+		results.forEach(hit => {
+			const last = grouped[grouped.length - 1];
+			if (last && last.id === hit.transcription_id) {
+				last.hits.push(hit);
+			} else {
+				grouped.push({
+					id: hit.transcription_id,
+					title: hit.title || "Untitled recording",
+					createdAt: hit.created_at,
+					hits: [hit],
+				});
+			}
+		});
+		return grouped;
+	}, [results]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		navigate({ path: "search", params: { q: draft.trim() || undefined } });
+	};
+
+	const goToPage = (next: number) => {
+		navigate({ path: "search", params: { q: query, page: String(next) } });
+		window.scrollTo({ top: 0, behavior: "smooth" });
+	};
+
+	const openHit = (hit: SearchHit) => {
+		navigate({ path: "audio-detail", params: { id: hit.transcription_id, t: hit.start.toFixed(2) } });
+	};
+
+	// Search page doesn't upload files
+	const handleFileSelect = () => {};
+
+	return (
+		<div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+			<div className="mx-auto w-full max-w-6xl px-2 sm:px-6 md:px-8 py-3 sm:py-6">
+				<Header onFileSelect={handleFileSelect} />
+
+				<div className="bg-white dark:bg-gray-800 rounded-xl p-3 sm:p-6">
+					<div className="mb-4 sm:mb-6">
+						<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Search transcripts</h1>
+						<p className="text-gray-600 dark:text-gray-400 text-sm">
+							Find words and phrases spoken in any of your recordings.
+						</p>
+					</div>
+
+					<form onSubmit={handleSubmit} className="flex gap-2 mb-6">
+						<div className="relative flex-1">
+							<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 z-10" />
+							<Input
+								autoFocus
+								value={draft}
+								onChange={(e) => setDraft(e.target.value)}
+								placeholder="Search inside transcripts..."
+								className="pl-10 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+							/>
+						</div>
+						<Button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white cursor-pointer">
+							Search
+						</Button>
+					</form>
+
+					{loading ? (
+						<div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400">
+							<Loader2 className="h-5 w-5 mr-2 animate-spin" />
+							Searching...
+						</div>
+					) : error ? (
+						<p className="py-12 text-center text-sm text-red-600 dark:text-red-400">Search failed: {error}</p>
+					) : !query ? (
+						<p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+							Enter a word or phrase to search all completed transcripts.
+						</p>
+					) : results.length === 0 ? (
+						<div className="py-12 text-center">
+							<h3 className="text-lg font-medium text-gray-600 dark:text-gray-300 mb-2">No matches</h3>
+							<p className="text-gray-500 dark:text-gray-400 text-sm">Nothing in your transcripts matches "{query}".</p>
+						</div>
+					) : (
+						<>
+							<p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+								{total} match{total !== 1 ? "es" : ""} for "{query}"
+							</p>
+
+							<div className="space-y-4">
+								{groups.map((group, groupIndex) => (
+									<div key={`${group.id}-${groupIndex}`} className="border border-gray-100 dark:border-gray-900 rounded-lg overflow-hidden">
+										<div className="flex items-center justify-between gap-2 px-4 py-2 bg-gray-50 dark:bg-gray-900/50">
+											<h2 className="font-medium text-gray-900 dark:text-gray-100 truncate">{group.title}</h2>
+											<span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+												{new Date(group.createdAt).toLocaleDateString()}
+											</span>
+										</div>
+										<ul className="divide-y divide-gray-100 dark:divide-gray-700">
+											{group.hits.map(hit => (
+												<li key={hit.segment_index}>
+													<button
+														type="button"
+														onClick={() => openHit(hit)}
+														className="w-full text-left flex gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer"
+													>
+														<span className="flex-shrink-0 h-fit px-2 py-1 text-xs font-mono bg-blue-100 dark:bg-blue-700 text-blue-800 dark:text-blue-200 rounded">
+															{formatTimestamp(hit.start)}
+														</span>
+														<span className="min-w-0">
+															{hit.speaker && (
+																<span className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-0.5">
+																	{hit.speaker_name || hit.speaker}
+																</span>
+															)}
+															<span className="text-sm text-gray-700 dark:text-gray-200 leading-relaxed break-words">
+																{highlight(hit.snippet, query)}
+															</span>
+														</span>
+													</button>
+												</li>
+											))}
+										</ul>
+									</div>
+								))}
+							</div>
+
+							{pages > 1 && (
+								<div className="flex items-center justify-end space-x-2 pt-4">
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={() => goToPage(page - 1)}
+										disabled={page <= 1}
+										className="text-gray-600 dark:text-gray-400"
+									>
+										<ChevronLeft className="h-4 w-4" />
+									</Button>
+									<span className="text-sm text-gray-600 dark:text-gray-400">
+										Page {page} of {pages}
+									</span>
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={() => goToPage(page + 1)}
+										disabled={page >= pages}
+										className="text-gray-600 dark:text-gray-400"
+									>
+										<ChevronRight className="h-4 w-4" />
+									</Button>
+								</div>
+							)}
+						</>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
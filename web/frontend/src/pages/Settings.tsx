@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { User, Settings as SettingsIcon, Key, Bot, FileText, Plus } from "lucide-react";
+import { User, Settings as SettingsIcon, Key, Bot, FileText, BookText, Plus, Users, Keyboard, Share2 } from "lucide-react";
 import {
 	Tabs,
 	TabsContent,
@@ -13,6 +13,14 @@ import { APIKeySettings } from "../components/APIKeySettings";
 import { LLMSettings } from "../components/LLMSettings";
 import { SummaryTemplateDialog, type SummaryTemplate } from "../components/SummaryTemplateDialog";
 import { SummaryTemplatesTable } from "../components/SummaryTemplatesTable";
+import { GlossaryDialog, type Glossary } from "../components/GlossaryDialog";
+import { GlossariesTable } from "../components/GlossariesTable";
+import { SpeakerDialog } from "../components/SpeakerDialog";
+import { SpeakersTable } from "../components/SpeakersTable";
+import { ShortcutSettings } from "../components/ShortcutSettings";
+import { ShareLinksTable } from "../components/ShareLinksTable";
+import type { Speaker } from "../utils/speakers";
+import { ensureOk } from "../utils/batch";
 import { useAuth } from "../contexts/AuthContext";
 
 export function Settings() {
@@ -22,6 +30,12 @@ export function Settings() {
   const [editingSummary, setEditingSummary] = useState<SummaryTemplate | null>(null);
   const [summaryRefresh, setSummaryRefresh] = useState(0);
   const [llmConfigured, setLlmConfigured] = useState(false);
+  const [glossaryDialogOpen, setGlossaryDialogOpen] = useState(false);
+  const [editingGlossary, setEditingGlossary] = useState<Glossary | null>(null);
+  const [glossaryRefresh, setGlossaryRefresh] = useState(0);
+  const [speakerDialogOpen, setSpeakerDialogOpen] = useState(false);
+  const [editingSpeaker, setEditingSpeaker] = useState<Speaker | null>(null);
+  const [speakerRefresh, setSpeakerRefresh] = useState(0);
 
   // Fetch LLM config and models
   useEffect(() => {
@@ -71,7 +85,7 @@ export function Settings() {
 							onValueChange={setActiveTab}
 							className="space-y-4 sm:space-y-6"
 						>
-            <TabsList className="grid w-full grid-cols-5 items-center h-auto bg-gray-100 dark:bg-gray-800 p-1 rounded-xl">
+            <TabsList className="grid w-full grid-cols-9 items-center h-auto bg-gray-100 dark:bg-gray-800 p-1 rounded-xl">
                             <TabsTrigger
                                 value="transcription"
                                 aria-label="Transcription"
@@ -111,6 +125,38 @@ export function Settings() {
             >
               <FileText className="h-4 w-4" />
               <span className="hidden sm:inline">Summary</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="glossary"
+              aria-label="Glossary"
+              className="flex items-center justify-center gap-2 h-9 py-1.5 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:text-gray-900 dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-400 font-medium rounded-lg text-xs sm:text-sm"
+            >
+              <BookText className="h-4 w-4" />
+              <span className="hidden sm:inline">Glossary</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="speakers"
+              aria-label="Speakers"
+              className="flex items-center justify-center gap-2 h-9 py-1.5 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:text-gray-900 dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-400 font-medium rounded-lg text-xs sm:text-sm"
+            >
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Speakers</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="shortcuts"
+              aria-label="Shortcuts"
+              className="flex items-center justify-center gap-2 h-9 py-1.5 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:text-gray-900 dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-400 font-medium rounded-lg text-xs sm:text-sm"
+            >
+              <Keyboard className="h-4 w-4" />
+              <span className="hidden sm:inline">Shortcuts</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="sharing"
+              aria-label="Sharing"
+              className="flex items-center justify-center gap-2 h-9 py-1.5 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:text-gray-900 dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-400 font-medium rounded-lg text-xs sm:text-sm"
+            >
+              <Share2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Sharing</span>
             </TabsTrigger>
 							</TabsList>
 
@@ -181,6 +227,100 @@ export function Settings() {
               }}
             />
           </TabsContent>
+
+          {/* Glossary Tab */}
+          <TabsContent value="glossary" className="space-y-6">
+            <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0 mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Glossaries</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Term lists attached to a transcription profile are added to its initial prompt and can be used to correct finished transcripts.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => { setEditingGlossary(null); setGlossaryDialogOpen(true); }}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-md cursor-pointer bg-blue-600 hover:bg-blue-700 text-white"
+                  >
+                    <Plus className="h-4 w-4" /> New Glossary
+                  </button>
+                </div>
+              </div>
+              <GlossariesTable onEdit={(glossary) => { setEditingGlossary(glossary); setGlossaryDialogOpen(true); }} refreshTrigger={glossaryRefresh} />
+            </div>
+
+            <GlossaryDialog
+              open={glossaryDialogOpen}
+              onOpenChange={(o) => { setGlossaryDialogOpen(o); if (!o) setEditingGlossary(null); }}
+              initial={editingGlossary}
+              onSave={async (glossary) => {
+                const headers: HeadersInit = { 'Content-Type': 'application/json', ...getAuthHeaders() };
+                const body = JSON.stringify({ name: glossary.name, description: glossary.description, terms: glossary.terms });
+                try {
+                  const res = glossary.id
+                    ? await fetch(`/api/v1/glossaries/${glossary.id}`, { method: 'PUT', headers, body })
+                    : await fetch('/api/v1/glossaries', { method: 'POST', headers, body });
+                  if (!res.ok) alert('Failed to save glossary');
+                } finally {
+                  setGlossaryDialogOpen(false);
+                  setEditingGlossary(null);
+                  setGlossaryRefresh((n) => n + 1);
+                }
+              }}
+            />
+          </TabsContent>
+
+          {/* Speakers Tab */}
+          <TabsContent value="speakers" className="space-y-6">
+            <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0 mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Speaker Directory</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">People recognised across recordings. Their voices are learned from transcripts diarized with speaker embeddings turned on.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => { setEditingSpeaker(null); setSpeakerDialogOpen(true); }}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-md cursor-pointer bg-blue-600 hover:bg-blue-700 text-white"
+                  >
+                    <Plus className="h-4 w-4" /> New Speaker
+                  </button>
+                </div>
+              </div>
+              <SpeakersTable onEdit={(speaker) => { setEditingSpeaker(speaker); setSpeakerDialogOpen(true); }} refreshTrigger={speakerRefresh} />
+            </div>
+
+            <SpeakerDialog
+              open={speakerDialogOpen}
+              onOpenChange={(o) => { setSpeakerDialogOpen(o); if (!o) setEditingSpeaker(null); }}
+              initial={editingSpeaker}
+              onSave={async (values) => {
+                const headers: HeadersInit = { 'Content-Type': 'application/json', ...getAuthHeaders() };
+                const body = JSON.stringify(values);
+                await ensureOk(
+                  editingSpeaker
+                    ? await fetch(`/api/v1/speakers/${editingSpeaker.id}`, { method: 'PUT', headers, body })
+                    : await fetch('/api/v1/speakers', { method: 'POST', headers, body })
+                );
+                setSpeakerRefresh((n) => n + 1);
+              }}
+            />
+          </TabsContent>
+
+          {/* Shortcuts Tab */}
+          <TabsContent value="shortcuts" className="space-y-6">
+            <ShortcutSettings />
+          </TabsContent>
+
+          {/* Sharing Tab */}
+          <TabsContent value="sharing" className="space-y-6">
+            <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 sm:p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Share Links</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Public read-only links that have not expired yet. Revoking one stops it working straight away.</p>
+              </div>
+              <ShareLinksTable />
+            </div>
+          </TabsContent>
 					</Tabs>
 				</div>
 			</div>
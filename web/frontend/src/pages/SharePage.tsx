@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import WaveSurfer from "wavesurfer.js";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import { Loader2, Lock, Pause, Play } from "lucide-react";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { ScriberrLogo } from "../components/ScriberrLogo";
+import { ThemeSwitcher } from "../components/ThemeSwitcher";
+import { useTheme } from "../contexts/ThemeContext";
+import { SHARE_PASSWORD_HEADER, formatClockTime, type SharedTranscript } from "../utils/shareLinks";
+
+interface SharePageProps {
+	token: string;
+}
+
+type ShareState =
+	| { status: "loading" }
+	| { status: "password"; error?: string }
+	| { status: "error"; error: string }
+	| { status: "ready"; share: SharedTranscript };
+
+const waveColor = (theme: string) => (theme === "dark" ? "#4b5563" : "#d1d5db");
+
+/**
+ * Read-only view of a share link: the player, the transcript and, when
+ * shared, the summary. Opens without an account.
+ */
+export function SharePage({ token }: SharePageProps) {
+	const { theme } = useTheme();
+	const [state, setState] = useState<ShareState>({ status: "loading" });
+	// Password the link was opened with, sent again for the audio
+	const [password, setPassword] = useState("");
+	const [passwordInput, setPasswordInput] = useState("");
+	const [audioError, setAudioError] = useState("");
+	const [isPlaying, setIsPlaying] = useState(false);
+	const [currentTime, setCurrentTime] = useState(0);
+	const [duration, setDuration] = useState(0);
+	const waveformRef = useRef<HTMLDivElement>(null);
+	const wavesurferRef = useRef<WaveSurfer | null>(null);
+	// Read when the player is created, so a theme change doesn't load the audio again
+	const themeRef = useRef(theme);
+
+	const open = useCallback(
+		async (attempt: string) => {
+			setState({ status: "loading" });
+			try {
+				const res = await fetch(`/api/v1/share/${encodeURIComponent(token)}`, {
+					headers: attempt ? { [SHARE_PASSWORD_HEADER]: attempt } : {},
+				});
+				const data = await res.json().catch(() => ({}));
+				if (res.ok) {
+					setPassword(attempt);
+					setState({ status: "ready", share: data as SharedTranscript });
+				} else if (data.password_required) {
+					setState({ status: "password", error: attempt ? data.error : undefined });
+				} else {
+					setState({ status: "error", error: data.error || `HTTP ${res.status}` });
+				}
+			} catch (e) {
+				setState({ status: "error", error: e instanceof Error ? e.message : String(e) });
+			}
+		},
+		[token],
+	);
+
+	useEffect(() => {
+		open("");
+	}, [open]);
+
+	const ready = state.status === "ready";
+
+	// Load the shared audio once the link has opened
+	useEffect(() => {
+		if (!ready || !waveformRef.current) return;
+		let cancelled = false;
+		let objectUrl = "";
+		const load = async () => {
+			try {
+				const res = await fetch(`/api/v1/share/${encodeURIComponent(token)}/audio`, {
+					headers: password ? { [SHARE_PASSWORD_HEADER]: password } : {},
+				});
+				if (!res.ok) {
+					const data = await res.json().catch(() => ({}));
+					throw new Error(data.error || `HTTP ${res.status}`);
+				}
+				const blob = await res.blob();
+				if (cancelled || !waveformRef.current) return;
+				objectUrl = URL.createObjectURL(blob);
+				const ws = WaveSurfer.create({
+					container: waveformRef.current,
+					waveColor: waveColor(themeRef.current),
+					progressColor: "#3b82f6",
+					barWidth: 2,
+					barGap: 1,
+					barRadius: 2,
+					height: 80,
+					normalize: true,
+				});
+				wavesurferRef.current = ws;
+				ws.on("play", () => setIsPlaying(true));
+				ws.on("pause", () => setIsPlaying(false));
+				ws.on("finish", () => setIsPlaying(false));
+				ws.on("timeupdate", (time) => setCurrentTime(time));
+				await ws.load(objectUrl);
+				setDuration(ws.getDuration());
+			} catch (e) {
+				if (!cancelled) setAudioError(e instanceof Error ? e.message : String(e));
+			}
+		};
+		load();
+
+		return () => {
+			cancelled = true;
+			wavesurferRef.current?.destroy();
+			wavesurferRef.current = null;
+			if (objectUrl) URL.revokeObjectURL(objectUrl);
+		};
+	}, [ready, token, password]);
+
+	useEffect(() => {
+		themeRef.current = theme;
+		wavesurferRef.current?.setOptions({ waveColor: waveColor(theme) });
+	}, [theme]);
+
+	const seekTo = (time: number) => {
+		const ws = wavesurferRef.current;
+		const dur = ws?.getDuration() || 0;
+		if (!ws || dur <= 0) return;
+		ws.seekTo(Math.min(0.999, Math.max(0, time / dur)));
+		setCurrentTime(time);
+		ws.play();
+	};
+
+	const handlePasswordSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (passwordInput) open(passwordInput);
+	};
+
+	const header = (
+		<div className="flex items-center justify-between mb-4 sm:mb-6">
+			<ScriberrLogo />
+			<ThemeSwitcher />
+		</div>
+	);
+
+	if (state.status !== "ready") {
+		return (
+			<div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+				<div className="mx-auto w-full max-w-4xl px-2 sm:px-6 md:px-8 py-3 sm:py-6">
+					{header}
+					<div className="bg-white dark:bg-gray-800 rounded-xl p-6 sm:p-10 text-center">
+						{state.status === "loading" ? (
+							<div className="flex items-center justify-center text-gray-500 dark:text-gray-400">
+								<Loader2 className="h-5 w-5 mr-2 animate-spin" />
+								Opening shared transcript...
+							</div>
+						) : state.status === "password" ? (
+							<form onSubmit={handlePasswordSubmit} className="mx-auto max-w-sm space-y-4">
+								<Lock className="mx-auto h-8 w-8 text-gray-400" />
+								<p className="text-gray-700 dark:text-gray-300">This shared transcript is protected by a password.</p>
+								<Input
+									type="password"
+									autoFocus
+									placeholder="Password"
+									value={passwordInput}
+									onChange={(e) => setPasswordInput(e.target.value)}
+								/>
+								{state.error && <p className="text-sm text-red-600 dark:text-red-400">{state.error}</p>}
+								<Button type="submit" disabled={!passwordInput} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+									Open
+								</Button>
+							</form>
+						) : (
+							<>
+								<h1 className="text-lg font-medium text-gray-700 dark:text-gray-300 mb-2">This link can't be opened</h1>
+								<p className="text-sm text-gray-500 dark:text-gray-400">{state.error}</p>
+							</>
+						)}
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	const { share } = state;
+	// Times on the page are those of the whole recording
+	const offset = share.start_time ?? 0;
+	const speakerName = (speaker: string) => share.speaker_names[speaker] || speaker;
+	const segments = share.transcript.segments ?? [];
+
+	return (
+		<div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+			<div className="mx-auto w-full max-w-4xl px-2 sm:px-6 md:px-8 py-3 sm:py-6">
+				{header}
+
+				<div className="bg-white dark:bg-gray-800 rounded-xl p-3 sm:p-6 mb-4 sm:mb-6">
+					<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">{share.title || "Shared recording"}</h1>
+					<p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+						{share.label && `${share.label} · `}
+						{(share.start_time !== undefined || share.end_time !== undefined) &&
+							`${formatClockTime(offset)} – ${share.end_time !== undefined ? formatClockTime(share.end_time) : "end"} · `}
+						Available until {new Date(share.expires_at).toLocaleString()}
+					</p>
+
+					<div className="mt-4 flex items-center gap-3">
+						<button
+							type="button"
+							onClick={() => wavesurferRef.current?.playPause()}
+							disabled={duration === 0}
+							className="h-10 w-10 flex-shrink-0 inline-flex items-center justify-center rounded-full bg-blue-600 hover:bg-blue-700 text-white cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+							aria-label={isPlaying ? "Pause" : "Play"}
+						>
+							{isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+						</button>
+						<div ref={waveformRef} className="flex-1 min-w-0" />
+						<span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
+							{formatClockTime(currentTime + offset)} / {formatClockTime(duration + offset)}
+						</span>
+					</div>
+					{audioError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">Audio unavailable: {audioError}</p>}
+				</div>
+
+				{share.summary && (
+					<div className="bg-white dark:bg-gray-800 rounded-xl p-3 sm:p-6 mb-4 sm:mb-6">
+						<h2 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Summary</h2>
+						{/* No raw HTML: the page is public */}
+						<div className="prose prose-gray dark:prose-invert max-w-none">
+							<ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+								{share.summary}
+							</ReactMarkdown>
+						</div>
+					</div>
+				)}
+
+				<div className="bg-white dark:bg-gray-800 rounded-xl p-3 sm:p-6">
+					<h2 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Transcript</h2>
+					{segments.length > 0 ? (
+						<div className="space-y-3">
+							{segments.map((segment, i) => {
+								const active = currentTime >= segment.start && currentTime < segment.end;
+								return (
+									<div
+										key={i}
+										onClick={() => seekTo(segment.start)}
+										className={`rounded-lg px-2 py-1.5 cursor-pointer transition-colors ${
+											active ? "bg-blue-50 dark:bg-blue-900/30" : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+										}`}
+									>
+										<div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+											<span className="tabular-nums">{formatClockTime(segment.start + offset)}</span>
+											{segment.speaker && (
+												<span className="font-medium text-gray-700 dark:text-gray-300">{speakerName(segment.speaker)}</span>
+											)}
+										</div>
+										<p className="text-gray-900 dark:text-gray-100 leading-relaxed">{segment.text.trim()}</p>
+									</div>
+								);
+							})}
+						</div>
+					) : (
+						<p className="text-gray-900 dark:text-gray-100 leading-relaxed whitespace-pre-wrap">
+							{share.transcript.text || "Nothing was said in this part of the recording."}
+						</p>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,20 @@
+export interface WordSegment {
+  start: number;
+  end: number;
+  word: string;
+  score: number;
+  speaker?: string;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface Transcript {
+  text: string;
+  segments?: TranscriptSegment[];
+  word_segments?: WordSegment[];
+}
@@ -0,0 +1,77 @@
+import { extractTitle } from './fileProcessor';
+
+export interface AudioExtractionOptions {
+	onProgress?: (progress: number) => void;
+	signal?: AbortSignal;
+}
+
+// What transcription resamples to anyway, so nothing is lost by sending less
+const SAMPLE_RATE = 16000;
+const CHANNELS = 1;
+
+/**
+ * Whether this browser can decode and re-encode audio itself (WebCodecs)
+ */
+export const canExtractAudio = (): boolean => typeof AudioDecoder !== 'undefined' && typeof AudioEncoder !== 'undefined';
+
+/**
+ * Extracts the audio track of a video in the browser as 16 kHz mono Opus, or
+ * 16-bit WAV where Opus can't be encoded. The video is read in pieces, so
+ * files of several gigabytes never need to fit in memory. The result keeps
+ * the video's name with an audio extension.
+ */
+export const extractAudio = async (file: File, { onProgress, signal }: AudioExtractionOptions = {}): Promise<File> => {
+	// Loaded on first use; most sessions never convert anything
+	const {
+		ALL_FORMATS,
+		BlobSource,
+		BufferTarget,
+		Conversion,
+		Input,
+		OggOutputFormat,
+		Output,
+		QUALITY_MEDIUM,
+		WavOutputFormat,
+		canEncodeAudio,
+	} = await import('mediabunny');
+
+	const useOpus = await canEncodeAudio('opus', { numberOfChannels: CHANNELS, sampleRate: SAMPLE_RATE });
+	const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+	const target = new BufferTarget();
+	const output = new Output({ format: useOpus ? new OggOutputFormat() : new WavOutputFormat(), target });
+
+	try {
+		const conversion = await Conversion.init({
+			input,
+			output,
+			tracks: 'primary',
+			video: { discard: true },
+			audio: {
+				numberOfChannels: CHANNELS,
+				sampleRate: SAMPLE_RATE,
+				codec: useOpus ? 'opus' : 'pcm-s16',
+				quality: QUALITY_MEDIUM,
+				forceTranscode: true,
+			},
+		});
+		if (!conversion.isValid || conversion.utilizedTracks.length === 0) {
+			const reason = conversion.discardedTracks.find((discarded) => discarded.track.type === 'audio')?.reason;
+			throw new Error(reason ? `Cannot extract audio (${reason.replace(/_/g, ' ')})` : 'No audio track found');
+		}
+
+		if (signal?.aborted) throw signal.reason;
+		const cancel = () => conversion.cancel();
+		signal?.addEventListener('abort', cancel, { once: true });
+		conversion.onProgress = (progress) => onProgress?.(progress);
+		try {
+			await conversion.execute();
+		} finally {
+			signal?.removeEventListener('abort', cancel);
+		}
+	} finally {
+		input.dispose();
+	}
+
+	const name = `${extractTitle(file.name)}${output.format.fileExtension}`;
+	return new File([target.buffer!], name, { type: output.format.mimeType });
+};
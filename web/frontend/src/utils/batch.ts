@@ -0,0 +1,65 @@
+export interface BatchFailure<T> {
+	item: T;
+	error: string;
+}
+
+export interface BatchResult<T, R> {
+	succeeded: Array<{ item: T; result: R }>;
+	failed: BatchFailure<T>[];
+}
+
+export interface BatchOptions {
+	// Number of tasks in flight at once
+	concurrency?: number;
+	onProgress?: (done: number, total: number) => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Runs a task for every item with limited concurrency. A failing item never
+ * stops the others; its error is collected instead. Results keep item order.
+ */
+export const runBatch = async <T, R>(
+	items: T[],
+	task: (item: T) => Promise<R>,
+	{ concurrency = DEFAULT_CONCURRENCY, onProgress }: BatchOptions = {},
+): Promise<BatchResult<T, R>> => {
+	const outcomes: Array<{ ok: true; result: R } | { ok: false; error: string }> = new Array(items.length);
+	let next = 0;
+	let done = 0;
+	onProgress?.(0, items.length);
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				outcomes[index] = { ok: true, result: await task(items[index]) };
+			} catch (e) {
+				outcomes[index] = { ok: false, error: e instanceof Error ? e.message : String(e) };
+			}
+			done++;
+			onProgress?.(done, items.length);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+	const result: BatchResult<T, R> = { succeeded: [], failed: [] };
+	outcomes.forEach((outcome, index) => {
+		if (outcome.ok) result.succeeded.push({ item: items[index], result: outcome.result });
+		else result.failed.push({ item: items[index], error: outcome.error });
+	});
+	return result;
+};
+
+/**
+ * Throws with the API's error message when a response isn't ok
+ */
+export const ensureOk = async (response: Response): Promise<Response> => {
+	if (!response.ok) {
+		const data = await response.json().catch(() => ({}));
+		throw new Error(data.error || `HTTP ${response.status}`);
+	}
+	return response;
+};
@@ -0,0 +1,170 @@
+import { ensureOk } from './batch';
+
+export interface ChunkedUploadOptions {
+	fileName: string;
+	title?: string;
+	// Session of an earlier attempt; the upload continues where it stopped
+	sessionId?: string;
+	getHeaders: () => { Authorization?: string };
+	// Called once the session is known so callers can persist it for resuming
+	onSession?: (sessionId: string) => void;
+	onProgress?: (uploaded: number, total: number) => void;
+	// Leave the job uploaded even if auto-transcription is on
+	skipAutoTranscription?: boolean;
+	// Videos have their audio track extracted once uploaded
+	kind?: 'audio' | 'video';
+	// Folder the job is filed in, which also picks its default profile
+	folderId?: string;
+	signal?: AbortSignal;
+}
+
+interface UploadSession {
+	id: string;
+	offset: number;
+}
+
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY = 1000;
+
+const SESSIONS_URL = '/api/v1/transcription/upload-sessions';
+
+const wait = (ms: number, signal?: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener('abort', () => {
+			clearTimeout(timer);
+			reject(signal.reason);
+		}, { once: true });
+	});
+
+// Sends a request again when it fails without a response. Only for requests
+// the server treats as idempotent, like completing an upload session, which
+// returns the job it already created.
+const fetchWithRetries = async (request: () => Promise<Response>, signal?: AbortSignal): Promise<Response> => {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await request();
+		} catch (error) {
+			if (signal?.aborted || attempt >= MAX_ATTEMPTS) throw error;
+			await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), signal);
+		}
+	}
+};
+
+// SHA-256 of a chunk in hex; the server drops chunks that don't match. Web
+// Crypto is only available on secure origins, elsewhere chunks go unchecked.
+const chunkChecksum = async (chunk: Blob): Promise<string | undefined> => {
+	if (!globalThis.crypto?.subtle) return undefined;
+	const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Sends a file to an upload session, a few megabytes per request, and
+ * resolves with the session id once the server has every byte. Failed
+ * requests are retried with exponential backoff after asking the server how
+ * far it got, and a session id from an earlier attempt resumes that upload
+ * instead of starting over.
+ */
+export const sendInChunks = async (blob: Blob, options: ChunkedUploadOptions): Promise<string> => {
+	const { fileName, title, folderId, getHeaders, onSession, onProgress, signal } = options;
+
+	const fetchSession = async (sessionId: string): Promise<UploadSession | null> => {
+		const response = await fetch(`${SESSIONS_URL}/${sessionId}`, { headers: { ...getHeaders() }, signal });
+		if (response.status === 404) return null;
+		return (await ensureOk(response)).json();
+	};
+
+	let session = options.sessionId ? await fetchSession(options.sessionId) : null;
+	if (!session) {
+		const response = await fetch(SESSIONS_URL, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...getHeaders() },
+			body: JSON.stringify({ file_name: fileName, title, folder_id: folderId }),
+			signal,
+		});
+		session = (await (await ensureOk(response)).json()) as UploadSession;
+	}
+	const sessionId = session.id;
+	onSession?.(sessionId);
+
+	let offset = session.offset;
+	let attempt = 0;
+	onProgress?.(offset, blob.size);
+
+	while (offset < blob.size) {
+		try {
+			const chunk = blob.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+			const checksum = await chunkChecksum(chunk);
+			const response = await fetch(`${SESSIONS_URL}/${sessionId}?offset=${offset}`, {
+				method: 'PUT',
+				headers: {
+					'Content-Type': 'application/octet-stream',
+					...(checksum ? { 'X-Chunk-SHA256': checksum } : {}),
+					...getHeaders(),
+				},
+				body: chunk,
+				signal,
+			});
+			// The server is somewhere else (e.g. it stored a chunk whose response was lost)
+			if (response.status !== 409) await ensureOk(response);
+			offset = ((await response.json()) as UploadSession).offset;
+			attempt = 0;
+			onProgress?.(offset, blob.size);
+		} catch (error) {
+			if (signal?.aborted || ++attempt >= MAX_ATTEMPTS) throw error;
+			await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), signal);
+			const current = await fetchSession(sessionId).catch(() => undefined);
+			if (current === null) throw new Error('Upload session expired');
+			if (current) {
+				offset = current.offset;
+				onProgress?.(offset, blob.size);
+			}
+		}
+	}
+	return sessionId;
+};
+
+/**
+ * Uploads a file through an upload session and completes it. Resolves with
+ * the created job, also when an earlier attempt already completed the session.
+ */
+export const uploadInChunks = async <T = unknown>(blob: Blob, options: ChunkedUploadOptions): Promise<T> => {
+	const { getHeaders, skipAutoTranscription, kind, signal } = options;
+	const sessionId = await sendInChunks(blob, options);
+
+	const response = await fetchWithRetries(() => fetch(`${SESSIONS_URL}/${sessionId}/complete`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...getHeaders() },
+		body: JSON.stringify({ size: blob.size, kind, skip_auto_transcription: skipAutoTranscription }),
+		signal,
+	}), signal);
+	return (await ensureOk(response)).json();
+};
+
+/**
+ * Creates a multi-track job from a fully sent project file and its tracks
+ */
+export const completeMultiTrackUpload = async <T = unknown>(
+	title: string,
+	aupSessionId: string,
+	trackSessionIds: string[],
+	getHeaders: () => { Authorization?: string },
+	signal?: AbortSignal,
+): Promise<T> => {
+	const response = await fetchWithRetries(() => fetch(`${SESSIONS_URL}/multitrack`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...getHeaders() },
+		body: JSON.stringify({ title, aup_session_id: aupSessionId, track_session_ids: trackSessionIds }),
+		signal,
+	}), signal);
+	return (await ensureOk(response)).json();
+};
+
+/**
+ * Abandons an upload session and the bytes the server stored for it
+ */
+export const cancelUploadSession = async (sessionId: string, getHeaders: () => { Authorization?: string }) => {
+	await fetch(`${SESSIONS_URL}/${sessionId}`, { method: 'DELETE', headers: { ...getHeaders() } }).catch(() => {});
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript, WordSegment } from '../types/transcript';
+import { confidenceClass, correctWord, lowConfidenceWords, reviewWindow } from './confidence';
+
+const word = (text: string, start: number, score?: number): WordSegment =>
+	({ word: text, start, end: start + 0.5, score }) as WordSegment;
+
+const words = [word('The', 0, 0.9), word('cat', 1, 0.2), word('sat.', 2, 0.45), word('Then', 4), word('left.', 5, 0.8)];
+
+const transcript: Transcript = {
+	text: 'The cat sat. Then left.',
+	segments: [
+		{ start: 0, end: 2.5, text: 'The cat sat.', speaker: 'SPEAKER_00' },
+		{ start: 4, end: 5.5, text: 'Then left.', speaker: 'SPEAKER_01' },
+	],
+	word_segments: words,
+};
+
+describe('correctWord', () => {
+	it('replaces one word and rebuilds its segment', () => {
+		const result = correctWord(transcript, 4, 'right.');
+		expect(result.segments?.map(s => s.text)).toEqual(['The cat sat.', 'Then right.']);
+		expect(result.text).toBe('The cat sat. Then right.');
+		expect(result.word_segments?.[4]).toMatchObject({ word: 'right.', start: 5, end: 5.5, speaker: 'SPEAKER_01' });
+	});
+
+	it('works on a transcript without segments', () => {
+		const result = correctWord({ text: 'The cat sat.', word_segments: words.slice(0, 3) }, 1, 'bat');
+		expect(result.text).toBe('The bat sat.');
+		expect(result.word_segments?.map(w => w.word)).toEqual(['The', 'bat', 'sat.']);
+	});
+
+	it('leaves the transcript alone for an unknown word', () => {
+		expect(correctWord(transcript, 9, 'x')).toBe(transcript);
+	});
+});
+
+describe('lowConfidenceWords', () => {
+	it('lists the scored words below the threshold', () => {
+		expect(lowConfidenceWords(words, 0.5)).toEqual([1, 2]);
+		expect(lowConfidenceWords(undefined, 0.5)).toEqual([]);
+	});
+});
+
+describe('confidenceClass', () => {
+	it('tints words by how far below the threshold they are', () => {
+		expect(confidenceClass(0.2, 0.5)).toContain('bg-red-200');
+		expect(confidenceClass(0.3, 0.5)).toContain('bg-amber-100');
+		expect(confidenceClass(0.5, 0.5)).toBe('');
+		expect(confidenceClass(undefined, 0.5)).toBe('');
+	});
+});
+
+describe('reviewWindow', () => {
+	it('pads a word to a few seconds without going below zero', () => {
+		expect(reviewWindow(word('cat', 1))).toEqual({ start: 0, end: 2.75 });
+		expect(reviewWindow(word('left.', 5))).toEqual({ start: 3.75, end: 6.75 });
+	});
+});
@@ -0,0 +1,74 @@
+import type { Transcript, WordSegment } from '../types/transcript';
+import { editWord, toEditableSegments, fromEditableSegments } from './transcriptEdit';
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+// Seconds of audio played around a word under review
+export const REVIEW_CONTEXT_SECONDS = 3;
+
+export interface TranscriptReview {
+	// Words scoring below this (0 to 1) need review
+	threshold: number;
+	// Indices into word_segments of the words accepted or corrected
+	reviewed: number[];
+}
+
+const hasScore = (word: WordSegment) => typeof word.score === 'number' && Number.isFinite(word.score);
+
+/**
+ * Whether the transcript has word confidences to show. Some engines leave
+ * the score out.
+ */
+export const hasConfidenceScores = (transcript: Transcript | null): boolean =>
+	Boolean(transcript?.word_segments?.some(hasScore));
+
+/**
+ * Indices of the words scoring below the threshold, in transcript order
+ */
+export const lowConfidenceWords = (words: WordSegment[] = [], threshold: number): number[] =>
+	words.reduce<number[]>((indices, word, index) => {
+		if (hasScore(word) && word.score < threshold) indices.push(index);
+		return indices;
+	}, []);
+
+/**
+ * Tint for a word below the threshold: red for the least certain half,
+ * amber for the rest. Words at or above it are left alone.
+ */
+export const confidenceClass = (score: number | undefined, threshold: number): string => {
+	if (typeof score !== 'number' || score >= threshold) return '';
+	return score < threshold / 2
+		? 'bg-red-200 dark:bg-red-900/60 px-0.5 rounded'
+		: 'bg-amber-100 dark:bg-amber-800/40 px-0.5 rounded';
+};
+
+/**
+ * The stretch of audio played for a word under review: the word with the
+ * rest of the few seconds around it split evenly either side
+ */
+export const reviewWindow = (word: WordSegment): { start: number; end: number } => {
+	const padding = Math.max(0, REVIEW_CONTEXT_SECONDS - (word.end - word.start)) / 2;
+	return { start: Math.max(0, word.start - padding), end: word.end + padding };
+};
+
+/**
+ * Replaces the text of one word, by its index in word_segments, and rebuilds
+ * the segment text around it
+ */
+export const correctWord = (transcript: Transcript, wordIndex: number, text: string): Transcript => {
+	if (!transcript.segments?.length) {
+		const words = (transcript.word_segments || []).map((word, i) => (i === wordIndex ? { ...word, word: text } : word));
+		return { ...transcript, text: words.map(w => w.word.trim()).filter(Boolean).join(' '), word_segments: words };
+	}
+
+	const editable = toEditableSegments(transcript);
+	let offset = 0;
+	for (let segIndex = 0; segIndex < editable.length; segIndex++) {
+		const count = editable[segIndex].words.length;
+		if (wordIndex < offset + count) {
+			return fromEditableSegments(transcript, editWord(editable, segIndex, wordIndex - offset, text));
+		}
+		offset += count;
+	}
+	return transcript;
+};
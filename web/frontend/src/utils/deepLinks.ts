@@ -0,0 +1,48 @@
+export interface WordRange {
+	// Indices into word_segments, both inclusive
+	start: number;
+	end: number;
+}
+
+/**
+ * Reads a ?t= value: seconds ("2052" or "2052.5") or a clock time ("34:12",
+ * "1:02:03")
+ */
+export const parseMomentTime = (value: string | undefined): number | undefined => {
+	if (!value) return undefined;
+	if (value.includes(':')) {
+		const parts = value.split(':').map(Number);
+		if (parts.length > 3 || parts.some(part => !Number.isFinite(part) || part < 0)) return undefined;
+		return parts.reduce((total, part) => total * 60 + part, 0);
+	}
+	const seconds = Number(value);
+	return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/**
+ * Reads a ?w= value: one word index ("1234") or a range ("1234-1300")
+ */
+export const parseWordRange = (value: string | undefined): WordRange | undefined => {
+	const match = value?.match(/^(\d+)(?:-(\d+))?$/);
+	if (!match) return undefined;
+	const first = Number(match[1]);
+	const last = match[2] !== undefined ? Number(match[2]) : first;
+	return { start: Math.min(first, last), end: Math.max(first, last) };
+};
+
+export const formatWordRange = (range: WordRange): string =>
+	range.start === range.end ? String(range.start) : `${range.start}-${range.end}`;
+
+/**
+ * Full URL opening a transcript at a moment: highlighting a word range when
+ * there is one, otherwise seeked to a time
+ */
+export const momentLink = (audioId: string, moment: { time?: number; words?: WordRange }): string => {
+	const url = new URL(`/audio/${encodeURIComponent(audioId)}`, window.location.origin);
+	if (moment.words) {
+		url.searchParams.set('w', formatWordRange(moment.words));
+	} else if (moment.time !== undefined) {
+		url.searchParams.set('t', String(Math.floor(moment.time)));
+	}
+	return url.toString();
+};
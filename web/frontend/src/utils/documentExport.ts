@@ -0,0 +1,319 @@
+import type { Note } from '../types/note';
+import type { TranscriptSegment } from '../types/transcript';
+
+export type NotesPlacement = 'appendix' | 'footnotes' | 'none';
+
+export interface TranscriptDocument {
+	title: string;
+	createdAt: string;
+	duration: string | null;
+	text: string;
+	segments: TranscriptSegment[];
+	notes: Note[];
+	summary?: string;
+}
+
+export interface DocumentExportOptions {
+	includeSpeakers: boolean;
+	includeTimestamps: boolean;
+	includeSummary: boolean;
+	notesPlacement: NotesPlacement;
+	getSpeakerName: (speaker: string) => string;
+}
+
+const SPEAKER_COLORS = ['1D4ED8', 'B91C1C', '047857', '7C3AED', 'C2410C', '0E7490', 'BE185D', '4D7C0F'];
+const DEFAULT_COLOR = '374151';
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss for long recordings
+ */
+const formatTimestamp = (seconds: number): string => {
+	const total = Math.floor(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = (total % 60).toString().padStart(2, '0');
+	return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Assigns a stable colour to each speaker in order of first appearance
+ */
+const getSpeakerColors = (segments: TranscriptSegment[]): Map<string, string> => {
+	const colors = new Map<string, string>();
+	segments.forEach(segment => {
+		if (segment.speaker && !colors.has(segment.speaker)) {
+			colors.set(segment.speaker, SPEAKER_COLORS[colors.size % SPEAKER_COLORS.length]);
+		}
+	});
+	return colors;
+};
+
+/**
+ * Groups notes by the index of the segment they start in
+ */
+const getNotesBySegment = (segments: TranscriptSegment[], notes: Note[]): Map<number, number[]> => {
+	const bySegment = new Map<number, number[]>();
+	notes.forEach((note, noteIndex) => {
+		let index = segments.findIndex(segment => note.start_time < segment.end);
+		if (index === -1) index = segments.length - 1;
+		bySegment.set(index, [...(bySegment.get(index) || []), noteIndex]);
+	});
+	return bySegment;
+};
+
+/**
+ * Splits a markdown summary into plain paragraphs, keeping headings apart
+ */
+const getSummaryBlocks = (summary: string): Array<{ text: string; heading: boolean }> => {
+	return summary
+		.split('\n')
+		.map(line => line.trim())
+		.filter(Boolean)
+		.map(line => ({
+			text: line.replace(/^#+\s*/, '').replace(/\*\*(.*?)\*\*/g, '$1').replace(/^[-*]\s+/, '- '),
+			heading: /^#+\s/.test(line),
+		}));
+};
+
+const sortNotes = (notes: Note[]): Note[] => {
+	return [...notes].sort((a, b) => a.start_time - b.start_time);
+};
+
+/**
+ * Builds a DOCX document with a title page, summary, speaker-coloured
+ * transcript paragraphs and notes as footnotes or an appendix
+ */
+export const buildDOCX = async (doc: TranscriptDocument, options: DocumentExportOptions): Promise<Blob> => {
+	const {
+		AlignmentType,
+		BorderStyle,
+		Document,
+		FootnoteReferenceRun,
+		HeadingLevel,
+		Packer,
+		Paragraph,
+		TextRun,
+	} = await import('docx');
+
+	const notes = sortNotes(doc.notes);
+	const colors = getSpeakerColors(doc.segments);
+	const useFootnotes = options.notesPlacement === 'footnotes' && doc.segments.length > 0;
+	const notesBySegment = useFootnotes ? getNotesBySegment(doc.segments, notes) : new Map<number, number[]>();
+
+	const children = [
+		new Paragraph({ spacing: { before: 3000 }, alignment: AlignmentType.CENTER, heading: HeadingLevel.TITLE, children: [new TextRun(doc.title)] }),
+		new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400 }, children: [new TextRun({ text: `Created ${doc.createdAt}`, color: '6B7280' })] }),
+	];
+	if (doc.duration) {
+		children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `Duration ${doc.duration}`, color: '6B7280' })] }));
+	}
+
+	if (options.includeSummary && doc.summary) {
+		children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun('Summary')] }));
+		getSummaryBlocks(doc.summary).forEach(block => {
+			children.push(block.heading
+				? new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun(block.text)] })
+				: new Paragraph({ spacing: { after: 120 }, children: [new TextRun(block.text)] }));
+		});
+	}
+
+	children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun('Transcript')] }));
+
+	if (doc.segments.length === 0) {
+		children.push(new Paragraph({ children: [new TextRun(doc.text)] }));
+	}
+
+	doc.segments.forEach((segment, index) => {
+		const color = (segment.speaker && colors.get(segment.speaker)) || DEFAULT_COLOR;
+		const runs = [];
+		if (options.includeTimestamps) {
+			runs.push(new TextRun({ text: `[${formatTimestamp(segment.start)}] `, color: '6B7280' }));
+		}
+		if (options.includeSpeakers && segment.speaker) {
+			runs.push(new TextRun({ text: `${options.getSpeakerName(segment.speaker)}: `, bold: true, color }));
+		}
+		runs.push(new TextRun(segment.text.trim()));
+		(notesBySegment.get(index) || []).forEach(noteIndex => {
+			// Footnote ids start at 1
+			runs.push(new FootnoteReferenceRun(noteIndex + 1));
+		});
+
+		children.push(new Paragraph({
+			spacing: { after: 160 },
+			border: options.includeSpeakers && segment.speaker
+				? { left: { style: BorderStyle.SINGLE, size: 18, color, space: 8 } }
+				: undefined,
+			children: runs,
+		}));
+	});
+
+	const footnotes: Record<string, { children: InstanceType<typeof Paragraph>[] }> = {};
+	if (useFootnotes) {
+		notes.forEach((note, index) => {
+			footnotes[index + 1] = {
+				children: [new Paragraph({
+					children: [
+						new TextRun({ text: `“${note.quote}” `, italics: true }),
+						new TextRun(note.content),
+					],
+				})],
+			};
+		});
+	} else if (options.notesPlacement === 'appendix' && notes.length > 0) {
+		children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun('Notes')] }));
+		notes.forEach(note => {
+			children.push(new Paragraph({
+				spacing: { before: 200 },
+				children: [
+					new TextRun({ text: `[${formatTimestamp(note.start_time)}] `, color: '6B7280' }),
+					new TextRun({ text: `“${note.quote}”`, italics: true }),
+				],
+			}));
+			children.push(new Paragraph({ children: [new TextRun(note.content)] }));
+		});
+	}
+
+	const document = new Document({
+		creator: 'Scriberr',
+		title: doc.title,
+		footnotes,
+		sections: [{ children }],
+	});
+
+	return Packer.toBlob(document);
+};
+
+/**
+ * Builds a PDF document with the same layout as the DOCX export. jsPDF has no
+ * footnote support, so footnote markers point to a numbered notes list at the end.
+ */
+export const buildPDF = async (doc: TranscriptDocument, options: DocumentExportOptions): Promise<Blob> => {
+	const { jsPDF } = await import('jspdf');
+
+	const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+	const pageWidth = pdf.internal.pageSize.getWidth();
+	const pageHeight = pdf.internal.pageSize.getHeight();
+	const margin = 56;
+	const contentWidth = pageWidth - margin * 2;
+	const lineHeight = 15;
+	let y = margin;
+
+	const notes = sortNotes(doc.notes);
+	const colors = getSpeakerColors(doc.segments);
+	const useFootnotes = options.notesPlacement === 'footnotes' && doc.segments.length > 0;
+	const notesBySegment = useFootnotes ? getNotesBySegment(doc.segments, notes) : new Map<number, number[]>();
+
+	const ensureSpace = (height: number) => {
+		if (y + height > pageHeight - margin) {
+			pdf.addPage();
+			y = margin;
+		}
+	};
+
+	const writeHeading = (text: string, size: number) => {
+		ensureSpace(size * 2);
+		pdf.setFont('helvetica', 'bold');
+		pdf.setFontSize(size);
+		pdf.setTextColor(17, 24, 39);
+		pdf.text(text, margin, y);
+		y += size * 1.6;
+	};
+
+	// Writes wrapped text, optionally with a coloured bar in the left margin
+	const writeParagraph = (text: string, style: 'normal' | 'bold' | 'italic' = 'normal', barColor?: string) => {
+		pdf.setFont('helvetica', style);
+		pdf.setFontSize(11);
+		pdf.setTextColor(31, 41, 55);
+		const indent = barColor ? 10 : 0;
+		const lines: string[] = pdf.splitTextToSize(text, contentWidth - indent);
+		lines.forEach(line => {
+			ensureSpace(lineHeight);
+			if (barColor) {
+				pdf.setFillColor(`#${barColor}`);
+				pdf.rect(margin, y - 11, 3, lineHeight, 'F');
+			}
+			pdf.text(line, margin + indent, y);
+			y += lineHeight;
+		});
+		y += 6;
+	};
+
+	// Title page
+	pdf.setFont('helvetica', 'bold');
+	pdf.setFontSize(26);
+	pdf.setTextColor(17, 24, 39);
+	const titleLines: string[] = pdf.splitTextToSize(doc.title, contentWidth);
+	let titleY = pageHeight / 3;
+	titleLines.forEach(line => {
+		pdf.text(line, pageWidth / 2, titleY, { align: 'center' });
+		titleY += 32;
+	});
+	pdf.setFont('helvetica', 'normal');
+	pdf.setFontSize(12);
+	pdf.setTextColor(107, 114, 128);
+	pdf.text(`Created ${doc.createdAt}`, pageWidth / 2, titleY + 16, { align: 'center' });
+	if (doc.duration) {
+		pdf.text(`Duration ${doc.duration}`, pageWidth / 2, titleY + 34, { align: 'center' });
+	}
+
+	if (options.includeSummary && doc.summary) {
+		pdf.addPage();
+		y = margin;
+		writeHeading('Summary', 18);
+		getSummaryBlocks(doc.summary).forEach(block => {
+			if (block.heading) {
+				writeHeading(block.text, 13);
+			} else {
+				writeParagraph(block.text);
+			}
+		});
+	}
+
+	pdf.addPage();
+	y = margin;
+	writeHeading('Transcript', 18);
+
+	if (doc.segments.length === 0) {
+		writeParagraph(doc.text);
+	}
+
+	doc.segments.forEach((segment, index) => {
+		const color = (segment.speaker && colors.get(segment.speaker)) || DEFAULT_COLOR;
+		const showSpeaker = options.includeSpeakers && !!segment.speaker;
+
+		if (options.includeTimestamps || showSpeaker) {
+			ensureSpace(lineHeight * 2);
+			let x = margin + (showSpeaker ? 10 : 0);
+			pdf.setFontSize(10);
+			if (options.includeTimestamps) {
+				const stamp = `[${formatTimestamp(segment.start)}] `;
+				pdf.setFont('helvetica', 'normal');
+				pdf.setTextColor(107, 114, 128);
+				pdf.text(stamp, x, y);
+				x += pdf.getTextWidth(stamp);
+			}
+			if (showSpeaker) {
+				pdf.setFont('helvetica', 'bold');
+				pdf.setTextColor(`#${color}`);
+				pdf.text(options.getSpeakerName(segment.speaker!), x, y);
+			}
+			y += lineHeight;
+		}
+
+		const markers = (notesBySegment.get(index) || []).map(noteIndex => ` [${noteIndex + 1}]`).join('');
+		writeParagraph(`${segment.text.trim()}${markers}`, 'normal', showSpeaker ? color : undefined);
+	});
+
+	if ((useFootnotes || options.notesPlacement === 'appendix') && notes.length > 0) {
+		pdf.addPage();
+		y = margin;
+		writeHeading('Notes', 18);
+		notes.forEach((note, index) => {
+			const prefix = useFootnotes ? `[${index + 1}] ` : '';
+			writeParagraph(`${prefix}[${formatTimestamp(note.start_time)}] "${note.quote}"`, 'italic');
+			writeParagraph(note.content);
+		});
+	}
+
+	return pdf.output('blob');
+};
@@ -0,0 +1,54 @@
+export interface Folder {
+	id: string;
+	name: string;
+	parent_id?: string | null;
+	default_profile_id?: string | null;
+	default_summary_template_id?: string | null;
+	// Jobs directly in the folder, not counting subfolders
+	job_count?: number;
+}
+
+// MIME type of the job ids carried when dragging rows onto a folder
+export const JOBS_DRAG_TYPE = 'application/x-scriberr-jobs';
+
+/**
+ * A folder followed by its ancestors, closest first. Stops at a missing
+ * parent or a cycle instead of looping.
+ */
+export const folderChain = (folders: Folder[], folderId?: string | null): Folder[] => {
+	const byId = new Map(folders.map((folder) => [folder.id, folder]));
+	const chain: Folder[] = [];
+	let folder = folderId ? byId.get(folderId) : undefined;
+	while (folder && !chain.includes(folder)) {
+		chain.push(folder);
+		folder = folder.parent_id ? byId.get(folder.parent_id) : undefined;
+	}
+	return chain;
+};
+
+/**
+ * A default of a folder, inherited from the closest ancestor that sets it
+ */
+export const inheritedDefault = (
+	folders: Folder[],
+	folderId: string | null | undefined,
+	key: 'default_profile_id' | 'default_summary_template_id',
+): string | undefined => folderChain(folders, folderId).find((folder) => folder[key])?.[key] ?? undefined;
+
+/**
+ * Ids of a folder and everything nested inside it
+ */
+export const folderSubtree = (folders: Folder[], folderId: string): Set<string> => {
+	const subtree = new Set([folderId]);
+	let grew = true;
+	while (grew) {
+		grew = false;
+		for (const folder of folders) {
+			if (folder.parent_id && subtree.has(folder.parent_id) && !subtree.has(folder.id)) {
+				subtree.add(folder.id);
+				grew = true;
+			}
+		}
+	}
+	return subtree;
+};
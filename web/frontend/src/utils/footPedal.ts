@@ -0,0 +1,43 @@
+export interface PedalEvent {
+	button: number;
+	pressed: boolean;
+	// Name the browser gives the device
+	device: string;
+}
+
+/**
+ * Reports button presses and releases from every connected gamepad-class
+ * device, which is how most USB transcription foot pedals show up. The
+ * Gamepad API has no button events, so this polls once a frame; returns a
+ * function that stops it.
+ */
+export const watchPedals = (onChange: (event: PedalEvent) => void): (() => void) => {
+	if (typeof navigator === 'undefined' || !navigator.getGamepads) return () => {};
+
+	const previous = new Map<number, boolean[]>();
+	let frame = 0;
+
+	const poll = () => {
+		for (const pad of navigator.getGamepads()) {
+			if (!pad) continue;
+			const before = previous.get(pad.index) ?? [];
+			const now = pad.buttons.map(button => button.pressed);
+			now.forEach((pressed, button) => {
+				if (pressed !== (before[button] ?? false)) onChange({ button, pressed, device: pad.id });
+			});
+			previous.set(pad.index, now);
+		}
+		frame = requestAnimationFrame(poll);
+	};
+	frame = requestAnimationFrame(poll);
+
+	return () => cancelAnimationFrame(frame);
+};
+
+/**
+ * Names of the connected pedals, for settings
+ */
+export const connectedPedals = (): string[] => {
+	if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+	return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null).map(pad => pad.id);
+};
@@ -0,0 +1,214 @@
+import type { Transcript } from '../types/transcript';
+import { getMatchContext, getWordSpeakers, type PlannedReplacement } from './transcriptReplace';
+import { joinWords } from './transcriptSearch';
+
+export interface GlossaryCorrection extends PlannedReplacement {
+	term: string;
+	// Similarity between the transcribed text and the term, from 0 to 1
+	score: number;
+}
+
+export interface GlossaryTermStats {
+	term: string;
+	// Occurrences already spelled exactly like the term
+	exact: number;
+	// Occurrences that would be corrected to the term
+	corrected: number;
+}
+
+export interface GlossaryCorrectionPlan {
+	corrections: GlossaryCorrection[];
+	stats: GlossaryTermStats[];
+}
+
+export const DEFAULT_MIN_SIMILARITY = 0.8;
+
+// Shorter terms are only corrected when they differ in case or accents,
+// otherwise acronyms like "UNO" would swallow ordinary words
+const MIN_FUZZY_LENGTH = 5;
+
+// Longest run of words compared against a term
+const MAX_WINDOW_WORDS = 6;
+
+const EDGE_PUNCTUATION = /^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu;
+
+/**
+ * Lowercases, drops accents and removes spaces, hyphens and apostrophes so
+ * "Le Locle", "le-locle" and "Lelocle" all compare equal
+ */
+const normalize = (text: string): string =>
+	text
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase()
+		.replace(/[\s\-'’.]/g, '');
+
+// Rows reused by boundedDistance, which runs for every term and word run
+let previousRow = new Int32Array(64);
+let currentRow = new Int32Array(64);
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) as soon as the distance
+ * is known to exceed max
+ */
+const boundedDistance = (a: string, b: string, max: number): number => {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	if (previousRow.length <= b.length) {
+		previousRow = new Int32Array(b.length + 1);
+		currentRow = new Int32Array(b.length + 1);
+	}
+	for (let j = 0; j <= b.length; j++) previousRow[j] = j;
+	for (let i = 1; i <= a.length; i++) {
+		currentRow[0] = i;
+		let rowMin = i;
+		const code = a.charCodeAt(i - 1);
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previousRow[j - 1] + (code === b.charCodeAt(j - 1) ? 0 : 1);
+			const value = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, substitution);
+			currentRow[j] = value;
+			if (value < rowMin) rowMin = value;
+		}
+		if (rowMin > max) return max + 1;
+		[previousRow, currentRow] = [currentRow, previousRow];
+	}
+	return previousRow[b.length];
+};
+
+interface WordRun {
+	start: number;
+	end: number;
+	offset: number;
+	text: string;
+	key: string;
+}
+
+interface Candidate {
+	term: string;
+	startWord: number;
+	endWord: number;
+	offset: number;
+	text: string;
+	score: number;
+	exact: boolean;
+}
+
+/**
+ * Finds transcript words that look like glossary terms. Runs of one word less
+ * to one word more than the term are compared, so split or merged words
+ * ("Lelocle" for "Le Locle") are caught too. Overlapping candidates are
+ * resolved in favour of exact spellings, then the closest match.
+ */
+export const planGlossaryCorrections = (
+	transcript: Transcript,
+	terms: string[],
+	minSimilarity: number = DEFAULT_MIN_SIMILARITY,
+): GlossaryCorrectionPlan => {
+	const words = transcript.word_segments || [];
+	const uniqueTerms = Array.from(new Set(terms.map(t => t.trim()).filter(Boolean)));
+	const stats = new Map<string, GlossaryTermStats>(
+		uniqueTerms.map(term => [term, { term, exact: 0, corrected: 0 }]),
+	);
+	if (words.length === 0 || uniqueTerms.length === 0) {
+		return { corrections: [], stats: Array.from(stats.values()) };
+	}
+
+	const joined = joinWords(words);
+	const { text, offsets } = joined;
+
+	// Every run of `size` words with its edge punctuation removed, grouped by
+	// the length of its normalized key so each term only looks at runs that
+	// are short or long enough to match. Built once per size.
+	const windowsBySize = new Map<number, Map<number, WordRun[]>>();
+	const getWindows = (size: number): Map<number, WordRun[]> => {
+		let byLength = windowsBySize.get(size);
+		if (byLength) return byLength;
+		byLength = new Map();
+		for (let start = 0; start + size <= words.length; start++) {
+			const end = start + size - 1;
+			const raw = text.slice(offsets[start], offsets[end] + words[end].word.trim().length);
+			const core = raw.replace(EDGE_PUNCTUATION, '');
+			if (!core) continue;
+			const key = normalize(core);
+			const list = byLength.get(key.length) || [];
+			list.push({ start, end, offset: offsets[start] + raw.search(/[\p{L}\p{N}]/u), text: core, key });
+			byLength.set(key.length, list);
+		}
+		windowsBySize.set(size, byLength);
+		return byLength;
+	};
+
+	const candidates: Candidate[] = [];
+	uniqueTerms.forEach(term => {
+		const termKey = normalize(term);
+		if (!termKey) return;
+		const termWords = term.split(/[\s-]+/).length;
+		const fuzzy = termKey.length >= MIN_FUZZY_LENGTH;
+		const maxDistance = fuzzy ? Math.floor((1 - minSimilarity) * termKey.length) : 0;
+		const minSize = Math.max(1, termWords - 1);
+		const maxSize = Math.min(MAX_WINDOW_WORDS, termWords + 1);
+
+		for (let size = minSize; size <= maxSize; size++) {
+			const byLength = getWindows(size);
+			for (let length = termKey.length - maxDistance; length <= termKey.length + maxDistance; length++) {
+				(byLength.get(length) || []).forEach(run => {
+					const distance = run.key === termKey ? 0 : boundedDistance(run.key, termKey, maxDistance);
+					if (distance > maxDistance) return;
+					const score = 1 - distance / Math.max(run.key.length, termKey.length);
+					if (score < minSimilarity) return;
+					candidates.push({
+						term,
+						startWord: run.start,
+						endWord: run.end,
+						offset: run.offset,
+						text: run.text,
+						score,
+						exact: run.text === term,
+					});
+				});
+			}
+		}
+	});
+
+	candidates.sort((a, b) =>
+		Number(b.exact) - Number(a.exact)
+		|| b.score - a.score
+		|| (b.endWord - b.startWord) - (a.endWord - a.startWord));
+
+	const taken = new Uint8Array(words.length);
+	const corrections: GlossaryCorrection[] = [];
+	const speakers = getWordSpeakers(transcript);
+
+	candidates.forEach(candidate => {
+		for (let i = candidate.startWord; i <= candidate.endWord; i++) {
+			if (taken[i]) return;
+		}
+		taken.fill(1, candidate.startWord, candidate.endWord + 1);
+
+		const termStats = stats.get(candidate.term)!;
+		if (candidate.exact) {
+			termStats.exact++;
+			return;
+		}
+		termStats.corrected++;
+
+		const match = {
+			startWord: candidate.startWord,
+			endWord: candidate.endWord,
+			start: words[candidate.startWord].start,
+			end: words[candidate.endWord].end,
+			offset: candidate.offset,
+			text: candidate.text,
+		};
+		corrections.push({
+			match,
+			speaker: speakers[candidate.startWord],
+			replacement: candidate.term,
+			...getMatchContext(words, joined, match),
+			term: candidate.term,
+			score: candidate.score,
+		});
+	});
+
+	corrections.sort((a, b) => a.match.offset - b.match.offset);
+	return { corrections, stats: Array.from(stats.values()) };
+};
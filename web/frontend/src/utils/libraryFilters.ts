@@ -0,0 +1,80 @@
+export type JobStatus = 'uploaded' | 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface LibraryFilters {
+	// Whether a job has to match every filter or just one of them
+	match: 'all' | 'any';
+	status: JobStatus[];
+	tags: string[];
+	// Dates as YYYY-MM-DD, both inclusive
+	from?: string;
+	to?: string;
+	// Audio length in seconds
+	minDuration?: number;
+	maxDuration?: number;
+	diarization?: boolean;
+	multiTrack?: boolean;
+}
+
+export const EMPTY_FILTERS: LibraryFilters = { match: 'all', status: [], tags: [] };
+
+export const JOB_STATUSES: JobStatus[] = ['uploaded', 'pending', 'processing', 'completed', 'failed'];
+
+const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+const number = (value: string | null) => {
+	if (value === null || value === '') return undefined;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const flag = (value: string | null) => (value === 'true' ? true : value === 'false' ? false : undefined);
+
+/**
+ * Reads filters from a query string. The names are the ones the job list
+ * endpoint takes, so the same string filters the list and sits in the URL.
+ */
+export const parseFilters = (query: string | undefined): LibraryFilters => {
+	const params = new URLSearchParams(query || '');
+	return {
+		match: params.get('match') === 'any' ? 'any' : 'all',
+		status: list(params.get('status')).filter((status): status is JobStatus => JOB_STATUSES.includes(status as JobStatus)),
+		tags: list(params.get('tags')),
+		from: params.get('from') || undefined,
+		to: params.get('to') || undefined,
+		minDuration: number(params.get('min_duration')),
+		maxDuration: number(params.get('max_duration')),
+		diarization: flag(params.get('diarization')),
+		multiTrack: flag(params.get('multi_track')),
+	};
+};
+
+/**
+ * Writes filters as a query string, leaving out the ones not set; empty when
+ * nothing is filtered
+ */
+export const serializeFilters = (filters: LibraryFilters): string => {
+	const params = new URLSearchParams();
+	if (filters.status.length) params.set('status', filters.status.join(','));
+	if (filters.tags.length) params.set('tags', filters.tags.join(','));
+	if (filters.from) params.set('from', filters.from);
+	if (filters.to) params.set('to', filters.to);
+	if (filters.minDuration !== undefined) params.set('min_duration', String(filters.minDuration));
+	if (filters.maxDuration !== undefined) params.set('max_duration', String(filters.maxDuration));
+	if (filters.diarization !== undefined) params.set('diarization', String(filters.diarization));
+	if (filters.multiTrack !== undefined) params.set('multi_track', String(filters.multiTrack));
+	if (filters.match === 'any') params.set('match', 'any');
+	return params.toString();
+};
+
+/**
+ * Number of filters set, for a badge on the filter button
+ */
+export const countFilters = (filters: LibraryFilters): number =>
+	[
+		filters.status.length > 0,
+		filters.tags.length > 0,
+		Boolean(filters.from || filters.to),
+		filters.minDuration !== undefined || filters.maxDuration !== undefined,
+		filters.diarization !== undefined,
+		filters.multiTrack !== undefined,
+	].filter(Boolean).length;
@@ -0,0 +1,172 @@
+import { ensureOk } from './batch';
+
+export interface LiveSegment {
+	start: number;
+	end: number;
+	text: string;
+}
+
+export interface LiveDraft {
+	id: string;
+	segments: LiveSegment[];
+	partial: string;
+	processed_until: number;
+	processing: boolean;
+	finished: boolean;
+	error_message?: string;
+}
+
+// How often the draft is refreshed once no more audio is being sent
+const POLL_INTERVAL = 2000;
+
+const LIVE_URL = '/api/v1/transcription/live';
+
+/**
+ * Streams a recording to a live transcription session and reports the
+ * rolling draft. Audio pieces are sent strictly in order, since the server
+ * appends them to one file; after a failed send the rest of the recording is
+ * not streamed and the draft stops where it was.
+ */
+export class LiveTranscriber {
+	sessionId: string | null = null;
+	failed = false;
+
+	private getHeaders: () => { Authorization?: string };
+	private onDraft: (draft: LiveDraft) => void;
+	private onFailed: () => void;
+	private chain: Promise<void> = Promise.resolve();
+	private pollTimer: ReturnType<typeof setTimeout> | null = null;
+	private closed = false;
+
+	constructor(
+		getHeaders: () => { Authorization?: string },
+		onDraft: (draft: LiveDraft) => void,
+		onFailed: () => void,
+	) {
+		this.getHeaders = getHeaders;
+		this.onDraft = onDraft;
+		this.onFailed = onFailed;
+	}
+
+	start(profileId: string | undefined, fileName: string) {
+		this.chain = this.chain.then(async () => {
+			try {
+				const response = await fetch(LIVE_URL, {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json', ...this.getHeaders() },
+					body: JSON.stringify({ profile_id: profileId || undefined, file_name: fileName }),
+				});
+				const draft: LiveDraft = await (await ensureOk(response)).json();
+				// Discarded while the session was being created
+				if (this.closed) {
+					this.deleteSession(draft.id);
+					return;
+				}
+				this.sessionId = draft.id;
+				this.report(draft);
+			} catch (error) {
+				console.error('Failed to start live transcription:', error);
+				this.fail();
+			}
+		});
+		return this.chain;
+	}
+
+	push(blob: Blob) {
+		this.chain = this.chain.then(async () => {
+			if (!this.sessionId || this.failed || this.closed) return;
+			try {
+				const response = await fetch(`${LIVE_URL}/${this.sessionId}/audio`, {
+					method: 'PUT',
+					headers: { 'Content-Type': 'application/octet-stream', ...this.getHeaders() },
+					body: blob,
+				});
+				this.report(await (await ensureOk(response)).json());
+			} catch (error) {
+				console.error('Live transcription stopped:', error);
+				this.fail();
+			}
+		});
+	}
+
+	/**
+	 * Tells the server the recording ended and follows the draft until the
+	 * last pass is done
+	 */
+	finish() {
+		this.chain = this.chain.then(async () => {
+			if (!this.sessionId || this.closed) return;
+			try {
+				const response = await fetch(`${LIVE_URL}/${this.sessionId}/finish`, {
+					method: 'POST',
+					headers: { ...this.getHeaders() },
+				});
+				const draft: LiveDraft = await (await ensureOk(response)).json();
+				this.report(draft);
+				if (draft.processing) this.poll();
+			} catch (error) {
+				console.error('Failed to finish live transcription:', error);
+			}
+		});
+		return this.chain;
+	}
+
+	/**
+	 * Queues the full transcription of the uploaded recording; the server keeps
+	 * the draft on the job until the transcript replaces it
+	 */
+	async queue(jobId: string, profileId: string | undefined): Promise<void> {
+		await this.chain;
+		if (!this.sessionId) throw new Error('No live session');
+		const response = await fetch(`${LIVE_URL}/${this.sessionId}/queue`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...this.getHeaders() },
+			body: JSON.stringify({ job_id: jobId, profile_id: profileId || undefined }),
+		});
+		await ensureOk(response);
+		// The server owns the session from here
+		this.sessionId = null;
+		this.close();
+	}
+
+	discard() {
+		const sessionId = this.sessionId;
+		this.sessionId = null;
+		this.close();
+		if (sessionId) this.deleteSession(sessionId);
+	}
+
+	private deleteSession(sessionId: string) {
+		fetch(`${LIVE_URL}/${sessionId}`, { method: 'DELETE', headers: { ...this.getHeaders() } }).catch(() => {});
+	}
+
+	private close() {
+		this.closed = true;
+		if (this.pollTimer) clearTimeout(this.pollTimer);
+		this.pollTimer = null;
+	}
+
+	private fail() {
+		this.failed = true;
+		if (!this.closed) this.onFailed();
+	}
+
+	private report(draft: LiveDraft) {
+		if (!this.closed) this.onDraft(draft);
+	}
+
+	private poll() {
+		this.pollTimer = setTimeout(async () => {
+			this.pollTimer = null;
+			if (!this.sessionId || this.closed) return;
+			try {
+				const response = await fetch(`${LIVE_URL}/${this.sessionId}`, { headers: { ...this.getHeaders() } });
+				const draft: LiveDraft = await (await ensureOk(response)).json();
+				this.report(draft);
+				if (draft.processing) this.poll();
+			} catch (error) {
+				console.error('Failed to refresh live draft:', error);
+			}
+		}, POLL_INTERVAL);
+	}
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types/transcript';
+import { loopRestart, silenceSkipTarget, stepPlaybackRate } from './playback';
+
+const segment = (start: number, end: number): TranscriptSegment => ({ start, end, text: '' });
+
+describe('silenceSkipTarget', () => {
+	const segments = [segment(10, 12), segment(4, 5), segment(12.5, 14)];
+
+	it.each([
+		['in the silence before the first segment', 0.5, 3.75],
+		['while someone speaks', 4.5, null],
+		['in a long gap', 6, 9.75],
+		['already at the lead before the next segment', 9.8, null],
+		['in a gap shorter than the threshold', 12.2, null],
+		['after the last segment', 20, null],
+	])('%s', (_, time, target) => {
+		expect(silenceSkipTarget(segments, time, 2)).toBe(target);
+	});
+
+	it('measures gaps from the end of overlapping speech', () => {
+		const overlapping = [segment(0, 10), segment(2, 3), segment(11, 20)];
+		expect(silenceSkipTarget(overlapping, 5, 2)).toBeNull();
+		expect(silenceSkipTarget(overlapping, 10.2, 2)).toBeNull();
+		expect(silenceSkipTarget(overlapping, 10.2, 1)).toBe(10.75);
+	});
+});
+
+describe('loopRestart', () => {
+	const loop = { start: 5, end: 10 };
+
+	it.each([
+		[9.9, false],
+		[10, true],
+		[10.5, true],
+		[11, false],
+	])('at %s returns %s', (time, restart) => {
+		expect(loopRestart(loop, time)).toBe(restart);
+	});
+
+	it('never restarts without a loop', () => {
+		expect(loopRestart(null, 10)).toBe(false);
+	});
+});
+
+describe('stepPlaybackRate', () => {
+	it('moves along the list and stops at either end', () => {
+		expect(stepPlaybackRate(1, 1)).toBe(1.25);
+		expect(stepPlaybackRate(0.5, -1)).toBe(0.5);
+		expect(stepPlaybackRate(3, 1)).toBe(3);
+		expect(stepPlaybackRate(1.1, -1)).toBe(0.75);
+	});
+});
@@ -0,0 +1,77 @@
+import type { TranscriptSegment } from '../types/transcript';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export interface PlaybackSettings {
+	rate: number;
+	skipSilence: boolean;
+	// Shortest gap between segments that skip silence jumps over, in seconds
+	silenceThreshold: number;
+}
+
+export interface LoopRange {
+	start: number;
+	end: number;
+}
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { rate: 1, skipSilence: false, silenceThreshold: 2 };
+
+const PLAYBACK_SETTINGS_KEY = 'scriberr.playback';
+
+// Skip silence lands this long before the next segment, so its first word isn't clipped
+const SILENCE_LEAD_SECONDS = 0.25;
+
+/**
+ * Playback settings saved in this browser, over the defaults
+ */
+export const loadPlaybackSettings = (): PlaybackSettings => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(PLAYBACK_SETTINGS_KEY) || '{}') as Partial<PlaybackSettings>;
+		return {
+			rate: PLAYBACK_RATES.includes(Number(stored.rate)) ? Number(stored.rate) : DEFAULT_PLAYBACK_SETTINGS.rate,
+			skipSilence: Boolean(stored.skipSilence),
+			silenceThreshold: Number(stored.silenceThreshold) > 0 ? Number(stored.silenceThreshold) : DEFAULT_PLAYBACK_SETTINGS.silenceThreshold,
+		};
+	} catch {
+		return DEFAULT_PLAYBACK_SETTINGS;
+	}
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings) => {
+	localStorage.setItem(PLAYBACK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The next rate up or down the list, staying at either end
+ */
+export const stepPlaybackRate = (rate: number, direction: 1 | -1): number => {
+	const index = PLAYBACK_RATES.indexOf(rate);
+	const from = index === -1 ? PLAYBACK_RATES.indexOf(1) : index;
+	return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, from + direction))];
+};
+
+/**
+ * Where skip silence should jump to from the given time: just before the
+ * next segment when the time falls in a long enough gap with nobody
+ * speaking, or null to carry on. Silence after the last segment is left to
+ * play out.
+ */
+export const silenceSkipTarget = (segments: TranscriptSegment[] = [], time: number, threshold: number): number | null => {
+	let speechEnd = 0;
+	for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+		if (time < segment.start) {
+			const target = segment.start - SILENCE_LEAD_SECONDS;
+			return segment.start - speechEnd >= threshold && time < target ? target : null;
+		}
+		speechEnd = Math.max(speechEnd, segment.end);
+		if (time < speechEnd) return null;
+	}
+	return null;
+};
+
+/**
+ * Whether a loop should go back to its start: playback has just passed its
+ * end. Seeking well past the end leaves the loop alone.
+ */
+export const loopRestart = (loop: LoopRange | null, time: number): boolean =>
+	loop !== null && time >= loop.end && time < loop.end + 1;
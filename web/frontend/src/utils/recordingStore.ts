@@ -0,0 +1,183 @@
+export interface StoredRecording {
+	id: string;
+	title: string;
+	mimeType: string;
+	startedAt: number;
+	updatedAt: number;
+	// Milliseconds of audio captured so far
+	duration: number;
+	size: number;
+	chunkCount: number;
+	// Set once the recorder stopped cleanly; unfinished recordings were cut off
+	finished: boolean;
+	// Server upload session, kept so an interrupted upload resumes
+	uploadSessionId?: string;
+}
+
+interface StoredChunk {
+	recordingId: string;
+	index: number;
+	blob: Blob;
+}
+
+const DB_NAME = 'scriberr-recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+				db.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'index'] });
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				dbPromise = null;
+				reject(request.error);
+			};
+		});
+	}
+	return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+	new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+	new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+
+const chunkRange = (recordingId: string) =>
+	IDBKeyRange.bound([recordingId, 0], [recordingId, Number.MAX_SAFE_INTEGER]);
+
+export const newRecordingId = (): string =>
+	`${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createRecording = async (recording: StoredRecording): Promise<void> => {
+	const db = await openDb();
+	const tx = db.transaction(RECORDINGS, 'readwrite');
+	tx.objectStore(RECORDINGS).put(recording);
+	await transactionDone(tx);
+};
+
+/**
+ * Stores the next chunk of a recording and updates its totals in the same
+ * transaction, so a crash never leaves the two out of step
+ */
+export const appendRecordingChunk = async (
+	recordingId: string,
+	index: number,
+	blob: Blob,
+	duration: number,
+): Promise<void> => {
+	const db = await openDb();
+	const tx = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+	const recordings = tx.objectStore(RECORDINGS);
+	const chunk: StoredChunk = { recordingId, index, blob };
+	tx.objectStore(CHUNKS).put(chunk);
+	const recording = await requestResult<StoredRecording | undefined>(recordings.get(recordingId));
+	if (recording) {
+		recordings.put({
+			...recording,
+			mimeType: recording.mimeType || blob.type,
+			updatedAt: Date.now(),
+			duration: Math.max(recording.duration, duration),
+			size: recording.size + blob.size,
+			chunkCount: Math.max(recording.chunkCount, index + 1),
+		});
+	}
+	await transactionDone(tx);
+};
+
+export const updateRecording = async (
+	recordingId: string,
+	changes: Partial<Omit<StoredRecording, 'id'>>,
+): Promise<void> => {
+	const db = await openDb();
+	const tx = db.transaction(RECORDINGS, 'readwrite');
+	const recordings = tx.objectStore(RECORDINGS);
+	const recording = await requestResult<StoredRecording | undefined>(recordings.get(recordingId));
+	if (recording) recordings.put({ ...recording, ...changes, updatedAt: Date.now() });
+	await transactionDone(tx);
+};
+
+/**
+ * Every stored recording, newest first
+ */
+export const listRecordings = async (): Promise<StoredRecording[]> => {
+	const db = await openDb();
+	const tx = db.transaction(RECORDINGS, 'readonly');
+	const recordings = await requestResult<StoredRecording[]>(tx.objectStore(RECORDINGS).getAll());
+	return recordings.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Joins a recording's chunks back into one file. MediaRecorder chunks are
+ * consecutive pieces of a single stream, so an unfinished recording still
+ * plays up to its last stored chunk.
+ */
+export const loadRecordingBlob = async (recording: StoredRecording): Promise<Blob> => {
+	const db = await openDb();
+	const tx = db.transaction(CHUNKS, 'readonly');
+	const chunks = await requestResult<StoredChunk[]>(tx.objectStore(CHUNKS).getAll(chunkRange(recording.id)));
+	return new Blob(
+		chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.blob),
+		{ type: recording.mimeType || 'audio/webm' },
+	);
+};
+
+export const deleteRecording = async (recordingId: string): Promise<void> => {
+	const db = await openDb();
+	const tx = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+	tx.objectStore(RECORDINGS).delete(recordingId);
+	tx.objectStore(CHUNKS).delete(chunkRange(recordingId));
+	await transactionDone(tx);
+};
+
+const lockName = (recordingId: string) => `scriberr-recording-${recordingId}`;
+
+/**
+ * Marks a recording as owned by this tab until the returned function is
+ * called. The browser releases the lock by itself when the tab closes or
+ * crashes, which is what tells recovery a recording was abandoned.
+ */
+export const holdRecordingLock = (recordingId: string): (() => void) => {
+	if (!navigator.locks) return () => {};
+	let release: () => void = () => {};
+	const released = new Promise<void>(resolve => {
+		release = resolve;
+	});
+	navigator.locks.request(lockName(recordingId), () => released).catch(() => {});
+	return release;
+};
+
+/**
+ * Whether a tab still owns the recording, e.g. because it's still recording
+ */
+export const isRecordingInUse = async (recordingId: string): Promise<boolean> => {
+	if (!navigator.locks) return false;
+	const { held = [] } = await navigator.locks.query();
+	return held.some(lock => lock.name === lockName(recordingId));
+};
+
+/**
+ * File name for an upload, with the extension matching what the browser
+ * recorded (WebM in most browsers, MP4 in Safari)
+ */
+export const recordingFileName = (title: string, mimeType: string): string => {
+	const type = mimeType.split(';')[0];
+	const extension = type === 'audio/mp4' ? 'm4a' : type === 'audio/ogg' ? 'ogg' : 'webm';
+	return `${title.replace(/[\\/:*?"<>|]+/g, '_')}.${extension}`;
+};
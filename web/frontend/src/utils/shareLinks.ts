@@ -0,0 +1,62 @@
+import type { Transcript } from '../types/transcript';
+
+// Header carrying the password of a protected share link
+export const SHARE_PASSWORD_HEADER = 'X-Share-Password';
+
+export const SHARE_EXPIRY_OPTIONS = [
+	{ hours: 24, label: '1 day' },
+	{ hours: 24 * 7, label: '7 days' },
+	{ hours: 24 * 30, label: '30 days' },
+	{ hours: 24 * 90, label: '90 days' },
+	{ hours: 24 * 365, label: '1 year' },
+];
+
+export interface ShareLink {
+	id: string;
+	transcription_id: string;
+	// Title of the shared transcription
+	title: string;
+	label: string;
+	has_password: boolean;
+	start_time?: number;
+	end_time?: number;
+	include_summary: boolean;
+	expires_at: string;
+	last_accessed_at?: string;
+	access_count: number;
+	created_at: string;
+	token: string;
+}
+
+// What visitors of a share link get. Times count from the start of the
+// shared range, like the shared audio.
+export interface SharedTranscript {
+	title: string;
+	label?: string;
+	start_time?: number;
+	end_time?: number;
+	expires_at: string;
+	transcript: Transcript;
+	speaker_names: Record<string, string>;
+	summary?: string;
+}
+
+export const shareLinkUrl = (token: string): string =>
+	new URL(`/share/${encodeURIComponent(token)}`, window.location.origin).toString();
+
+export const formatClockTime = (seconds: number): string => {
+	const total = Math.floor(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = (total % 60).toString().padStart(2, '0');
+	return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * The part of the recording a share link opens, e.g. "2:00 – 5:30", or null
+ * for all of it
+ */
+export const formatShareRange = (link: { start_time?: number; end_time?: number }): string | null => {
+	if (link.start_time === undefined && link.end_time === undefined) return null;
+	return `${formatClockTime(link.start_time ?? 0)} – ${link.end_time !== undefined ? formatClockTime(link.end_time) : 'end'}`;
+};
@@ -0,0 +1,157 @@
+export type ShortcutAction =
+	| 'playPause'
+	| 'rewind'
+	| 'forward'
+	| 'speedDown'
+	| 'speedUp'
+	| 'previousSegment'
+	| 'nextSegment'
+	| 'previousSpeaker'
+	| 'nextSpeaker'
+	| 'addNote'
+	| 'search'
+	| 'help';
+
+// Pedal-only: plays while the pedal is held down
+export type PedalAction = ShortcutAction | 'holdToPlay';
+
+export interface ShortcutSettings {
+	// Key combinations per action, written like "Ctrl+Shift+ArrowLeft"
+	bindings: Record<ShortcutAction, string[]>;
+	// How far rewind and forward jump, in seconds
+	skipSeconds: number;
+	pedal: {
+		enabled: boolean;
+		// Gamepad button index to action
+		buttons: Record<string, PedalAction>;
+	};
+}
+
+export const SHORTCUT_ACTIONS: Array<{ action: ShortcutAction; label: string }> = [
+	{ action: 'playPause', label: 'Play / pause' },
+	{ action: 'rewind', label: 'Rewind' },
+	{ action: 'forward', label: 'Forward' },
+	{ action: 'speedDown', label: 'Slower' },
+	{ action: 'speedUp', label: 'Faster' },
+	{ action: 'previousSegment', label: 'Previous segment' },
+	{ action: 'nextSegment', label: 'Next segment' },
+	{ action: 'previousSpeaker', label: 'Previous speaker change' },
+	{ action: 'nextSpeaker', label: 'Next speaker change' },
+	{ action: 'addNote', label: 'Add note at selection' },
+	{ action: 'search', label: 'Find in transcript' },
+	{ action: 'help', label: 'Show shortcuts' },
+];
+
+export const PEDAL_ACTIONS: Array<{ action: PedalAction; label: string }> = [
+	{ action: 'holdToPlay', label: 'Play while held' },
+	...SHORTCUT_ACTIONS.filter(({ action }) => action !== 'help'),
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutSettings = {
+	bindings: {
+		playPause: ['Space', 'F8'],
+		rewind: ['ArrowLeft', 'F7'],
+		forward: ['ArrowRight', 'F9'],
+		speedDown: ['['],
+		speedUp: [']'],
+		previousSegment: ['Shift+ArrowLeft'],
+		nextSegment: ['Shift+ArrowRight'],
+		previousSpeaker: ['Shift+ArrowUp'],
+		nextSpeaker: ['Shift+ArrowDown'],
+		addNote: ['N'],
+		search: ['Ctrl+F', '/'],
+		help: ['?'],
+	},
+	skipSeconds: 5,
+	// The usual three-pedal layout: rewind, play while held, forward
+	pedal: { enabled: false, buttons: { '0': 'rewind', '1': 'holdToPlay', '2': 'forward' } },
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+const KEY_NAMES: Record<string, string> = { ' ': 'Space', Esc: 'Escape' };
+
+/**
+ * The key combination of a key press, or null for a lone modifier. Cmd
+ * counts as Ctrl, and Shift is left out for symbols it already changed
+ * (Shift+/ reads as "?").
+ */
+export const eventToShortcut = (e: KeyboardEvent): string | null => {
+	if (MODIFIER_KEYS.includes(e.key)) return null;
+	let key = KEY_NAMES[e.key] ?? e.key;
+	if (key.length === 1) key = key.toUpperCase();
+	const symbol = key.length === 1 && !/[A-Z0-9]/.test(key);
+
+	const parts: string[] = [];
+	if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+	if (e.altKey) parts.push('Alt');
+	if (e.shiftKey && !symbol) parts.push('Shift');
+	parts.push(key);
+	return parts.join('+');
+};
+
+/**
+ * Whether a combination should still fire while typing in a text field:
+ * only ones with Ctrl or Alt, and function keys
+ */
+export const worksWhileTyping = (shortcut: string): boolean =>
+	/(^|\+)(Ctrl|Alt)\+/.test(shortcut) || /(^|\+)F\d{1,2}$/.test(shortcut);
+
+export const findShortcutAction = (settings: ShortcutSettings, shortcut: string): ShortcutAction | undefined =>
+	SHORTCUT_ACTIONS.find(({ action }) => settings.bindings[action].includes(shortcut))?.action;
+
+const KEY_LABELS: Record<string, string> = {
+	ArrowLeft: '←',
+	ArrowRight: '→',
+	ArrowUp: '↑',
+	ArrowDown: '↓',
+};
+
+/**
+ * A combination as shown to people: arrows as arrows
+ */
+export const formatShortcut = (shortcut: string): string =>
+	shortcut
+		.split('+')
+		.map(part => KEY_LABELS[part] ?? part)
+		.join(' + ');
+
+/**
+ * Reads stored settings over the defaults, so actions added later get their
+ * default keys and anything malformed is ignored
+ */
+export const parseShortcutSettings = (raw: unknown): ShortcutSettings => {
+	if (!raw || typeof raw !== 'object') return DEFAULT_SHORTCUTS;
+	const stored = raw as Partial<ShortcutSettings>;
+
+	const bindings = { ...DEFAULT_SHORTCUTS.bindings };
+	SHORTCUT_ACTIONS.forEach(({ action }) => {
+		const keys = stored.bindings?.[action];
+		if (Array.isArray(keys)) bindings[action] = keys.filter((key): key is string => typeof key === 'string');
+	});
+
+	const skipSeconds = Number(stored.skipSeconds);
+	const buttons: Record<string, PedalAction> = {};
+	Object.entries(stored.pedal?.buttons ?? DEFAULT_SHORTCUTS.pedal.buttons).forEach(([button, action]) => {
+		if (PEDAL_ACTIONS.some(option => option.action === action)) buttons[button] = action;
+	});
+
+	return {
+		bindings,
+		skipSeconds: Number.isFinite(skipSeconds) && skipSeconds > 0 ? skipSeconds : DEFAULT_SHORTCUTS.skipSeconds,
+		pedal: { enabled: Boolean(stored.pedal?.enabled), buttons },
+	};
+};
+
+/**
+ * Binds a combination to an action, taking it away from whichever action
+ * had it before
+ */
+export const bindShortcut = (settings: ShortcutSettings, action: ShortcutAction, shortcut: string): ShortcutSettings => {
+	const bindings = { ...settings.bindings };
+	SHORTCUT_ACTIONS.forEach(({ action: other }) => {
+		bindings[other] = bindings[other].filter(key => key !== shortcut);
+	});
+	bindings[action] = [...bindings[action], shortcut];
+	return { ...settings, bindings };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types/transcript';
+import { computeSpeakerAnalytics, soloPlaybackTarget, speakerAnalyticsToCSV, speakerRanges } from './speakerAnalytics';
+
+const segment = (speaker: string | undefined, start: number, end: number, text = ''): TranscriptSegment => ({ speaker, start, end, text });
+
+const conversation = [
+	segment('A', 0, 10, 'one two three four five'),
+	// B starts before A is done
+	segment('B', 8, 12, 'six seven'),
+	segment('A', 12, 20, 'eight nine'),
+	segment(undefined, 20, 25, 'no speaker'),
+	segment('B', 25, 25, 'empty'),
+];
+
+describe('computeSpeakerAnalytics', () => {
+	it('counts talk time, turns, pace and overlaps per speaker', () => {
+		const { speakers, turns, duration } = computeSpeakerAnalytics(conversation);
+
+		expect(turns).toEqual([
+			{ speaker: 'A', start: 0, end: 10 },
+			{ speaker: 'B', start: 8, end: 12 },
+			{ speaker: 'A', start: 12, end: 20 },
+		]);
+		expect(duration).toBe(20);
+
+		const [a, b] = speakers;
+		expect(a).toMatchObject({ speaker: 'A', talkTime: 18, turns: 2, averageTurn: 9, longestMonologue: 10 });
+		expect(a).toMatchObject({ interruptions: 0, interrupted: 1, overlapTime: 2 });
+		expect(a.share).toBeCloseTo(18 / 22);
+		expect(a.wordsPerMinute).toBeCloseTo(7 / (18 / 60));
+		expect(b).toMatchObject({ speaker: 'B', talkTime: 4, turns: 1, interruptions: 1, interrupted: 0, overlapTime: 2 });
+	});
+
+	it('joins consecutive segments of a speaker into one turn', () => {
+		const { speakers, turns } = computeSpeakerAnalytics([segment('A', 5, 9), segment('A', 0, 5)]);
+		expect(turns).toEqual([{ speaker: 'A', start: 0, end: 9 }]);
+		expect(speakers[0]).toMatchObject({ turns: 1, longestMonologue: 9, share: 1 });
+	});
+
+	it('handles a transcript without speakers', () => {
+		expect(computeSpeakerAnalytics([segment(undefined, 0, 5)])).toEqual({ speakers: [], turns: [], duration: 0 });
+		expect(computeSpeakerAnalytics()).toEqual({ speakers: [], turns: [], duration: 0 });
+	});
+});
+
+describe('speakerAnalyticsToCSV', () => {
+	it('quotes names that need it', () => {
+		const csv = speakerAnalyticsToCSV(computeSpeakerAnalytics(conversation), (speaker) => (speaker === 'A' ? 'Smith, "Jo"' : speaker));
+		const rows = csv.trim().split('\n');
+		expect(rows).toHaveLength(3);
+		expect(rows[1]).toBe('"Smith, ""Jo""",A,18.0,81.8,2,9.0,23,10.0,0,1,2.0');
+	});
+});
+
+describe('solo playback', () => {
+	const ranges = speakerRanges([segment('A', 10, 12), segment('B', 0, 5), segment('A', 0, 5), segment('A', 4, 8)], 'A');
+
+	it('merges overlapping ranges of the speaker', () => {
+		expect(ranges).toEqual([
+			{ speaker: 'A', start: 0, end: 8 },
+			{ speaker: 'A', start: 10, end: 12 },
+		]);
+	});
+
+	it('skips the gaps between them', () => {
+		expect(soloPlaybackTarget(ranges, 3)).toBe(3);
+		expect(soloPlaybackTarget(ranges, 8)).toBe(10);
+		expect(soloPlaybackTarget(ranges, 12)).toBeNull();
+	});
+});
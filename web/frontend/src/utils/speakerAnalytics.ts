@@ -0,0 +1,188 @@
+import type { TranscriptSegment } from '../types/transcript';
+
+export interface SpeakerTurn {
+	speaker: string;
+	start: number;
+	end: number;
+}
+
+export interface SpeakerStats {
+	speaker: string;
+	// Seconds spent speaking, and its share of all speech (0 to 1)
+	talkTime: number;
+	share: number;
+	turns: number;
+	averageTurn: number;
+	wordsPerMinute: number;
+	longestMonologue: number;
+	// Times this speaker started while someone else was still speaking
+	interruptions: number;
+	// Times someone else started while this speaker was speaking
+	interrupted: number;
+	// Seconds this speaker spoke over someone else
+	overlapTime: number;
+}
+
+export interface SpeakerAnalytics {
+	speakers: SpeakerStats[];
+	turns: SpeakerTurn[];
+	duration: number;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Talk time, turns, pace and overlaps per speaker. A turn is a run of
+ * consecutive segments by the same speaker; segments without a speaker are
+ * left out.
+ */
+export const computeSpeakerAnalytics = (segments: TranscriptSegment[] = []): SpeakerAnalytics => {
+	const spoken = segments
+		.filter((segment): segment is TranscriptSegment & { speaker: string } => Boolean(segment.speaker) && segment.end > segment.start)
+		.sort((a, b) => a.start - b.start);
+
+	const stats = new Map<string, SpeakerStats & { words: number }>();
+	const statsFor = (speaker: string) => {
+		let entry = stats.get(speaker);
+		if (!entry) {
+			entry = {
+				speaker,
+				talkTime: 0,
+				share: 0,
+				turns: 0,
+				averageTurn: 0,
+				wordsPerMinute: 0,
+				longestMonologue: 0,
+				interruptions: 0,
+				interrupted: 0,
+				overlapTime: 0,
+				words: 0,
+			};
+			stats.set(speaker, entry);
+		}
+		return entry;
+	};
+
+	const turns: SpeakerTurn[] = [];
+	spoken.forEach((segment) => {
+		const entry = statsFor(segment.speaker);
+		entry.talkTime += segment.end - segment.start;
+		entry.words += countWords(segment.text);
+
+		const last = turns[turns.length - 1];
+		if (last && last.speaker === segment.speaker) {
+			last.end = Math.max(last.end, segment.end);
+		} else {
+			turns.push({ speaker: segment.speaker, start: segment.start, end: segment.end });
+		}
+	});
+
+	turns.forEach((turn) => {
+		const entry = statsFor(turn.speaker);
+		entry.turns += 1;
+		entry.longestMonologue = Math.max(entry.longestMonologue, turn.end - turn.start);
+	});
+
+	// Segments are sorted by start, so only the ones starting before a
+	// segment ends can overlap it
+	spoken.forEach((segment, i) => {
+		for (let j = i + 1; j < spoken.length && spoken[j].start < segment.end; j++) {
+			const other = spoken[j];
+			if (other.speaker === segment.speaker) continue;
+			const overlap = Math.min(segment.end, other.end) - other.start;
+			statsFor(segment.speaker).overlapTime += overlap;
+			statsFor(other.speaker).overlapTime += overlap;
+			if (other.start > segment.start) {
+				statsFor(other.speaker).interruptions += 1;
+				statsFor(segment.speaker).interrupted += 1;
+			}
+		}
+	});
+
+	const totalTalk = [...stats.values()].reduce((sum, entry) => sum + entry.talkTime, 0);
+	const speakers = [...stats.values()]
+		.map(({ words, ...entry }) => ({
+			...entry,
+			share: totalTalk > 0 ? entry.talkTime / totalTalk : 0,
+			averageTurn: entry.turns > 0 ? entry.talkTime / entry.turns : 0,
+			wordsPerMinute: entry.talkTime > 0 ? words / (entry.talkTime / 60) : 0,
+		}))
+		.sort((a, b) => b.talkTime - a.talkTime);
+
+	return {
+		speakers,
+		turns,
+		duration: spoken.reduce((end, segment) => Math.max(end, segment.end), 0),
+	};
+};
+
+const csvCell = (value: string | number) => {
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Per-speaker figures as CSV, one row per speaker. Times are in seconds.
+ */
+export const speakerAnalyticsToCSV = (analytics: SpeakerAnalytics, getName: (speaker: string) => string): string => {
+	const header = [
+		'Speaker',
+		'Label',
+		'Talk time (s)',
+		'Share (%)',
+		'Turns',
+		'Average turn (s)',
+		'Words per minute',
+		'Longest monologue (s)',
+		'Interruptions',
+		'Interrupted',
+		'Overlap (s)',
+	];
+	const rows = analytics.speakers.map((s) => [
+		getName(s.speaker),
+		s.speaker,
+		s.talkTime.toFixed(1),
+		(s.share * 100).toFixed(1),
+		s.turns,
+		s.averageTurn.toFixed(1),
+		Math.round(s.wordsPerMinute),
+		s.longestMonologue.toFixed(1),
+		s.interruptions,
+		s.interrupted,
+		s.overlapTime.toFixed(1),
+	]);
+	return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Time ranges in which one speaker talks, sorted and with touching or
+ * overlapping segments merged
+ */
+export const speakerRanges = (segments: TranscriptSegment[] = [], speaker: string): SpeakerTurn[] => {
+	const ranges: SpeakerTurn[] = [];
+	segments
+		.filter((segment) => segment.speaker === speaker && segment.end > segment.start)
+		.sort((a, b) => a.start - b.start)
+		.forEach((segment) => {
+			const last = ranges[ranges.length - 1];
+			if (last && segment.start <= last.end) {
+				last.end = Math.max(last.end, segment.end);
+			} else {
+				ranges.push({ speaker, start: segment.start, end: segment.end });
+			}
+		});
+	return ranges;
+};
+
+/**
+ * Where solo playback should be at the given time: the time itself inside one
+ * of the speaker's ranges, the start of their next range in a gap, or null
+ * once they have nothing left to say
+ */
+export const soloPlaybackTarget = (ranges: SpeakerTurn[], time: number): number | null => {
+	for (const range of ranges) {
+		if (time < range.start) return range.start;
+		if (time < range.end) return time;
+	}
+	return null;
+};
@@ -0,0 +1,75 @@
+import { TAG_COLORS } from './tags';
+
+export interface Speaker {
+	id: string;
+	name: string;
+	role?: string;
+	color?: string;
+	// Image as a data URL
+	avatar?: string;
+	// Recordings the voice print was learned from
+	enrollment_count: number;
+}
+
+export interface SpeakerSuggestion {
+	original_speaker: string;
+	speaker: Speaker;
+	// Voice similarity between 0 and 1
+	confidence: number;
+}
+
+/**
+ * Up to two initials, shown when a speaker has no avatar
+ */
+export const speakerInitials = (name: string) =>
+	name
+		.split(/\s+/)
+		.filter(Boolean)
+		.slice(0, 2)
+		.map((part) => part[0].toUpperCase())
+		.join('');
+
+/**
+ * Crops an image file to a centred square and scales it down, so avatars
+ * stay small enough to store with the speaker
+ */
+export const resizeAvatar = (file: File, size = 96): Promise<string> =>
+	new Promise((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const image = new Image();
+		image.onload = () => {
+			URL.revokeObjectURL(url);
+			const side = Math.min(image.width, image.height);
+			const canvas = document.createElement('canvas');
+			canvas.width = size;
+			canvas.height = size;
+			const context = canvas.getContext('2d');
+			if (!context) {
+				reject(new Error('Canvas is not supported'));
+				return;
+			}
+			context.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, size, size);
+			resolve(canvas.toDataURL('image/jpeg', 0.85));
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error('The file is not an image that can be read'));
+		};
+		image.src = url;
+	});
+
+// Colours given to a transcript's speakers in turn, leaving out the neutral one
+const SPEAKER_COLORS = TAG_COLORS.filter((color) => color !== 'gray');
+
+/**
+ * Palette colour of the speaker at the given position, for charts that tell
+ * speakers apart
+ */
+export const speakerColor = (index: number) => SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+
+/**
+ * Colour of each speaker label, given in label order so a speaker keeps
+ * their colour when renamed and across views
+ */
+export const speakerColorMap = (labels: Iterable<string>) =>
+	new Map([...new Set(labels)].sort().map((label, i) => [label, speakerColor(i)]));
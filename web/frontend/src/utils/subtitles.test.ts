@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript, WordSegment } from '../types/transcript';
+import { DEFAULT_SUBTITLE_LAYOUT, resegmentCues } from './subtitles';
+
+const word = (text: string, start?: number, end?: number): WordSegment =>
+	({ word: text, start, end, score: start === undefined ? 0 : 0.9 }) as WordSegment;
+
+const transcript = (words: WordSegment[]): Transcript => ({
+	text: words.map(w => w.word).join(' '),
+	segments: [{ start: 0, end: 10, text: words.map(w => w.word).join(' '), speaker: 'SPEAKER_00' }],
+	word_segments: words,
+});
+
+describe('resegmentCues', () => {
+	it('keeps untimed words such as numerals', () => {
+		const cues = resegmentCues(
+			transcript([word('We', 0, 0.3), word('sold', 0.4, 0.8), word('42'), word('units.', 1.2, 1.6)]),
+			DEFAULT_SUBTITLE_LAYOUT,
+		);
+		expect(cues.map(cue => cue.text).join(' ')).toBe('We sold 42 units.');
+		const numeral = cues.flatMap(cue => cue.words).find(w => w.word === '42');
+		expect(numeral).toMatchObject({ start: 0.8, end: 0.8, speaker: 'SPEAKER_00' });
+	});
+
+	it('times leading untimed words by the first timed word', () => {
+		const cues = resegmentCues(transcript([word('2024'), word('was', 0.5, 0.7), word('good.', 0.8, 1)]), DEFAULT_SUBTITLE_LAYOUT);
+		expect(cues[0]).toMatchObject({ start: 0.5, text: '2024 was good.' });
+	});
+
+	it('falls back to segment cues when no word is timed', () => {
+		const cues = resegmentCues(transcript([word('42'), word('17')]), DEFAULT_SUBTITLE_LAYOUT);
+		expect(cues).toHaveLength(1);
+		expect(cues[0]).toMatchObject({ start: 0, end: 10, text: '42 17' });
+	});
+
+	it('breaks cues on speaker changes', () => {
+		const t = transcript([word('Hi.', 0, 0.5), word('Hello.', 1, 1.5)]);
+		t.word_segments![0].speaker = 'SPEAKER_00';
+		t.word_segments![1].speaker = 'SPEAKER_01';
+		const cues = resegmentCues(t, DEFAULT_SUBTITLE_LAYOUT);
+		expect(cues.map(cue => [cue.speaker, cue.text])).toEqual([
+			['SPEAKER_00', 'Hi.'],
+			['SPEAKER_01', 'Hello.'],
+		]);
+	});
+});
@@ -0,0 +1,303 @@
+import type { Transcript, TranscriptSegment, WordSegment } from '../types/transcript';
+
+export interface SubtitleCue {
+	start: number;
+	end: number;
+	speaker?: string;
+	text: string;
+	words: WordSegment[];
+}
+
+export interface SubtitleLayout {
+	maxCharsPerLine: number;
+	maxLinesPerCue: number;
+	maxCueDuration: number;
+	minGap: number;
+}
+
+interface SubtitleOptions {
+	includeSpeakers: boolean;
+	getSpeakerName: (speaker: string) => string;
+	maxCharsPerLine?: number;
+}
+
+interface WebVTTOptions extends SubtitleOptions {
+	karaoke: boolean;
+}
+
+export const DEFAULT_SUBTITLE_LAYOUT: SubtitleLayout = {
+	maxCharsPerLine: 42,
+	maxLinesPerCue: 2,
+	maxCueDuration: 7,
+	minGap: 0.08,
+};
+
+const SENTENCE_END = /[.!?…]["')\]»]*$/;
+const CLAUSE_END = /[,;:]["')\]»]*$/;
+
+/**
+ * Builds a subtitle layout from transcription parameters, falling back to defaults
+ */
+export const getSubtitleLayout = (params?: { max_line_width?: number; max_line_count?: number }): SubtitleLayout => {
+	return {
+		...DEFAULT_SUBTITLE_LAYOUT,
+		maxCharsPerLine: params?.max_line_width || DEFAULT_SUBTITLE_LAYOUT.maxCharsPerLine,
+		maxLinesPerCue: params?.max_line_count || DEFAULT_SUBTITLE_LAYOUT.maxLinesPerCue,
+	};
+};
+
+/**
+ * Formats seconds as an SRT timestamp (HH:MM:SS,mmm)
+ */
+export const formatSRTTime = (seconds: number): string => {
+	return formatVTTTime(seconds).replace('.', ',');
+};
+
+/**
+ * Formats seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+export const formatVTTTime = (seconds: number): string => {
+	const totalMs = Math.max(0, Math.round(seconds * 1000));
+	const hours = Math.floor(totalMs / 3600000);
+	const minutes = Math.floor((totalMs % 3600000) / 60000);
+	const secs = Math.floor((totalMs % 60000) / 1000);
+	const ms = totalMs % 1000;
+
+	return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Escapes the characters WebVTT reserves for markup in cue text
+ */
+const escapeVTTText = (text: string): string => {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Greedily packs tokens into lines of at most maxChars characters
+ */
+const wrapTokens = <T>(tokens: T[], getText: (token: T) => string, maxChars?: number): T[][] => {
+	if (!maxChars) return tokens.length > 0 ? [tokens] : [];
+
+	const lines: T[][] = [];
+	let line: T[] = [];
+	let length = 0;
+
+	tokens.forEach(token => {
+		const tokenLength = getText(token).length;
+		if (line.length > 0 && length + 1 + tokenLength > maxChars) {
+			lines.push(line);
+			line = [];
+			length = 0;
+		}
+		length += (line.length > 0 ? 1 : 0) + tokenLength;
+		line.push(token);
+	});
+
+	if (line.length > 0) lines.push(line);
+	return lines;
+};
+
+const joinWords = (words: WordSegment[]): string => {
+	return words.map(word => word.word.trim()).filter(Boolean).join(' ');
+};
+
+/**
+ * Returns the words whose midpoint falls inside the given segment
+ */
+const getSegmentWords = (segment: TranscriptSegment, words: WordSegment[]): WordSegment[] => {
+	return words.filter(word => {
+		if (!Number.isFinite(word.start) || !Number.isFinite(word.end)) return false;
+		const mid = (word.start + word.end) / 2;
+		return mid >= segment.start && mid <= segment.end;
+	});
+};
+
+/**
+ * Returns the words of a transcript with their times and missing speakers
+ * filled in. Words the aligner couldn't time, often numbers and names, take
+ * the end of the timed word before them, or the start of the one after.
+ * Returns nothing when no word is timed.
+ */
+const getTimedWords = (transcript: Transcript): WordSegment[] => {
+	const segments = transcript.segments || [];
+	const words = (transcript.word_segments || []).filter(word => word.word.trim() !== '');
+	const isTimed = (word: WordSegment) => Number.isFinite(word.start) && Number.isFinite(word.end);
+	if (!words.some(isTimed)) return [];
+
+	let previousEnd: number | undefined;
+	return words
+		.map((word, index) => {
+			if (isTimed(word)) {
+				previousEnd = word.end;
+				return word;
+			}
+			const time = previousEnd ?? words.slice(index + 1).find(isTimed)!.start;
+			return { ...word, start: time, end: time };
+		})
+		.map(word => {
+			if (word.speaker) return word;
+			const mid = (word.start + word.end) / 2;
+			const segment = segments.find(s => mid >= s.start && mid <= s.end);
+			return segment?.speaker ? { ...word, speaker: segment.speaker } : word;
+		});
+};
+
+const toCue = (words: WordSegment[]): SubtitleCue => {
+	return {
+		start: words[0].start,
+		end: words[words.length - 1].end,
+		speaker: words[0].speaker,
+		text: joinWords(words),
+		words,
+	};
+};
+
+/**
+ * Creates one cue per transcript segment, keeping the original segmentation
+ */
+export const segmentsToCues = (transcript: Transcript): SubtitleCue[] => {
+	const words = transcript.word_segments || [];
+
+	if (!transcript.segments || transcript.segments.length === 0) {
+		return [{ start: 0, end: 359999.999, text: transcript.text.trim(), words: [] }];
+	}
+
+	return transcript.segments.map(segment => ({
+		start: segment.start,
+		end: segment.end,
+		speaker: segment.speaker,
+		text: segment.text.trim(),
+		words: getSegmentWords(segment, words),
+	}));
+};
+
+/**
+ * Re-cuts cues from word timings so each cue respects the layout limits,
+ * preferring breaks on punctuation and always breaking on speaker changes
+ */
+export const resegmentCues = (
+	transcript: Transcript,
+	layout: SubtitleLayout,
+	getLabel?: (speaker: string) => string,
+): SubtitleCue[] => {
+	const words = getTimedWords(transcript);
+	if (words.length === 0) return segmentsToCues(transcript);
+
+	const maxChars = Math.max(10, Math.floor(layout.maxCharsPerLine) || DEFAULT_SUBTITLE_LAYOUT.maxCharsPerLine);
+	const maxLines = Math.max(1, Math.floor(layout.maxLinesPerCue) || DEFAULT_SUBTITLE_LAYOUT.maxLinesPerCue);
+	const maxDuration = Math.max(1, layout.maxCueDuration || DEFAULT_SUBTITLE_LAYOUT.maxCueDuration);
+
+	const cues: SubtitleCue[] = [];
+	let current: WordSegment[] = [];
+
+	const fits = (cueWords: WordSegment[]): boolean => {
+		if (cueWords[cueWords.length - 1].end - cueWords[0].start > maxDuration) return false;
+		const speaker = cueWords[0].speaker;
+		const tokens = cueWords.map(word => word.word.trim());
+		if (getLabel && speaker) tokens.unshift(getLabel(speaker));
+		return wrapTokens(tokens, token => token, maxChars).length <= maxLines;
+	};
+
+	// Prefer ending the cue at a sentence, then a clause, as long as we keep at least a third of it
+	const findBreak = (cueWords: WordSegment[]): number => {
+		const minIndex = Math.max(0, Math.floor(cueWords.length / 3) - 1);
+		for (const pattern of [SENTENCE_END, CLAUSE_END]) {
+			for (let i = cueWords.length - 1; i >= minIndex; i--) {
+				if (pattern.test(cueWords[i].word.trim())) return i + 1;
+			}
+		}
+		return cueWords.length;
+	};
+
+	const flush = (count: number) => {
+		cues.push(toCue(current.slice(0, count)));
+		current = current.slice(count);
+	};
+
+	words.forEach(word => {
+		if (current.length > 0 && word.speaker !== current[0].speaker) {
+			flush(current.length);
+		}
+
+		while (current.length > 0 && !fits([...current, word])) {
+			flush(findBreak(current));
+		}
+
+		current.push(word);
+
+		if (SENTENCE_END.test(word.word.trim()) && joinWords(current).length >= maxChars / 2) {
+			flush(current.length);
+		}
+	});
+
+	if (current.length > 0) flush(current.length);
+
+	// Enforce the minimum gap by trimming the end of the earlier cue
+	const minGap = Math.max(0, layout.minGap || 0);
+	for (let i = 0; i < cues.length - 1; i++) {
+		const next = cues[i + 1];
+		if (next.start - cues[i].end < minGap) {
+			cues[i].end = Math.max(cues[i].start + 0.001, next.start - minGap);
+		}
+	}
+
+	return cues;
+};
+
+/**
+ * Builds an SRT document, prefixing each cue with the speaker name when requested
+ */
+export const buildSRT = (cues: SubtitleCue[], options: SubtitleOptions): string => {
+	return cues
+		.map((cue, index) => {
+			const tokens = cue.text.split(/\s+/).filter(Boolean);
+			if (options.includeSpeakers && cue.speaker) {
+				tokens.unshift(`${options.getSpeakerName(cue.speaker)}:`);
+			}
+			const text = wrapTokens(tokens, token => token, options.maxCharsPerLine)
+				.map(line => line.join(' '))
+				.join('\n');
+
+			return `${index + 1}\n${formatSRTTime(cue.start)} --> ${formatSRTTime(cue.end)}\n${text}\n\n`;
+		})
+		.join('');
+};
+
+/**
+ * Builds a WebVTT document with optional <v Speaker> voice spans and
+ * inline <HH:MM:SS.mmm> timestamps before each word (karaoke)
+ */
+export const buildWebVTT = (cues: SubtitleCue[], options: WebVTTOptions): string => {
+	let vtt = 'WEBVTT\n\n';
+
+	cues.forEach((cue, index) => {
+		let text: string;
+
+		if (options.karaoke && cue.words.length > 0) {
+			text = wrapTokens(cue.words, word => word.word.trim(), options.maxCharsPerLine)
+				.map(line => line
+					.map(word => {
+						const wordText = escapeVTTText(word.word.trim());
+						// Timestamp tags must fall strictly inside the cue
+						if (word.start <= cue.start || word.start >= cue.end) return wordText;
+						return `<${formatVTTTime(word.start)}>${wordText}`;
+					})
+					.join(' '))
+				.join('\n');
+		} else {
+			text = wrapTokens(cue.text.split(/\s+/).filter(Boolean), token => token, options.maxCharsPerLine)
+				.map(line => escapeVTTText(line.join(' ')))
+				.join('\n');
+		}
+
+		if (options.includeSpeakers && cue.speaker) {
+			const name = escapeVTTText(options.getSpeakerName(cue.speaker).trim());
+			text = `<v ${name}>${text}</v>`;
+		}
+
+		vtt += `${index + 1}\n${formatVTTTime(cue.start)} --> ${formatVTTTime(cue.end)}\n${text}\n\n`;
+	});
+
+	return vtt;
+};
@@ -0,0 +1,51 @@
+export interface Tag {
+	id: string;
+	name: string;
+	color?: string;
+}
+
+// Colours a tag can have, in the order they're offered. The server accepts
+// the same names.
+export const TAG_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+// Spelled out so Tailwind keeps the classes
+const CHIP_CLASSES: Record<TagColor, string> = {
+	gray: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+	red: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+	orange: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+	amber: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+	green: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+	teal: 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300',
+	blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+	indigo: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-300',
+	purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+	pink: 'bg-pink-100 text-pink-800 dark:bg-pink-900/40 dark:text-pink-300',
+};
+
+const SWATCH_CLASSES: Record<TagColor, string> = {
+	gray: 'bg-gray-400',
+	red: 'bg-red-500',
+	orange: 'bg-orange-500',
+	amber: 'bg-amber-500',
+	green: 'bg-green-500',
+	teal: 'bg-teal-500',
+	blue: 'bg-blue-500',
+	indigo: 'bg-indigo-500',
+	purple: 'bg-purple-500',
+	pink: 'bg-pink-500',
+};
+
+const toColor = (color?: string): TagColor =>
+	TAG_COLORS.includes(color as TagColor) ? (color as TagColor) : 'gray';
+
+/**
+ * Background and text classes of a tag chip
+ */
+export const tagChipClass = (color?: string) => CHIP_CLASSES[toColor(color)];
+
+/**
+ * Background class of a solid dot in the tag's colour
+ */
+export const tagSwatchClass = (color?: string) => SWATCH_CLASSES[toColor(color)];
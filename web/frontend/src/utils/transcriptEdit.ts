@@ -0,0 +1,117 @@
+import type { Transcript, TranscriptSegment, WordSegment } from '../types/transcript';
+
+export interface EditableSegment {
+	start: number;
+	end: number;
+	speaker?: string;
+	text: string;
+	words: WordSegment[];
+}
+
+/**
+ * Splits a transcript into editable segments, giving each word to exactly one
+ * segment so the flattened word order (and every word index) is preserved
+ */
+export const toEditableSegments = (transcript: Transcript): EditableSegment[] => {
+	const segments = transcript.segments || [];
+	const words = transcript.word_segments || [];
+	const editable: EditableSegment[] = segments.map(segment => ({
+		start: segment.start,
+		end: segment.end,
+		speaker: segment.speaker,
+		text: segment.text.trim(),
+		words: [],
+	}));
+
+	if (editable.length === 0) return editable;
+
+	let segIndex = 0;
+	words.forEach(word => {
+		const mid = (word.start + word.end) / 2;
+		// Segments are ordered, so only ever move forward
+		while (segIndex < editable.length - 1 && mid > editable[segIndex].end && mid >= editable[segIndex + 1].start) {
+			segIndex++;
+		}
+		editable[segIndex].words.push({ ...word });
+	});
+
+	return editable;
+};
+
+/**
+ * Rebuilds a transcript from editable segments, keeping any extra top-level
+ * fields (language, etc.) from the original transcript
+ */
+export const fromEditableSegments = (original: Transcript, editable: EditableSegment[]): Transcript => {
+	const segments: TranscriptSegment[] = editable.map(segment => {
+		const text = segment.words.length > 0
+			? segment.words.map(w => w.word.trim()).filter(Boolean).join(' ')
+			: segment.text.trim();
+		const rebuilt: TranscriptSegment = { start: segment.start, end: segment.end, text };
+		if (segment.speaker) rebuilt.speaker = segment.speaker;
+		return rebuilt;
+	});
+
+	const hadWords = (original.word_segments?.length ?? 0) > 0;
+	const wordSegments: WordSegment[] = editable.flatMap(segment =>
+		segment.words.map(word => (segment.speaker ? { ...word, speaker: segment.speaker } : word)),
+	);
+
+	return {
+		...original,
+		text: segments.map(s => s.text).join(' '),
+		segments,
+		...(hadWords ? { word_segments: wordSegments } : {}),
+	};
+};
+
+/**
+ * Sets the text of a single word without touching its timing
+ */
+export const editWord = (editable: EditableSegment[], segIndex: number, wordIndex: number, text: string): EditableSegment[] => {
+	return editable.map((segment, i) => i !== segIndex ? segment : {
+		...segment,
+		words: segment.words.map((word, j) => (j === wordIndex ? { ...word, word: text } : word)),
+	});
+};
+
+/**
+ * Merges a segment with the one after it
+ */
+export const mergeWithNext = (editable: EditableSegment[], segIndex: number): EditableSegment[] => {
+	if (segIndex < 0 || segIndex >= editable.length - 1) return editable;
+	const current = editable[segIndex];
+	const next = editable[segIndex + 1];
+	const merged: EditableSegment = {
+		start: Math.min(current.start, next.start),
+		end: Math.max(current.end, next.end),
+		speaker: current.speaker,
+		text: `${current.text} ${next.text}`.trim(),
+		words: [...current.words, ...next.words],
+	};
+	return [...editable.slice(0, segIndex), merged, ...editable.slice(segIndex + 2)];
+};
+
+/**
+ * Splits a segment so that the word at wordIndex starts a new segment
+ */
+export const splitSegment = (editable: EditableSegment[], segIndex: number, wordIndex: number): EditableSegment[] => {
+	const segment = editable[segIndex];
+	if (!segment || wordIndex <= 0 || wordIndex >= segment.words.length) return editable;
+
+	const head = segment.words.slice(0, wordIndex);
+	const tail = segment.words.slice(wordIndex);
+	const first: EditableSegment = {
+		...segment,
+		end: head[head.length - 1].end,
+		text: head.map(w => w.word.trim()).join(' '),
+		words: head,
+	};
+	const second: EditableSegment = {
+		...segment,
+		start: tail[0].start,
+		text: tail.map(w => w.word.trim()).join(' '),
+		words: tail,
+	};
+	return [...editable.slice(0, segIndex), first, second, ...editable.slice(segIndex + 1)];
+};
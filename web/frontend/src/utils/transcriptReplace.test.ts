@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript } from '../types/transcript';
+import { DEFAULT_FIND_OPTIONS } from './transcriptSearch';
+import { applyReplacements, planReplacements } from './transcriptReplace';
+
+// Two segments by different speakers, one second per word
+const transcript = (first: string[], second: string[]): Transcript => {
+	const word_segments = [...first, ...second].map((word, i) => ({ word, start: i, end: i + 0.9, score: 0.9 }));
+	return {
+		text: [...first, ...second].join(' '),
+		segments: [
+			{ start: 0, end: first.length - 0.1, text: first.join(' '), speaker: 'SPEAKER_00' },
+			{ start: first.length, end: first.length + second.length - 0.1, text: second.join(' '), speaker: 'SPEAKER_01' },
+		],
+		word_segments,
+	};
+};
+
+const replaceAll = (source: Transcript, query: string, replacement: string, options = DEFAULT_FIND_OPTIONS, speaker?: string) =>
+	applyReplacements(source, planReplacements(source, query, replacement, options, speaker).replacements);
+
+describe('applyReplacements', () => {
+	it('replaces words in every segment', () => {
+		const result = replaceAll(transcript(['The', 'cat', 'sat.'], ['the', 'dog', 'ran.']), 'the', 'A');
+		expect(result.segments?.map(s => s.text)).toEqual(['A cat sat.', 'A dog ran.']);
+		expect(result.text).toBe('A cat sat. A dog ran.');
+	});
+
+	it('keeps the word count when a phrase becomes one word', () => {
+		const source = transcript(['New', 'York', 'is', 'big.'], ['Yes.']);
+		const result = replaceAll(source, 'New York', 'NYC');
+		expect(result.word_segments?.map(w => w.word)).toEqual(['NYC', '', 'is', 'big.', 'Yes.']);
+		expect(result.segments?.[0].text).toBe('NYC is big.');
+	});
+
+	it('folds extra words into the last word of the match', () => {
+		const result = replaceAll(transcript(['NYC', 'is', 'big.'], ['Yes.']), 'NYC', 'New York City');
+		expect(result.word_segments?.map(w => w.word)).toEqual(['New York City', 'is', 'big.', 'Yes.']);
+		expect(result.word_segments?.[0].start).toBe(0);
+	});
+
+	it('fills regex groups', () => {
+		const result = replaceAll(transcript(['Up', '50', 'pct'], ['ok']), '(\\d+) pct', '$1%', { ...DEFAULT_FIND_OPTIONS, regex: true });
+		expect(result.segments?.[0].text).toBe('Up 50%');
+	});
+
+	it('limits replacements to one speaker', () => {
+		const result = replaceAll(transcript(['Hi', 'there.'], ['Hi', 'back.']), 'Hi', 'Hello', DEFAULT_FIND_OPTIONS, 'SPEAKER_01');
+		expect(result.segments?.map(s => s.text)).toEqual(['Hi there.', 'Hello back.']);
+	});
+
+	it('rebuilds the text of a transcript without segments', () => {
+		const source: Transcript = {
+			text: 'one two',
+			word_segments: [
+				{ word: 'one', start: 0, end: 1, score: 1 },
+				{ word: 'two', start: 1, end: 2, score: 1 },
+			],
+		};
+		expect(replaceAll(source, 'two', '2').text).toBe('one 2');
+	});
+
+	it('returns the transcript unchanged when nothing matches', () => {
+		const source = transcript(['a'], ['b']);
+		expect(replaceAll(source, 'zzz', 'y')).toBe(source);
+	});
+});
@@ -0,0 +1,135 @@
+import type { Transcript, WordSegment } from '../types/transcript';
+import { fromEditableSegments, toEditableSegments } from './transcriptEdit';
+import { buildFindRegExp, findWordMatches, joinWords, type FindOptions, type WordMatch } from './transcriptSearch';
+
+export interface PlannedReplacement {
+	match: WordMatch;
+	speaker?: string;
+	replacement: string;
+	// Surrounding text shown in the preview
+	before: string;
+	after: string;
+}
+
+export interface ReplacementPlan {
+	replacements: PlannedReplacement[];
+	error?: string;
+}
+
+// Words of context on each side of a replacement in the preview
+const CONTEXT_WORDS = 6;
+
+/**
+ * Returns the speaker of every word, falling back to the segment's speaker
+ */
+export const getWordSpeakers = (transcript: Transcript): Array<string | undefined> => {
+	const editable = toEditableSegments(transcript);
+	if (editable.length === 0) return (transcript.word_segments || []).map(word => word.speaker);
+	return editable.flatMap(segment => segment.words.map(word => word.speaker || segment.speaker));
+};
+
+/**
+ * Returns the text around a match in the space-joined words, for previews
+ */
+export const getMatchContext = (
+	words: WordSegment[],
+	joined: { text: string; offsets: number[] },
+	match: WordMatch,
+): { before: string; after: string } => {
+	const { text, offsets } = joined;
+	const contextStart = offsets[Math.max(0, match.startWord - CONTEXT_WORDS)];
+	const lastContextWord = Math.min(words.length - 1, match.endWord + CONTEXT_WORDS);
+	const contextEnd = offsets[lastContextWord] + words[lastContextWord].word.trim().length;
+	return {
+		before: text.slice(contextStart, match.offset),
+		after: text.slice(match.offset + match.text.length, contextEnd),
+	};
+};
+
+/**
+ * Works out every replacement for a find query, optionally limited to one
+ * speaker. In regex mode the replacement can refer to groups ($1, $<name>).
+ */
+export const planReplacements = (
+	transcript: Transcript,
+	query: string,
+	replacement: string,
+	options: FindOptions,
+	speaker?: string,
+): ReplacementPlan => {
+	const words = transcript.word_segments || [];
+	const { matches, error } = findWordMatches(words, query, options);
+	if (error) return { replacements: [], error };
+
+	const regexp = options.regex ? buildFindRegExp(query, options) : null;
+	const single = regexp instanceof RegExp ? new RegExp(regexp.source, regexp.flags.replace('g', '')) : null;
+	const speakers = getWordSpeakers(transcript);
+	const joined = joinWords(words);
+
+	const replacements = matches
+		.filter(match => !speaker || speakers[match.startWord] === speaker)
+		.map(match => ({
+			match,
+			speaker: speakers[match.startWord],
+			replacement: single ? match.text.replace(single, replacement) : replacement,
+			...getMatchContext(words, joined, match),
+		}));
+
+	return { replacements };
+};
+
+/**
+ * Applies replacements to a transcript. The number of words never changes so
+ * note anchors (word indices) stay valid: extra words are folded into the last
+ * word of the match and missing ones are left empty.
+ */
+export const applyReplacements = (transcript: Transcript, replacements: PlannedReplacement[]): Transcript => {
+	const original = transcript.word_segments || [];
+	if (replacements.length === 0 || original.length === 0) return transcript;
+
+	const words = original.map(word => ({ ...word }));
+	const { text, offsets } = joinWords(original);
+	const sorted = [...replacements].sort((a, b) => a.match.offset - b.match.offset);
+
+	// Replacements that touch the same words are applied together
+	const groups: PlannedReplacement[][] = [];
+	sorted.forEach(replacement => {
+		const group = groups[groups.length - 1];
+		const groupEnd = group ? Math.max(...group.map(r => r.match.endWord)) : -1;
+		if (group && replacement.match.startWord <= groupEnd) {
+			group.push(replacement);
+		} else {
+			groups.push([replacement]);
+		}
+	});
+
+	groups.forEach(group => {
+		const firstWord = group[0].match.startWord;
+		const lastWord = Math.max(...group.map(r => r.match.endWord));
+		const rangeStart = offsets[firstWord];
+		const rangeEnd = offsets[lastWord] + original[lastWord].word.trim().length;
+
+		let rangeText = text.slice(rangeStart, rangeEnd);
+		// Apply from the end so earlier offsets stay valid
+		[...group].reverse().forEach(r => {
+			const at = r.match.offset - rangeStart;
+			rangeText = rangeText.slice(0, at) + r.replacement + rangeText.slice(at + r.match.text.length);
+		});
+
+		const tokens = rangeText.split(/\s+/).filter(Boolean);
+		for (let i = firstWord; i <= lastWord; i++) {
+			const tokenIndex = i - firstWord;
+			words[i].word = i < lastWord ? tokens[tokenIndex] ?? '' : tokens.slice(tokenIndex).join(' ');
+		}
+	});
+
+	if (!transcript.segments || transcript.segments.length === 0) {
+		return {
+			...transcript,
+			text: words.map(word => word.word.trim()).filter(Boolean).join(' '),
+			word_segments: words,
+		};
+	}
+
+	return fromEditableSegments(transcript, toEditableSegments({ ...transcript, word_segments: words }));
+};
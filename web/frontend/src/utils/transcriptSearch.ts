@@ -0,0 +1,111 @@
+import type { WordSegment } from '../types/transcript';
+
+export interface FindOptions {
+	caseSensitive: boolean;
+	wholeWord: boolean;
+	regex: boolean;
+}
+
+export interface WordMatch {
+	// Inclusive range of word_segments indices covered by the match
+	startWord: number;
+	endWord: number;
+	start: number;
+	end: number;
+	// Position and text of the match in the space-joined transcript words
+	offset: number;
+	text: string;
+}
+
+export interface FindResult {
+	matches: WordMatch[];
+	error?: string;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = {
+	caseSensitive: false,
+	wholeWord: false,
+	regex: false,
+};
+
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the regular expression for a find query, or returns an error
+ * message when the user's pattern is not a valid regex
+ */
+export const buildFindRegExp = (query: string, options: FindOptions): RegExp | string => {
+	let pattern = options.regex ? query : escapeRegExp(query);
+	if (options.wholeWord) {
+		// \b only knows ASCII, so use Unicode letter/number classes instead
+		pattern = `(?<![\\p{L}\\p{N}_])(?:${pattern})(?![\\p{L}\\p{N}_])`;
+	}
+	try {
+		return new RegExp(pattern, options.caseSensitive ? 'gu' : 'giu');
+	} catch (e) {
+		return e instanceof Error ? e.message : 'Invalid regular expression';
+	}
+};
+
+/**
+ * Joins transcript words with single spaces, returning the character offset
+ * at which each word starts
+ */
+export const joinWords = (words: WordSegment[]): { text: string; offsets: number[] } => {
+	const offsets: number[] = [];
+	let text = '';
+	words.forEach((word, i) => {
+		if (i > 0) text += ' ';
+		offsets.push(text.length);
+		text += word.word.trim();
+	});
+	return { text, offsets };
+};
+
+/**
+ * Finds every match of a query in the transcript words. Words are joined with
+ * single spaces, so phrases can span several words; each match is mapped back
+ * to the range of words it touches.
+ */
+export const findWordMatches = (words: WordSegment[], query: string, options: FindOptions): FindResult => {
+	if (!query || words.length === 0) return { matches: [] };
+
+	const regexp = buildFindRegExp(query, options);
+	if (typeof regexp === 'string') return { matches: [], error: regexp };
+
+	const { text, offsets } = joinWords(words);
+
+	// Index of the last word starting at or before the given character offset
+	const wordAt = (offset: number): number => {
+		let lo = 0;
+		let hi = offsets.length - 1;
+		while (lo < hi) {
+			const mid = Math.ceil((lo + hi) / 2);
+			if (offsets[mid] <= offset) lo = mid;
+			else hi = mid - 1;
+		}
+		return lo;
+	};
+
+	const matches: WordMatch[] = [];
+	for (const match of text.matchAll(regexp)) {
+		if (match[0].length === 0 || match.index === undefined) continue;
+		// Skip leading/trailing spaces so a match never starts or ends on a separator
+		const startOffset = match.index + (match[0].length - match[0].trimStart().length);
+		const endOffset = match.index + match[0].trimEnd().length - 1;
+		if (endOffset < startOffset) continue;
+
+		const startWord = wordAt(startOffset);
+		const endWord = wordAt(endOffset);
+		matches.push({
+			startWord,
+			endWord,
+			start: words[startWord].start,
+			end: words[endWord].end,
+			offset: startOffset,
+			text: text.slice(startOffset, endOffset + 1),
+		});
+	}
+
+	return { matches };
+};
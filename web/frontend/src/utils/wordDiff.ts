@@ -0,0 +1,137 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+	op: DiffOp;
+	text: string;
+}
+
+// Past this many edits a diff stops being useful to read, so the changed
+// middle is shown as one deletion and one insertion instead
+const MAX_EDIT_DISTANCE = 2000;
+
+const tokenize = (text: string): string[] => {
+	return text.split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Myers' O((N+M)D) diff over two word lists, returning one op per word
+ */
+const myersDiff = (a: string[], b: string[]): Array<[DiffOp, string]> | null => {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	// trace[d] holds the furthest x for each diagonal k in [-d, d] before step d
+	const trace: Int32Array[] = [];
+
+	let found = false;
+	for (let d = 0; d <= max && !found; d++) {
+		trace.push(v.slice(offset - d, offset + d + 1));
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+				? v[offset + k + 1]
+				: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+	}
+
+	if (!found) return null;
+
+	const ops: Array<[DiffOp, string]> = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d > 0; d--) {
+		const snapshot = trace[d];
+		const at = (k: number) => snapshot[k + d];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			ops.push(['equal', a[--x]]);
+			y--;
+		}
+		if (x === prevX) {
+			ops.push(['insert', b[--y]]);
+		} else {
+			ops.push(['delete', a[--x]]);
+		}
+	}
+	while (x > 0 && y > 0) {
+		ops.push(['equal', a[--x]]);
+		y--;
+	}
+
+	return ops.reverse();
+};
+
+/**
+ * Computes a word-level diff between two texts, grouping consecutive words
+ * with the same operation into a single part
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+	const a = tokenize(before);
+	const b = tokenize(after);
+
+	// Trim the common prefix and suffix so the diff only works on the changed middle
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+	const middle = myersDiff(middleA, middleB) ?? [
+		...middleA.map((word): [DiffOp, string] => ['delete', word]),
+		...middleB.map((word): [DiffOp, string] => ['insert', word]),
+	];
+
+	const ops: Array<[DiffOp, string]> = [
+		...a.slice(0, prefix).map((word): [DiffOp, string] => ['equal', word]),
+		...middle,
+		...a.slice(a.length - suffix).map((word): [DiffOp, string] => ['equal', word]),
+	];
+
+	const parts: DiffPart[] = [];
+	ops.forEach(([op, word]) => {
+		const last = parts[parts.length - 1];
+		if (last && last.op === op) {
+			last.text += ` ${word}`;
+		} else {
+			parts.push({ op, text: word });
+		}
+	});
+	return parts;
+};
+
+/**
+ * Counts the inserted and deleted words in a diff
+ */
+export const countDiffWords = (parts: DiffPart[]): { inserted: number; deleted: number } => {
+	return parts.reduce(
+		(counts, part) => {
+			const words = tokenize(part.text).length;
+			if (part.op === 'insert') counts.inserted += words;
+			if (part.op === 'delete') counts.deleted += words;
+			return counts;
+		},
+		{ inserted: 0, deleted: 0 },
+	);
+};
@@ -0,0 +1,116 @@
+export interface ZipEntry {
+	name: string;
+	content: string | Uint8Array;
+	modified?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+	if (crcTable) return crcTable;
+	crcTable = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		crcTable[n] = c >>> 0;
+	}
+	return crcTable;
+};
+
+const crc32 = (data: Uint8Array): number => {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time as stored in ZIP headers (two-second precision)
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+	time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+	date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Packs files into an uncompressed ZIP archive. Transcripts are small text
+ * files, so storing them keeps this dependency-free without a real cost.
+ */
+export const buildZip = (entries: ZipEntry[]): Blob => {
+	const encoder = new TextEncoder();
+	const parts: Uint8Array[] = [];
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	entries.forEach(entry => {
+		const name = encoder.encode(entry.name);
+		const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+		const crc = crc32(data);
+		const { time, date } = toDosDateTime(entry.modified || new Date());
+
+		// Local file header; flag bit 11 marks the name as UTF-8
+		const local = new Uint8Array(30 + name.length);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(4, 20, true);
+		lv.setUint16(6, 0x0800, true);
+		lv.setUint16(8, 0, true);
+		lv.setUint16(10, time, true);
+		lv.setUint16(12, date, true);
+		lv.setUint32(14, crc, true);
+		lv.setUint32(18, data.length, true);
+		lv.setUint32(22, data.length, true);
+		lv.setUint16(26, name.length, true);
+		lv.setUint16(28, 0, true);
+		local.set(name, 30);
+
+		const header = new Uint8Array(46 + name.length);
+		const cv = new DataView(header.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(4, 20, true);
+		cv.setUint16(6, 20, true);
+		cv.setUint16(8, 0x0800, true);
+		cv.setUint16(10, 0, true);
+		cv.setUint16(12, time, true);
+		cv.setUint16(14, date, true);
+		cv.setUint32(16, crc, true);
+		cv.setUint32(20, data.length, true);
+		cv.setUint32(24, data.length, true);
+		cv.setUint16(28, name.length, true);
+		cv.setUint32(42, offset, true);
+		header.set(name, 46);
+
+		parts.push(local, data);
+		central.push(header);
+		offset += local.length + data.length;
+	});
+
+	const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+	const end = new Uint8Array(22);
+	const ev = new DataView(end.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(8, entries.length, true);
+	ev.setUint16(10, entries.length, true);
+	ev.setUint32(12, centralSize, true);
+	ev.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' });
+};
+
+/**
+ * Makes names unique within an archive by appending " (2)", " (3)"... before
+ * the extension
+ */
+export const uniqueFileName = (name: string, used: Set<string>): string => {
+	const dot = name.lastIndexOf('.');
+	const base = dot > 0 ? name.slice(0, dot) : name;
+	const ext = dot > 0 ? name.slice(dot) : '';
+	let candidate = name;
+	for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+		candidate = `${base} (${n})${ext}`;
+	}
+	used.add(candidate.toLowerCase());
+	return candidate;
+};